@@ -1,4 +1,4 @@
-import React, { useState, useEffect, Suspense, lazy } from "react";
+import React, { useState, useEffect, useMemo, Suspense, lazy } from "react";
 import { Routes, Route, useParams, useNavigate, Navigate, useLocation } from "react-router-dom";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { TooltipProvider } from "@/components/ui/tooltip";
@@ -10,14 +10,26 @@ import {
 import { PhotoProvider, usePhotos } from "./contexts/PhotoContext";
 import LoginForm from "./components/LoginForm";
 import { Button } from "@/components/ui/button";
-import { LogOut, Upload, ArrowLeft, Menu, Bell, Settings as SettingsIcon } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { LogOut, Upload, ArrowLeft, Menu, Bell, Settings as SettingsIcon, ClipboardCheck, Sparkles } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import LoadingOverlay from "./components/LoadingOverlay";
 import InitialSetup from "@/components/InitialSetup";
+import type { ReviewerPick } from "./components/PhotoGallery";
 
 // Lazy load heavy components
 const PhotoGallery = lazy(() => import("./components/PhotoGallery"));
 const PhotoUpload = lazy(() => import("./components/PhotoUpload"));
+const ProofingRoundsDialog = lazy(
+  () => import("./components/ProofingRoundsDialog"),
+);
+const FinalsDialog = lazy(() => import("./components/FinalsDialog"));
 const CollapsibleSelectionPanel = lazy(
   () => import("./components/CollapsibleSelectionPanel"),
 );
@@ -32,11 +44,15 @@ const LightboxPage = lazy(() => import("./components/LightboxPage"));
 const Settings = lazy(() => import("./components/Settings"));
 const ForgotPassword = lazy(() => import("./components/ForgotPassword"));
 const ResetPassword = lazy(() => import("./components/ResetPassword"));
+const AcceptInvite = lazy(() => import("./components/AcceptInvite"));
 const GalleryNotFound = lazy(() => import("./components/GalleryNotFound"));
 const AssignmentsPage = lazy(() => import("./components/AssignmentsPage"));
+const TrashPage = lazy(() => import("./components/TrashPage"));
+const ClientPortal = lazy(() => import("./components/ClientPortal"));
 
 // New component for public lightbox page
 const PublicLightboxPage = lazy(() => import("./components/PublicLightboxPage"));
+const ShareLinkPage = lazy(() => import("./components/ShareLinkPage"));
 
 interface Photo {
   id: string;
@@ -63,7 +79,13 @@ interface FilterState {
 }
 
 // Wrapper to ensure auth context is ready
-function AuthWrapper({ children }: { children: React.ReactNode }) {
+function AuthWrapper({
+  children,
+  clientArea = false,
+}: {
+  children: React.ReactNode;
+  clientArea?: boolean;
+}) {
   const { user, isAuthenticated } = useAuth();
   const [isInitialized, setIsInitialized] = useState(false);
 
@@ -87,6 +109,11 @@ function AuthWrapper({ children }: { children: React.ReactNode }) {
     return <LoginForm />;
   }
 
+  // Clients only have the portal, everyone else the management area
+  if ((user?.role === "Client") !== clientArea) {
+    return <Navigate to={clientArea ? "/galleries" : "/portal"} replace />;
+  }
+
   return <>{children}</>;
 }
 
@@ -129,6 +156,33 @@ function GalleriesOverview() {
   );
 }
 
+// Component for showing the client portal
+function ClientPortalView() {
+  const navigate = useNavigate();
+  const [showSettings, setShowSettings] = useState(false);
+
+  return (
+    <AuthWrapper clientArea>
+      <Suspense
+        fallback={
+          <div className="flex justify-center items-center h-screen">
+            <p>Lädt Gallerien...</p>
+          </div>
+        }
+      >
+        {showSettings ? (
+          <Settings onBack={() => setShowSettings(false)} />
+        ) : (
+          <ClientPortal
+            onSelectGallery={(galleryId) => navigate(`/gallery/${galleryId}`)}
+            onOpenSettings={() => setShowSettings(true)}
+          />
+        )}
+      </Suspense>
+    </AuthWrapper>
+  );
+}
+
 // Component for showing individual gallery
 function GalleryView() {
   const { galleryId: currentGalleryId, parentId, grandParentId } = useParams<{
@@ -173,6 +227,12 @@ function GalleryView() {
     retry: false, // Don't retry on error
   });
 
+  // Level of the gallery assignment, owners and admins always get "manage"
+  const galleryPermission = currentGalleryData?.permission;
+  const canUploadPhotos =
+    galleryPermission === "upload" || galleryPermission === "manage";
+  const canManageGallery = galleryPermission === "manage";
+
   const [filters, setFilters] = useState<FilterState>({
     showOnlyLiked: false,
     showOnlyRated: false,
@@ -180,6 +240,10 @@ function GalleryView() {
     maxStars: 5,
   });
   const [showUploadDialog, setShowUploadDialog] = useState(false);
+  const [showProofingDialog, setShowProofingDialog] = useState(false);
+  const [showFinalsDialog, setShowFinalsDialog] = useState(false);
+  // "own" = eigene Bewertungen, "merged" = alle Besucher, sonst Besucher-ID
+  const [reviewerView, setReviewerView] = useState<string>("own");
   const [selectedGalleryId, setSelectedGalleryId] = useState<string | null>(
     null,
   );
@@ -208,20 +272,94 @@ function GalleryView() {
       }
       return response.json();
     },
+    // Keep polling while thumbnails are still generated in the background,
+    // otherwise renew the signed image URLs well before they expire
+    refetchInterval: (query) =>
+      Array.isArray(query.state.data) &&
+      query.state.data.some((photo: any) => photo.processingStatus === "processing")
+        ? 3000
+        : 30 * 60 * 1000,
   });
 
+  // Bewertungen, Likes und Auswahl der Besucher öffentlicher Galerien
+  const { data: visitorPicksData } = useQuery<{
+    visitors: { id: string; name: string }[];
+    picks: {
+      visitorId: string;
+      photoId: string;
+      rating: number;
+      isLiked: boolean;
+      isSelected: boolean;
+    }[];
+  }>({
+    queryKey: ["/api/galleries", currentGalleryId, "visitor-picks"],
+    enabled:
+      !!currentGalleryId &&
+      (user?.role === "Admin" || user?.role === "Creator"),
+    queryFn: async () => {
+      const token = localStorage.getItem('authToken');
+      const response = await fetch(
+        `/api/galleries/${currentGalleryId}/visitor-picks`,
+        {
+          credentials: 'include',
+          headers: {
+            ...(token && { 'Authorization': `Bearer ${token}` })
+          }
+        }
+      );
+      if (!response.ok) {
+        throw new Error("Failed to fetch visitor picks");
+      }
+      return response.json();
+    },
+  });
+  const visitors = visitorPicksData?.visitors || [];
+
+  // Zusammengeführt: höchste Bewertung, Like wenn einer liked, alle Auswählenden
+  const reviewerPicks = useMemo(() => {
+    if (reviewerView === "own" || !visitorPicksData) return undefined;
+
+    const visitorNames = new Map(
+      visitorPicksData.visitors.map((visitor) => [visitor.id, visitor.name]),
+    );
+    const result: Record<string, ReviewerPick> = {};
+    for (const pick of visitorPicksData.picks) {
+      if (reviewerView !== "merged" && pick.visitorId !== reviewerView) continue;
+
+      const current = result[pick.photoId] || {
+        rating: 0,
+        isLiked: false,
+        selectedBy: [],
+      };
+      result[pick.photoId] = {
+        rating: Math.max(current.rating, pick.rating),
+        isLiked: current.isLiked || pick.isLiked,
+        selectedBy: pick.isSelected
+          ? [...current.selectedBy, visitorNames.get(pick.visitorId) || "Unbekannt"]
+          : current.selectedBy,
+      };
+    }
+    return result;
+  }, [reviewerView, visitorPicksData]);
+
+  // Beim Galeriewechsel wieder die eigenen Bewertungen anzeigen
+  useEffect(() => {
+    setReviewerView("own");
+  }, [currentGalleryId]);
+
   useEffect(() => {
     if (!backendPhotos || backendPhotos.length === 0) return; // Kein Overwrite bei leerem Backend
 
     // Backend Photos transformieren
     const transformedBackendPhotos = backendPhotos.map((photo: any) => ({
       id: photo.id,
-      src: `/${photo.thumbnailPath || photo.filePath}`,
-      mediumSrc: photo.mediumPath ? `/${photo.mediumPath}` : undefined,
-      originalSrc: photo.filePath ? `/${photo.filePath}` : undefined,
+      src: photo.thumbnailUrl || photo.originalUrl,
+      mediumSrc: photo.mediumUrl || undefined,
+      originalSrc: photo.originalUrl || undefined,
       alt: photo.alt,
       rating: photo.rating || 0,
       isLiked: photo.isLiked || false,
+      processingStatus: photo.processingStatus,
       comments:
         photo.comments?.map((comment: any) => ({
           id: comment.id,
@@ -233,11 +371,9 @@ function GalleryView() {
         })) || [],
     }));
 
-    // Photo-IDs vergleichen
-    const currentPhotoIds = sharedPhotos.map((photo) => photo.id).sort();
-    const backendPhotoIds = transformedBackendPhotos
-      .map((photo) => photo.id)
-      .sort();
+    // Photo-IDs und Reihenfolge vergleichen
+    const currentPhotoIds = sharedPhotos.map((photo) => photo.id);
+    const backendPhotoIds = transformedBackendPhotos.map((photo) => photo.id);
     const photosChanged =
       currentPhotoIds.length !== backendPhotoIds.length ||
       !currentPhotoIds.every((id, index) => id === backendPhotoIds[index]);
@@ -245,6 +381,38 @@ function GalleryView() {
     // Nur wenn Context leer oder IDs anders sind, setzen!
     if (sharedPhotos.length === 0 || photosChanged) {
       setSharedPhotos(transformedBackendPhotos);
+      return;
+    }
+
+    // Fertig verarbeitete Fotos übernehmen (neue Thumbnails, Status) und
+    // signierte Bild-URLs erneuern, bevor sie ablaufen
+    const processedPhotos = new Map<string, any>(
+      transformedBackendPhotos
+        .filter((photo: any) => {
+          const current = sharedPhotos.find((p) => p.id === photo.id);
+          return (
+            current &&
+            (current.processingStatus !== photo.processingStatus ||
+              current.src !== photo.src)
+          );
+        })
+        .map((photo: any) => [photo.id, photo]),
+    );
+    if (processedPhotos.size > 0) {
+      setSharedPhotos(
+        sharedPhotos.map((photo) => {
+          const processed = processedPhotos.get(photo.id);
+          return processed
+            ? {
+                ...photo,
+                src: processed.src,
+                mediumSrc: processed.mediumSrc,
+                originalSrc: processed.originalSrc,
+                processingStatus: processed.processingStatus,
+              }
+            : photo;
+        }),
+      );
     }
     // sharedPhotos bleibt im Dependency Array absichtlich draußen!
   }, [backendPhotos, setSharedPhotos]);
@@ -252,12 +420,13 @@ function GalleryView() {
   // Transform backend photos for context
   const transformedBackendPhotos = backendPhotos.map((photo: any) => ({
     id: photo.id,
-    src: `/${photo.thumbnailPath || photo.filePath}`,
-    mediumSrc: photo.mediumPath ? `/${photo.mediumPath}` : undefined,
-    originalSrc: photo.filePath ? `/${photo.filePath}` : undefined,
+    src: photo.thumbnailUrl || photo.originalUrl,
+    mediumSrc: photo.mediumUrl || undefined,
+    originalSrc: photo.originalUrl || undefined,
     alt: photo.alt,
     rating: photo.rating || 0,
     isLiked: photo.isLiked || false,
+    processingStatus: photo.processingStatus,
     comments:
       photo.comments?.map((comment: any) => ({
         id: comment.id,
@@ -434,6 +603,75 @@ function GalleryView() {
     }
   };
 
+  const handleSortModeChange = async (sortMode: string) => {
+    if (!currentGalleryId) return;
+
+    try {
+      const token = localStorage.getItem('authToken');
+      const response = await fetch(`/api/galleries/${currentGalleryId}/sort-mode`, {
+        method: "PATCH",
+        credentials: 'include',
+        headers: {
+          "Content-Type": "application/json",
+          ...(token && { 'Authorization': `Bearer ${token}` })
+        },
+        body: JSON.stringify({ sortMode }),
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to update sort mode");
+      }
+
+      queryClient.invalidateQueries({ queryKey: ["gallery", currentGalleryId] });
+      refetch();
+    } catch (error) {
+      toast({
+        title: "Fehler",
+        description: "Die Sortierung konnte nicht geändert werden.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleReorderPhotos = async (photoIds: string[]) => {
+    if (!currentGalleryId) return;
+
+    // Neue Reihenfolge sofort anzeigen
+    const photosById = new Map(sharedPhotos.map((photo) => [photo.id, photo]));
+    setSharedPhotos(
+      photoIds
+        .map((id) => photosById.get(id))
+        .filter((photo): photo is NonNullable<typeof photo> => !!photo),
+    );
+
+    try {
+      const token = localStorage.getItem('authToken');
+      const response = await fetch(`/api/galleries/${currentGalleryId}/photos/order`, {
+        method: "PUT",
+        credentials: 'include',
+        headers: {
+          "Content-Type": "application/json",
+          ...(token && { 'Authorization': `Bearer ${token}` })
+        },
+        body: JSON.stringify({ photoIds }),
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to reorder photos");
+      }
+
+      // Die Galerie ist jetzt manuell sortiert
+      queryClient.invalidateQueries({ queryKey: ["gallery", currentGalleryId] });
+    } catch (error) {
+      toast({
+        title: "Fehler",
+        description: "Die neue Reihenfolge konnte nicht gespeichert werden.",
+        variant: "destructive",
+      });
+      refetch();
+    }
+  };
+
   const handleDeleteSelectedPhotos = async () => {
     const photoIds = Array.from(selectedPhotoIds);
 
@@ -469,12 +707,13 @@ function GalleryView() {
               const backendPhotos = await photosResponse.json();
               const transformedPhotos = backendPhotos.map((photo: any) => ({
                 id: photo.id,
-                src: `/${photo.thumbnailPath || photo.filePath}`,
-                mediumSrc: photo.mediumPath ? `/${photo.mediumPath}` : undefined,
-                originalSrc: photo.filePath ? `/${photo.filePath}` : undefined,
+                src: photo.thumbnailUrl || photo.originalUrl,
+                mediumSrc: photo.mediumUrl || undefined,
+                originalSrc: photo.originalUrl || undefined,
                 alt: photo.alt,
                 rating: photo.rating || 0,
                 isLiked: photo.isLiked || false,
+                processingStatus: photo.processingStatus,
                 comments:
                   photo.comments?.map((comment: any) => ({
                     id: comment.id,
@@ -494,7 +733,7 @@ function GalleryView() {
 
         toast({
           title: "Fotos gelöscht",
-          description: `${result.deleted?.length || 0} Foto${result.deleted?.length > 1 ? "s" : ""} erfolgreich gelöscht`,
+          description: `${result.deleted?.length || 0} Foto${result.deleted?.length > 1 ? "s" : ""} in den Papierkorb verschoben`,
         });
       } else {
         console.error("Failed to delete photos");
@@ -776,7 +1015,57 @@ function GalleryView() {
                 <Breadcrumb items={getBreadcrumbItems()} />
               </div>
               <div className="flex items-center space-x-2">
-                {(user?.role === "Admin" || user?.role === "Creator") && (
+                {visitors.length > 0 && (
+                  <Select value={reviewerView} onValueChange={setReviewerView}>
+                    <SelectTrigger className="w-48" data-testid="select-reviewer-view">
+                      <SelectValue placeholder="Bewertungen" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="own">Eigene Bewertungen</SelectItem>
+                      <SelectItem value="merged">Alle Besucher</SelectItem>
+                      {visitors.map((visitor) => (
+                        <SelectItem key={visitor.id} value={visitor.id}>
+                          {visitor.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                {canManageGallery && (
+                  <Select
+                    value={currentGalleryData?.sortMode || "uploadedAt"}
+                    onValueChange={handleSortModeChange}
+                  >
+                    <SelectTrigger className="w-44" data-testid="select-photo-sort-mode">
+                      <SelectValue placeholder="Sortierung" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="capturedAt">Aufnahmezeit</SelectItem>
+                      <SelectItem value="filename">Dateiname</SelectItem>
+                      <SelectItem value="uploadedAt">Upload-Zeit</SelectItem>
+                      <SelectItem value="manual">Manuell</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+                <Button
+                  variant="outline"
+                  onClick={() => setShowProofingDialog(true)}
+                  data-testid="button-proofing-rounds"
+                >
+                  <ClipboardCheck className="w-4 h-4 mr-2" />
+                  Auswahlrunden
+                </Button>
+                {canUploadPhotos && (
+                  <Button
+                    variant="outline"
+                    onClick={() => setShowFinalsDialog(true)}
+                    data-testid="button-finals"
+                  >
+                    <Sparkles className="w-4 h-4 mr-2" />
+                    Finale Bilder
+                  </Button>
+                )}
+                {canUploadPhotos && (
                   <Button
                     onClick={() => setShowUploadDialog(true)}
                     className="btn-green"
@@ -844,6 +1133,8 @@ function GalleryView() {
               selectedPhotoIds={selectedPhotoIds}
               onToggleSelection={handleToggleSelection}
               onPhotosChange={handlePhotosChange}
+              onReorder={canManageGallery ? handleReorderPhotos : undefined}
+              reviewerPicks={reviewerPicks}
               filters={filters}
               galleryContext={{
                 currentGallery: getCurrentGalleryName(),
@@ -857,6 +1148,36 @@ function GalleryView() {
             />
           </div>
 
+          {/* Proofing Rounds Dialog */}
+          {showProofingDialog && (
+            <ProofingRoundsDialog
+              isOpen={showProofingDialog}
+              onClose={() => setShowProofingDialog(false)}
+              galleryId={currentGalleryId}
+              photos={sharedPhotos}
+              onApplySelection={(photoIds) => {
+                setSelectedPhotoIds(new Set(photoIds));
+                setShowProofingDialog(false);
+                toast({
+                  title: "Auswahl übernommen",
+                  description: `${photoIds.length} Foto${photoIds.length !== 1 ? "s" : ""} ausgewählt`,
+                });
+              }}
+              canManage={canManageGallery}
+            />
+          )}
+
+          {/* Finals Dialog */}
+          {showFinalsDialog && (
+            <FinalsDialog
+              isOpen={showFinalsDialog}
+              onClose={() => setShowFinalsDialog(false)}
+              galleryId={currentGalleryId}
+              photos={sharedPhotos}
+              canManage={canManageGallery}
+            />
+          )}
+
           {/* Upload Dialog */}
           <PhotoUpload
             isOpen={showUploadDialog}
@@ -940,6 +1261,8 @@ function App() {
             </NotificationProvider>
           }
         />
+        {/* Share link - stores the link and redirects to its gallery */}
+        <Route path="/s/:token" element={<ShareLinkPage />} />
         {/* Main authenticated app - wrapped with AuthProvider */}
         <Route
           path="/*"
@@ -953,7 +1276,9 @@ function App() {
                     <Route path="/login" element={<LoginForm />} />
                     <Route path="/forgot-password" element={<ForgotPassword />} />
                     <Route path="/reset-password" element={<ResetPassword />} />
+                    <Route path="/accept-invite" element={<AcceptInvite />} />
                     <Route path="/galleries" element={<GalleriesOverview />} />
+                    <Route path="/portal" element={<ClientPortalView />} />
                     <Route path="/assignments" element={
                       <Suspense fallback={
                         <div className="flex justify-center items-center h-screen">
@@ -963,6 +1288,15 @@ function App() {
                         <AssignmentsPage />
                       </Suspense>
                     } />
+                    <Route path="/trash" element={
+                      <Suspense fallback={
+                        <div className="flex justify-center items-center h-screen">
+                          <p>Lädt...</p>
+                        </div>
+                      }>
+                        <TrashPage />
+                      </Suspense>
+                    } />
                     <Route
                       path="/galleries/:galleryId"
                       element={<GalleryView />}
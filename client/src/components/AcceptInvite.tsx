@@ -0,0 +1,179 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { Eye, EyeOff } from "lucide-react";
+
+interface Invitation {
+  name: string;
+  email: string;
+}
+
+export default function AcceptInvite() {
+  const [token, setToken] = useState("");
+  const [invitation, setInvitation] = useState<Invitation | null>(null);
+  const [loadError, setLoadError] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [showPassword, setShowPassword] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    // Token aus URL extrahieren
+    const urlToken = new URLSearchParams(window.location.search).get("token");
+    if (!urlToken) {
+      setLoadError("Ungültiger Einladungslink");
+      return;
+    }
+    setToken(urlToken);
+
+    fetch(`/api/auth/invitation?token=${encodeURIComponent(urlToken)}`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (response.ok) {
+          setInvitation(data);
+        } else {
+          setLoadError(data.error || "Ungültiger Einladungslink");
+        }
+      })
+      .catch(() => setLoadError("Ein Fehler ist aufgetreten"));
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (password !== confirmPassword) {
+      toast({
+        variant: "destructive",
+        title: "Fehler",
+        description: "Passwörter stimmen nicht überein",
+      });
+      return;
+    }
+
+    if (password.length < 6) {
+      toast({
+        variant: "destructive",
+        title: "Fehler",
+        description: "Passwort muss mindestens 6 Zeichen lang sein",
+      });
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const response = await fetch("/api/auth/accept-invitation", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ token, password }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        toast({
+          title: "Erfolg",
+          description: "Dein Konto wurde erstellt. Du kannst dich jetzt anmelden.",
+        });
+        setTimeout(() => {
+          window.location.href = "/login";
+        }, 2000);
+      } else {
+        toast({
+          variant: "destructive",
+          title: "Fehler",
+          description: data.error || "Ein Fehler ist aufgetreten",
+        });
+      }
+    } catch (err) {
+      toast({
+        variant: "destructive",
+        title: "Fehler",
+        description: "Ein Fehler ist aufgetreten",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (loadError || !invitation) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-6">
+        <Card className="w-full max-w-md">
+          <CardContent className="pt-6">
+            <p className={`text-center ${loadError ? "text-destructive" : "text-muted-foreground"}`}>
+              {loadError || "Einladung wird geladen..."}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-6">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="text-2xl text-center">Willkommen, {invitation.name}</CardTitle>
+          <CardDescription className="text-center">
+            Lege ein Passwort für dein Konto ({invitation.email}) fest
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="invite-password">Passwort</Label>
+              <div className="relative">
+                <Input
+                  id="invite-password"
+                  type={showPassword ? "text" : "password"}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  className="pr-10"
+                  data-testid="input-invite-password"
+                />
+                <button
+                  type="button"
+                  className="absolute right-3 top-1/2 transform -translate-y-1/2 text-muted-foreground hover:text-foreground transition-colors"
+                  onClick={() => setShowPassword(!showPassword)}
+                >
+                  {showPassword ? (
+                    <EyeOff className="h-4 w-4" />
+                  ) : (
+                    <Eye className="h-4 w-4" />
+                  )}
+                </button>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invite-confirm-password">Passwort bestätigen</Label>
+              <Input
+                id="invite-confirm-password"
+                type={showPassword ? "text" : "password"}
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                required
+                data-testid="input-invite-confirm-password"
+              />
+            </div>
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={isLoading}
+              data-testid="button-accept-invite"
+            >
+              {isLoading ? "Wird erstellt..." : "Konto erstellen"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy, KeyRound, Trash2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type ApiTokenScope = "read" | "upload" | "manage";
+
+interface ApiToken {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: ApiTokenScope[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  createdAt: string;
+  isExpired: boolean;
+}
+
+const SCOPE_LABELS: Record<ApiTokenScope, string> = {
+  read: "Galerien lesen",
+  upload: "Hochladen",
+  manage: "Verwalten",
+};
+
+const EXPIRY_OPTIONS = [
+  { value: "30", label: "30 Tage" },
+  { value: "90", label: "90 Tage" },
+  { value: "365", label: "1 Jahr" },
+  { value: "never", label: "Unbegrenzt" },
+];
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString("de-DE", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+// Account tab: personal access tokens for scripts, the token is only shown
+// once right after it was created
+export default function ApiTokensSettings() {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(["read"]);
+  const [expiry, setExpiry] = useState("90");
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+  const queryKey = ["/api/auth/api-tokens"];
+  const { data: apiTokens = [] } = useQuery<ApiToken[]>({
+    queryKey,
+    queryFn: () => apiRequest("GET", "/api/auth/api-tokens"),
+  });
+
+  const createTokenMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/auth/api-tokens", {
+        name,
+        scopes,
+        expiresInDays: expiry === "never" ? null : parseInt(expiry, 10),
+      });
+    },
+    onSuccess: (data: ApiToken & { token: string }) => {
+      setCreatedToken(data.token);
+      setName("");
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: () => {
+      toast({
+        title: "Fehler",
+        description: "Das API-Token konnte nicht erstellt werden.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeTokenMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/auth/api-tokens/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Erfolg",
+        description: "Das API-Token wurde widerrufen.",
+      });
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: () => {
+      toast({
+        title: "Fehler",
+        description: "Das API-Token konnte nicht widerrufen werden.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setScopes((current) =>
+      checked ? [...current, scope] : current.filter((s) => s !== scope)
+    );
+  };
+
+  const handleCopyToken = async () => {
+    if (!createdToken) return;
+    await navigator.clipboard.writeText(createdToken);
+    toast({
+      title: "Erfolg",
+      description: "Das Token wurde in die Zwischenablage kopiert.",
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>API-Tokens</CardTitle>
+        <CardDescription>
+          Persönliche Zugangstokens für Skripte und Automatisierungen, gesendet als
+          „Authorization: Bearer …“
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {createdToken && (
+          <div className="border rounded-md p-3 space-y-2 bg-muted/50" data-testid="created-api-token">
+            <p className="text-sm font-medium">
+              Kopiere das Token jetzt - es wird nicht noch einmal angezeigt.
+            </p>
+            <div className="flex gap-2">
+              <Input value={createdToken} readOnly className="font-mono text-xs" />
+              <Button
+                type="button"
+                variant="outline"
+                size="icon"
+                onClick={handleCopyToken}
+                title="Token kopieren"
+                data-testid="button-copy-api-token"
+              >
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <Button type="button" variant="ghost" size="sm" onClick={() => setCreatedToken(null)}>
+              Fertig
+            </Button>
+          </div>
+        )}
+
+        <form
+          className="space-y-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            createTokenMutation.mutate();
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="api-token-name">Name</Label>
+            <Input
+              id="api-token-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="z.B. Import Culling-Rechner"
+              data-testid="input-api-token-name"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Berechtigungen</Label>
+            <div className="flex flex-wrap gap-4">
+              {(Object.keys(SCOPE_LABELS) as ApiTokenScope[]).map((scope) => (
+                <label key={scope} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={scopes.includes(scope)}
+                    onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                    data-testid={`checkbox-api-token-scope-${scope}`}
+                  />
+                  {SCOPE_LABELS[scope]}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Gültigkeit</Label>
+            <Select value={expiry} onValueChange={setExpiry}>
+              <SelectTrigger className="w-48" data-testid="select-api-token-expiry">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            type="submit"
+            disabled={!name.trim() || scopes.length === 0 || createTokenMutation.isPending}
+            data-testid="button-create-api-token"
+          >
+            Token erstellen
+          </Button>
+        </form>
+
+        {apiTokens.map((apiToken) => (
+          <div
+            key={apiToken.id}
+            className="flex items-start justify-between gap-2 border rounded-md p-3"
+            data-testid={`api-token-${apiToken.id}`}
+          >
+            <div className="flex min-w-0 gap-3">
+              <KeyRound className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+              <div className="min-w-0 space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium text-sm truncate">{apiToken.name}</span>
+                  <code className="text-xs text-muted-foreground">{apiToken.tokenPrefix}…</code>
+                  {apiToken.isExpired && <Badge variant="destructive">Abgelaufen</Badge>}
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {apiToken.scopes.map((scope) => (
+                    <Badge key={scope} variant="secondary">
+                      {SCOPE_LABELS[scope] || scope}
+                    </Badge>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {apiToken.lastUsedAt
+                    ? `Zuletzt verwendet ${formatDate(apiToken.lastUsedAt)}${apiToken.lastUsedIp ? ` · ${apiToken.lastUsedIp}` : ""}`
+                    : "Noch nie verwendet"}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Erstellt {formatDate(apiToken.createdAt)} ·{" "}
+                  {apiToken.expiresAt ? `gültig bis ${formatDate(apiToken.expiresAt)}` : "unbegrenzt gültig"}
+                </p>
+              </div>
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 shrink-0"
+              onClick={() => revokeTokenMutation.mutate(apiToken.id)}
+              disabled={revokeTokenMutation.isPending}
+              title="Token widerrufen"
+              data-testid={`button-revoke-api-token-${apiToken.id}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
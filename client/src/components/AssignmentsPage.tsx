@@ -8,6 +8,7 @@ import { useAuth } from "@/contexts/AuthContext";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import ThemeToggle from "./ThemeToggle";
 import NotificationBell from "./NotificationBell";
 import { useToast } from "@/hooks/use-toast";
@@ -23,6 +24,16 @@ interface UserAssignment {
   }[];
 }
 
+type GalleryPermission = "view" | "comment" | "upload" | "manage";
+
+// Each level includes the previous ones
+const PERMISSION_LABELS: Record<GalleryPermission, string> = {
+  view: "Ansehen",
+  comment: "Kommentieren & Bewerten",
+  upload: "Hochladen",
+  manage: "Verwalten",
+};
+
 export default function AssignmentsPage() {
   const { user, logout } = useAuth();
   const navigate = useNavigate();
@@ -179,6 +190,45 @@ export default function AssignmentsPage() {
     },
   });
 
+  // Change permission level mutation
+  const updatePermissionMutation = useMutation({
+    mutationFn: async ({ galleryId, userId, permission }: { galleryId: string; userId: string; permission: GalleryPermission }) => {
+      const token = localStorage.getItem('authToken');
+      const response = await fetch(`/api/galleries/${galleryId}/assignments/${userId}`, {
+        method: 'PATCH',
+        credentials: 'include',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token && { 'Authorization': `Bearer ${token}` })
+        },
+        body: JSON.stringify({ permission })
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Unbekannter Fehler' }));
+        throw new Error(errorData.error || 'Fehler beim Ändern der Berechtigung');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      refetchAssignments();
+      toast({
+        title: "Berechtigung geändert",
+        description: "Die Berechtigung wurde erfolgreich geändert.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Fehler",
+        description: error.message || "Die Berechtigung konnte nicht geändert werden.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getAssignmentPermission = (galleryId: string): GalleryPermission =>
+    allAssignments.find((a: any) => a.userId === selectedUserId && a.galleryId === galleryId)
+      ?.permission || "comment";
+
   const handleToggleGalleryAssignment = async (galleryId: string) => {
     if (!selectedUserId) return;
 
@@ -306,7 +356,7 @@ export default function AssignmentsPage() {
               </CardTitle>
               <CardDescription>
                 {selectedUser 
-                  ? 'Setze oder entferne Haken, um Galerien zuzuweisen oder die Zuweisung zu entfernen'
+                  ? 'Setze oder entferne Haken, um Galerien zuzuweisen, und lege fest, was der Benutzer in der Galerie darf'
                   : 'Wähle zuerst einen Benutzer aus der Liste'}
               </CardDescription>
             </CardHeader>
@@ -339,6 +389,32 @@ export default function AssignmentsPage() {
                               Eigentümer
                             </Badge>
                           )}
+                          {isAssigned && !isOwner && (
+                            <div onClick={(e) => e.stopPropagation()}>
+                              <Select
+                                value={getAssignmentPermission(gallery.id)}
+                                onValueChange={(permission) =>
+                                  updatePermissionMutation.mutate({
+                                    galleryId: gallery.id,
+                                    userId: selectedUserId,
+                                    permission: permission as GalleryPermission,
+                                  })
+                                }
+                                disabled={updatePermissionMutation.isPending}
+                              >
+                                <SelectTrigger className="w-52 h-8" data-testid={`select-permission-${gallery.id}`}>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {(Object.keys(PERMISSION_LABELS) as GalleryPermission[]).map((permission) => (
+                                    <SelectItem key={permission} value={permission}>
+                                      {PERMISSION_LABELS[permission]}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          )}
                         </div>
                       );
                     })}
@@ -0,0 +1,366 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download } from "lucide-react";
+import { apiRequest, ensureFreshSession, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface AuditEvent {
+  id: string;
+  actorId: string | null;
+  actorName: string | null;
+  action: string;
+  targetType: string | null;
+  targetId: string | null;
+  targetName: string | null;
+  ipAddress: string | null;
+  changes: Record<string, { from: unknown; to: unknown }> | null;
+  details: Record<string, unknown> | null;
+  createdAt: string;
+}
+
+const PAGE_SIZE = 50;
+
+const CATEGORY_LABELS: Record<string, string> = {
+  user: "Benutzer",
+  gallery: "Galerien",
+  assignment: "Zuweisungen",
+  settings: "Einstellungen",
+  auth: "Anmeldung & Sicherheit",
+  download: "Downloads",
+};
+
+const ACTION_LABELS: Record<string, string> = {
+  "user.create": "Benutzer angelegt",
+  "user.register": "Benutzer registriert",
+  "user.update": "Benutzer bearbeitet",
+  "user.rename": "Name geändert",
+  "user.delete": "Benutzer gelöscht",
+  "user.invite": "Benutzer eingeladen",
+  "user.invite_resend": "Einladung erneut gesendet",
+  "user.invite_revoke": "Einladung widerrufen",
+  "user.invite_accept": "Einladung angenommen",
+  "gallery.create": "Galerie erstellt",
+  "gallery.update": "Galerie bearbeitet",
+  "gallery.rename": "Galerie umbenannt",
+  "gallery.password_change": "Galerie-Passwort geändert",
+  "gallery.download_settings": "Download-Einstellungen geändert",
+  "gallery.expiry_change": "Ablaufdatum geändert",
+  "gallery.status_change": "Status geändert",
+  "gallery.delete": "Galerie gelöscht",
+  "gallery.restore": "Galerie wiederhergestellt",
+  "gallery.purge": "Galerie endgültig gelöscht",
+  "gallery.trash_empty": "Papierkorb geleert",
+  "gallery.export": "Galerie exportiert",
+  "gallery.import": "Galerie importiert",
+  "gallery.photos_delete": "Fotos gelöscht",
+  "gallery.photos_restore": "Fotos wiederhergestellt",
+  "gallery.photos_purge": "Fotos endgültig gelöscht",
+  "gallery.finals_upload": "Finale Bilder hochgeladen",
+  "gallery.final_match": "Finales Bild zugeordnet",
+  "gallery.final_delete": "Finales Bild gelöscht",
+  "gallery.share_link_create": "Freigabelink erstellt",
+  "gallery.share_link_revoke": "Freigabelink widerrufen",
+  "assignment.create": "Galerie zugewiesen",
+  "assignment.update": "Berechtigung geändert",
+  "assignment.delete": "Zuweisung entfernt",
+  "settings.update": "Einstellungen geändert",
+  "settings.backup_create": "Backup gestartet",
+  "settings.backup_download": "Backup heruntergeladen",
+  "settings.backup_delete": "Backup gelöscht",
+  "auth.login": "Anmeldung",
+  "auth.login_failed": "Fehlgeschlagene Anmeldung",
+  "auth.logout": "Abmeldung",
+  "auth.password_change": "Passwort geändert",
+  "auth.password_change_failed": "Passwortänderung fehlgeschlagen",
+  "auth.password_reset_request": "Passwort-Reset angefordert",
+  "auth.password_reset": "Passwort zurückgesetzt",
+  "auth.2fa_enable": "2FA aktiviert",
+  "auth.2fa_disable": "2FA deaktiviert",
+  "auth.2fa_recovery_codes": "Wiederherstellungscodes erneuert",
+  "auth.session_revoke": "Sitzung beendet",
+  "auth.sessions_revoke": "Andere Sitzungen beendet",
+  "auth.api_token_create": "API-Token erstellt",
+  "auth.api_token_revoke": "API-Token widerrufen",
+  "download.photos": "Fotos heruntergeladen",
+  "download.finals": "Finale Bilder heruntergeladen",
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString("de-DE", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined
+    ? "–"
+    : typeof value === "string"
+      ? value
+      : JSON.stringify(value);
+
+// Audit tab: who did what and when, admins only
+export default function AuditLog() {
+  const { toast } = useToast();
+  const [category, setCategory] = useState("all");
+  const [search, setSearch] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [page, setPage] = useState(0);
+  const [retentionDays, setRetentionDays] = useState("365");
+
+  const params = new URLSearchParams();
+  if (category !== "all") params.set("category", category);
+  if (search.trim()) params.set("search", search.trim());
+  // Dates are local days, the end date is inclusive
+  if (from) params.set("from", new Date(`${from}T00:00`).toISOString());
+  if (to) {
+    const end = new Date(`${to}T00:00`);
+    end.setDate(end.getDate() + 1);
+    params.set("to", end.toISOString());
+  }
+  const filterQuery = params.toString();
+
+  const { data, isLoading } = useQuery<{ events: AuditEvent[]; total: number }>({
+    queryKey: ["/api/audit-events", filterQuery, page],
+    queryFn: () =>
+      apiRequest(
+        "GET",
+        `/api/audit-events?${filterQuery}${filterQuery ? "&" : ""}limit=${PAGE_SIZE}&offset=${page * PAGE_SIZE}`
+      ),
+  });
+  const events = data?.events || [];
+  const total = data?.total || 0;
+
+  const { data: systemSettingsData } = useQuery<{ auditRetentionDays?: number }>({
+    queryKey: ["/api/system-settings"],
+    queryFn: () => apiRequest("GET", "/api/system-settings"),
+  });
+
+  useEffect(() => {
+    if (systemSettingsData?.auditRetentionDays !== undefined) {
+      setRetentionDays(String(systemSettingsData.auditRetentionDays));
+    }
+  }, [systemSettingsData]);
+
+  // New filters start on the first page
+  useEffect(() => {
+    setPage(0);
+  }, [filterQuery]);
+
+  const retentionMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/system-settings", {
+        auditRetentionDays: parseInt(retentionDays, 10),
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Erfolg",
+        description: "Die Aufbewahrungsdauer wurde gespeichert.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/system-settings"] });
+    },
+    onError: () => {
+      toast({
+        title: "Fehler",
+        description: "Bitte gib eine Anzahl von Tagen zwischen 0 und 3650 ein.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleExport = async () => {
+    try {
+      await ensureFreshSession();
+      const token = localStorage.getItem("authToken");
+      const response = await fetch(`/api/audit-events/export?${filterQuery}`, {
+        credentials: "include",
+        headers: {
+          ...(token && { Authorization: `Bearer ${token}` }),
+        },
+      });
+      if (!response.ok) throw new Error(`${response.status}`);
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `protokoll-${new Date().toISOString().slice(0, 10)}.csv`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      console.error("Error exporting audit log:", error);
+      toast({
+        title: "Fehler",
+        description: "Das Protokoll konnte nicht exportiert werden.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <CardTitle>Protokoll</CardTitle>
+            <CardDescription>
+              Administrative und sicherheitsrelevante Aktionen aller Benutzer
+            </CardDescription>
+          </div>
+          <Button variant="outline" onClick={handleExport} data-testid="button-export-audit">
+            <Download className="w-4 h-4 mr-2" />
+            CSV exportieren
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-3">
+          <div className="space-y-2">
+            <Label>Bereich</Label>
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger data-testid="select-audit-category">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Alle Bereiche</SelectItem>
+                {Object.entries(CATEGORY_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-search">Suche</Label>
+            <Input
+              id="audit-search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Benutzer, Objekt, IP"
+              data-testid="input-audit-search"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-from">Von</Label>
+            <Input id="audit-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-to">Bis</Label>
+            <Input id="audit-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </div>
+
+        <div className="border rounded-md overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Zeitpunkt</TableHead>
+                <TableHead>Benutzer</TableHead>
+                <TableHead>Aktion</TableHead>
+                <TableHead>Objekt</TableHead>
+                <TableHead>Änderungen</TableHead>
+                <TableHead>IP-Adresse</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.map((event) => (
+                <TableRow key={event.id} data-testid={`audit-event-${event.id}`}>
+                  <TableCell className="whitespace-nowrap text-xs">{formatDate(event.createdAt)}</TableCell>
+                  <TableCell className="text-sm">
+                    {event.actorName || <span className="text-muted-foreground">–</span>}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={event.action.endsWith("_failed") ? "destructive" : "secondary"}>
+                      {ACTION_LABELS[event.action] || event.action}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm">{event.targetName || event.targetId || "–"}</TableCell>
+                  <TableCell className="text-xs max-w-xs">
+                    {event.changes &&
+                      Object.entries(event.changes).map(([field, change]) => (
+                        <div key={field} className="break-words">
+                          <span className="font-medium">{field}:</span> {formatValue(change.from)} → {formatValue(change.to)}
+                        </div>
+                      ))}
+                    {event.details && (
+                      <div className="text-muted-foreground break-words">{JSON.stringify(event.details)}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-xs whitespace-nowrap">{event.ipAddress || "–"}</TableCell>
+                </TableRow>
+              ))}
+              {!isLoading && events.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-sm text-muted-foreground">
+                    Keine Einträge gefunden
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span>
+            {total > 0
+              ? `${page * PAGE_SIZE + 1}–${Math.min((page + 1) * PAGE_SIZE, total)} von ${total}`
+              : "0 Einträge"}
+          </span>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" disabled={page === 0} onClick={() => setPage(page - 1)}>
+              Zurück
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={(page + 1) * PAGE_SIZE >= total}
+              onClick={() => setPage(page + 1)}
+            >
+              Weiter
+            </Button>
+          </div>
+        </div>
+
+        <form
+          className="flex flex-col sm:flex-row sm:items-end gap-3 pt-2 border-t"
+          onSubmit={(e) => {
+            e.preventDefault();
+            retentionMutation.mutate();
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="audit-retention">Aufbewahrung (Tage, 0 = unbegrenzt)</Label>
+            <Input
+              id="audit-retention"
+              type="number"
+              min={0}
+              max={3650}
+              value={retentionDays}
+              onChange={(e) => setRetentionDays(e.target.value)}
+              className="w-40"
+              data-testid="input-audit-retention"
+            />
+          </div>
+          <Button type="submit" variant="outline" disabled={retentionMutation.isPending}>
+            Speichern
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
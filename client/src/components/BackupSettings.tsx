@@ -0,0 +1,304 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Archive, Download, Loader2, Trash2 } from "lucide-react";
+import { apiRequest, ensureFreshSession, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface Backup {
+  name: string;
+  size: number;
+  createdAt: string;
+}
+
+interface BackupsResponse {
+  backups: Backup[];
+  running: boolean;
+  lastError: string | null;
+}
+
+interface BackupSettingsData {
+  backupIntervalHours?: number;
+  backupKeepCount?: number;
+  backupIncludeDerivatives?: boolean;
+}
+
+const INTERVAL_OPTIONS = [
+  { value: "0", label: "Keine automatischen Backups" },
+  { value: "24", label: "Täglich" },
+  { value: "168", label: "Wöchentlich" },
+];
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString("de-DE", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 * 1024
+    ? `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`
+    : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+// System tab: backups of database and uploads, restored on the command line
+export default function BackupSettings() {
+  const { toast } = useToast();
+  const [intervalHours, setIntervalHours] = useState("0");
+  const [keepCount, setKeepCount] = useState("7");
+  const [includeDerivatives, setIncludeDerivatives] = useState(false);
+
+  const queryKey = ["/api/backups"];
+  const { data } = useQuery<BackupsResponse>({
+    queryKey,
+    queryFn: () => apiRequest("GET", "/api/backups"),
+    // Poll while a backup is being written
+    refetchInterval: (query) => (query.state.data?.running ? 3000 : false),
+  });
+  const backups = data?.backups || [];
+
+  const { data: systemSettingsData } = useQuery<BackupSettingsData>({
+    queryKey: ["/api/system-settings"],
+    queryFn: () => apiRequest("GET", "/api/system-settings"),
+  });
+
+  useEffect(() => {
+    if (systemSettingsData) {
+      setIntervalHours(String(systemSettingsData.backupIntervalHours ?? 0));
+      setKeepCount(String(systemSettingsData.backupKeepCount ?? 7));
+      setIncludeDerivatives(!!systemSettingsData.backupIncludeDerivatives);
+    }
+  }, [systemSettingsData]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/system-settings", {
+        backupIntervalHours: parseInt(intervalHours, 10),
+        backupKeepCount: parseInt(keepCount, 10),
+        backupIncludeDerivatives: includeDerivatives,
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Erfolg",
+        description: "Die Backup-Einstellungen wurden gespeichert.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/system-settings"] });
+    },
+    onError: () => {
+      toast({
+        title: "Fehler",
+        description: "Bitte gib eine Anzahl zwischen 0 und 1000 Backups ein.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/backups", { includeDerivatives });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Erfolg",
+        description: "Das Backup wird im Hintergrund erstellt.",
+      });
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: () => {
+      toast({
+        title: "Fehler",
+        description: "Das Backup konnte nicht gestartet werden.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (name: string) => {
+      return apiRequest("DELETE", `/api/backups/${name}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Erfolg",
+        description: "Das Backup wurde gelöscht.",
+      });
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: () => {
+      toast({
+        title: "Fehler",
+        description: "Das Backup konnte nicht gelöscht werden.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleDownload = async (name: string) => {
+    try {
+      await ensureFreshSession();
+      const token = localStorage.getItem("authToken");
+      const response = await fetch(`/api/backups/${name}/download`, {
+        credentials: "include",
+        headers: {
+          ...(token && { Authorization: `Bearer ${token}` }),
+        },
+      });
+      if (!response.ok) throw new Error(`${response.status}`);
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = name;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      console.error("Error downloading backup:", error);
+      toast({
+        title: "Fehler",
+        description: "Das Backup konnte nicht heruntergeladen werden.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <CardTitle>Backups</CardTitle>
+            <CardDescription>
+              Datenbank, Einstellungen und Originalbilder in einem Archiv
+            </CardDescription>
+          </div>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={data?.running || createMutation.isPending}
+            data-testid="button-create-backup"
+          >
+            {data?.running ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Archive className="w-4 h-4 mr-2" />
+            )}
+            {data?.running ? "Backup läuft..." : "Backup erstellen"}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {data?.lastError && (
+          <p className="text-sm text-destructive">
+            Das letzte Backup ist fehlgeschlagen: {data.lastError}
+          </p>
+        )}
+
+        {backups.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Noch keine Backups vorhanden</p>
+        ) : (
+          <div className="space-y-2">
+            {backups.map((backup) => (
+              <div
+                key={backup.name}
+                className="flex items-center justify-between gap-2 p-3 border rounded-lg"
+                data-testid={`backup-${backup.name}`}
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{formatDate(backup.createdAt)}</p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {backup.name} · {formatSize(backup.size)}
+                  </p>
+                </div>
+                <div className="flex shrink-0 items-center space-x-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleDownload(backup.name)}
+                    title="Backup herunterladen"
+                  >
+                    <Download className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    onClick={() => deleteMutation.mutate(backup.name)}
+                    disabled={deleteMutation.isPending}
+                    title="Backup löschen"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form
+          className="space-y-4 pt-4 border-t"
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveMutation.mutate();
+          }}
+        >
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Automatische Backups</Label>
+              <Select value={intervalHours} onValueChange={setIntervalHours}>
+                <SelectTrigger data-testid="select-backup-interval">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {INTERVAL_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backup-keep-count">Aufbewahren (Anzahl, 0 = alle)</Label>
+              <Input
+                id="backup-keep-count"
+                type="number"
+                min={0}
+                max={1000}
+                value={keepCount}
+                onChange={(e) => setKeepCount(e.target.value)}
+                data-testid="input-backup-keep-count"
+              />
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="backup-include-derivatives"
+              checked={includeDerivatives}
+              onCheckedChange={(checked) => setIncludeDerivatives(checked === true)}
+            />
+            <Label htmlFor="backup-include-derivatives">
+              Vorschaubilder einschließen (sonst beim Wiederherstellen neu erzeugt)
+            </Label>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Backups enthalten Passwort-Hashes und Zugangsdaten und sollten sicher verwahrt werden.
+            Wiederhergestellt wird auf einer leeren Instanz mit{" "}
+            <code>npm run backup:restore -- &lt;Datei&gt;</code>.
+          </p>
+          <Button type="submit" variant="outline" disabled={saveMutation.isPending}>
+            Speichern
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,190 @@
+import { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Calendar, Image, LogOut, Settings } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AspectRatio } from "@/components/ui/aspect-ratio";
+import { useAuth } from "@/contexts/AuthContext";
+import { apiRequest } from "@/lib/queryClient";
+import ThemeToggle from "./ThemeToggle";
+
+type PortalGalleryStatus =
+  | "available"
+  | "selection_open"
+  | "selection_submitted"
+  | "selection_expired"
+  | "expired";
+
+interface PortalGallery {
+  id: string;
+  name: string;
+  createdAt: string;
+  photoCount: number;
+  coverUrl: string | null;
+  status: PortalGalleryStatus;
+  selectionDeadline: string | null;
+  expiresAt: string | null;
+}
+
+interface ClientPortalProps {
+  onSelectGallery: (galleryId: string) => void;
+  onOpenSettings: () => void;
+}
+
+const STATUS_BADGES: Record<
+  PortalGalleryStatus,
+  { label: string; variant: "default" | "secondary" | "outline" | "destructive" }
+> = {
+  available: { label: "Verfügbar", variant: "secondary" },
+  selection_open: { label: "Auswahl offen", variant: "default" },
+  selection_submitted: { label: "Auswahl abgeschickt", variant: "outline" },
+  selection_expired: { label: "Frist abgelaufen", variant: "destructive" },
+  expired: { label: "Abgelaufen", variant: "destructive" },
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("de-DE", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  });
+
+// Start page of client accounts: all galleries shared with them, opened in
+// the public gallery view
+export default function ClientPortal({ onSelectGallery, onOpenSettings }: ClientPortalProps) {
+  const { user, logout } = useAuth();
+
+  const { data: galleries = [], isLoading } = useQuery<PortalGallery[]>({
+    queryKey: ["/api/portal/galleries"],
+    queryFn: () => apiRequest("GET", "/api/portal/galleries"),
+  });
+
+  // Fetch branding settings
+  const { data: brandingData } = useQuery({
+    queryKey: ["/api/branding"],
+    queryFn: async () => {
+      const response = await fetch("/api/branding");
+      if (!response.ok) return { companyName: "PhotoGallery" };
+      return response.json();
+    },
+  });
+
+  const companyName = brandingData?.companyName || "PhotoGallery";
+
+  // Set page title
+  useEffect(() => {
+    document.title = `Meine Galerien - ${companyName}`;
+  }, [companyName]);
+
+  return (
+    <div className="flex flex-col h-screen overflow-hidden">
+      <div className="border-b bg-background px-4 sm:px-6 py-2">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-xl sm:text-2xl font-semibold" data-testid="text-portal-title">
+              Meine Galerien
+            </h1>
+            <p className="text-sm text-muted-foreground">
+              {user?.name} · {companyName}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <ThemeToggle />
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={onOpenSettings}
+              className="hover-elevate"
+              data-testid="button-settings"
+            >
+              <Settings className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={logout}
+              className="hover-elevate"
+              data-testid="button-logout"
+            >
+              <LogOut className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        <div className="container mx-auto p-6 max-w-none xl:max-w-[2200px]">
+          {isLoading ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-8">
+              {[0, 1, 2].map((index) => (
+                <Skeleton key={index} className="w-full aspect-[3/4] rounded-lg" />
+              ))}
+            </div>
+          ) : galleries.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              Es wurden noch keine Galerien für dich freigegeben.
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-8">
+              {galleries.map((gallery) => {
+                const status = STATUS_BADGES[gallery.status];
+                return (
+                  <Card
+                    key={gallery.id}
+                    className="overflow-hidden hover-elevate cursor-pointer"
+                    onClick={() => onSelectGallery(gallery.id)}
+                    data-testid={`card-portal-gallery-${gallery.id}`}
+                  >
+                    <AspectRatio ratio={3 / 4}>
+                      {gallery.coverUrl ? (
+                        <img
+                          src={gallery.coverUrl}
+                          alt={gallery.name}
+                          className="w-full h-full object-cover"
+                        />
+                      ) : (
+                        <div className="w-full h-full bg-muted flex items-center justify-center">
+                          <Image className="w-10 h-10 text-muted-foreground" />
+                        </div>
+                      )}
+                    </AspectRatio>
+                    <div className="p-3 space-y-2">
+                      <div className="flex items-start justify-between gap-2">
+                        <h3 className="font-semibold text-sm truncate">{gallery.name}</h3>
+                        <Badge variant={status.variant} className="shrink-0">
+                          {status.label}
+                        </Badge>
+                      </div>
+                      <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                        <span className="flex items-center gap-1">
+                          <Image className="w-3 h-3" />
+                          {gallery.photoCount} Fotos
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <Calendar className="w-3 h-3" />
+                          {formatDate(gallery.createdAt)}
+                        </span>
+                      </div>
+                      {gallery.selectionDeadline && gallery.status === "selection_open" && (
+                        <p className="text-xs text-muted-foreground">
+                          Auswahl bis {formatDate(gallery.selectionDeadline)}
+                        </p>
+                      )}
+                      {gallery.expiresAt && gallery.status !== "expired" && (
+                        <p className="text-xs text-muted-foreground">
+                          Online bis {formatDate(gallery.expiresAt)}
+                        </p>
+                      )}
+                    </div>
+                  </Card>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
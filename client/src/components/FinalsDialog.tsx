@@ -0,0 +1,355 @@
+import { useRef, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AlertTriangle, ArrowRight, Trash2, Unlink, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+interface FinalPhoto {
+  id: string;
+  proofId: string | null;
+  originalName: string;
+  processingStatus: "processing" | "ready" | "failed";
+  thumbnailUrl: string | null;
+  createdAt: string;
+}
+
+interface FinalsData {
+  finals: FinalPhoto[];
+  finalsDownload: boolean;
+}
+
+interface FinalsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  galleryId: string;
+  photos: { id: string; src: string; alt: string }[];
+  canManage: boolean;
+}
+
+const getAuthHeaders = (): Record<string, string> => {
+  const token = localStorage.getItem('authToken');
+  return token ? { 'Authorization': `Bearer ${token}` } : {};
+};
+
+// Finals are matched to the proofs by filename on upload, the rest is
+// matched here by hand
+export default function FinalsDialog({
+  isOpen,
+  onClose,
+  galleryId,
+  photos,
+  canManage,
+}: FinalsDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const queryKey = ["/api/galleries", galleryId, "finals"];
+  const { data } = useQuery<FinalsData>({
+    queryKey,
+    enabled: isOpen && !!galleryId,
+    queryFn: async () => {
+      const response = await fetch(`/api/galleries/${galleryId}/finals`, {
+        credentials: 'include',
+        headers: getAuthHeaders(),
+      });
+      if (!response.ok) throw new Error("Failed to fetch finals");
+      return response.json();
+    },
+    // Thumbnails are generated in the background
+    refetchInterval: (query) =>
+      query.state.data?.finals.some((final) => final.processingStatus === "processing")
+        ? 3000
+        : false,
+  });
+
+  const finals = data?.finals ?? [];
+  const unmatchedFinals = finals.filter((final) => !final.proofId);
+  const matchedFinals = finals.filter((final) => final.proofId);
+  const photosById = new Map(photos.map((photo) => [photo.id, photo]));
+  const proofsWithFinal = new Set(matchedFinals.map((final) => final.proofId));
+  const proofsWithoutFinal = photos.filter((photo) => !proofsWithFinal.has(photo.id));
+
+  const handleUpload = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    setIsUploading(true);
+    try {
+      const formData = new FormData();
+      Array.from(files).forEach((file) => formData.append("finals", file));
+
+      const response = await fetch(`/api/galleries/${galleryId}/finals`, {
+        method: "POST",
+        credentials: 'include',
+        headers: getAuthHeaders(),
+        body: formData,
+      });
+
+      if (response.ok) {
+        const result = await response.json();
+        const matchedCount = result.finals.length - result.unmatched.length;
+        toast({
+          title: "Finale Bilder hochgeladen",
+          description:
+            result.unmatched.length > 0
+              ? `${matchedCount} zugeordnet, ${result.unmatched.length} ohne passendes Foto`
+              : `${matchedCount} Bild${matchedCount !== 1 ? "er" : ""} zugeordnet`,
+          variant: result.unmatched.length > 0 ? "destructive" : undefined,
+        });
+      } else {
+        const error = await response.json().catch(() => ({}));
+        toast({
+          title: "Fehler",
+          description: error.error || "Die finalen Bilder konnten nicht hochgeladen werden.",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Fehler",
+        description: "Ein Fehler ist aufgetreten.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+      queryClient.invalidateQueries({ queryKey });
+    }
+  };
+
+  const handleMatch = async (finalId: string, proofId: string | null) => {
+    try {
+      const response = await fetch(`/api/galleries/${galleryId}/finals/${finalId}`, {
+        method: "PATCH",
+        credentials: 'include',
+        headers: {
+          "Content-Type": "application/json",
+          ...getAuthHeaders(),
+        },
+        body: JSON.stringify({ proofId }),
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error);
+      }
+      queryClient.invalidateQueries({ queryKey });
+    } catch (error) {
+      toast({
+        title: "Fehler",
+        description:
+          (error instanceof Error && error.message) ||
+          "Das finale Bild konnte nicht zugeordnet werden.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (finalId: string) => {
+    try {
+      const response = await fetch(`/api/galleries/${galleryId}/finals/${finalId}`, {
+        method: "DELETE",
+        credentials: 'include',
+        headers: getAuthHeaders(),
+      });
+      if (!response.ok) throw new Error("Failed to delete final");
+      queryClient.invalidateQueries({ queryKey });
+    } catch (error) {
+      toast({
+        title: "Fehler",
+        description: "Das finale Bild konnte nicht gelöscht werden.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleFinalsDownloadChange = async (finalsDownload: boolean) => {
+    try {
+      const response = await fetch(`/api/galleries/${galleryId}/download-settings`, {
+        method: "PATCH",
+        credentials: 'include',
+        headers: {
+          "Content-Type": "application/json",
+          ...getAuthHeaders(),
+        },
+        body: JSON.stringify({ finalsDownload }),
+      });
+      if (!response.ok) throw new Error("Failed to update download settings");
+      queryClient.invalidateQueries({ queryKey });
+    } catch (error) {
+      toast({
+        title: "Fehler",
+        description: "Die Einstellung konnte nicht gespeichert werden.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const renderStatus = (final: FinalPhoto) => {
+    if (final.processingStatus === "processing") {
+      return <Badge variant="secondary">Wird verarbeitet</Badge>;
+    }
+    if (final.processingStatus === "failed") {
+      return <Badge variant="destructive">Fehlgeschlagen</Badge>;
+    }
+    return null;
+  };
+
+  const renderThumbnail = (src: string | null | undefined, alt: string) =>
+    src ? (
+      <img src={src} alt={alt} title={alt} className="w-16 h-16 object-cover rounded" />
+    ) : (
+      <div className="w-16 h-16 rounded bg-muted" title={alt} />
+    );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Finale Bilder</DialogTitle>
+          <DialogDescription>
+            Lade die bearbeiteten Bilder hoch. Sie werden über den Dateinamen den Fotos der
+            Galerie zugeordnet und deinen Kunden statt der Proofs gezeigt.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center justify-between gap-4 border rounded-md p-4">
+          <div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              multiple
+              className="hidden"
+              onChange={(e) => handleUpload(e.target.files)}
+              data-testid="input-finals-upload"
+            />
+            <Button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isUploading}
+              data-testid="button-upload-finals"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              {isUploading ? "Wird hochgeladen..." : "Finale Bilder hochladen"}
+            </Button>
+          </div>
+          {canManage && data && (
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="finals-download"
+                checked={data.finalsDownload}
+                onCheckedChange={(checked) => handleFinalsDownloadChange(checked === true)}
+                data-testid="checkbox-finals-download"
+              />
+              <Label htmlFor="finals-download">Kunden dürfen finale Bilder herunterladen</Label>
+            </div>
+          )}
+        </div>
+
+        {unmatchedFinals.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="font-medium flex items-center gap-2">
+              <AlertTriangle className="w-4 h-4 text-destructive" />
+              Ohne passendes Foto ({unmatchedFinals.length})
+            </h3>
+            {unmatchedFinals.map((final) => (
+              <div
+                key={final.id}
+                className="flex items-center gap-3 border border-destructive/50 rounded-md p-2"
+                data-testid={`row-final-unmatched-${final.id}`}
+              >
+                {renderThumbnail(final.thumbnailUrl, final.originalName)}
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{final.originalName}</p>
+                  {renderStatus(final)}
+                </div>
+                <Select onValueChange={(proofId) => handleMatch(final.id, proofId)}>
+                  <SelectTrigger className="w-48" data-testid={`select-final-proof-${final.id}`}>
+                    <SelectValue placeholder="Foto zuordnen" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {proofsWithoutFinal.map((photo) => (
+                      <SelectItem key={photo.id} value={photo.id}>
+                        {photo.alt}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleDelete(final.id)}
+                  title="Löschen"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <h3 className="font-medium">
+            Zugeordnet ({matchedFinals.length} von {photos.length} Fotos)
+          </h3>
+          {matchedFinals.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              Noch keine finalen Bilder vorhanden.
+            </p>
+          )}
+          {matchedFinals.map((final) => {
+            const proof = photosById.get(final.proofId!);
+            return (
+              <div
+                key={final.id}
+                className="flex items-center gap-3 border rounded-md p-2"
+                data-testid={`row-final-${final.id}`}
+              >
+                {renderThumbnail(proof?.src, proof?.alt || "Foto")}
+                <ArrowRight className="w-4 h-4 text-muted-foreground shrink-0" />
+                {renderThumbnail(final.thumbnailUrl, final.originalName)}
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{final.originalName}</p>
+                  {renderStatus(final)}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleMatch(final.id, null)}
+                  title="Zuordnung lösen"
+                >
+                  <Unlink className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleDelete(final.id)}
+                  title="Löschen"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,46 @@
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import type { FinalVersion } from "@/contexts/PhotoContext";
+
+// Final of a photo as returned by the public gallery route
+export function toFinalVersion(final: any): FinalVersion | null {
+  if (!final) return null;
+  return {
+    id: final.id,
+    src: final.thumbnailUrl || final.mediumUrl,
+    mediumSrc: final.mediumUrl || undefined,
+    originalSrc: final.originalUrl || undefined,
+  };
+}
+
+interface FinalsToggleProps {
+  showFinals: boolean;
+  onShowFinalsChange: (showFinals: boolean) => void;
+  finalLabel?: string;
+  proofLabel?: string;
+}
+
+// Switches between the delivered finals and the original proofs
+export default function FinalsToggle({
+  showFinals,
+  onShowFinalsChange,
+  finalLabel = "Finale Bilder",
+  proofLabel = "Proofs",
+}: FinalsToggleProps) {
+  return (
+    <ToggleGroup
+      type="single"
+      variant="outline"
+      size="sm"
+      value={showFinals ? "final" : "proof"}
+      onValueChange={(value) => value && onShowFinalsChange(value === "final")}
+      data-testid="toggle-finals"
+    >
+      <ToggleGroupItem value="final" data-testid="toggle-finals-final">
+        {finalLabel}
+      </ToggleGroupItem>
+      <ToggleGroupItem value="proof" data-testid="toggle-finals-proof">
+        {proofLabel}
+      </ToggleGroupItem>
+    </ToggleGroup>
+  );
+}
@@ -1,4 +1,4 @@
-import { Calendar, Image, Plus, Trash2, MoreVertical, Link, Copy, Edit2, ArrowUpDown, Lock, Eye, EyeOff, Settings, ChevronLeft, ChevronRight, Check, Download, Users } from "lucide-react";
+import { Calendar, Image, Plus, Trash2, MoreVertical, Link, Copy, Edit2, ArrowUpDown, Lock, Eye, EyeOff, Settings, ChevronLeft, ChevronRight, Check, Download, Users, PackageOpen, CalendarClock, Flag, Filter } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
@@ -21,6 +21,9 @@ import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import {
@@ -39,6 +42,14 @@ import { useToast } from "@/hooks/use-toast";
 import { useState, useEffect } from "react";
 import ThemeToggle from "./ThemeToggle";
 import NotificationBell from "./NotificationBell";
+import ShareLinksSection from "./ShareLinksSection";
+import GalleryImportDialog from "./GalleryImportDialog";
+import GalleryStatusBadge, {
+  GALLERY_STATUSES,
+  GALLERY_STATUS_BADGES,
+  GALLERY_STATUS_TRANSITIONS,
+  type GalleryStatus,
+} from "./GalleryStatusBadge";
 import { LogOut } from "lucide-react";
 import { AspectRatio } from "@/components/ui/aspect-ratio";
 
@@ -53,6 +64,21 @@ interface GalleriesOverviewProps {
   onOpenSettings: () => void;
 }
 
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("de-DE", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  });
+
+// Local date in the yyyy-mm-dd format of date inputs
+const toDateInputValue = (date: Date) =>
+  [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+
 export default function GalleriesOverview({ onSelectGallery, onOpenSettings }: GalleriesOverviewProps) {
   const { galleries, user, refetchGalleries, logout } = useAuth();
   const { toast } = useToast();
@@ -96,6 +122,10 @@ export default function GalleriesOverview({ onSelectGallery, onOpenSettings }: G
   const [editOriginalPassword, setEditOriginalPassword] = useState("");
   const [editAllowDownload, setEditAllowDownload] = useState(true);
   const [showEditPassword, setShowEditPassword] = useState(false);
+  const [isExpiryDialogOpen, setIsExpiryDialogOpen] = useState(false);
+  const [expiryGalleryId, setExpiryGalleryId] = useState<string | null>(null);
+  const [expiryDate, setExpiryDate] = useState(""); // yyyy-mm-dd of the date input
+  const [statusFilter, setStatusFilter] = useState<GalleryStatus | "all">("all");
   const navigate = useNavigate();
 
 
@@ -323,7 +353,7 @@ export default function GalleriesOverview({ onSelectGallery, onOpenSettings }: G
     onSuccess: () => {
       toast({
         title: "Galerie gelöscht",
-        description: "Die Galerie wurde erfolgreich gelöscht.",
+        description: "Die Galerie wurde in den Papierkorb verschoben.",
       });
       refetchGalleries();
     },
@@ -388,6 +418,53 @@ export default function GalleriesOverview({ onSelectGallery, onOpenSettings }: G
     },
   });
 
+  // Gallery expiry mutation, null removes the expiry
+  const updateExpiryMutation = useMutation({
+    mutationFn: async ({ galleryId, expiresAt }: { galleryId: string; expiresAt: string | null }) => {
+      return apiRequest('PATCH', `/api/galleries/${galleryId}/expiry`, { expiresAt });
+    },
+    onSuccess: (_data, { expiresAt }) => {
+      toast({
+        title: "Ablaufdatum gespeichert",
+        description: expiresAt
+          ? `Die Galerie ist bis zum ${formatDate(expiresAt)} online.`
+          : "Die Galerie läuft nicht mehr ab.",
+      });
+      setIsExpiryDialogOpen(false);
+      setExpiryGalleryId(null);
+      setExpiryDate("");
+      refetchGalleries();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Fehler",
+        description: "Das Ablaufdatum konnte nicht geändert werden.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Gallery status mutation, only along the allowed transitions
+  const changeStatusMutation = useMutation({
+    mutationFn: async ({ galleryId, status }: { galleryId: string; status: GalleryStatus }) => {
+      return apiRequest('PATCH', `/api/galleries/${galleryId}/status`, { status });
+    },
+    onSuccess: (_data, { status }) => {
+      toast({
+        title: "Status geändert",
+        description: `Die Galerie hat jetzt den Status "${GALLERY_STATUS_BADGES[status].label}".`,
+      });
+      refetchGalleries();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Fehler",
+        description: "Der Status konnte nicht geändert werden.",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Assign gallery mutation
   const assignGalleryMutation = useMutation({
     mutationFn: async ({ galleryId, userIds }: { galleryId: string; userIds: string[] }) => {
@@ -465,8 +542,22 @@ export default function GalleriesOverview({ onSelectGallery, onOpenSettings }: G
     });
   };
 
+  // Bundle for another FotoStube instance, fetched through a one-time link
+  const handleExportGallery = async (galleryId: string) => {
+    try {
+      const data = await apiRequest('POST', `/api/galleries/${galleryId}/export`);
+      window.location.href = data.downloadUrl;
+    } catch (error) {
+      toast({
+        title: "Fehler",
+        description: "Der Export konnte nicht gestartet werden.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleDeleteGallery = (galleryId: string, galleryName: string) => {
-    if (confirm(`Möchtest du die Galerie "${galleryName}" wirklich löschen? Diese Aktion kann nicht rückgänig gemacht werden.`)) {
+    if (confirm(`Möchtest du die Galerie "${galleryName}" in den Papierkorb verschieben? Dort kann sie wiederhergestellt werden.`)) {
       deleteGalleryMutation.mutate(galleryId);
     }
   };
@@ -513,6 +604,38 @@ export default function GalleriesOverview({ onSelectGallery, onOpenSettings }: G
     });
   };
 
+  const handleOpenExpiryDialog = (galleryId: string) => {
+    const gallery = galleries.find(g => g.id === galleryId);
+    setExpiryGalleryId(galleryId);
+    setExpiryDate(gallery?.expiresAt ? toDateInputValue(new Date(gallery.expiresAt)) : "");
+    setIsExpiryDialogOpen(true);
+  };
+
+  // Extends from the current expiry, or from today if there is none or it has passed
+  const handleExtendExpiry = (months: number) => {
+    const current = expiryDate ? new Date(`${expiryDate}T00:00:00`) : null;
+    const base = current && current.getTime() > Date.now() ? current : new Date();
+    base.setMonth(base.getMonth() + months);
+    setExpiryDate(toDateInputValue(base));
+  };
+
+  const handleConfirmExpiry = (removeExpiry = false) => {
+    if (!expiryGalleryId) return;
+    if (!removeExpiry && !expiryDate) {
+      toast({
+        title: "Fehler",
+        description: "Bitte wähle ein Ablaufdatum.",
+        variant: "destructive",
+      });
+      return;
+    }
+    updateExpiryMutation.mutate({
+      galleryId: expiryGalleryId,
+      // Online until the end of the chosen day
+      expiresAt: removeExpiry ? null : new Date(`${expiryDate}T23:59:59`).toISOString(),
+    });
+  };
+
   const handleOpenAssignDialog = (galleryId: string) => {
     setAssignGalleryId(galleryId);
     setSelectedUserIds([]);
@@ -565,7 +688,7 @@ export default function GalleriesOverview({ onSelectGallery, onOpenSettings }: G
       .filter(Boolean)
       .join(', ');
 
-    if (!confirm(`Möchtest du wirklich ${selectedGalleryIds.size} Galerie(n) löschen: ${galleryNames}?\n\nDiese Aktion kann nicht rückgängig gemacht werden.`)) {
+    if (!confirm(`Möchtest du ${selectedGalleryIds.size} Galerie(n) in den Papierkorb verschieben: ${galleryNames}?\n\nDort können sie wiederhergestellt werden.`)) {
       return;
     }
 
@@ -729,6 +852,9 @@ export default function GalleriesOverview({ onSelectGallery, onOpenSettings }: G
         gallery.name.toLowerCase().includes(searchQuery.toLowerCase())
       );
     }
+    if (statusFilter !== "all") {
+      filtered = filtered.filter(gallery => gallery.status === statusFilter);
+    }
 
     // Then sort
     const sorted = [...filtered];
@@ -817,6 +943,16 @@ export default function GalleriesOverview({ onSelectGallery, onOpenSettings }: G
                   <Users className="w-4 h-4" />
                 </Button>
               )}
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => navigate("/trash")}
+                className="hover-elevate"
+                title="Papierkorb"
+                data-testid="button-trash"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
               <Button
                 variant="ghost"
                 size="icon"
@@ -849,6 +985,25 @@ export default function GalleriesOverview({ onSelectGallery, onOpenSettings }: G
               data-testid="input-search-galleries"
             />
             <div className="flex items-center gap-2">
+              <div className="flex items-center flex-1 sm:flex-initial gap-2">
+                <Filter className="w-4 h-4 text-muted-foreground hidden sm:block" />
+                <Select
+                  value={statusFilter}
+                  onValueChange={(value) => setStatusFilter(value as GalleryStatus | "all")}
+                >
+                  <SelectTrigger className="w-full sm:w-36 lg:w-40" data-testid="select-status-filter">
+                    <SelectValue placeholder="Status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Alle Status</SelectItem>
+                    {GALLERY_STATUSES.map((status) => (
+                      <SelectItem key={status} value={status}>
+                        {GALLERY_STATUS_BADGES[status].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
               <div className="flex items-center flex-1 sm:flex-initial gap-2">
                 <ArrowUpDown className="w-4 h-4 text-muted-foreground hidden sm:block" />
                 <Select value={sortBy} onValueChange={(value) => {
@@ -878,6 +1033,9 @@ export default function GalleriesOverview({ onSelectGallery, onOpenSettings }: G
                   </DialogTrigger>
                 </Dialog>
               )}
+              {isAdminOrCreator && (
+                <GalleryImportDialog users={allUsers} onImported={refetchGalleries} />
+              )}
             </div>
             
             {/* Desktop User-Aktionen */}
@@ -895,6 +1053,16 @@ export default function GalleriesOverview({ onSelectGallery, onOpenSettings }: G
                   <Users className="w-4 h-4" />
                 </Button>
               )}
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => navigate("/trash")}
+                className="hover-elevate"
+                title="Papierkorb"
+                data-testid="button-trash"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
               <Button
                 variant="ghost"
                 size="icon"
@@ -982,11 +1150,11 @@ export default function GalleriesOverview({ onSelectGallery, onOpenSettings }: G
 
         {/* Edit Gallery Dialog */}
         <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
-          <DialogContent className="sm:max-w-[500px]">
+          <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>Galerie bearbeiten</DialogTitle>
               <DialogDescription>
-                Bearbeite Name, Passwort und Download-Einstellungen der Galerie.
+                Bearbeite Name, Passwort, Download-Einstellungen und Freigabelinks der Galerie.
               </DialogDescription>
             </DialogHeader>
             <div className="grid gap-4 py-4">
@@ -1058,6 +1226,7 @@ export default function GalleriesOverview({ onSelectGallery, onOpenSettings }: G
                   </span>
                 </div>
               </div>
+              {editGalleryId && <ShareLinksSection galleryId={editGalleryId} />}
             </div>
             <DialogFooter>
               <Button
@@ -1130,6 +1299,72 @@ export default function GalleriesOverview({ onSelectGallery, onOpenSettings }: G
           </DialogContent>
         </Dialog>
 
+        {/* Gallery Expiry Dialog */}
+        <Dialog open={isExpiryDialogOpen} onOpenChange={setIsExpiryDialogOpen}>
+          <DialogContent className="sm:max-w-[425px]">
+            <DialogHeader>
+              <DialogTitle>Ablaufdatum</DialogTitle>
+              <DialogDescription>
+                Nach diesem Tag ist die Galerie für Kunden und Besucher nicht mehr erreichbar.
+                Kunden und du werden vorher per E-Mail erinnert.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="grid gap-4 py-4">
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="gallery-expiry-date" className="text-right">
+                  Online bis
+                </Label>
+                <Input
+                  id="gallery-expiry-date"
+                  type="date"
+                  value={expiryDate}
+                  onChange={(e) => setExpiryDate(e.target.value)}
+                  className="col-span-3"
+                  data-testid="input-gallery-expiry-date"
+                />
+              </div>
+              <div className="flex flex-wrap justify-end gap-2">
+                {[3, 6, 12].map((months) => (
+                  <Button
+                    key={months}
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleExtendExpiry(months)}
+                    data-testid={`button-extend-expiry-${months}`}
+                  >
+                    +{months} Monate
+                  </Button>
+                ))}
+              </div>
+              {galleries.find(g => g.id === expiryGalleryId)?.archivedAt && (
+                <p className="text-sm text-muted-foreground">
+                  Die Galerie ist archiviert. Beim Verlängern werden die Vorschaubilder neu erstellt.
+                </p>
+              )}
+            </div>
+            <DialogFooter className="gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => handleConfirmExpiry(true)}
+                disabled={updateExpiryMutation.isPending}
+                data-testid="button-remove-expiry"
+              >
+                Kein Ablauf
+              </Button>
+              <Button
+                type="button"
+                onClick={() => handleConfirmExpiry()}
+                disabled={updateExpiryMutation.isPending}
+                data-testid="button-confirm-expiry"
+              >
+                {updateExpiryMutation.isPending ? "Speichern..." : "Speichern"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
         {/* Change Password Dialog */}
         <Dialog open={isPasswordDialogOpen} onOpenChange={setIsPasswordDialogOpen}>
           <DialogContent className="sm:max-w-[425px]">
@@ -1280,6 +1515,23 @@ export default function GalleriesOverview({ onSelectGallery, onOpenSettings }: G
                   Kopieren
                 </Button>
               </div>
+              {galleries.find(g => g.id === showPublicLink)?.status === "draft" && (
+                <div className="flex items-center justify-between gap-2 rounded-md border p-3">
+                  <p className="text-sm text-muted-foreground">
+                    Die Galerie ist ein Entwurf und über den Link noch nicht erreichbar.
+                  </p>
+                  <Button
+                    size="sm"
+                    onClick={() =>
+                      changeStatusMutation.mutate({ galleryId: showPublicLink!, status: "shared" })
+                    }
+                    disabled={changeStatusMutation.isPending}
+                    data-testid="button-share-draft"
+                  >
+                    Freigeben
+                  </Button>
+                </div>
+              )}
             </div>
             <DialogFooter>
               <Button
@@ -1300,6 +1552,10 @@ export default function GalleriesOverview({ onSelectGallery, onOpenSettings }: G
             <div className="col-span-full text-center py-12 text-muted-foreground">
               Keine Gallerien gefunden für "{searchQuery}"
             </div>
+          ) : filterAndSortGalleries(galleries).length === 0 && statusFilter !== "all" ? (
+            <div className="col-span-full text-center py-12 text-muted-foreground">
+              Keine Gallerien mit dem Status "{GALLERY_STATUS_BADGES[statusFilter].label}"
+            </div>
           ) : null}
           {filterAndSortGalleries(galleries).map((gallery) => (
             <Card
@@ -1329,6 +1585,13 @@ export default function GalleriesOverview({ onSelectGallery, onOpenSettings }: G
                   </div>
                 )}
                 
+                <div className="absolute top-2 right-2">
+                  <GalleryStatusBadge
+                    status={gallery.status as GalleryStatus}
+                    className="bg-background/90"
+                  />
+                </div>
+
                 {/* Gallery name overlay on hover */}
                 <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity duration-200 flex items-center justify-center pointer-events-none">
                   <p className="text-white text-sm font-medium px-4 text-center break-words">
@@ -1344,6 +1607,24 @@ export default function GalleriesOverview({ onSelectGallery, onOpenSettings }: G
                   <h3 className="font-semibold text-sm mb-1 truncate" data-testid={`text-gallery-name-${gallery.id}`}>
                     {gallery.name}
                   </h3>
+                  {gallery.expiresAt && (
+                    <p
+                      className={cn(
+                        "text-xs flex items-center gap-1",
+                        new Date(gallery.expiresAt).getTime() <= Date.now()
+                          ? "text-destructive"
+                          : "text-muted-foreground",
+                      )}
+                      data-testid={`text-gallery-expiry-${gallery.id}`}
+                    >
+                      <CalendarClock className="h-3 w-3" />
+                      {gallery.archivedAt
+                        ? `Archiviert, abgelaufen am ${formatDate(gallery.expiresAt)}`
+                        : new Date(gallery.expiresAt).getTime() <= Date.now()
+                          ? `Abgelaufen am ${formatDate(gallery.expiresAt)}`
+                          : `Online bis ${formatDate(gallery.expiresAt)}`}
+                    </p>
+                  )}
                 </div>
                 {isAdminOrCreator && (
                   <div className="flex items-center space-x-2 flex-shrink-0">
@@ -1406,6 +1687,49 @@ export default function GalleriesOverview({ onSelectGallery, onOpenSettings }: G
                             <Link className="h-4 w-4 mr-2" />
                             Öffentlichen Link anzeigen
                           </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleOpenExpiryDialog(gallery.id);
+                            }}
+                            data-testid={`button-expiry-gallery-${gallery.id}`}
+                          >
+                            <CalendarClock className="h-4 w-4 mr-2" />
+                            Ablaufdatum
+                          </DropdownMenuItem>
+                          <DropdownMenuSub>
+                            <DropdownMenuSubTrigger
+                              onClick={(e) => e.stopPropagation()}
+                              data-testid={`button-status-gallery-${gallery.id}`}
+                            >
+                              <Flag className="h-4 w-4 mr-2" />
+                              Status ändern
+                            </DropdownMenuSubTrigger>
+                            <DropdownMenuSubContent>
+                              {GALLERY_STATUS_TRANSITIONS[gallery.status as GalleryStatus]?.map((status) => (
+                                <DropdownMenuItem
+                                  key={status}
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    changeStatusMutation.mutate({ galleryId: gallery.id, status });
+                                  }}
+                                  data-testid={`button-set-status-${status}-${gallery.id}`}
+                                >
+                                  {GALLERY_STATUS_BADGES[status].label}
+                                </DropdownMenuItem>
+                              ))}
+                            </DropdownMenuSubContent>
+                          </DropdownMenuSub>
+                          <DropdownMenuItem
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleExportGallery(gallery.id);
+                            }}
+                            data-testid={`button-export-gallery-${gallery.id}`}
+                          >
+                            <PackageOpen className="h-4 w-4 mr-2" />
+                            Exportieren
+                          </DropdownMenuItem>
                           <DropdownMenuItem
                             onClick={(e) => {
                               e.stopPropagation();
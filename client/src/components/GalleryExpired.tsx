@@ -0,0 +1,32 @@
+import { Card } from "@/components/ui/card";
+import { CalendarX } from "lucide-react";
+
+export interface ExpiredGalleryInfo {
+  galleryName: string;
+  expiresAt: string;
+}
+
+// Shown to visitors instead of a gallery whose expiry date has passed
+export default function GalleryExpired({ galleryName, expiresAt }: ExpiredGalleryInfo) {
+  const expiredOn = new Date(expiresAt).toLocaleDateString("de-DE", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  });
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-background">
+      <Card className="w-full max-w-md p-8 text-center" data-testid="card-gallery-expired">
+        <CalendarX className="h-10 w-10 text-muted-foreground mx-auto mb-4" />
+        <h1 className="text-2xl font-semibold mb-4">Galerie abgelaufen</h1>
+        <p className="text-muted-foreground">
+          Die Galerie "{galleryName}" war bis zum {expiredOn} online und ist nicht mehr
+          verfügbar.
+        </p>
+        <p className="text-muted-foreground mt-2">
+          Falls du weiterhin Zugriff benötigst, wende dich bitte an deinen Fotografen.
+        </p>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface GalleryExpirySettingsData {
+  expiryReminderDays?: number;
+  archiveExpiredGalleries?: boolean;
+}
+
+// System tab: reminders before galleries expire and archiving afterwards.
+// The expiry date itself is set per gallery in the gallery overview.
+export default function GalleryExpirySettings() {
+  const { toast } = useToast();
+  const [reminderDays, setReminderDays] = useState("14");
+  const [archiveExpired, setArchiveExpired] = useState(false);
+
+  const { data: systemSettingsData } = useQuery<GalleryExpirySettingsData>({
+    queryKey: ["/api/system-settings"],
+    queryFn: () => apiRequest("GET", "/api/system-settings"),
+  });
+
+  useEffect(() => {
+    if (systemSettingsData) {
+      setReminderDays(String(systemSettingsData.expiryReminderDays ?? 14));
+      setArchiveExpired(!!systemSettingsData.archiveExpiredGalleries);
+    }
+  }, [systemSettingsData]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/system-settings", {
+        expiryReminderDays: parseInt(reminderDays, 10),
+        archiveExpiredGalleries: archiveExpired,
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Erfolg",
+        description: "Die Einstellungen zum Galerie-Ablauf wurden gespeichert.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/system-settings"] });
+    },
+    onError: () => {
+      toast({
+        title: "Fehler",
+        description: "Bitte gib eine Vorlaufzeit zwischen 0 und 365 Tagen ein.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Ablauf von Galerien</CardTitle>
+        <CardDescription>
+          Erinnerungen vor dem Ablaufdatum und Umgang mit abgelaufenen Galerien
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveMutation.mutate();
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="expiry-reminder-days">Erinnerung vorher (Tage, 0 = keine)</Label>
+            <Input
+              id="expiry-reminder-days"
+              type="number"
+              min={0}
+              max={365}
+              value={reminderDays}
+              onChange={(e) => setReminderDays(e.target.value)}
+              data-testid="input-expiry-reminder-days"
+            />
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="archive-expired-galleries"
+              checked={archiveExpired}
+              onCheckedChange={(checked) => setArchiveExpired(checked === true)}
+            />
+            <Label htmlFor="archive-expired-galleries">
+              Abgelaufene Galerien archivieren (Vorschaubilder löschen)
+            </Label>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Kunden und Fotograf erhalten die Erinnerung per E-Mail. Originalbilder bleiben beim
+            Archivieren erhalten, die Vorschaubilder werden beim Verlängern neu erzeugt.
+          </p>
+          <Button type="submit" variant="outline" disabled={saveMutation.isPending}>
+            Speichern
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Upload } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/contexts/AuthContext";
+import { ensureFreshSession } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface GalleryImportDialogProps {
+  users: { id: string; name: string; role: string }[];
+  onImported: () => void;
+}
+
+interface ImportResult {
+  gallery: { id: string; name: string };
+  galleries: number;
+  photos: number;
+}
+
+// Imports the gallery export of another FotoStube instance
+export default function GalleryImportDialog({ users, onImported }: GalleryImportDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [ownerId, setOwnerId] = useState("");
+
+  const isAdmin = user?.role === "Admin";
+  const owners = users.filter((u) => u.role === "Admin" || u.role === "Creator");
+
+  const importMutation = useMutation({
+    mutationFn: async (): Promise<ImportResult> => {
+      const formData = new FormData();
+      formData.append("bundle", file!);
+      if (isAdmin && ownerId) {
+        formData.append("userId", ownerId);
+      }
+
+      await ensureFreshSession();
+      const token = localStorage.getItem("authToken");
+      const response = await fetch("/api/galleries/import", {
+        method: "POST",
+        credentials: "include",
+        headers: {
+          ...(token && { Authorization: `Bearer ${token}` }),
+        },
+        body: formData,
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || "Der Import ist fehlgeschlagen");
+      }
+      return data;
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Erfolg",
+        description: `„${data.gallery.name}" wurde mit ${data.photos} Fotos importiert. Die Vorschaubilder werden im Hintergrund erstellt.`,
+      });
+      setIsOpen(false);
+      setFile(null);
+      setOwnerId("");
+      onImported();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fehler",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="default"
+          className="flex-shrink-0"
+          title="Galerie importieren"
+          data-testid="button-import-gallery"
+        >
+          <Upload className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle>Galerie importieren</DialogTitle>
+          <DialogDescription>
+            Übernimmt den Export einer anderen FotoStube-Instanz mit Sub-Galerien, Bewertungen,
+            Kommentaren und Freigabelinks.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="gallery-import-file">Export-Datei (.tar.gz)</Label>
+            <Input
+              id="gallery-import-file"
+              type="file"
+              accept=".gz,.tgz,application/gzip"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+              data-testid="input-import-file"
+            />
+          </div>
+          {isAdmin && (
+            <div className="space-y-2">
+              <Label>Besitzer</Label>
+              <Select value={ownerId || user?.id} onValueChange={setOwnerId}>
+                <SelectTrigger data-testid="select-import-owner">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {owners.map((owner) => (
+                    <SelectItem key={owner.id} value={owner.id}>
+                      {owner.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setIsOpen(false)}>
+            Abbrechen
+          </Button>
+          <Button
+            onClick={() => importMutation.mutate()}
+            disabled={!file || importMutation.isPending}
+            data-testid="button-confirm-import"
+          >
+            {importMutation.isPending ? "Importieren..." : "Importieren"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,47 @@
+import { Badge } from "@/components/ui/badge";
+
+// Mirrors GALLERY_STATUSES and GALLERY_STATUS_TRANSITIONS of the server
+export const GALLERY_STATUSES = [
+  "draft",
+  "shared",
+  "selecting",
+  "editing",
+  "delivered",
+  "archived",
+] as const;
+export type GalleryStatus = (typeof GALLERY_STATUSES)[number];
+
+export const GALLERY_STATUS_TRANSITIONS: Record<GalleryStatus, GalleryStatus[]> = {
+  draft: ["shared", "archived"],
+  shared: ["draft", "selecting", "editing", "archived"],
+  selecting: ["shared", "editing", "archived"],
+  editing: ["selecting", "delivered", "archived"],
+  delivered: ["editing", "archived"],
+  archived: ["shared", "delivered"],
+};
+
+export const GALLERY_STATUS_BADGES: Record<
+  GalleryStatus,
+  { label: string; variant: "default" | "secondary" | "outline" | "destructive" }
+> = {
+  draft: { label: "Entwurf", variant: "outline" },
+  shared: { label: "Geteilt", variant: "secondary" },
+  selecting: { label: "Auswahl läuft", variant: "default" },
+  editing: { label: "In Bearbeitung", variant: "default" },
+  delivered: { label: "Geliefert", variant: "secondary" },
+  archived: { label: "Archiviert", variant: "outline" },
+};
+
+interface GalleryStatusBadgeProps {
+  status: GalleryStatus;
+  className?: string;
+}
+
+export default function GalleryStatusBadge({ status, className }: GalleryStatusBadgeProps) {
+  const badge = GALLERY_STATUS_BADGES[status] ?? GALLERY_STATUS_BADGES.draft;
+  return (
+    <Badge variant={badge.variant} className={className}>
+      {badge.label}
+    </Badge>
+  );
+}
@@ -24,6 +24,7 @@ import {
 import { useIsMobile } from "@/hooks/use-mobile";
 import { useAuth } from "@/contexts/AuthContext";
 import { usePhotos } from "@/contexts/PhotoContext";
+import PhotoMetadataPanel from "./PhotoMetadataPanel";
 
 interface Comment {
   id: string;
@@ -100,26 +101,8 @@ export default function LightboxPage() {
       try {
         let response;
         if (isPublicGallery) {
-          // For public galleries, check for stored password
-          let storedPassword = null;
-          try {
-            storedPassword = localStorage.getItem(
-              `gallery_access_${galleryId}`,
-            );
-          } catch (error) {
-            console.error("Error accessing localStorage:", error);
-          }
-
-          const requestBody = storedPassword
-            ? { password: storedPassword }
-            : {};
-          const method = storedPassword ? "POST" : "GET";
-
-          response = await fetch(`/api/gallery/${galleryId}/public`, {
-            method,
-            headers: { "Content-Type": "application/json" },
-            body: method === "POST" ? JSON.stringify(requestBody) : undefined,
-          });
+          // Password protected galleries are unlocked by the access cookie
+          response = await fetch(`/api/gallery/${galleryId}/public`);
         } else {
           // For private galleries
           response = await fetch(
@@ -133,11 +116,9 @@ export default function LightboxPage() {
 
           const transformedPhotos = photosData.map((photo: any) => ({
             id: photo.id,
-            src: `/${photo.thumbnailPath || photo.filePath}`,
-            mediumSrc: photo.mediumPath
-              ? `/${photo.mediumPath}`
-              : `/${photo.filePath}`,
-            originalSrc: `/${photo.filePath}`,
+            src: photo.thumbnailUrl || photo.originalUrl,
+            mediumSrc: photo.mediumUrl || photo.originalUrl || undefined,
+            originalSrc: photo.originalUrl || undefined,
             alt: photo.alt,
             rating: photo.rating || 0,
             isLiked: photo.isLiked || false,
@@ -481,6 +462,9 @@ export default function LightboxPage() {
                   </Button>
                 )}
 
+                {/* EXIF/IPTC Metadata */}
+                <PhotoMetadataPanel photoId={currentPhoto.id} isPublic={isPublicGallery} />
+
                 {/* Comments */}
                 <div>
                   <h4 className="font-medium mb-4">
@@ -637,6 +621,9 @@ export default function LightboxPage() {
               </Button>
             )}
 
+            {/* EXIF/IPTC Metadata */}
+            <PhotoMetadataPanel photoId={currentPhoto.id} isPublic={isPublicGallery} />
+
             {/* Comments */}
             <div>
               <h4 className="font-medium mb-4">
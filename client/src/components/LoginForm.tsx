@@ -1,18 +1,43 @@
 
 import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
+import TwoFactorSetup from "./TwoFactorSetup";
+
+interface LoginChallenge {
+  token: string;
+  mode: "verify" | "setup";
+}
+
+interface OidcConfig {
+  enabled: boolean;
+  providerName: string;
+  passwordLoginDisabled: boolean;
+}
+
+const SSO_ERROR_MESSAGES: Record<string, string> = {
+  sso_disabled: "Single Sign-On ist nicht aktiviert",
+  sso_missing_email: "Der Identity Provider hat keine E-Mail-Adresse übermittelt",
+  sso_unverified_email:
+    "Die E-Mail-Adresse ist beim Identity Provider nicht bestätigt und gehört bereits zu einem Konto",
+  sso_client_account: "Kundenkonten melden sich mit Passwort an",
+  sso_failed: "Die Anmeldung über Single Sign-On ist fehlgeschlagen",
+};
 
 export default function LoginForm() {
   const [nameOrEmail, setNameOrEmail] = useState("");
   const [password, setPassword] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState("");
-  const { login, isAuthenticated } = useAuth();
+  const [challenge, setChallenge] = useState<LoginChallenge | null>(null);
+  const [code, setCode] = useState("");
+  const [oidcConfig, setOidcConfig] = useState<OidcConfig | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { login, verifyTwoFactor, completeLogin, isAuthenticated, user } = useAuth();
   const { toast } = useToast();
   const navigate = useNavigate();
 
@@ -35,12 +60,48 @@ export default function LoginForm() {
     checkSetup();
   }, [navigate]);
 
-  // Redirect if already logged in
+  useEffect(() => {
+    fetch('/api/auth/oidc/config')
+      .then((response) => (response.ok ? response.json() : null))
+      .then(setOidcConfig)
+      .catch((error) => console.error('Error loading SSO config:', error));
+  }, []);
+
+  // Return from the identity provider - the session cookies are already set
+  useEffect(() => {
+    const ssoResult = searchParams.get('sso');
+    const ssoError = searchParams.get('ssoError');
+    if (!ssoResult && !ssoError) return;
+    setSearchParams({}, { replace: true });
+
+    if (ssoError) {
+      const errorMessage = SSO_ERROR_MESSAGES[ssoError] || SSO_ERROR_MESSAGES.sso_failed;
+      setError(errorMessage);
+      toast({
+        variant: "destructive",
+        title: "Anmeldung fehlgeschlagen",
+        description: errorMessage,
+      });
+      return;
+    }
+
+    fetch('/api/auth/refresh', { method: 'POST', credentials: 'include' })
+      .then(async (response) => {
+        if (!response.ok) throw new Error(`${response.status}`);
+        completeLogin(await response.json());
+      })
+      .catch((error) => {
+        console.error('SSO session error:', error);
+        setError(SSO_ERROR_MESSAGES.sso_failed);
+      });
+  }, [searchParams, setSearchParams, completeLogin, toast]);
+
+  // Redirect if already logged in - clients to their portal
   useEffect(() => {
     if (isAuthenticated) {
-      navigate('/galleries');
+      navigate(user?.role === "Client" ? '/portal' : '/galleries');
     }
-  }, [isAuthenticated, navigate]);
+  }, [isAuthenticated, user?.role, navigate]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -49,7 +110,13 @@ export default function LoginForm() {
 
     try {
       const result = await login(nameOrEmail, password);
-      if (!result.success) {
+      if (result.challengeToken) {
+        setChallenge({
+          token: result.challengeToken,
+          mode: result.twoFactorSetupRequired ? "setup" : "verify",
+        });
+        setPassword("");
+      } else if (!result.success) {
         const errorMessage = result.error || "Ungültiger Name/E-Mail oder Passwort";
         setError(errorMessage);
         toast({
@@ -74,6 +141,107 @@ export default function LoginForm() {
     }
   };
 
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challenge) return;
+    setIsLoading(true);
+    setError("");
+
+    try {
+      const result = await verifyTwoFactor(challenge.token, code);
+      if (result.success) {
+        navigate('/galleries');
+      } else {
+        setError(result.error || "Ungültiger Code");
+        setCode("");
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCancelChallenge = () => {
+    setChallenge(null);
+    setCode("");
+    setError("");
+  };
+
+  if (challenge?.mode === "setup") {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-6">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle className="text-2xl text-center">2FA einrichten</CardTitle>
+            <p className="text-sm text-muted-foreground text-center">
+              Für dein Konto ist die Zwei-Faktor-Authentifizierung vorgeschrieben.
+            </p>
+          </CardHeader>
+          <CardContent>
+            <TwoFactorSetup
+              challengeToken={challenge.token}
+              onComplete={(data) => {
+                completeLogin(data);
+                navigate('/galleries');
+              }}
+              onCancel={handleCancelChallenge}
+            />
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (challenge?.mode === "verify") {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-6">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle className="text-2xl text-center">Bestätigungscode</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleVerify} className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Gib den Code aus deiner Authenticator-App oder einen Wiederherstellungscode ein.
+              </p>
+              <Input
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="123456"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                autoFocus
+                required
+                data-testid="input-2fa-code"
+              />
+              {error && (
+                <p className="text-sm text-destructive" data-testid="text-error">
+                  {error}
+                </p>
+              )}
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={isLoading}
+                data-testid="button-verify-2fa"
+              >
+                {isLoading ? "Wird geprüft..." : "Bestätigen"}
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                className="w-full text-sm text-muted-foreground"
+                onClick={handleCancelChallenge}
+              >
+                Zurück zur Anmeldung
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-background flex items-center justify-center p-6">
       <Card className="w-full max-w-md">
@@ -81,6 +249,23 @@ export default function LoginForm() {
           <CardTitle className="text-2xl text-center">Anmelden</CardTitle>
         </CardHeader>
         <CardContent>
+          {oidcConfig?.enabled && (
+            <div className="space-y-4 mb-4">
+              <Button
+                type="button"
+                className="w-full"
+                onClick={() => window.location.href = '/api/auth/oidc/login'}
+                data-testid="button-login-sso"
+              >
+                Anmelden mit {oidcConfig.providerName}
+              </Button>
+              <p className="text-xs text-center text-muted-foreground">
+                {oidcConfig.passwordLoginDisabled
+                  ? "Kundenkonten melden sich weiterhin mit Passwort an"
+                  : "oder mit Name und Passwort"}
+              </p>
+            </div>
+          )}
           <form onSubmit={handleSubmit} className="space-y-4">
             <div>
               <Input
@@ -1,5 +1,5 @@
 
-import { Bell, Star, Heart, Download, X } from "lucide-react";
+import { Bell, Star, Heart, Download, Flag, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
@@ -24,6 +24,8 @@ export default function NotificationBell() {
         return <Heart className="w-4 h-4 text-red-500" />;
       case 'download':
         return <Download className="w-4 h-4 text-blue-500" />;
+      case 'status':
+        return <Flag className="w-4 h-4 text-green-500" />;
       default:
         return <Bell className="w-4 h-4" />;
     }
@@ -0,0 +1,146 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Mail, RefreshCw, Trash2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface Invitation {
+  id: string;
+  name: string;
+  email: string;
+  role: string;
+  expiresAt: string;
+  lastSentAt: string | null;
+  createdAt: string;
+  isExpired: boolean;
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString("de-DE", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+// Users tab: invitations that haven't been accepted yet
+export default function PendingInvitations() {
+  const { toast } = useToast();
+
+  const queryKey = ["/api/invitations"];
+  const { data: invitations = [] } = useQuery<Invitation[]>({
+    queryKey,
+    queryFn: () => apiRequest("GET", "/api/invitations"),
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("POST", `/api/invitations/${id}/resend`);
+    },
+    onSuccess: (data: Invitation & { emailSent: boolean }) => {
+      toast(
+        data.emailSent
+          ? {
+              title: "Erfolg",
+              description: "Die Einladung wurde erneut gesendet.",
+            }
+          : {
+              title: "Fehler",
+              description: "Die E-Mail konnte nicht gesendet werden. Bitte prüfe die SMTP-Einstellungen.",
+              variant: "destructive",
+            }
+      );
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: () => {
+      toast({
+        title: "Fehler",
+        description: "Die Einladung konnte nicht erneut gesendet werden.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/invitations/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Erfolg",
+        description: "Die Einladung wurde widerrufen.",
+      });
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: () => {
+      toast({
+        title: "Fehler",
+        description: "Die Einladung konnte nicht widerrufen werden.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (invitations.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Offene Einladungen</CardTitle>
+        <CardDescription>
+          Eingeladene Benutzer, die noch kein Passwort festgelegt haben
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {invitations.map((invitation) => (
+          <div
+            key={invitation.id}
+            className="flex items-start justify-between gap-2 p-4 border rounded-lg"
+            data-testid={`invitation-${invitation.id}`}
+          >
+            <div className="flex min-w-0 gap-3">
+              <Mail className="h-4 w-4 mt-1 shrink-0 text-muted-foreground" />
+              <div className="min-w-0 space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium truncate">{invitation.name}</span>
+                  <Badge variant="secondary">{invitation.role}</Badge>
+                  {invitation.isExpired && <Badge variant="destructive">Abgelaufen</Badge>}
+                </div>
+                <p className="text-sm text-muted-foreground truncate">{invitation.email}</p>
+                <p className="text-xs text-muted-foreground">
+                  {invitation.lastSentAt && `Gesendet ${formatDate(invitation.lastSentAt)} · `}
+                  gültig bis {formatDate(invitation.expiresAt)}
+                </p>
+              </div>
+            </div>
+            <div className="flex shrink-0 items-center space-x-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => resendMutation.mutate(invitation.id)}
+                disabled={resendMutation.isPending}
+                data-testid={`button-resend-invitation-${invitation.id}`}
+              >
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Erneut senden
+              </Button>
+              <Button
+                variant="destructive"
+                size="sm"
+                onClick={() => revokeMutation.mutate(invitation.id)}
+                disabled={revokeMutation.isPending}
+                title="Einladung widerrufen"
+                data-testid={`button-revoke-invitation-${invitation.id}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
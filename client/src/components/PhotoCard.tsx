@@ -1,5 +1,5 @@
 import { useState, useCallback } from "react";
-import { Star, Heart, Trash2, X, Check } from "lucide-react";
+import { Star, Heart, Trash2, X, Check, Loader2 } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { AspectRatio } from "@/components/ui/aspect-ratio";
@@ -22,6 +22,8 @@ interface Photo {
   isLiked: boolean;
   comments: Comment[];
   isSelected?: boolean;
+  processingStatus?: string; // 'processing' while thumbnails are generated in the background
+  selectedBy?: string[]; // Names of the gallery visitors who selected the photo
 }
 
 interface PhotoCardProps {
@@ -46,6 +48,8 @@ export default function PhotoCard({
   const [isDeleting, setIsDeleting] = useState(false);
   const [imageLoaded, setImageLoaded] = useState(false);
   const [imageError, setImageError] = useState(false);
+  const isProcessing = photo.processingStatus === "processing";
+  const processingFailed = photo.processingStatus === "failed";
 
   // Try to get user from auth context, but make it optional for public galleries
   let user = null;
@@ -83,35 +87,51 @@ export default function PhotoCard({
       <div className="relative">
         <AspectRatio ratio={2 / 3}>
           <div className="relative w-full h-full">
+            {/* Processing Placeholder - thumbnails are not ready yet */}
+            {isProcessing && (
+              <div
+                className="absolute inset-0 bg-muted flex flex-col items-center justify-center gap-2"
+                onClick={() => onOpenLightbox(photo)}
+                data-testid={`placeholder-processing-${photo.id}`}
+              >
+                <Loader2 className="w-6 h-6 text-muted-foreground animate-spin" />
+                <div className="text-muted-foreground text-xs">
+                  Wird verarbeitet...
+                </div>
+              </div>
+            )}
+
             {/* Skeleton Placeholder */}
-            {!imageLoaded && !imageError && (
+            {!isProcessing && !imageLoaded && !imageError && (
               <div className="absolute inset-0 bg-muted animate-pulse flex items-center justify-center">
                 <div className="w-8 h-8 bg-muted-foreground/20 rounded"></div>
               </div>
             )}
 
             {/* Error State */}
-            {imageError && (
+            {!isProcessing && imageError && (
               <div className="absolute inset-0 bg-muted flex items-center justify-center">
                 <div className="text-muted-foreground text-sm">
-                  Fehler beim Laden
+                  {processingFailed ? "Verarbeitung fehlgeschlagen" : "Fehler beim Laden"}
                 </div>
               </div>
             )}
 
             {/* Actual Image */}
-            <img
-              src={photo.src}
-              alt={photo.alt}
-              loading="lazy"
-              className={`w-full h-full object-cover transition-opacity duration-200 ${
-                imageLoaded ? "opacity-100" : "opacity-0"
-              }`}
-              onClick={() => onOpenLightbox(photo)}
-              onLoad={() => setImageLoaded(true)}
-              onError={() => setImageError(true)}
-              data-testid={`img-photo-${photo.id}`}
-            />
+            {!isProcessing && (
+              <img
+                src={photo.src}
+                alt={photo.alt}
+                loading="lazy"
+                className={`w-full h-full object-cover transition-opacity duration-200 ${
+                  imageLoaded ? "opacity-100" : "opacity-0"
+                }`}
+                onClick={() => onOpenLightbox(photo)}
+                onLoad={() => setImageLoaded(true)}
+                onError={() => setImageError(true)}
+                data-testid={`img-photo-${photo.id}`}
+              />
+            )}
 
             {/* Image name overlay on hover */}
             <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity duration-200 flex items-center justify-center pointer-events-none">
@@ -149,7 +169,7 @@ export default function PhotoCard({
                   e.stopPropagation();
                   if (
                     !isDeleting &&
-                    confirm("Möchten Sie dieses Foto wirklich löschen?")
+                    confirm("Möchten Sie dieses Foto in den Papierkorb verschieben?")
                   ) {
                     handleDelete();
                   }
@@ -222,6 +242,15 @@ export default function PhotoCard({
         >
           {photo.comments.length} comments
         </p>
+        {photo.selectedBy && photo.selectedBy.length > 0 && (
+          <p
+            className="text-xs text-primary truncate"
+            title={photo.selectedBy.join(", ")}
+            data-testid={`text-selected-by-${photo.id}`}
+          >
+            Ausgewählt von {photo.selectedBy.join(", ")}
+          </p>
+        )}
       </div>
     </Card>
   );
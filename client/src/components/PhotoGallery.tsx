@@ -22,6 +22,14 @@ interface Photo {
   isLiked: boolean;
   comments: Comment[];
   isSelected?: boolean;
+  processingStatus?: string;
+}
+
+// Rating, like and selection of one gallery visitor (or all of them merged)
+export interface ReviewerPick {
+  rating: number;
+  isLiked: boolean;
+  selectedBy: string[];
 }
 
 interface FilterState {
@@ -36,6 +44,9 @@ interface PhotoGalleryProps {
   selectedPhotoIds: Set<string>;
   onToggleSelection: (photoId: string) => void;
   onPhotosChange?: () => void;
+  onReorder?: (photoIds: string[]) => void;
+  reviewerPicks?: Record<string, ReviewerPick>;
+  showFinals?: boolean;
   isPublicView?: boolean;
   authContext?: { user: any } | null;
   filters?: FilterState;
@@ -54,6 +65,9 @@ export default function PhotoGallery({
   selectedPhotoIds: externalSelectedPhotoIds,
   onToggleSelection: externalOnToggleSelection,
   onPhotosChange,
+  onReorder,
+  reviewerPicks,
+  showFinals = false,
   isPublicView = false,
   authContext = null,
   filters,
@@ -64,6 +78,8 @@ export default function PhotoGallery({
 }: PhotoGalleryProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const navigate = useNavigate();
+  const [draggedPhotoId, setDraggedPhotoId] = useState<string | null>(null);
+  const [dragOverPhotoId, setDragOverPhotoId] = useState<string | null>(null);
 
   const {
     photos: sharedPhotos,
@@ -90,8 +106,29 @@ export default function PhotoGallery({
   const user = authContext?.user || authUser;
   const isDelete  =user?.role === "Admin" || user?.role === "Creator";
   
-  // Use shared photos as source of truth - ignore initialPhotos completely
-  const galleryPhotos = sharedPhotos;
+  // Use shared photos as source of truth - ignore initialPhotos completely.
+  // Delivered finals replace their proofs, in the reviewer view the
+  // visitors' picks replace the own rating and like.
+  const galleryPhotos = useMemo<
+    ((typeof sharedPhotos)[number] & { selectedBy?: string[] })[]
+  >(() => {
+    const photos = showFinals
+      ? sharedPhotos.map((photo) =>
+          photo.final ? { ...photo, src: photo.final.src } : photo,
+        )
+      : sharedPhotos;
+    if (!reviewerPicks) return photos;
+
+    return photos.map((photo) => {
+      const pick = reviewerPicks[photo.id];
+      return {
+        ...photo,
+        rating: pick?.rating || 0,
+        isLiked: pick?.isLiked || false,
+        selectedBy: pick?.selectedBy || [],
+      };
+    });
+  }, [sharedPhotos, reviewerPicks, showFinals]);
 
   // Filter photos based on filter state
   const filteredPhotos = useMemo(() => {
@@ -125,6 +162,9 @@ export default function PhotoGallery({
   };
 
   const handleToggleLike = async (photoId: string) => {
+    // Visitor picks are read-only
+    if (reviewerPicks) return;
+
     const currentPhoto = galleryPhotos.find((p) => p.id === photoId);
     if (!currentPhoto) return;
 
@@ -147,6 +187,8 @@ export default function PhotoGallery({
   };
 
   const handleRatingChange = async (photoId: string, rating: number) => {
+    if (reviewerPicks) return;
+
     if (externalRatingChange) {
       externalRatingChange(photoId, rating);
       return;
@@ -193,9 +235,30 @@ export default function PhotoGallery({
     }
   };
 
- 
+  // Drag & Drop: the dropped photo takes the position of the target photo.
+  // Works on the full list so that active filters don't lose any photos.
+  const handleDrop = (targetPhotoId: string) => {
+    if (!onReorder || !draggedPhotoId || draggedPhotoId === targetPhotoId) {
+      return;
+    }
+
+    const photoIds = galleryPhotos.map((photo) => photo.id);
+    const fromIndex = photoIds.indexOf(draggedPhotoId);
+    const toIndex = photoIds.indexOf(targetPhotoId);
+    if (fromIndex === -1 || toIndex === -1) return;
+
+    photoIds.splice(fromIndex, 1);
+    photoIds.splice(toIndex, 0, draggedPhotoId);
+    onReorder(photoIds);
+  };
+
+  const handleDragEnd = () => {
+    setDraggedPhotoId(null);
+    setDragOverPhotoId(null);
+  };
 
   const showDeleteButton = !isPublicView && isDelete;
+  const canReorder = !isPublicView && !!onReorder;
 
   return (
     <div className="space-y-6">
@@ -206,25 +269,57 @@ export default function PhotoGallery({
         data-testid="gallery-grid"
       >
         {filteredPhotos.map((photo) => (
-          <PhotoCard
+          <div
             key={photo.id}
-            photo={{
-              id: photo.id,
-              src: photo.src,
-              alt: photo.alt,
-              rating: photo.rating || 0,
-              isLiked: photo.isLiked || false,
-              comments: photo.comments || [],
-              isSelected: selectedPhotoIds.has(photo.id),
+            draggable={canReorder}
+            onDragStart={(e) => {
+              if (!canReorder) return;
+              e.dataTransfer.effectAllowed = "move";
+              setDraggedPhotoId(photo.id);
+            }}
+            onDragOver={(e) => {
+              if (!canReorder || !draggedPhotoId) return;
+              e.preventDefault();
+              e.dataTransfer.dropEffect = "move";
+              setDragOverPhotoId(photo.id);
+            }}
+            onDragLeave={() => setDragOverPhotoId(null)}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop(photo.id);
+              handleDragEnd();
             }}
-            onOpenLightbox={() =>
-              onPhotoClick ? onPhotoClick(photo) : handleOpenLightbox(photo)
+            onDragEnd={handleDragEnd}
+            className={
+              dragOverPhotoId === photo.id && draggedPhotoId !== photo.id
+                ? "rounded-md ring-2 ring-primary"
+                : draggedPhotoId === photo.id
+                  ? "opacity-50"
+                  : undefined
             }
-            onToggleLike={handleToggleLike}
-            onRatingChange={handleRatingChange}
-            onToggleSelection={handleToggleSelection}
-            onDelete={showDeleteButton ? handleDeletePhoto : undefined}
-          />
+            data-testid={`draggable-photo-${photo.id}`}
+          >
+            <PhotoCard
+              photo={{
+                id: photo.id,
+                src: photo.src,
+                alt: photo.alt,
+                rating: photo.rating || 0,
+                isLiked: photo.isLiked || false,
+                comments: photo.comments || [],
+                isSelected: selectedPhotoIds.has(photo.id),
+                processingStatus: photo.processingStatus,
+                selectedBy: photo.selectedBy,
+              }}
+              onOpenLightbox={() =>
+                onPhotoClick ? onPhotoClick(photo) : handleOpenLightbox(photo)
+              }
+              onToggleLike={handleToggleLike}
+              onRatingChange={handleRatingChange}
+              onToggleSelection={handleToggleSelection}
+              onDelete={showDeleteButton ? handleDeletePhoto : undefined}
+            />
+          </div>
         ))}
       </div>
     </div>
@@ -0,0 +1,83 @@
+import { useQuery } from "@tanstack/react-query";
+
+interface PhotoMetadataPanelProps {
+  photoId: string;
+  isPublic?: boolean;
+}
+
+export const METADATA_FIELD_LABELS: Record<string, string> = {
+  camera: "Kamera",
+  lens: "Objektiv",
+  focalLength: "Brennweite",
+  aperture: "Blende",
+  exposureTime: "Belichtungszeit",
+  iso: "ISO",
+  capturedAt: "Aufnahmedatum",
+  artist: "Fotograf",
+  copyright: "Copyright",
+  dimensions: "Abmessungen",
+};
+
+const formatValue = (field: string, value: any): string => {
+  switch (field) {
+    case "focalLength":
+      return `${Math.round(value)} mm`;
+    case "aperture":
+      return `f/${Number(value).toFixed(1).replace(/\.0$/, "")}`;
+    case "exposureTime":
+      return value < 1 ? `1/${Math.round(1 / value)} s` : `${value} s`;
+    case "capturedAt":
+      return new Date(value).toLocaleString("de-DE");
+    case "dimensions":
+      return `${value.width} × ${value.height} px`;
+    default:
+      return String(value);
+  }
+};
+
+export default function PhotoMetadataPanel({
+  photoId,
+  isPublic = false,
+}: PhotoMetadataPanelProps) {
+  const { data: metadata = {} } = useQuery({
+    queryKey: [isPublic ? "/api/public/photos" : "/api/photos", photoId, "metadata"],
+    queryFn: async () => {
+      const token = localStorage.getItem('authToken');
+      const response = await fetch(
+        isPublic
+          ? `/api/public/photos/${photoId}/metadata`
+          : `/api/photos/${photoId}/metadata`,
+        {
+          credentials: 'include',
+          headers: {
+            ...(token && !isPublic && { 'Authorization': `Bearer ${token}` })
+          }
+        },
+      );
+      if (!response.ok) return {};
+      return response.json();
+    },
+    enabled: !!photoId,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const fields = Object.keys(METADATA_FIELD_LABELS).filter(
+    (field) => metadata[field] !== undefined && metadata[field] !== null,
+  );
+
+  if (fields.length === 0) return null;
+
+  return (
+    <div className="mb-6">
+      <h4 className="font-medium mb-2">Bildinformationen</h4>
+      <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm" data-testid="photo-metadata">
+        {fields.map((field) => (
+          <div key={field} className="contents">
+            <dt className="text-muted-foreground">{METADATA_FIELD_LABELS[field]}</dt>
+            <dd className="break-words">{formatValue(field, metadata[field])}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+}
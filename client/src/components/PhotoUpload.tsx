@@ -25,8 +25,32 @@ interface UploadFile {
   file: File;
   alt: string;
   preview: string;
+  resumeOffset?: number; // Bytes already on the server from an interrupted upload
 }
 
+interface PendingUpload {
+  id: string;
+  fingerprint: string;
+  originalName: string;
+  alt: string;
+  size: number;
+  offset: number;
+}
+
+const CHUNK_SIZE = 5 * 1024 * 1024; // 5 MB
+const MAX_CHUNK_RETRIES = 5;
+
+// Identifies the same local file again after a page reload
+const getFingerprint = (file: File) =>
+  `${file.name}-${file.size}-${file.lastModified}`;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const authHeaders = (): Record<string, string> => {
+  const token = localStorage.getItem('authToken');
+  return token ? { 'Authorization': `Bearer ${token}` } : {};
+};
+
 export default function PhotoUpload({
   isOpen,
   onClose,
@@ -36,11 +60,11 @@ export default function PhotoUpload({
   const { user } = useAuth();
   const isAdminOrCreator = user?.role === "Admin" || user?.role === "Creator";
   const [uploadFiles, setUploadFiles] = useState<UploadFile[]>([]);
+  const [pendingUploads, setPendingUploads] = useState<PendingUpload[]>([]);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
-  const [isProcessing, setIsProcessing] = useState(false);
   const [isUploadActive, setIsUploadActive] = useState(false);
 
   // Dieser Hook verhindert das Schließen/Refreshen
@@ -60,21 +84,41 @@ export default function PhotoUpload({
       window.removeEventListener("beforeunload", handleBeforeUnload);
     };
   }, [isUploadActive]);
-  
+
+  // Unterbrochene Uploads vom Server laden, damit sie fortgesetzt werden können
+  useEffect(() => {
+    if (!isOpen || !galleryId) return;
+
+    fetch(`/api/galleries/${galleryId}/uploads`, {
+      credentials: 'include',
+      headers: authHeaders(),
+    })
+      .then((response) => (response.ok ? response.json() : []))
+      .then((uploads: PendingUpload[]) => setPendingUploads(uploads))
+      .catch((error) => console.error("Error loading pending uploads:", error));
+  }, [isOpen, galleryId]);
+
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(event.target.files || []);
 
     files.forEach((file) => {
       if (file.type.startsWith("image/")) {
         const preview = URL.createObjectURL(file);
+        const pending = pendingUploads.find(
+          (upload) => upload.fingerprint === getFingerprint(file),
+        );
         setUploadFiles((prev) => [
           ...prev,
           {
             file,
-            alt: file.name.replace(/\.[^/.]+$/, ""), // Remove extension for default alt
+            alt: pending?.alt || file.name.replace(/\.[^/.]+$/, ""), // Remove extension for default alt
             preview,
+            resumeOffset: pending?.offset,
           },
         ]);
+        if (pending) {
+          setPendingUploads((prev) => prev.filter((upload) => upload.id !== pending.id));
+        }
       }
     });
 
@@ -93,12 +137,99 @@ export default function PhotoUpload({
     });
   };
 
+  const discardPendingUpload = async (uploadId: string) => {
+    try {
+      await fetch(`/api/galleries/${galleryId}/uploads/${uploadId}`, {
+        method: 'DELETE',
+        credentials: 'include',
+        headers: authHeaders(),
+      });
+      setPendingUploads((prev) => prev.filter((upload) => upload.id !== uploadId));
+    } catch (error) {
+      console.error("Error discarding upload:", error);
+    }
+  };
+
   const updateAlt = (index: number, alt: string) => {
     setUploadFiles((prev) =>
       prev.map((file, i) => (i === index ? { ...file, alt } : file)),
     );
   };
 
+  // Lädt eine Datei in Chunks hoch und setzt nach Abbrüchen beim Server-Offset fort
+  const uploadFileInChunks = async (
+    uploadFile: UploadFile,
+    onProgress: (bytes: number) => void,
+  ) => {
+    const { file, alt } = uploadFile;
+
+    const createResponse = await fetch(`/api/galleries/${galleryId}/uploads`, {
+      method: 'POST',
+      credentials: 'include',
+      headers: { 'Content-Type': 'application/json', ...authHeaders() },
+      body: JSON.stringify({
+        fingerprint: getFingerprint(file),
+        filename: file.name,
+        size: file.size,
+        mimeType: file.type,
+        alt,
+      }),
+    });
+    if (!createResponse.ok) {
+      const errorData = await createResponse.json().catch(() => ({}));
+      throw new Error(errorData.error || "Upload fehlgeschlagen");
+    }
+    const session = await createResponse.json();
+
+    let offset: number = session.offset;
+    let retries = 0;
+    onProgress(offset);
+
+    while (offset < file.size) {
+      const chunk = file.slice(offset, offset + CHUNK_SIZE);
+
+      try {
+        const response = await fetch(`/api/galleries/${galleryId}/uploads/${session.id}`, {
+          method: 'PATCH',
+          credentials: 'include',
+          headers: {
+            'Content-Type': 'application/offset+octet-stream',
+            'Upload-Offset': String(offset),
+            ...authHeaders(),
+          },
+          body: chunk,
+        });
+        const data = await response.json().catch(() => ({}));
+
+        if (response.ok) {
+          offset = data.offset;
+          retries = 0;
+          onProgress(offset);
+          continue;
+        }
+
+        // Server hat einen anderen Stand - dort weitermachen
+        if (response.status === 409 && typeof data.offset === "number") {
+          offset = data.offset;
+          onProgress(offset);
+          continue;
+        }
+
+        if (response.status < 500) {
+          throw Object.assign(new Error(data.error || "Upload fehlgeschlagen"), { fatal: true });
+        }
+        throw new Error(data.error || "Upload fehlgeschlagen");
+      } catch (error: any) {
+        if (error?.fatal || retries >= MAX_CHUNK_RETRIES) {
+          throw error;
+        }
+        // Netzwerkfehler: kurz warten und erneut versuchen
+        retries++;
+        await wait(1000 * 2 ** retries);
+      }
+    }
+  };
+
   const handleUpload = async () => {
     if (uploadFiles.length === 0) {
       toast({
@@ -112,77 +243,32 @@ export default function PhotoUpload({
     setIsUploading(true);
     setUploadProgress(0);
 
+    const filesToUpload = [...uploadFiles];
+    const totalBytes = filesToUpload.reduce((sum, { file }) => sum + file.size, 0) || 1;
+    let completedBytes = 0;
+    let uploadedCount = 0;
+
         try {
           // 1. Schutz aktivieren (Verhindert Refresh)
           setIsUploadActive(true);
 
-          // Always use multiple upload endpoint for consistency
-          const formData = new FormData();
-          uploadFiles.forEach(({ file }) => {
-            formData.append("photos", file);
-          });
-          formData.append("alts", JSON.stringify(uploadFiles.map((f) => f.alt)));
-          formData.append("userId", user?.id || "");
-
-          // Create XMLHttpRequest to track progress
-          const xhr = new XMLHttpRequest();
-
-          // Track upload progress
-          xhr.upload.addEventListener("progress", (event) => {
-            if (event.lengthComputable) {
-              const percentComplete = Math.round(
-                (event.loaded / event.total) * 100,
+          for (const uploadFile of filesToUpload) {
+            await uploadFileInChunks(uploadFile, (bytes) => {
+              setUploadProgress(
+                Math.round(((completedBytes + bytes) / totalBytes) * 100),
               );
-              setUploadProgress(percentComplete);
-
-              // Wenn 100% erreicht sind, beginnt die Server-Verarbeitung
-              if (percentComplete === 100) {
-                setIsProcessing(true);
-              }
-            }
-          });
+            });
+            completedBytes += uploadFile.file.size;
+            uploadedCount++;
 
-          // Promise wrapper for XMLHttpRequest
-          const uploadPromise = new Promise((resolve, reject) => {
-            xhr.onload = () => {
-              // Server hat geantwortet, Verarbeitung ist fertig
-              setIsProcessing(false);
-
-              if (xhr.status >= 200 && xhr.status < 300) {
-                try {
-                  const response = JSON.parse(xhr.responseText);
-                  resolve(response);
-                } catch (e) {
-                  reject(new Error("Invalid JSON response"));
-                }
-              } else {
-                try {
-                  const errorData = JSON.parse(xhr.responseText);
-                  reject(new Error(errorData.error || "Upload fehlgeschlagen"));
-                } catch (e) {
-                  reject(new Error("Upload fehlgeschlagen"));
-                }
-              }
-            };
-
-            xhr.onerror = () => {
-              setIsProcessing(false);
-              reject(new Error("Netzwerkfehler beim Upload"));
-            };
-
-            xhr.open("POST", `/api/galleries/${galleryId}/photos/upload-multiple`);
-            xhr.send(formData);
-          });
-
-          await uploadPromise;
-
-          // Clean up previews
-          uploadFiles.forEach((file) => URL.revokeObjectURL(file.preview));
-          setUploadFiles([]);
+            // Fertige Dateien aus der Warteschlange nehmen
+            URL.revokeObjectURL(uploadFile.preview);
+            setUploadFiles((prev) => prev.filter((f) => f !== uploadFile));
+          }
 
           toast({
             title: "Erfolg",
-            description: `${uploadFiles.length} Foto${uploadFiles.length > 1 ? "s" : ""} erfolgreich hochgeladen.`,
+            description: `${uploadedCount} Foto${uploadedCount > 1 ? "s" : ""} erfolgreich hochgeladen.`,
           });
 
           onUploadComplete();
@@ -193,13 +279,18 @@ export default function PhotoUpload({
           onClose(); 
     } catch (error) {
       console.error("Upload error:", error);
+      setIsUploadActive(false);
+      if (uploadedCount > 0) {
+        onUploadComplete();
+      }
       toast({
         variant: "destructive",
         title: "Fehler",
         description:
-          error instanceof Error
+          (error instanceof Error
             ? error.message
-            : "Fehler beim Hochladen der Fotos.",
+            : "Fehler beim Hochladen der Fotos.") +
+          " Der Upload kann später fortgesetzt werden.",
       });
     } finally {
       setIsUploading(false);
@@ -211,8 +302,8 @@ export default function PhotoUpload({
     <Dialog 
       open={isOpen} 
       onOpenChange={(open) => {
-        // Prevent closing if upload or processing is active
-        if (!open && (isUploading || isProcessing)) {
+        // Prevent closing if upload is active
+        if (!open && isUploading) {
           return;
         }
         onClose();
@@ -249,6 +340,41 @@ export default function PhotoUpload({
             </Button>
           </div>
 
+          {/* Interrupted Uploads */}
+          {pendingUploads.length > 0 && (
+            <div className="space-y-2">
+              <Label>Unterbrochene Uploads ({pendingUploads.length})</Label>
+              <p className="text-xs text-muted-foreground">
+                Wähle diese Dateien erneut aus, um den Upload an der
+                unterbrochenen Stelle fortzusetzen.
+              </p>
+              <div className="max-h-40 overflow-y-auto space-y-2">
+                {pendingUploads.map((pending) => (
+                  <div
+                    key={pending.id}
+                    className="flex items-center gap-3 p-2 border rounded"
+                  >
+                    <div className="flex-1">
+                      <p className="text-sm">{pending.originalName}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {Math.round((pending.offset / pending.size) * 100)}% hochgeladen
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => discardPendingUpload(pending.id)}
+                      disabled={isUploading}
+                      title="Upload verwerfen"
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Preview List */}
           {uploadFiles.length > 0 && (
             <div className="space-y-3">
@@ -273,6 +399,9 @@ export default function PhotoUpload({
                       />
                       <p className="text-xs text-muted-foreground mt-1">
                         {uploadFile.file.name}
+                        {uploadFile.resumeOffset
+                          ? ` – wird bei ${Math.round((uploadFile.resumeOffset / uploadFile.file.size) * 100)}% fortgesetzt`
+                          : ""}
                       </p>
                     </div>
                     <Button
@@ -310,16 +439,7 @@ export default function PhotoUpload({
               variant="secondary"
               className="w-full btn-green"
             >
-              {isProcessing ? (
-                <span className="flex items-center gap-2">
-                  Bilder sind hochgeladen. Bitte Hintergrundverarbeitung abwarten
-                  <span className="flex space-x-1">
-                    <span className="w-1 h-1 bg-current rounded-full animate-bounce [animation-delay:-0.3s]"></span>
-                    <span className="w-1 h-1 bg-current rounded-full animate-bounce [animation-delay:-0.15s]"></span>
-                    <span className="w-1 h-1 bg-current rounded-full animate-bounce"></span>
-                  </span>
-                </span>
-              ) : isUploading
+              {isUploading
                 ? `Lade hoch... (${uploadProgress}%)`
                 : `${uploadFiles.length} Foto${uploadFiles.length > 1 ? "s" : ""} hochladen`}
             </Button>
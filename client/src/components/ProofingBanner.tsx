@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ClipboardCheck, Lock } from "lucide-react";
+
+export interface PublicProofingRound {
+  id: string;
+  name: string;
+  deadline: string | null;
+  photoLimit: number | null;
+  isExpired: boolean;
+}
+
+export interface PublicProofingSubmission {
+  id: string;
+  photoIds: string[];
+  submittedAt: string;
+}
+
+interface ProofingBannerProps {
+  round: PublicProofingRound;
+  submission: PublicProofingSubmission | null;
+  selectedCount: number;
+  onSubmit: (note: string) => Promise<void>;
+}
+
+export default function ProofingBanner({
+  round,
+  submission,
+  selectedCount,
+  onSubmit,
+}: ProofingBannerProps) {
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+  const [note, setNote] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const overLimit = !!round.photoLimit && selectedCount > round.photoLimit;
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      await onSubmit(note.trim());
+      setIsConfirmOpen(false);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (submission) {
+    return (
+      <Card className="p-4 flex items-center gap-3" data-testid="proofing-banner-submitted">
+        <Lock className="w-5 h-5 text-primary shrink-0" />
+        <div>
+          <p className="font-medium">{round.name}: Auswahl abgeschickt</p>
+          <p className="text-sm text-muted-foreground">
+            Du hast am {new Date(submission.submittedAt).toLocaleString("de-DE")}{" "}
+            {submission.photoIds.length} Foto{submission.photoIds.length !== 1 ? "s" : ""} abgeschickt. Änderungen sind nicht mehr möglich.
+          </p>
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3" data-testid="proofing-banner">
+      <div className="flex items-center gap-3">
+        <ClipboardCheck className="w-5 h-5 text-primary shrink-0" />
+        <div>
+          <p className="font-medium">{round.name}</p>
+          <p className="text-sm text-muted-foreground">
+            {round.isExpired
+              ? "Die Frist für die Auswahl ist abgelaufen."
+              : <>
+                  Wähle deine Favoriten aus und schicke sie ab.
+                  {round.deadline &&
+                    ` Frist: ${new Date(round.deadline).toLocaleString("de-DE")}.`}
+                </>}
+          </p>
+          <p
+            className={`text-sm ${overLimit ? "text-destructive" : "text-muted-foreground"}`}
+            data-testid="text-proofing-count"
+          >
+            {selectedCount}
+            {round.photoLimit ? ` von max. ${round.photoLimit}` : ""}{" "}
+            {selectedCount === 1 && !round.photoLimit ? "Foto" : "Fotos"} ausgewählt
+          </p>
+        </div>
+      </div>
+      {!round.isExpired && (
+        <Button
+          onClick={() => setIsConfirmOpen(true)}
+          disabled={selectedCount === 0 || overLimit}
+          data-testid="button-submit-proofing"
+        >
+          Auswahl abschicken
+        </Button>
+      )}
+
+      <AlertDialog open={isConfirmOpen} onOpenChange={setIsConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Auswahl abschicken?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Du schickst {selectedCount} Foto{selectedCount !== 1 ? "s" : ""} ab. Danach kannst du deine Auswahl, Bewertungen und Likes in dieser Runde nicht mehr ändern.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="proofing-note">Nachricht an den Fotografen (optional)</Label>
+            <Textarea
+              id="proofing-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={3}
+              data-testid="input-proofing-note"
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSubmitting}>Abbrechen</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleSubmit();
+              }}
+              disabled={isSubmitting}
+              data-testid="button-confirm-submit-proofing"
+            >
+              {isSubmitting ? "Wird abgeschickt..." : "Verbindlich abschicken"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
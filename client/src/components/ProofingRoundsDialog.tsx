@@ -0,0 +1,319 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { CheckSquare, Lock } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+interface ProofingSubmission {
+  id: string;
+  visitorId: string;
+  visitorName: string;
+  photoIds: string[];
+  note: string | null;
+  submittedAt: string;
+}
+
+interface ProofingRound {
+  id: string;
+  name: string;
+  deadline: string | null;
+  photoLimit: number | null;
+  status: "open" | "closed";
+  isExpired: boolean;
+  createdAt: string;
+  closedAt: string | null;
+  submissions: ProofingSubmission[];
+}
+
+interface ProofingRoundsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  galleryId: string;
+  photos: { id: string; src: string; alt: string }[];
+  onApplySelection: (photoIds: string[]) => void;
+  canManage: boolean;
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString("de-DE", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export default function ProofingRoundsDialog({
+  isOpen,
+  onClose,
+  galleryId,
+  photos,
+  onApplySelection,
+  canManage,
+}: ProofingRoundsDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [deadline, setDeadline] = useState("");
+  const [photoLimit, setPhotoLimit] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const queryKey = ["/api/galleries", galleryId, "proofing-rounds"];
+  const { data: rounds = [] } = useQuery<ProofingRound[]>({
+    queryKey,
+    enabled: isOpen && !!galleryId,
+    queryFn: async () => {
+      const token = localStorage.getItem('authToken');
+      const response = await fetch(`/api/galleries/${galleryId}/proofing-rounds`, {
+        credentials: 'include',
+        headers: {
+          ...(token && { 'Authorization': `Bearer ${token}` })
+        }
+      });
+      if (!response.ok) throw new Error("Failed to fetch proofing rounds");
+      return response.json();
+    },
+  });
+
+  const photosById = new Map(photos.map((photo) => [photo.id, photo]));
+  const hasOpenRound = rounds.some((round) => round.status === "open");
+
+  const handleCreateRound = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setIsSaving(true);
+    try {
+      const token = localStorage.getItem('authToken');
+      const response = await fetch(`/api/galleries/${galleryId}/proofing-rounds`, {
+        method: "POST",
+        credentials: 'include',
+        headers: {
+          "Content-Type": "application/json",
+          ...(token && { 'Authorization': `Bearer ${token}` })
+        },
+        body: JSON.stringify({
+          name: name.trim(),
+          deadline: deadline ? new Date(deadline).toISOString() : null,
+          photoLimit: photoLimit ? parseInt(photoLimit) : null,
+        }),
+      });
+
+      if (response.ok) {
+        toast({
+          title: "Erfolg",
+          description: "Die Auswahlrunde wurde gestartet.",
+        });
+        setName("");
+        setDeadline("");
+        setPhotoLimit("");
+        queryClient.invalidateQueries({ queryKey });
+      } else {
+        const error = await response.json();
+        toast({
+          title: "Fehler",
+          description: error.error || "Die Auswahlrunde konnte nicht gestartet werden.",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Fehler",
+        description: "Ein Fehler ist aufgetreten.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCloseRound = async (roundId: string) => {
+    try {
+      const token = localStorage.getItem('authToken');
+      const response = await fetch(`/api/proofing-rounds/${roundId}/close`, {
+        method: "POST",
+        credentials: 'include',
+        headers: {
+          ...(token && { 'Authorization': `Bearer ${token}` })
+        },
+      });
+      if (!response.ok) throw new Error("Failed to close proofing round");
+      queryClient.invalidateQueries({ queryKey });
+    } catch (error) {
+      toast({
+        title: "Fehler",
+        description: "Die Auswahlrunde konnte nicht geschlossen werden.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const getStatusBadge = (round: ProofingRound) => {
+    if (round.status === "closed") {
+      return <Badge variant="secondary">Abgeschlossen</Badge>;
+    }
+    if (round.isExpired) {
+      return <Badge variant="destructive">Frist abgelaufen</Badge>;
+    }
+    return <Badge>Offen</Badge>;
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Auswahlrunden</DialogTitle>
+          <DialogDescription>
+            Starte eine Runde, in der deine Kunden ihre Auswahl treffen und verbindlich abschicken.
+          </DialogDescription>
+        </DialogHeader>
+
+        {canManage && (
+          <form onSubmit={handleCreateRound} className="space-y-4 border rounded-md p-4">
+            <div className="space-y-2">
+              <Label htmlFor="proofing-name">Name der Runde</Label>
+              <Input
+                id="proofing-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="z.B. Erste Auswahl, Album-Auswahl"
+                data-testid="input-proofing-name"
+              />
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="proofing-deadline">Frist (optional)</Label>
+                <Input
+                  id="proofing-deadline"
+                  type="datetime-local"
+                  value={deadline}
+                  onChange={(e) => setDeadline(e.target.value)}
+                  data-testid="input-proofing-deadline"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="proofing-limit">Max. Anzahl Fotos (optional)</Label>
+                <Input
+                  id="proofing-limit"
+                  type="number"
+                  min={1}
+                  value={photoLimit}
+                  onChange={(e) => setPhotoLimit(e.target.value)}
+                  placeholder="unbegrenzt"
+                  data-testid="input-proofing-limit"
+                />
+              </div>
+            </div>
+            {hasOpenRound && (
+              <p className="text-sm text-muted-foreground">
+                Die aktuell offene Runde wird beim Start einer neuen Runde abgeschlossen.
+              </p>
+            )}
+            <Button type="submit" disabled={isSaving || !name.trim()} data-testid="button-start-proofing">
+              {isSaving ? "Wird gestartet..." : "Runde starten"}
+            </Button>
+          </form>
+        )}
+
+        <div className="space-y-4">
+          {rounds.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              Noch keine Auswahlrunden vorhanden.
+            </p>
+          )}
+          {rounds.map((round) => (
+            <Card key={round.id} data-testid={`card-proofing-round-${round.id}`}>
+              <CardHeader className="pb-2">
+                <div className="flex items-center justify-between gap-2">
+                  <CardTitle className="text-base flex items-center gap-2">
+                    {round.name}
+                    {getStatusBadge(round)}
+                  </CardTitle>
+                  {canManage && round.status === "open" && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleCloseRound(round.id)}
+                      data-testid={`button-close-proofing-${round.id}`}
+                    >
+                      <Lock className="w-4 h-4 mr-2" />
+                      Abschließen
+                    </Button>
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  Gestartet am {formatDate(round.createdAt)}
+                  {round.deadline && ` · Frist: ${formatDate(round.deadline)}`}
+                  {round.photoLimit && ` · max. ${round.photoLimit} Fotos`}
+                </p>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {round.submissions.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    Noch keine Auswahl abgeschickt.
+                  </p>
+                ) : (
+                  round.submissions.map((submission) => (
+                    <div key={submission.id} className="border rounded-md p-3 space-y-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <div>
+                          <p className="font-medium text-sm">{submission.visitorName}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {submission.photoIds.length} Foto{submission.photoIds.length !== 1 ? "s" : ""} · abgeschickt am {formatDate(submission.submittedAt)}
+                          </p>
+                        </div>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => onApplySelection(submission.photoIds)}
+                          data-testid={`button-apply-submission-${submission.id}`}
+                        >
+                          <CheckSquare className="w-4 h-4 mr-2" />
+                          Auswählen
+                        </Button>
+                      </div>
+                      {submission.note && (
+                        <p className="text-sm italic">„{submission.note}“</p>
+                      )}
+                      <div className="grid grid-cols-6 sm:grid-cols-8 gap-1">
+                        {submission.photoIds.map((photoId) => {
+                          const photo = photosById.get(photoId);
+                          return photo ? (
+                            <img
+                              key={photoId}
+                              src={photo.src}
+                              alt={photo.alt}
+                              title={photo.alt}
+                              className="w-full aspect-square object-cover rounded"
+                            />
+                          ) : (
+                            <div
+                              key={photoId}
+                              className="w-full aspect-square rounded bg-muted"
+                              title="Foto gelöscht"
+                            />
+                          );
+                        })}
+                      </div>
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
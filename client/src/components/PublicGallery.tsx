@@ -1,18 +1,27 @@
 import React, { useState, useEffect } from "react";
 import { useParams, useNavigate } from "react-router-dom";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import PhotoGallery from "./PhotoGallery";
 import CollapsibleSelectionPanel from "./CollapsibleSelectionPanel";
 import SubGalleries from "./SubGalleries";
 import Breadcrumb from "./Breadcrumb";
 import PasswordProtection from "./PasswordProtection";
+import GalleryExpired, { type ExpiredGalleryInfo } from "./GalleryExpired";
+import VisitorIdentification from "./VisitorIdentification";
+import FinalsToggle, { toFinalVersion } from "./FinalsToggle";
+import ProofingBanner, {
+  type PublicProofingRound,
+  type PublicProofingSubmission,
+} from "./ProofingBanner";
 import { Card } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Button } from "@/components/ui/button";
 import { Menu, Download, Calendar, Image } from "lucide-react";
 import { NotificationProvider } from "@/contexts/NotificationContext";
-import { usePhotos } from "@/contexts/PhotoContext";
+import { usePhotos, type FinalVersion } from "@/contexts/PhotoContext";
 import { useToast } from "@/hooks/use-toast";
+import { useClientSession } from "@/hooks/use-session-keep-alive";
+import { ensureFreshSession } from "@/lib/queryClient";
 import LoadingOverlay from "./LoadingOverlay";
 
 interface Comment {
@@ -32,6 +41,7 @@ interface Photo {
   isLiked: boolean;
   comments: Comment[];
   isSelected?: boolean;
+  final?: FinalVersion | null;
 }
 
 interface FilterState {
@@ -49,14 +59,35 @@ interface Gallery {
   userId?: string; // Assuming gallery has a userId for owner identification
 }
 
+interface Visitor {
+  id: string;
+  name: string;
+  email?: string | null;
+}
+
+interface GalleryAccess {
+  canView: boolean;
+  canRate: boolean;
+  canComment: boolean;
+  downloadMode: "none" | "web" | "original";
+}
+
+interface PublicProofingData {
+  round: PublicProofingRound | null;
+  submission: PublicProofingSubmission | null;
+}
+
 interface PublicGalleryData {
   gallery: Gallery;
   photos: Photo[];
+  visitor: Visitor | null;
+  access: GalleryAccess;
 }
 
 function PublicGalleryContent() {
   const { galleryId } = useParams<{ galleryId: string }>();
   const navigate = useNavigate();
+  const isClient = useClientSession();
   const [filters, setFilters] = useState<FilterState>({
     showOnlyLiked: false,
     showOnlyRated: false,
@@ -68,6 +99,8 @@ function PublicGalleryContent() {
   const [isBatchRating, setIsBatchRating] = useState(false);
 
   const handleRatingChange = async (photoId: string, newRating: number) => {
+    if (!isRatingAllowed() || isSelectionLocked()) return;
+
     try {
       // Use public API endpoint instead of authenticated one
       const response = await fetch(`/api/public/photos/${photoId}/rating`, {
@@ -77,7 +110,6 @@ function PublicGalleryContent() {
         },
         body: JSON.stringify({
           rating: newRating,
-          userName: "Anonymer Besucher",
         }),
       });
 
@@ -88,6 +120,8 @@ function PublicGalleryContent() {
           p.id === photoId ? { ...p, rating: result.photo.rating } : p,
         );
         setPhotos(updatedPhotos);
+      } else if (response.status === 423) {
+        handleSelectionLocked(response);
       }
     } catch (error) {
       console.error("Error updating rating:", error);
@@ -103,9 +137,16 @@ function PublicGalleryContent() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isPasswordProtected, setIsPasswordProtected] = useState(false);
+  const [expiredGallery, setExpiredGallery] = useState<ExpiredGalleryInfo | null>(null);
   const [passwordError, setPasswordError] = useState<string | null>(null);
   const [passwordLoading, setPasswordLoading] = useState(false);
+  const [visitor, setVisitor] = useState<Visitor | null>(null);
+  const [visitorError, setVisitorError] = useState<string | null>(null);
+  const [visitorLoading, setVisitorLoading] = useState(false);
+  const [access, setAccess] = useState<GalleryAccess | null>(null);
+  const [showFinals, setShowFinals] = useState(true);
   const { toast } = useToast();
+  const queryClient = useQueryClient();
 
   const {
     photos,
@@ -113,31 +154,185 @@ function PublicGalleryContent() {
     updatePhotoLike,
     updatePhotoRating,
     selectedPhotoIds,
+    setSelectedPhotoIds,
     togglePhotoSelection,
     clearSelection,
   } = usePhotos();
 
+  // Open proofing round of this gallery and whether the visitor already
+  // submitted - a submitted or expired round locks all picks
+  const proofingQueryKey = ["/api/public/galleries", galleryId, "proofing"];
+  const { data: proofing } = useQuery<PublicProofingData>({
+    queryKey: proofingQueryKey,
+    enabled: !!gallery && !!visitor,
+    queryFn: async () => {
+      const response = await fetch(`/api/public/galleries/${galleryId}/proofing`);
+      if (!response.ok) throw new Error("Failed to fetch proofing round");
+      return response.json();
+    },
+  });
+
+  const getSelectionLockMessage = () => {
+    if (proofing?.submission) return "Deine Auswahl wurde bereits abgeschickt.";
+    if (proofing?.round?.isExpired) return "Die Frist für die Auswahl ist abgelaufen.";
+    return null;
+  };
+
+  // Share links may allow viewing only
+  const isRatingAllowed = () => {
+    if (access && !access.canRate) {
+      toast({
+        title: "Nicht erlaubt",
+        description: "Bewerten ist über diesen Link nicht erlaubt.",
+        variant: "destructive",
+      });
+      return false;
+    }
+    return true;
+  };
+
+  const isSelectionLocked = () => {
+    const message = getSelectionLockMessage();
+    if (message) {
+      toast({
+        title: "Auswahl gesperrt",
+        description: message,
+        variant: "destructive",
+      });
+    }
+    return !!message;
+  };
+
+  // The server refused a change because the round was locked meanwhile
+  const handleSelectionLocked = async (response: Response) => {
+    const data = await response.json().catch(() => ({}));
+    toast({
+      title: "Auswahl gesperrt",
+      description: data.error || "Deine Auswahl kann nicht mehr geändert werden.",
+      variant: "destructive",
+    });
+    queryClient.invalidateQueries({ queryKey: proofingQueryKey });
+  };
+
+  const handleProofingSubmit = async (note: string) => {
+    try {
+      const response = await fetch(
+        `/api/public/galleries/${galleryId}/proofing/submit`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ note }),
+        },
+      );
+
+      if (response.ok) {
+        toast({
+          title: "Auswahl abgeschickt",
+          description: "Deine Auswahl wurde an den Fotografen übermittelt.",
+        });
+      } else {
+        const data = await response.json();
+        toast({
+          title: "Fehler",
+          description: data.error || "Die Auswahl konnte nicht abgeschickt werden.",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error("Error submitting selection:", error);
+      toast({
+        title: "Fehler",
+        description: "Die Auswahl konnte nicht abgeschickt werden.",
+        variant: "destructive",
+      });
+    } finally {
+      queryClient.invalidateQueries({ queryKey: proofingQueryKey });
+    }
+  };
+
+  // Restore who is looking, what their link allows and what they selected
+  // last time
+  const restoreVisitorState = (data: PublicGalleryData) => {
+    setVisitor(data.visitor);
+    setAccess(data.access);
+    setSelectedPhotoIds(
+      new Set(
+        data.photos
+          .filter((photo) => photo.isSelected)
+          .map((photo) => photo.id),
+      ),
+    );
+  };
+
+  // Selections are stored per visitor so the photographer can see them.
+  // View-only links still select locally, e.g. for downloads.
+  const saveSelection = async (photoIds: string[], isSelected: boolean) => {
+    if (photoIds.length === 0 || (access && !access.canRate)) return;
+
+    try {
+      const response = await fetch("/api/public/photos/selection", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ photoIds, isSelected }),
+      });
+      if (response.status === 423) {
+        handleSelectionLocked(response);
+      }
+    } catch (error) {
+      console.error("Error saving selection:", error);
+    }
+  };
+
   const handleToggleSelection = (photoId: string) => {
+    if (isSelectionLocked()) return;
+    saveSelection([photoId], !selectedPhotoIds.has(photoId));
     togglePhotoSelection(photoId);
   };
 
+  const handleVisitorSubmit = async (name: string, email: string) => {
+    setVisitorLoading(true);
+    setVisitorError(null);
+
+    try {
+      const response = await fetch(`/api/public/galleries/${galleryId}/visitor`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ name, email }),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setVisitor(data.visitor);
+      } else {
+        setVisitorError(data.error || "Fehler beim Speichern des Namens.");
+      }
+    } catch (error) {
+      console.error("Error saving visitor:", error);
+      setVisitorError("Netzwerkfehler. Bitte versuche es erneut.");
+    } finally {
+      setVisitorLoading(false);
+    }
+  };
+
   const handlePhotosChange = () => {
     // No need to refetch - PhotoContext manages all updates
   };
 
   const handleSelectSubGallery = async (subGalleryId: string) => {
     setPhotos([]); // Clear photos before navigating to sub-gallery
-    
-    // Store password for sub-gallery before navigation
-    const currentPassword = localStorage.getItem(`gallery_access_${galleryId}`);
-    if (currentPassword) {
-      localStorage.setItem(`gallery_access_${subGalleryId}`, currentPassword);
-    }
-    
+    // The access cookie of the parent gallery also unlocks its sub-galleries
     window.location.href = `/gallery/${subGalleryId}`;
   };
 
   const handleLikeToggle = async (photoId: string, isLiked: boolean) => {
+    if (!isRatingAllowed() || isSelectionLocked()) return;
+
     try {
       // Use public API endpoint instead of authenticated one
       const response = await fetch(`/api/public/photos/${photoId}/like`, {
@@ -147,7 +342,6 @@ function PublicGalleryContent() {
         },
         body: JSON.stringify({
           isLiked,
-          userName: "Anonymer Besucher",
         }),
       });
 
@@ -158,50 +352,14 @@ function PublicGalleryContent() {
           p.id === photoId ? { ...p, isLiked: result.photo.isLiked } : p,
         );
         setPhotos(updatedPhotos);
+      } else if (response.status === 423) {
+        handleSelectionLocked(response);
       }
     } catch (error) {
       console.error("Error toggling like:", error);
     }
   };
 
-  // Check if user already has access to this gallery or its parent
-  const getStoredPassword = () => {
-    try {
-      // First check for this specific gallery
-      let stored = localStorage.getItem(`gallery_access_${galleryId}`);
-      if (stored) return stored;
-
-      // If we have gallery info and this is a sub-gallery, check parent gallery password
-      if (gallery?.parentId) {
-        stored = localStorage.getItem(`gallery_access_${gallery.parentId}`);
-        if (stored) {
-          // Also store password for current sub-gallery
-          localStorage.setItem(`gallery_access_${galleryId}`, stored);
-          return stored;
-        }
-      }
-
-      return null;
-    } catch {
-      return null;
-    }
-  };
-
-  const storePassword = (password: string) => {
-    try {
-      // Store password for current gallery
-      localStorage.setItem(`gallery_access_${galleryId}`, password);
-
-      // If this is a main gallery (no parentId), the password will be checked by sub-galleries
-      // If this is a sub-gallery, also store the password for the parent gallery
-      if (gallery?.parentId) {
-        localStorage.setItem(`gallery_access_${gallery.parentId}`, password);
-      }
-    } catch (error) {
-      console.error("Could not store password in localStorage:", error);
-    }
-  };
-
   const handlePasswordSubmit = async (password: string) => {
     setPasswordLoading(true);
     setPasswordError(null);
@@ -219,11 +377,10 @@ function PublicGalleryContent() {
         const data = await response.json();
         const transformedPhotos = data.photos.map((photo: any) => ({
           id: photo.id,
-          src: `/${photo.thumbnailPath || photo.filePath}`,
-          mediumSrc: photo.mediumPath
-            ? `/${photo.mediumPath}`
-            : `/${photo.filePath}`,
-          originalSrc: `/${photo.filePath}`, // Always use filePath for original/download
+          src: photo.thumbnailUrl || photo.originalUrl,
+          mediumSrc: photo.mediumUrl || photo.originalUrl || undefined,
+          originalSrc: photo.originalUrl || undefined, // Only if originals may be downloaded
+          final: toFinalVersion(photo.final),
           alt: photo.alt,
           rating: photo.rating || 0,
           isLiked: photo.isLiked || false,
@@ -245,18 +402,15 @@ function PublicGalleryContent() {
         }));
         setGallery(data.gallery);
         setPhotos(transformedPhotos);
+        restoreVisitorState(data);
         setIsPasswordProtected(false);
-        storePassword(password);
-
-        // Also store for parent if this is a sub-gallery
-        if (data.gallery.parentId) {
-          localStorage.setItem(
-            `gallery_access_${data.gallery.parentId}`,
-            password,
-          );
-        }
       } else if (response.status === 401) {
         setPasswordError("Falsches Passwort. Bitte versuche es erneut.");
+      } else if (response.status === 429) {
+        const data = await response.json().catch(() => ({}));
+        setPasswordError(
+          data.error || "Zu viele Fehlversuche. Bitte versuche es später erneut.",
+        );
       } else if (response.status === 403) {
         setPasswordError("Diese Galerie ist passwortgeschützt.");
       } else {
@@ -278,100 +432,36 @@ function PublicGalleryContent() {
       try {
         // First get gallery info to check if it's a sub-gallery - use public endpoint
         let galleryInfo;
-        let storedPassword = null;
+
+        // Passwords were kept in clear text by earlier versions
+        localStorage.removeItem(`gallery_access_${galleryId}`);
+
+        // Assigned clients get access through their login
+        if (isClient) {
+          await ensureFreshSession();
+        }
 
         try {
           // Try to get gallery info without auth first
           const infoResponse = await fetch(`/api/gallery/${galleryId}/public`);
 
-          if (infoResponse.status === 403) {
-            // Gallery is password protected, check stored passwords
-            // First check for this gallery
-            storedPassword = localStorage.getItem(`gallery_access_${galleryId}`);
-
-            // If no password found, try to get gallery basic info to check for parentId
-            if (!storedPassword) {
-              try {
-                const basicInfoResponse = await fetch(
-                  `/api/galleries/${galleryId}`,
-                );
-                if (basicInfoResponse.ok) {
-                  const basicInfo = await basicInfoResponse.json();
-                  if (basicInfo.parentId) {
-                    // Try parent gallery password
-                    storedPassword = localStorage.getItem(
-                      `gallery_access_${basicInfo.parentId}`,
-                    );
-                    if (storedPassword) {
-                      // Store for current gallery too
-                      localStorage.setItem(
-                        `gallery_access_${galleryId}`,
-                        storedPassword,
-                      );
-                    }
-                  }
-                }
-              } catch (error) {
-                // Ignore error, will show password prompt
-              }
+          if (infoResponse.status === 410) {
+            // Past the expiry date, only the owner can extend it
+            const info = await infoResponse.json().catch(() => ({}));
+            if (info.expired) {
+              setExpiredGallery(info);
+              return;
             }
-
-            if (storedPassword) {
-              const retryResponse = await fetch(
-                `/api/gallery/${galleryId}/public`,
-                {
-                  method: "POST",
-                  headers: {
-                    "Content-Type": "application/json",
-                  },
-                  body: JSON.stringify({ password: storedPassword }),
-                },
-              );
-
-              if (retryResponse.ok) {
-                const data = await retryResponse.json();
-                galleryInfo = data.gallery;
-                setGallery(galleryInfo);
-
-                // Store password for this gallery too
-                localStorage.setItem(
-                  `gallery_access_${galleryId}`,
-                  storedPassword,
-                );
-
-                const transformedPhotos = data.photos.map((photo: any) => ({
-                  id: photo.id,
-                  src: `/${photo.thumbnailPath || photo.filePath}`,
-                  mediumSrc: photo.mediumPath
-                    ? `/${photo.mediumPath}`
-                    : `/${photo.filePath}`,
-                  originalSrc: `/${photo.filePath}`,
-                  alt: photo.alt,
-                  rating: photo.rating || 0,
-                  isLiked: photo.isLiked || false,
-                  comments:
-                    photo.comments?.map((comment: any) => ({
-                      id: comment.id,
-                      author:
-                        comment.commenterName || comment.author || "Unbekannt",
-                      text: comment.text,
-                      timestamp: comment.createdAt
-                        ? new Date(comment.createdAt).toLocaleString("de-DE", {
-                            year: "numeric",
-                            month: "2-digit",
-                            day: "2-digit",
-                            hour: "2-digit",
-                            minute: "2-digit",
-                          })
-                        : comment.timestamp || "Unbekannt",
-                    })) || [],
-                }));
-                setPhotos(transformedPhotos);
-                setIsLoading(false);
-                return;
-              }
+            setError(info.error);
+          } else if (infoResponse.status === 403) {
+            // Galleries with share links can't be opened by their ID
+            const info = await infoResponse.json().catch(() => ({}));
+            if (info.shareLinkRequired) {
+              setError(info.error);
+              return;
             }
 
+            // Gallery is password protected and not unlocked by the access cookie
             setIsPasswordProtected(true);
             setIsLoading(false);
             return;
@@ -382,11 +472,10 @@ function PublicGalleryContent() {
 
             const transformedPhotos = data.photos.map((photo: any) => ({
               id: photo.id,
-              src: `/${photo.thumbnailPath || photo.filePath}`,
-              mediumSrc: photo.mediumPath
-                ? `/${photo.mediumPath}`
-                : `/${photo.filePath}`,
-              originalSrc: `/${photo.filePath}`,
+              src: photo.thumbnailUrl || photo.originalUrl,
+              mediumSrc: photo.mediumUrl || photo.originalUrl || undefined,
+              originalSrc: photo.originalUrl || undefined,
+              final: toFinalVersion(photo.final),
               alt: photo.alt,
               rating: photo.rating || 0,
               isLiked: photo.isLiked || false,
@@ -408,6 +497,7 @@ function PublicGalleryContent() {
                 })) || [],
             }));
             setPhotos(transformedPhotos);
+            restoreVisitorState(data);
           } else {
             setError("Gallery not found or not public");
           }
@@ -433,8 +523,13 @@ function PublicGalleryContent() {
     const currentPath = window.location.pathname;
     const returnPath = encodeURIComponent(currentPath);
 
+    // The lightbox opens the version shown in the gallery
+    const proofsParam = hasFinals && !showFinals ? "&proofs=1" : "";
+
     if (galleryId) {
-      navigate(`/gallery/${galleryId}/photo/${photo.id}?return=${returnPath}`);
+      navigate(
+        `/gallery/${galleryId}/photo/${photo.id}?return=${returnPath}${proofsParam}`,
+      );
     }
   };
 
@@ -462,6 +557,10 @@ function PublicGalleryContent() {
     );
   }
 
+  if (expiredGallery) {
+    return <GalleryExpired {...expiredGallery} />;
+  }
+
   if (isPasswordProtected) {
     return (
       <PasswordProtection
@@ -473,6 +572,17 @@ function PublicGalleryContent() {
     );
   }
 
+  if (gallery && !visitor && !error) {
+    return (
+      <VisitorIdentification
+        galleryName={gallery.name}
+        onSubmit={handleVisitorSubmit}
+        error={visitorError}
+        loading={visitorLoading}
+      />
+    );
+  }
+
   if (error || !gallery || !photos) {
     return (
       <div className="container mx-auto p-6 max-w-6xl">
@@ -492,15 +602,23 @@ function PublicGalleryContent() {
     ? photos.filter((photo) => selectedPhotoIds.has(photo.id))
     : [];
 
+  // Finals replace the proofs once delivered, their download is released
+  // separately from the proofs
+  const hasFinals = photos.some((photo) => photo.final);
+  const canDownloadFinals = photos.some((photo) => photo.final?.originalSrc);
+
   const handleClearSelection = () => {
+    if (isSelectionLocked()) return;
+    saveSelection(Array.from(selectedPhotoIds), false);
     clearSelection();
   };
 
   const handleRemoveFromSelection = (photoId: string) => {
-    togglePhotoSelection(photoId);
+    handleToggleSelection(photoId);
   };
 
   const handleSelectAll = () => {
+    if (isSelectionLocked()) return;
     const filteredPhotos = photos.filter((photo) => {
       if (filters.showOnlyLiked && !photo.isLiked) {
         return false;
@@ -514,6 +632,14 @@ function PublicGalleryContent() {
       return true;
     });
     const filteredPhotoIds = filteredPhotos.map((photo) => photo.id);
+    saveSelection(
+      filteredPhotoIds.filter((id) => !selectedPhotoIds.has(id)),
+      true,
+    );
+    saveSelection(
+      filteredPhotoIds.filter((id) => selectedPhotoIds.has(id)),
+      false,
+    );
     filteredPhotoIds.forEach((id) => togglePhotoSelection(id));
   };
 
@@ -561,8 +687,8 @@ function PublicGalleryContent() {
                 userId: gallery.userId,
                 galleryId: gallery.id,
                 type: "download",
-                message: `Jemand hat ${photoIds.length} Foto${photoIds.length !== 1 ? "s" : ""} aus Galerie "${gallery.name}" heruntergeladen`,
-                actorName: "Anonymer Besucher",
+                message: `${visitor?.name || "Jemand"} hat ${photoIds.length} Foto${photoIds.length !== 1 ? "s" : ""} aus Galerie "${gallery.name}" heruntergeladen`,
+                actorName: visitor?.name || "Anonymer Besucher",
                 isRead: false,
               }),
             });
@@ -640,8 +766,8 @@ function PublicGalleryContent() {
                 userId: gallery.userId,
                 galleryId: gallery.id,
                 type: "download",
-                message: `Jemand hat alle ${allPhotoIds.length} Fotos aus Galerie "${gallery.name}" heruntergeladen`,
-                actorName: "Anonymer Besucher",
+                message: `${visitor?.name || "Jemand"} hat alle ${allPhotoIds.length} Fotos aus Galerie "${gallery.name}" heruntergeladen`,
+                actorName: visitor?.name || "Anonymer Besucher",
                 isRead: false,
               }),
             });
@@ -675,10 +801,50 @@ function PublicGalleryContent() {
     }
   };
 
+  const handleDownloadFinals = async () => {
+    const loadingToast = toast({
+      title: "Download wird vorbereitet",
+      description: "Die Anfrage wird an den Server gesendet.",
+      duration: Infinity,
+    });
+
+    try {
+      const response = await fetch(
+        `/api/public/galleries/${galleryId}/finals/prepare-download`,
+        { method: "POST" },
+      );
+
+      loadingToast.dismiss();
+      if (response.ok) {
+        const data = await response.json();
+        window.location.href = data.downloadUrl;
+        toast({
+          title: "Download gestartet",
+          description: "Der Browser lädt die finalen Bilder herunter.",
+          duration: 3000,
+        });
+      } else {
+        toast({
+          title: "Fehler",
+          description: "Download fehlgeschlagen. Bitte versuche es erneut.",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      loadingToast.dismiss();
+      console.error("Error preparing finals download:", error);
+      toast({
+        title: "Fehler",
+        description: "Download fehlgeschlagen. Bitte versuche es erneut.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleBatchRatingChange = async (rating: number) => {
     const photoIds = Array.from(selectedPhotoIds);
 
-    if (photoIds.length === 0) return;
+    if (photoIds.length === 0 || !isRatingAllowed() || isSelectionLocked()) return;
 
     // Show loading overlay
     setIsBatchRating(true);
@@ -711,7 +877,6 @@ function PublicGalleryContent() {
         body: JSON.stringify({
           photoIds,
           rating,
-          userName: "Anonymer Besucher",
         }),
       });
 
@@ -743,6 +908,10 @@ function PublicGalleryContent() {
           return photo;
         });
         setPhotos(revertedPhotos);
+        if (response.status === 423) {
+          handleSelectionLocked(response);
+          return;
+        }
         const errorData = await response.json();
         console.error("Batch rating failed:", errorData);
         toast({
@@ -798,8 +967,11 @@ function PublicGalleryContent() {
         </div>
 
         <Breadcrumb
-          items={
-            gallery?.parentId
+          items={[
+            ...(isClient
+              ? [{ label: "Meine Galerien", onClick: () => navigate("/portal") }]
+              : []),
+            ...(gallery?.parentId
               ? [
                   {
                     label: "Galerie",
@@ -809,8 +981,8 @@ function PublicGalleryContent() {
                   },
                   { label: gallery?.name || "Galerie", onClick: () => {} },
                 ]
-              : [{ label: "Galerie", onClick: () => {} }]
-          }
+              : [{ label: "Galerie", onClick: () => {} }]),
+          ]}
         />
 
         {galleryId && (
@@ -822,11 +994,38 @@ function PublicGalleryContent() {
           />
         )}
 
+        {proofing?.round && access?.canRate && (
+          <ProofingBanner
+            round={proofing.round}
+            submission={proofing.submission}
+            selectedCount={selectedPhotoIds.size}
+            onSubmit={handleProofingSubmit}
+          />
+        )}
+
+        {hasFinals && (
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <FinalsToggle showFinals={showFinals} onShowFinalsChange={setShowFinals} />
+            {canDownloadFinals && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleDownloadFinals}
+                data-testid="button-download-finals"
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Finale Bilder herunterladen
+              </Button>
+            )}
+          </div>
+        )}
+
         <PhotoGallery
           photos={photos}
           selectedPhotoIds={selectedPhotoIds}
           onToggleSelection={handleToggleSelection}
           onPhotosChange={handlePhotosChange}
+          showFinals={hasFinals && showFinals}
           isPublicView={true}
           authContext={null}
           filters={filters}
@@ -849,12 +1048,14 @@ function PublicGalleryContent() {
         onRemoveFromSelection={handleRemoveFromSelection}
         onSelectAll={handleSelectAll}
         onDownloadSelected={
-          gallery?.allowDownload !== false
+          access && access.downloadMode !== "none"
             ? handleDownloadSelectedPhotos
             : undefined
         }
         onDownloadAll={
-          gallery?.allowDownload !== false ? handleDownloadAllPhotos : undefined
+          access && access.downloadMode !== "none"
+            ? handleDownloadAllPhotos
+            : undefined
         }
         filters={filters}
         onFiltersChange={setFilters}
@@ -14,6 +14,7 @@ import {
   Download,
   ArrowLeft,
   MessageCircle,
+  Sparkles,
 } from "lucide-react";
 import {
   Sheet,
@@ -24,6 +25,11 @@ import {
 } from "@/components/ui/sheet";
 import { useToast } from "@/hooks/use-toast";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { useClientSession } from "@/hooks/use-session-keep-alive";
+import { ensureFreshSession } from "@/lib/queryClient";
+import PhotoMetadataPanel from "./PhotoMetadataPanel";
+import FinalsToggle, { toFinalVersion } from "./FinalsToggle";
+import type { FinalVersion } from "@/contexts/PhotoContext";
 
 interface Comment {
   id: string;
@@ -41,6 +47,7 @@ interface Photo {
   rating: number;
   isLiked: boolean;
   comments: Comment[];
+  final?: FinalVersion | null;
 }
 
 interface Gallery {
@@ -49,54 +56,59 @@ interface Gallery {
   allowDownload?: boolean;
 }
 
+interface GalleryAccess {
+  canView: boolean;
+  canRate: boolean;
+  canComment: boolean;
+  downloadMode: "none" | "web" | "original";
+}
+
 export default function PublicLightboxPage() {
   const { galleryId, photoId } = useParams<{ galleryId: string; photoId: string }>();
   const navigate = useNavigate();
   const location = useLocation();
   const { toast } = useToast();
   const isMobile = useIsMobile();
+  const isClient = useClientSession();
 
   const [photos, setPhotos] = useState<Photo[]>([]);
   const [currentPhoto, setCurrentPhoto] = useState<Photo | null>(null);
   const [gallery, setGallery] = useState<Gallery | null>(null);
+  const [access, setAccess] = useState<GalleryAccess | null>(null);
   const [newComment, setNewComment] = useState("");
   const [commenterName, setCommenterName] = useState("");
   const [isLoading, setIsLoading] = useState(true);
   const [touchStartX, setTouchStartX] = useState(0);
   const [showMobileSidebar, setShowMobileSidebar] = useState(false);
+  // Before/after: the gallery passes proofs=1 when it shows the proofs
+  const [showFinal, setShowFinal] = useState(
+    !new URLSearchParams(location.search).get("proofs"),
+  );
 
   const returnPath = new URLSearchParams(location.search).get("return") || `/gallery/${galleryId}`;
 
   useEffect(() => {
     const fetchGalleryData = async () => {
       try {
-        let storedPassword = null;
-        try {
-          storedPassword = localStorage.getItem(`gallery_access_${galleryId}`);
-        } catch (error) {
-          console.error('Error accessing localStorage:', error);
+        // Assigned clients get access through their login
+        if (isClient) {
+          await ensureFreshSession();
         }
 
-        const requestBody = storedPassword ? { password: storedPassword } : {};
-        const method = storedPassword ? 'POST' : 'GET';
-
-        const response = await fetch(`/api/gallery/${galleryId}/public`, {
-          method,
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: method === 'POST' ? JSON.stringify(requestBody) : undefined,
-        });
+        // Password protected galleries are unlocked by the access cookie
+        const response = await fetch(`/api/gallery/${galleryId}/public`);
 
         if (response.ok) {
           const data = await response.json();
           setGallery(data.gallery);
+          setAccess(data.access);
 
           const transformedPhotos = data.photos.map((photo: any) => ({
             id: photo.id,
-            src: `/${photo.thumbnailPath || photo.filePath}`,
-            mediumSrc: photo.mediumPath ? `/${photo.mediumPath}` : `/${photo.filePath}`,
-            originalSrc: `/${photo.filePath}`,
+            src: photo.thumbnailUrl || photo.originalUrl,
+            mediumSrc: photo.mediumUrl || photo.originalUrl || undefined,
+            originalSrc: photo.originalUrl || undefined,
+            final: toFinalVersion(photo.final),
             alt: photo.alt,
             rating: photo.rating || 0,
             isLiked: photo.isLiked || false,
@@ -124,7 +136,10 @@ export default function PublicLightboxPage() {
     if (galleryId && photoId) {
       fetchGalleryData();
     }
-  }, [galleryId, photoId, navigate]);
+  }, [galleryId, photoId, navigate, isClient]);
+
+  const getShownVersion = (photo: Photo) =>
+    showFinal && photo.final ? photo.final : photo;
 
   const handleClose = () => {
     navigate(decodeURIComponent(returnPath));
@@ -162,18 +177,53 @@ export default function PublicLightboxPage() {
     }
   };
 
+  // Ratings and likes need a visitor name, which is asked for in the gallery
+  const handleVisitorRequired = () => {
+    toast({
+      title: "Name erforderlich",
+      description: "Bitte gib in der Galerie zuerst deinen Namen ein.",
+      variant: "destructive",
+    });
+  };
+
+  // Picks are locked once the visitor submitted their proofing selection
+  const handleSelectionLocked = async (response: Response) => {
+    const data = await response.json().catch(() => ({}));
+    toast({
+      title: "Auswahl gesperrt",
+      description: data.error || "Deine Auswahl kann nicht mehr geändert werden.",
+      variant: "destructive",
+    });
+  };
+
+  // The share link doesn't allow this action
+  const handleNotAllowed = async (response: Response) => {
+    const data = await response.json().catch(() => ({}));
+    toast({
+      title: "Nicht erlaubt",
+      description: data.error || "Diese Aktion ist über diesen Link nicht erlaubt.",
+      variant: "destructive",
+    });
+  };
+
   const handleRatingChange = async (rating: number) => {
     if (!currentPhoto) return;
     try {
       const response = await fetch(`/api/public/photos/${currentPhoto.id}/rating`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ rating, userName: 'Anonymer Besucher' }),
+        body: JSON.stringify({ rating }),
       });
 
       if (response.ok) {
         const result = await response.json();
         setCurrentPhoto({ ...currentPhoto, rating: result.photo.rating });
+      } else if (response.status === 401) {
+        handleVisitorRequired();
+      } else if (response.status === 423) {
+        handleSelectionLocked(response);
+      } else if (response.status === 403) {
+        handleNotAllowed(response);
       }
     } catch (error) {
       console.error("Error updating rating:", error);
@@ -186,12 +236,18 @@ export default function PublicLightboxPage() {
       const response = await fetch(`/api/public/photos/${currentPhoto.id}/like`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ isLiked: !currentPhoto.isLiked, userName: 'Anonymer Besucher' }),
+        body: JSON.stringify({ isLiked: !currentPhoto.isLiked }),
       });
 
       if (response.ok) {
         const result = await response.json();
         setCurrentPhoto({ ...currentPhoto, isLiked: result.photo.isLiked });
+      } else if (response.status === 401) {
+        handleVisitorRequired();
+      } else if (response.status === 423) {
+        handleSelectionLocked(response);
+      } else if (response.status === 403) {
+        handleNotAllowed(response);
       }
     } catch (error) {
       console.error("Error toggling like:", error);
@@ -342,28 +398,30 @@ export default function PublicLightboxPage() {
     const currentIndex = photos.findIndex(p => p.id === currentPhoto.id);
     if (currentIndex === -1) return;
 
-    const preloadImage = (src: string) => {
+    const preloadImage = (photo: Photo) => {
+      const shown = getShownVersion(photo);
       const img = new Image();
-      img.src = src;
+      img.src = shown.mediumSrc || shown.src;
     };
 
     if (currentIndex < photos.length - 1) {
-      const nextPhoto = photos[currentIndex + 1];
-      preloadImage(nextPhoto.mediumSrc || nextPhoto.src);
+      preloadImage(photos[currentIndex + 1]);
     }
 
     if (currentIndex > 0) {
-      const prevPhoto = photos[currentIndex - 1];
-      preloadImage(prevPhoto.mediumSrc || prevPhoto.src);
+      preloadImage(photos[currentIndex - 1]);
     }
-  }, [currentPhoto, photos]);
+  }, [currentPhoto, photos, showFinal]);
 
   if (isLoading || !currentPhoto) {
     return <div className="flex items-center justify-center h-screen">Lädt...</div>;
   }
 
   const currentIndex = photos.findIndex(p => p.id === currentPhoto.id);
-  const allowDownload = gallery?.allowDownload ?? true;
+  const allowDownload = !!access && access.downloadMode !== "none";
+  const shownPhoto = getShownVersion(currentPhoto);
+  const finalDownloadSrc = currentPhoto.final?.originalSrc;
+  const allowComment = access?.canComment ?? false;
 
   return (
     <div className="min-h-screen bg-background">
@@ -378,8 +436,18 @@ export default function PublicLightboxPage() {
           Zurück zur Galerie
         </Button>
 
-        <div className="text-sm text-muted-foreground">
-          {currentIndex >= 0 ? currentIndex + 1 : "?"} von {photos.length}
+        <div className="flex items-center gap-4">
+          <div className="text-sm text-muted-foreground">
+            {currentIndex >= 0 ? currentIndex + 1 : "?"} von {photos.length}
+          </div>
+          {currentPhoto.final && (
+            <FinalsToggle
+              showFinals={showFinal}
+              onShowFinalsChange={setShowFinal}
+              finalLabel="Nachher"
+              proofLabel="Vorher"
+            />
+          )}
         </div>
 
         {/* Desktop Sidebar Toggle - hier nur X für Close, da Controls unten sind auf Mobile */}
@@ -413,7 +481,7 @@ export default function PublicLightboxPage() {
 
           <div className="flex items-center justify-center w-full h-full overflow-hidden">
             <img
-              src={currentPhoto.mediumSrc || currentPhoto.src}
+              src={shownPhoto.mediumSrc || shownPhoto.src}
               alt={currentPhoto.alt}
               className="max-w-full max-h-full object-contain"
               style={{ maxHeight: isMobile ? "calc(100vh - 9rem)" : "calc(100vh - 10rem)" }}
@@ -485,6 +553,17 @@ export default function PublicLightboxPage() {
                 Bild herunterladen
               </Button>
             )}
+            {finalDownloadSrc && (
+              <Button asChild variant="outline" className="mb-6 w-full">
+                <a href={finalDownloadSrc} download data-testid="link-download-final">
+                  <Download className="w-5 h-5 mr-2" />
+                  Finales Bild herunterladen
+                </a>
+              </Button>
+            )}
+
+            {/* EXIF/IPTC Metadata - only fields released by an admin */}
+            <PhotoMetadataPanel photoId={currentPhoto.id} isPublic />
 
             {/* Comments */}
             <div>
@@ -504,28 +583,32 @@ export default function PublicLightboxPage() {
                   </Card>
                 ))}
               </div>
-              <Input
-                type="text"
-                placeholder="Ihr Name"
-                value={commenterName}
-                onChange={(e) => setCommenterName(e.target.value)}
-                className="w-full mb-2"
-              />
-              <Textarea
-                placeholder="Kommentar hinzufügen..."
-                value={newComment}
-                onChange={(e) => setNewComment(e.target.value)}
-                onKeyDown={handleKeyPress}
-                rows={3}
-              />
-              <Button
-                onClick={handleAddComment}
-                disabled={!newComment.trim() || !commenterName.trim()}
-                size="sm"
-                className="mt-2 w-full"
-              >
-                Kommentar hinzufügen
-              </Button>
+              {allowComment && (
+                <>
+                  <Input
+                    type="text"
+                    placeholder="Ihr Name"
+                    value={commenterName}
+                    onChange={(e) => setCommenterName(e.target.value)}
+                    className="w-full mb-2"
+                  />
+                  <Textarea
+                    placeholder="Kommentar hinzufügen..."
+                    value={newComment}
+                    onChange={(e) => setNewComment(e.target.value)}
+                    onKeyDown={handleKeyPress}
+                    rows={3}
+                  />
+                  <Button
+                    onClick={handleAddComment}
+                    disabled={!newComment.trim() || !commenterName.trim()}
+                    size="sm"
+                    className="mt-2 w-full"
+                  >
+                    Kommentar hinzufügen
+                  </Button>
+                </>
+              )}
             </div>
           </div>
         )}
@@ -539,6 +622,13 @@ export default function PublicLightboxPage() {
               <Download className="w-5 h-5" />
             </Button>
           )}
+          {finalDownloadSrc && (
+            <Button asChild variant="ghost" size="icon" title="Finales Bild herunterladen">
+              <a href={finalDownloadSrc} download>
+                <Sparkles className="w-5 h-5" />
+              </a>
+            </Button>
+          )}
 
           {/* Compact Rating */}
           <div className="flex items-center space-x-1">
@@ -596,6 +686,9 @@ export default function PublicLightboxPage() {
                   </div>
                 </div>
 
+                {/* EXIF/IPTC Metadata */}
+                <PhotoMetadataPanel photoId={currentPhoto.id} isPublic />
+
                 {/* Comments List */}
                 <div>
                   <h4 className="font-medium mb-4">
@@ -614,27 +707,31 @@ export default function PublicLightboxPage() {
                       </Card>
                     ))}
                   </div>
-                  <Input
-                    type="text"
-                    placeholder="Ihr Name"
-                    value={commenterName}
-                    onChange={(e) => setCommenterName(e.target.value)}
-                    className="w-full mb-2"
-                  />
-                  <Textarea
-                    placeholder="Kommentar hinzufügen..."
-                    value={newComment}
-                    onChange={(e) => setNewComment(e.target.value)}
-                    rows={3}
-                  />
-                  <Button
-                    onClick={handleAddComment}
-                    disabled={!newComment.trim() || !commenterName.trim()}
-                    size="sm"
-                    className="mt-2 w-full"
-                  >
-                    Kommentar hinzufügen
-                  </Button>
+                  {allowComment && (
+                    <>
+                      <Input
+                        type="text"
+                        placeholder="Ihr Name"
+                        value={commenterName}
+                        onChange={(e) => setCommenterName(e.target.value)}
+                        className="w-full mb-2"
+                      />
+                      <Textarea
+                        placeholder="Kommentar hinzufügen..."
+                        value={newComment}
+                        onChange={(e) => setNewComment(e.target.value)}
+                        rows={3}
+                      />
+                      <Button
+                        onClick={handleAddComment}
+                        disabled={!newComment.trim() || !commenterName.trim()}
+                        size="sm"
+                        className="mt-2 w-full"
+                      >
+                        Kommentar hinzufügen
+                      </Button>
+                    </>
+                  )}
                 </div>
               </div>
             </SheetContent>
@@ -0,0 +1,136 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Unlock } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type RateLimitScope =
+  | "login"
+  | "forgot_password"
+  | "gallery_password"
+  | "two_factor";
+
+interface Lockout {
+  id: string;
+  scope: RateLimitScope;
+  key: string;
+  type: "ip" | "account" | "user" | "gallery" | "share_link";
+  label: string;
+  failures: number;
+  blockedUntil: string | null;
+  lockedAt: string;
+  isActive: boolean;
+}
+
+const SCOPE_LABELS: Record<RateLimitScope, string> = {
+  login: "Anmeldung",
+  forgot_password: "Passwort vergessen",
+  gallery_password: "Galerie-Passwort",
+  two_factor: "2FA-Code",
+};
+
+const TYPE_LABELS: Record<Lockout["type"], string> = {
+  ip: "IP-Adresse",
+  account: "Konto",
+  user: "Konto",
+  gallery: "Galerie",
+  share_link: "Freigabelink",
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString("de-DE", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+// Lockouts after too many failed login or password attempts (last 24 hours)
+export default function RateLimitLockouts() {
+  const { toast } = useToast();
+
+  const queryKey = ["/api/rate-limits/lockouts"];
+  const { data: lockouts = [] } = useQuery<Lockout[]>({
+    queryKey,
+    queryFn: () => apiRequest("GET", "/api/rate-limits/lockouts"),
+  });
+
+  const clearLockoutMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/rate-limits/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Erfolg",
+        description: "Die Sperre wurde aufgehoben.",
+      });
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: () => {
+      toast({
+        title: "Fehler",
+        description: "Die Sperre konnte nicht aufgehoben werden.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Gesperrte Anmeldeversuche</CardTitle>
+        <CardDescription>
+          Nach zu vielen Fehlversuchen bei Anmeldung, 2FA-Code, Passwort-Reset oder
+          Galerie-Passwort werden IP-Adressen, Konten und Galerien vorübergehend gesperrt
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {lockouts.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            Keine Sperren in den letzten 24 Stunden.
+          </p>
+        )}
+        {lockouts.map((lockout) => (
+          <div
+            key={lockout.id}
+            className="flex items-start justify-between gap-2 border rounded-md p-3"
+            data-testid={`lockout-${lockout.id}`}
+          >
+            <div className="min-w-0 space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="font-medium text-sm truncate">{lockout.label}</span>
+                {lockout.isActive ? (
+                  <Badge variant="destructive">Gesperrt</Badge>
+                ) : (
+                  <Badge variant="secondary">Abgelaufen</Badge>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {TYPE_LABELS[lockout.type] || lockout.type} · {SCOPE_LABELS[lockout.scope] || lockout.scope} · {lockout.failures} Fehlversuche
+              </p>
+              <p className="text-xs text-muted-foreground">
+                Gesperrt am {formatDate(lockout.lockedAt)}
+                {lockout.isActive && lockout.blockedUntil && ` bis ${formatDate(lockout.blockedUntil)}`}
+              </p>
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 shrink-0"
+              onClick={() => clearLockoutMutation.mutate(lockout.id)}
+              disabled={clearLockoutMutation.isPending}
+              title="Sperre aufheben"
+              data-testid={`button-clear-lockout-${lockout.id}`}
+            >
+              <Unlock className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -400,7 +400,7 @@ export default function SelectionPanel({
                 variant="destructive"
                 className="w-full"
                 onClick={() => {
-                  if (confirm(`Möchten Sie wirklich ${selectedPhotos.length} Foto${selectedPhotos.length > 1 ? 's' : ''} löschen?`)) {
+                  if (confirm(`Möchten Sie ${selectedPhotos.length} Foto${selectedPhotos.length > 1 ? 's' : ''} in den Papierkorb verschieben?`)) {
                     onDeleteSelected();
                   }
                 }}
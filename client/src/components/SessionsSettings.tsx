@@ -0,0 +1,147 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { LogOut, Monitor, Smartphone } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface ActiveSession {
+  id: string;
+  device: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  isCurrent: boolean;
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString("de-DE", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const isMobile = (session: ActiveSession) =>
+  /iOS|iPadOS|Android/.test(session.device);
+
+// Account tab: devices with an active login, single ones or all others can be logged out
+export default function SessionsSettings() {
+  const { toast } = useToast();
+
+  const queryKey = ["/api/auth/sessions"];
+  const { data: sessions = [] } = useQuery<ActiveSession[]>({
+    queryKey,
+    queryFn: () => apiRequest("GET", "/api/auth/sessions"),
+  });
+
+  const revokeSessionMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/auth/sessions/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Erfolg",
+        description: "Das Gerät wurde abgemeldet.",
+      });
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: () => {
+      toast({
+        title: "Fehler",
+        description: "Das Gerät konnte nicht abgemeldet werden.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/auth/sessions/revoke-others");
+    },
+    onSuccess: () => {
+      toast({
+        title: "Erfolg",
+        description: "Alle anderen Geräte wurden abgemeldet.",
+      });
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: () => {
+      toast({
+        title: "Fehler",
+        description: "Die Geräte konnten nicht abgemeldet werden.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const hasOtherSessions = sessions.some((session) => !session.isCurrent);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Angemeldete Geräte</CardTitle>
+        <CardDescription>
+          Geräte und Browser, auf denen du gerade angemeldet bist
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {sessions.map((session) => {
+          const DeviceIcon = isMobile(session) ? Smartphone : Monitor;
+          return (
+            <div
+              key={session.id}
+              className="flex items-start justify-between gap-2 border rounded-md p-3"
+              data-testid={`session-${session.id}`}
+            >
+              <div className="flex min-w-0 gap-3">
+                <DeviceIcon className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-sm truncate" title={session.userAgent || undefined}>
+                      {session.device}
+                    </span>
+                    {session.isCurrent && <Badge>Dieses Gerät</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {session.ipAddress || "Unbekannte IP"} · Zuletzt aktiv {formatDate(session.lastSeenAt)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Angemeldet seit {formatDate(session.createdAt)}
+                  </p>
+                </div>
+              </div>
+              {!session.isCurrent && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  onClick={() => revokeSessionMutation.mutate(session.id)}
+                  disabled={revokeSessionMutation.isPending}
+                  title="Gerät abmelden"
+                  data-testid={`button-revoke-session-${session.id}`}
+                >
+                  <LogOut className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          );
+        })}
+        {hasOtherSessions && (
+          <Button
+            variant="outline"
+            onClick={() => revokeOthersMutation.mutate()}
+            disabled={revokeOthersMutation.isPending}
+            data-testid="button-revoke-other-sessions"
+          >
+            Überall sonst abmelden
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,6 +4,17 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Checkbox } from "@/components/ui/checkbox";
+import { METADATA_FIELD_LABELS } from "./PhotoMetadataPanel";
+import RateLimitLockouts from "./RateLimitLockouts";
+import TwoFactorSettings from "./TwoFactorSettings";
+import SessionsSettings from "./SessionsSettings";
+import ApiTokensSettings from "./ApiTokensSettings";
+import SsoSettings from "./SsoSettings";
+import BackupSettings from "./BackupSettings";
+import GalleryExpirySettings from "./GalleryExpirySettings";
+import PendingInvitations from "./PendingInvitations";
+import AuditLog from "./AuditLog";
 import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
 import { Eye, EyeOff, ArrowLeft, Trash2, UserPlus } from "lucide-react";
@@ -80,6 +91,8 @@ export default function Settings({ onBack, hideUserManagement = false }: Setting
     appUrl: "",
   });
   const [showSmtpPassword, setShowSmtpPassword] = useState(false);
+  const [publicMetadataFields, setPublicMetadataFields] = useState<string[]>([]);
+  const [requireTwoFactor, setRequireTwoFactor] = useState(false);
 
   // Fetch branding settings
   const { data: brandingData } = useQuery({
@@ -129,6 +142,8 @@ export default function Settings({ onBack, hideUserManagement = false }: Setting
       };
       console.log("Setting system settings to:", settings);
       setSystemSettings(settings);
+      setPublicMetadataFields(systemSettingsData.publicMetadataFields || []);
+      setRequireTwoFactor(!!systemSettingsData.requireTwoFactor);
     }
   }, [systemSettingsData]);
 
@@ -238,6 +253,89 @@ export default function Settings({ onBack, hideUserManagement = false }: Setting
     }
   };
 
+  const handlePublicMetadataUpdate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    try {
+      const token = localStorage.getItem('authToken');
+      const response = await fetch("/api/system-settings", {
+        method: "POST",
+        credentials: 'include',
+        headers: {
+          "Content-Type": "application/json",
+          ...(token && { 'Authorization': `Bearer ${token}` })
+        },
+        body: JSON.stringify({ publicMetadataFields }),
+      });
+
+      if (response.ok) {
+        toast({
+          title: "Erfolg",
+          description: "Metadaten-Einstellungen wurden erfolgreich aktualisiert.",
+        });
+        queryClient.invalidateQueries({ queryKey: ["/api/system-settings"] });
+      } else {
+        const error = await response.json();
+        toast({
+          title: "Fehler",
+          description: error.error || "Metadaten-Einstellungen konnten nicht aktualisiert werden.",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Fehler",
+        description: "Ein Fehler ist aufgetreten.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleTwoFactorPolicyChange = async (checked: boolean) => {
+    setRequireTwoFactor(checked);
+
+    try {
+      const token = localStorage.getItem('authToken');
+      const response = await fetch("/api/system-settings", {
+        method: "POST",
+        credentials: 'include',
+        headers: {
+          "Content-Type": "application/json",
+          ...(token && { 'Authorization': `Bearer ${token}` })
+        },
+        body: JSON.stringify({ requireTwoFactor: checked }),
+      });
+
+      if (response.ok) {
+        toast({
+          title: "Erfolg",
+          description: checked
+            ? "2FA ist jetzt für Admins und Creator verpflichtend."
+            : "2FA ist für Admins und Creator nicht mehr verpflichtend.",
+        });
+        queryClient.invalidateQueries({ queryKey: ["/api/system-settings"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+      } else {
+        setRequireTwoFactor(!checked);
+        toast({
+          title: "Fehler",
+          description: "Die 2FA-Richtlinie konnte nicht gespeichert werden.",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      setRequireTwoFactor(!checked);
+      toast({
+        title: "Fehler",
+        description: "Ein Fehler ist aufgetreten.",
+        variant: "destructive",
+      });
+    }
+  };
+
   // Fetch all users (Admin only)
   const { data: users = [], refetch: refetchUsers } = useQuery({
     queryKey: ["/api/users"],
@@ -288,10 +386,13 @@ export default function Settings({ onBack, hideUserManagement = false }: Setting
     setIsLoading(true);
 
     try {
+      const token = localStorage.getItem('authToken');
       const response = await fetch("/api/auth/change-password", {
         method: "POST",
+        credentials: 'include',
         headers: {
           "Content-Type": "application/json",
+          ...(token && { 'Authorization': `Bearer ${token}` })
         },
         body: JSON.stringify({
           userId: user?.id,
@@ -303,11 +404,12 @@ export default function Settings({ onBack, hideUserManagement = false }: Setting
       if (response.ok) {
         toast({
           title: "Erfolg",
-          description: "Dein Passwort wurde erfolgreich geändert.",
+          description: "Dein Passwort wurde erfolgreich geändert. Andere Geräte wurden abgemeldet.",
         });
         setCurrentPassword("");
         setNewPassword("");
         setConfirmPassword("");
+        queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
       } else {
         const error = await response.json();
         toast({
@@ -384,8 +486,8 @@ export default function Settings({ onBack, hideUserManagement = false }: Setting
     }
   };
 
-  const handleCreateUser = async () => {
-    if (!userFormData.name || !userFormData.email || !userFormData.password) {
+  const handleInviteUser = async () => {
+    if (!userFormData.name || !userFormData.email) {
       toast({
         title: "Fehler",
         description: "Bitte fülle alle Felder aus.",
@@ -394,19 +496,10 @@ export default function Settings({ onBack, hideUserManagement = false }: Setting
       return;
     }
 
-    if (userFormData.password.length < 6) {
-      toast({
-        title: "Fehler",
-        description: "Das Passwort muss mindestens 6 Zeichen lang sein.",
-        variant: "destructive",
-      });
-      return;
-    }
-
     setIsLoading(true);
     try {
       const token = localStorage.getItem('authToken');
-      const response = await fetch("/api/users", {
+      const response = await fetch("/api/invitations", {
         method: "POST",
         credentials: 'include',
         headers: {
@@ -416,32 +509,40 @@ export default function Settings({ onBack, hideUserManagement = false }: Setting
         body: JSON.stringify({
           name: userFormData.name.trim(),
           email: userFormData.email.trim(),
-          password: userFormData.password,
           role: userFormData.role
         }),
       });
 
       if (response.ok) {
-        toast({
-          title: "Erfolg",
-          description: "Benutzer erfolgreich erstellt.",
-        });
+        const data = await response.json();
+        toast(
+          data.emailSent
+            ? {
+                title: "Erfolg",
+                description: "Die Einladung wurde per E-Mail versendet.",
+              }
+            : {
+                title: "Fehler",
+                description: "Die Einladung wurde angelegt, die E-Mail konnte aber nicht gesendet werden. Bitte prüfe die SMTP-Einstellungen.",
+                variant: "destructive",
+              }
+        );
         setIsCreateUserDialogOpen(false);
         setUserFormData({ name: "", email: "", password: "", role: "User" });
-        refetchUsers();
+        queryClient.invalidateQueries({ queryKey: ["/api/invitations"] });
       } else {
         const errorData = await response.json();
         toast({
           title: "Fehler",
-          description: errorData.error || "Fehler beim Erstellen des Benutzers.",
+          description: errorData.error || "Fehler beim Einladen des Benutzers.",
           variant: "destructive",
         });
       }
     } catch (error) {
-      console.error("Error creating user:", error);
+      console.error("Error inviting user:", error);
       toast({
         title: "Fehler",
-        description: "Netzwerkfehler beim Erstellen des Benutzers.",
+        description: "Netzwerkfehler beim Einladen des Benutzers.",
         variant: "destructive",
       });
     } finally {
@@ -578,13 +679,14 @@ export default function Settings({ onBack, hideUserManagement = false }: Setting
 
         {/* Tabs */}
         <Tabs defaultValue="account" className="w-full">
-          <TabsList className={`grid w-full ${!hideUserManagement && user?.role === "Admin" ? "grid-cols-1 sm:grid-cols-4" : "grid-cols-1"}`}>
+          <TabsList className={`grid w-full ${!hideUserManagement && user?.role === "Admin" ? "grid-cols-1 sm:grid-cols-5" : "grid-cols-1"}`}>
             <TabsTrigger value="account">Kontodaten</TabsTrigger>
             {!hideUserManagement && user?.role === "Admin" && (
               <>
                 <TabsTrigger value="users">Benutzerverwaltung</TabsTrigger>
                 <TabsTrigger value="branding">Branding</TabsTrigger>
                 <TabsTrigger value="system">System</TabsTrigger>
+                <TabsTrigger value="audit">Protokoll</TabsTrigger>
               </>
             )}
           </TabsList>
@@ -713,6 +815,10 @@ export default function Settings({ onBack, hideUserManagement = false }: Setting
                 </form>
               </CardContent>
             </Card>
+
+            <TwoFactorSettings />
+            <SessionsSettings />
+            {user?.role !== "Client" && <ApiTokensSettings />}
           </TabsContent>
 
           {/* System Tab (Admin only) */}
@@ -810,6 +916,71 @@ export default function Settings({ onBack, hideUserManagement = false }: Setting
                   </form>
                 </CardContent>
               </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Bildinformationen in öffentlichen Galerien</CardTitle>
+                  <CardDescription>
+                    Wähle aus, welche EXIF/IPTC-Daten Besucher öffentlicher Galerien in der Lightbox sehen
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <form onSubmit={handlePublicMetadataUpdate} className="space-y-4">
+                    <div className="grid grid-cols-2 gap-3">
+                      {Object.entries(METADATA_FIELD_LABELS).map(([field, label]) => (
+                        <div key={field} className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`metadata-${field}`}
+                            checked={publicMetadataFields.includes(field)}
+                            onCheckedChange={(checked) =>
+                              setPublicMetadataFields(
+                                checked
+                                  ? [...publicMetadataFields, field]
+                                  : publicMetadataFields.filter((f) => f !== field),
+                              )
+                            }
+                            data-testid={`checkbox-metadata-${field}`}
+                          />
+                          <Label htmlFor={`metadata-${field}`}>{label}</Label>
+                        </div>
+                      ))}
+                    </div>
+                    <Button type="submit" disabled={isLoading}>
+                      {isLoading ? "Wird gespeichert..." : "Speichern"}
+                    </Button>
+                  </form>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Zwei-Faktor-Authentifizierung</CardTitle>
+                  <CardDescription>
+                    Admins und Creator ohne 2FA müssen sie bei der nächsten Anmeldung einrichten
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="require-two-factor"
+                      checked={requireTwoFactor}
+                      onCheckedChange={(checked) => handleTwoFactorPolicyChange(checked === true)}
+                      data-testid="checkbox-require-two-factor"
+                    />
+                    <Label htmlFor="require-two-factor">
+                      2FA für Admins und Creator verpflichtend
+                    </Label>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <SsoSettings />
+
+              <GalleryExpirySettings />
+
+              <BackupSettings />
+
+              <RateLimitLockouts />
             </TabsContent>
           )}
 
@@ -869,7 +1040,7 @@ export default function Settings({ onBack, hideUserManagement = false }: Setting
                       className="w-full sm:w-auto"
                     >
                       <UserPlus className="w-4 h-4 mr-2" />
-                      Benutzer anlegen
+                      Benutzer einladen
                     </Button>
                   </div>
                 </CardHeader>
@@ -920,6 +1091,15 @@ export default function Settings({ onBack, hideUserManagement = false }: Setting
                   </div>
                 </CardContent>
               </Card>
+
+              <PendingInvitations />
+            </TabsContent>
+          )}
+
+          {/* Audit Tab */}
+          {!hideUserManagement && user?.role === "Admin" && (
+            <TabsContent value="audit" className="space-y-4">
+              <AuditLog />
             </TabsContent>
           )}
         </Tabs>
@@ -928,9 +1108,9 @@ export default function Settings({ onBack, hideUserManagement = false }: Setting
         <Dialog open={isCreateUserDialogOpen} onOpenChange={setIsCreateUserDialogOpen}>
           <DialogContent>
             <DialogHeader>
-              <DialogTitle>Benutzer anlegen</DialogTitle>
+              <DialogTitle>Benutzer einladen</DialogTitle>
               <DialogDescription>
-                Erstelle einen neuen Benutzer
+                Der Benutzer erhält eine E-Mail mit einem Link, über den er sein Passwort selbst festlegt
               </DialogDescription>
             </DialogHeader>
             <div className="space-y-4">
@@ -951,42 +1131,6 @@ export default function Settings({ onBack, hideUserManagement = false }: Setting
                   onChange={(e) => setUserFormData({ ...userFormData, email: e.target.value })}
                 />
               </div>
-              <div className="space-y-2">
-                <Label htmlFor="user-password">Passwort</Label>
-                <div className="flex space-x-2">
-                  <div className="relative flex-1">
-                    <Input
-                      id="user-password"
-                      type={showUserPassword ? "text" : "password"}
-                      value={userFormData.password}
-                      onChange={(e) => setUserFormData({ ...userFormData, password: e.target.value })}
-                      className="pr-10"
-                    />
-                    <button
-                      type="button"
-                      className="absolute right-3 top-1/2 transform -translate-y-1/2 text-muted-foreground hover:text-foreground transition-colors"
-                      onClick={() => setShowUserPassword(!showUserPassword)}
-                    >
-                      {showUserPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-                    </button>
-                  </div>
-                  <Button
-                    type="button"
-                    variant="outline"
-                    size="sm"
-                    onClick={() => {
-                      const password = Array.from({ length: 12 }, () => {
-                        const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789!@#$%^&*';
-                        return chars[Math.floor(Math.random() * chars.length)];
-                      }).join('');
-                      setUserFormData({ ...userFormData, password });
-                    }}
-                    className="px-3"
-                  >
-                    Generieren
-                  </Button>
-                </div>
-              </div>
               <div className="space-y-2">
                 <Label htmlFor="user-role">Rolle</Label>
                 <select
@@ -998,6 +1142,7 @@ export default function Settings({ onBack, hideUserManagement = false }: Setting
                   <option value="User">User</option>
                   <option value="Creator">Creator</option>
                   <option value="Admin">Admin</option>
+                  <option value="Client">Client</option>
                 </select>
               </div>
             </div>
@@ -1005,7 +1150,7 @@ export default function Settings({ onBack, hideUserManagement = false }: Setting
               <Button variant="outline" onClick={() => setIsCreateUserDialogOpen(false)}>
                 Abbrechen
               </Button>
-              <Button onClick={handleCreateUser}>Erstellen</Button>
+              <Button onClick={handleInviteUser} disabled={isLoading}>Einladung senden</Button>
             </DialogFooter>
           </DialogContent>
         </Dialog>
@@ -1083,7 +1228,9 @@ export default function Settings({ onBack, hideUserManagement = false }: Setting
                   onChange={(e) => setUserFormData({ ...userFormData, role: e.target.value })}
                 >
                   <option value="User">User</option>
+                  <option value="Creator">Creator</option>
                   <option value="Admin">Admin</option>
+                  <option value="Client">Client</option>
                 </select>
               </div>
             </div>
@@ -0,0 +1,106 @@
+import { useState, useEffect } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { Card } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertCircle } from "lucide-react";
+import PasswordProtection from "./PasswordProtection";
+import GalleryExpired, { type ExpiredGalleryInfo } from "./GalleryExpired";
+
+// Opens a share link: the server checks the link (and its password) and
+// remembers it in a cookie, then the gallery is shown with its permissions
+export default function ShareLinkPage() {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [passwordGalleryName, setPasswordGalleryName] = useState<string | null>(null);
+  const [passwordError, setPasswordError] = useState<string>();
+  const [passwordLoading, setPasswordLoading] = useState(false);
+  const [expiredGallery, setExpiredGallery] = useState<ExpiredGalleryInfo | null>(null);
+
+  const openShareLink = async (password?: string) => {
+    const response = await fetch(`/api/public/share/${token}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(password ? { password } : {}),
+    });
+    const data = await response.json();
+
+    if (response.ok) {
+      navigate(`/gallery/${data.galleryId}`, { replace: true });
+    } else if (response.status === 403 && data.passwordRequired) {
+      setPasswordGalleryName(data.galleryName || "Galerie");
+    } else if (response.status === 410 && data.expired) {
+      setExpiredGallery(data);
+    } else if (response.status === 401) {
+      setPasswordError("Falsches Passwort. Bitte versuche es erneut.");
+    } else {
+      setError(data.error || "Der Link konnte nicht geöffnet werden.");
+    }
+  };
+
+  useEffect(() => {
+    if (!token) return;
+
+    openShareLink()
+      .catch((error) => {
+        console.error("Error opening share link:", error);
+        setError("Netzwerkfehler. Bitte versuche es erneut.");
+      })
+      .finally(() => setIsLoading(false));
+  }, [token]);
+
+  const handlePasswordSubmit = async (password: string) => {
+    setPasswordLoading(true);
+    setPasswordError(undefined);
+
+    try {
+      await openShareLink(password);
+    } catch (error) {
+      console.error("Error opening share link:", error);
+      setPasswordError("Netzwerkfehler. Bitte versuche es erneut.");
+    } finally {
+      setPasswordLoading(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto p-6 max-w-md">
+        <Card className="p-6">
+          <Skeleton className="h-8 w-64 mb-2" />
+          <Skeleton className="h-4 w-32" />
+        </Card>
+      </div>
+    );
+  }
+
+  if (expiredGallery) {
+    return <GalleryExpired {...expiredGallery} />;
+  }
+
+  if (passwordGalleryName && !error) {
+    return (
+      <PasswordProtection
+        galleryName={passwordGalleryName}
+        onPasswordSubmit={handlePasswordSubmit}
+        error={passwordError}
+        loading={passwordLoading}
+      />
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-background">
+      <Card className="w-full max-w-md p-8 text-center">
+        <AlertCircle className="h-10 w-10 text-destructive mx-auto mb-4" />
+        <h1 className="text-2xl font-semibold mb-4">Link ungültig</h1>
+        <p className="text-muted-foreground">
+          {error || "Der Link konnte nicht geöffnet werden."}
+        </p>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,326 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Copy, Ban, Lock } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type DownloadMode = "none" | "web" | "original";
+
+interface ShareLink {
+  id: string;
+  token: string;
+  label: string;
+  hasPassword: boolean;
+  expiresAt: string | null;
+  canView: boolean;
+  canRate: boolean;
+  canComment: boolean;
+  downloadMode: DownloadMode;
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  isExpired: boolean;
+  isActive: boolean;
+}
+
+interface ShareLinksSectionProps {
+  galleryId: string;
+}
+
+const DOWNLOAD_MODE_LABELS: Record<DownloadMode, string> = {
+  none: "Keine Downloads",
+  web: "Web-Version",
+  original: "Original",
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString("de-DE", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const getShareUrl = (link: ShareLink) =>
+  `${window.location.origin}/s/${link.token}`;
+
+export default function ShareLinksSection({ galleryId }: ShareLinksSectionProps) {
+  const { toast } = useToast();
+  const [label, setLabel] = useState("");
+  const [password, setPassword] = useState("");
+  const [expiresAt, setExpiresAt] = useState("");
+  const [canView, setCanView] = useState(true);
+  const [canRate, setCanRate] = useState(true);
+  const [canComment, setCanComment] = useState(true);
+  const [downloadMode, setDownloadMode] = useState<DownloadMode>("none");
+
+  const queryKey = ["/api/galleries", galleryId, "share-links"];
+  const { data: shareLinks = [] } = useQuery<ShareLink[]>({
+    queryKey,
+    queryFn: () => apiRequest("GET", `/api/galleries/${galleryId}/share-links`),
+  });
+
+  const createShareLinkMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/galleries/${galleryId}/share-links`, {
+        label: label.trim(),
+        password: password.trim() || null,
+        expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null,
+        canView,
+        canRate,
+        canComment,
+        downloadMode,
+      });
+    },
+    onSuccess: (link: ShareLink) => {
+      setLabel("");
+      setPassword("");
+      setExpiresAt("");
+      setCanView(true);
+      setCanRate(true);
+      setCanComment(true);
+      setDownloadMode("none");
+      queryClient.invalidateQueries({ queryKey });
+      handleCopyLink(link);
+    },
+    onError: () => {
+      toast({
+        title: "Fehler",
+        description: "Der Freigabelink konnte nicht erstellt werden.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeShareLinkMutation = useMutation({
+    mutationFn: async (linkId: string) => {
+      return apiRequest("POST", `/api/share-links/${linkId}/revoke`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Link widerrufen",
+        description: "Der Freigabelink kann nicht mehr verwendet werden.",
+      });
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: () => {
+      toast({
+        title: "Fehler",
+        description: "Der Freigabelink konnte nicht widerrufen werden.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCopyLink = (link: ShareLink) => {
+    navigator.clipboard.writeText(getShareUrl(link)).then(() => {
+      toast({
+        title: "Link kopiert",
+        description: `Der Freigabelink "${link.label}" wurde in die Zwischenablage kopiert.`,
+      });
+    }).catch(() => {
+      toast({
+        title: "Fehler beim Kopieren",
+        description: "Der Link konnte nicht in die Zwischenablage kopiert werden.",
+        variant: "destructive",
+      });
+    });
+  };
+
+  const getStatusBadge = (link: ShareLink) => {
+    if (link.revokedAt) {
+      return <Badge variant="secondary">Widerrufen</Badge>;
+    }
+    if (link.isExpired) {
+      return <Badge variant="destructive">Abgelaufen</Badge>;
+    }
+    return <Badge>Aktiv</Badge>;
+  };
+
+  const getPermissionsText = (link: ShareLink) => {
+    const permissions = [];
+    if (link.canView) permissions.push("Ansehen");
+    if (link.canRate) permissions.push("Bewerten");
+    if (link.canComment) permissions.push("Kommentieren");
+    if (link.downloadMode !== "none") {
+      permissions.push(`Download (${DOWNLOAD_MODE_LABELS[link.downloadMode]})`);
+    }
+    return permissions.join(", ") || "Keine Rechte";
+  };
+
+  return (
+    <div className="space-y-4 border-t pt-4">
+      <div>
+        <h4 className="font-medium">Freigabelinks</h4>
+        <p className="text-sm text-muted-foreground">
+          Jeder Link hat eigene Rechte und kann einzeln widerrufen werden. Sobald
+          ein Freigabelink existiert, ist die Galerie nur noch über Freigabelinks
+          erreichbar.
+        </p>
+      </div>
+
+      <div className="space-y-3 border rounded-md p-3">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="share-link-label">Bezeichnung</Label>
+            <Input
+              id="share-link-label"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="z.B. Brautpaar, Albumdesigner"
+              data-testid="input-share-link-label"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="share-link-password">Passwort (optional)</Label>
+            <Input
+              id="share-link-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Kein Passwort"
+              data-testid="input-share-link-password"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="share-link-expires">Gültig bis (optional)</Label>
+            <Input
+              id="share-link-expires"
+              type="datetime-local"
+              value={expiresAt}
+              onChange={(e) => setExpiresAt(e.target.value)}
+              data-testid="input-share-link-expires"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Downloads</Label>
+            <Select
+              value={downloadMode}
+              onValueChange={(value) => setDownloadMode(value as DownloadMode)}
+            >
+              <SelectTrigger data-testid="select-share-link-download">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(DOWNLOAD_MODE_LABELS) as DownloadMode[]).map((mode) => (
+                  <SelectItem key={mode} value={mode}>
+                    {DOWNLOAD_MODE_LABELS[mode]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-4">
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={canView}
+              onCheckedChange={(checked) => setCanView(checked === true)}
+              data-testid="checkbox-share-link-view"
+            />
+            Ansehen
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={canRate}
+              onCheckedChange={(checked) => setCanRate(checked === true)}
+              data-testid="checkbox-share-link-rate"
+            />
+            Bewerten
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={canComment}
+              onCheckedChange={(checked) => setCanComment(checked === true)}
+              data-testid="checkbox-share-link-comment"
+            />
+            Kommentieren
+          </label>
+        </div>
+        <Button
+          type="button"
+          size="sm"
+          onClick={() => createShareLinkMutation.mutate()}
+          disabled={!label.trim() || createShareLinkMutation.isPending}
+          data-testid="button-create-share-link"
+        >
+          {createShareLinkMutation.isPending ? "Wird erstellt..." : "Link erstellen"}
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        {shareLinks.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            Noch keine Freigabelinks vorhanden.
+          </p>
+        )}
+        {shareLinks.map((link) => (
+          <div
+            key={link.id}
+            className="flex items-start justify-between gap-2 border rounded-md p-3"
+            data-testid={`share-link-${link.id}`}
+          >
+            <div className="min-w-0 space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="font-medium text-sm truncate">{link.label}</span>
+                {getStatusBadge(link)}
+                {link.hasPassword && (
+                  <Lock className="w-3 h-3 text-muted-foreground" />
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {getPermissionsText(link)}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {link.expiresAt
+                  ? `Gültig bis ${formatDate(link.expiresAt)}`
+                  : "Unbegrenzt gültig"}
+                {link.lastUsedAt && ` · Zuletzt geöffnet ${formatDate(link.lastUsedAt)}`}
+              </p>
+            </div>
+            {link.isActive && (
+              <div className="flex gap-1 shrink-0">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => handleCopyLink(link)}
+                  title="Link kopieren"
+                  data-testid={`button-copy-share-link-${link.id}`}
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-destructive"
+                  onClick={() => revokeShareLinkMutation.mutate(link.id)}
+                  disabled={revokeShareLinkMutation.isPending}
+                  title="Link widerrufen"
+                  data-testid={`button-revoke-share-link-${link.id}`}
+                >
+                  <Ban className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
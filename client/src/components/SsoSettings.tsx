@@ -0,0 +1,174 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface SsoSettingsForm {
+  oidcEnabled: boolean;
+  oidcProviderName: string;
+  oidcIssuer: string;
+  oidcClientId: string;
+  oidcClientSecret: string;
+  oidcScopes: string;
+  oidcRoleClaim: string;
+  oidcAdminRoleValue: string;
+  oidcCreatorRoleValue: string;
+  disablePasswordLogin: boolean;
+}
+
+const EMPTY_FORM: SsoSettingsForm = {
+  oidcEnabled: false,
+  oidcProviderName: "",
+  oidcIssuer: "",
+  oidcClientId: "",
+  oidcClientSecret: "",
+  oidcScopes: "openid email profile",
+  oidcRoleClaim: "",
+  oidcAdminRoleValue: "",
+  oidcCreatorRoleValue: "",
+  disablePasswordLogin: false,
+};
+
+const TEXT_FIELDS: { key: keyof SsoSettingsForm; label: string; placeholder: string; type?: string }[] = [
+  { key: "oidcProviderName", label: "Anzeigename", placeholder: "z.B. Studio-Login" },
+  { key: "oidcIssuer", label: "Issuer URL", placeholder: "z.B. https://login.beispiel.de/realms/studio" },
+  { key: "oidcClientId", label: "Client-ID", placeholder: "z.B. fotostube" },
+  { key: "oidcClientSecret", label: "Client-Secret", placeholder: "Leer lassen bei öffentlichen Clients", type: "password" },
+  { key: "oidcScopes", label: "Scopes", placeholder: "openid email profile" },
+  { key: "oidcRoleClaim", label: "Rollen-Claim", placeholder: "z.B. groups oder realm_access.roles" },
+  { key: "oidcAdminRoleValue", label: "Claim-Wert für Admin", placeholder: "z.B. fotostube-admins" },
+  { key: "oidcCreatorRoleValue", label: "Claim-Wert für Creator", placeholder: "z.B. fotostube-creator" },
+];
+
+// System tab: OpenID Connect login with the studio's identity provider
+export default function SsoSettings() {
+  const { toast } = useToast();
+  const [form, setForm] = useState<SsoSettingsForm>(EMPTY_FORM);
+
+  const { data: systemSettingsData } = useQuery<Partial<Record<keyof SsoSettingsForm, any>>>({
+    queryKey: ["/api/system-settings"],
+    queryFn: () => apiRequest("GET", "/api/system-settings"),
+  });
+
+  useEffect(() => {
+    if (systemSettingsData) {
+      setForm({
+        oidcEnabled: !!systemSettingsData.oidcEnabled,
+        oidcProviderName: systemSettingsData.oidcProviderName || "",
+        oidcIssuer: systemSettingsData.oidcIssuer || "",
+        oidcClientId: systemSettingsData.oidcClientId || "",
+        oidcClientSecret: systemSettingsData.oidcClientSecret || "",
+        oidcScopes: systemSettingsData.oidcScopes || EMPTY_FORM.oidcScopes,
+        oidcRoleClaim: systemSettingsData.oidcRoleClaim || "",
+        oidcAdminRoleValue: systemSettingsData.oidcAdminRoleValue || "",
+        oidcCreatorRoleValue: systemSettingsData.oidcCreatorRoleValue || "",
+        disablePasswordLogin: !!systemSettingsData.disablePasswordLogin,
+      });
+    }
+  }, [systemSettingsData]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const trimmed = (value: string) => value.trim() || null;
+      return apiRequest("POST", "/api/system-settings", {
+        oidcEnabled: form.oidcEnabled,
+        oidcProviderName: trimmed(form.oidcProviderName),
+        oidcIssuer: trimmed(form.oidcIssuer),
+        oidcClientId: trimmed(form.oidcClientId),
+        oidcClientSecret: trimmed(form.oidcClientSecret),
+        oidcScopes: form.oidcScopes.trim(),
+        oidcRoleClaim: trimmed(form.oidcRoleClaim),
+        oidcAdminRoleValue: trimmed(form.oidcAdminRoleValue),
+        oidcCreatorRoleValue: trimmed(form.oidcCreatorRoleValue),
+        disablePasswordLogin: form.disablePasswordLogin,
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Erfolg",
+        description: "Die SSO-Einstellungen wurden gespeichert.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/system-settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/oidc/config"] });
+    },
+    onError: () => {
+      toast({
+        title: "Fehler",
+        description: "Die SSO-Einstellungen konnten nicht gespeichert werden. Issuer, Client-ID und der Scope \"openid\" sind erforderlich.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const redirectUri = `${window.location.origin}/api/auth/oidc/callback`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Single Sign-On (OpenID Connect)</CardTitle>
+        <CardDescription>
+          Anmeldung über den Identity Provider des Studios. Benutzer werden bei der ersten Anmeldung
+          automatisch angelegt, ohne passenden Rollen-Claim erhalten sie die Rolle User.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveMutation.mutate();
+          }}
+        >
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="oidc-enabled"
+              checked={form.oidcEnabled}
+              onCheckedChange={(checked) => setForm({ ...form, oidcEnabled: checked === true })}
+              data-testid="checkbox-oidc-enabled"
+            />
+            <Label htmlFor="oidc-enabled">SSO-Anmeldung aktivieren</Label>
+          </div>
+
+          {TEXT_FIELDS.map((field) => (
+            <div key={field.key} className="space-y-2">
+              <Label htmlFor={`sso-${field.key}`}>{field.label}</Label>
+              <Input
+                id={`sso-${field.key}`}
+                type={field.type || "text"}
+                value={form[field.key] as string}
+                onChange={(e) => setForm({ ...form, [field.key]: e.target.value })}
+                placeholder={field.placeholder}
+                data-testid={`input-sso-${field.key}`}
+              />
+            </div>
+          ))}
+
+          <p className="text-sm text-muted-foreground">
+            Redirect-URI für den Identity Provider: <code>{redirectUri}</code>
+          </p>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="disable-password-login"
+              checked={form.disablePasswordLogin}
+              onCheckedChange={(checked) => setForm({ ...form, disablePasswordLogin: checked === true })}
+              data-testid="checkbox-disable-password-login"
+            />
+            <Label htmlFor="disable-password-login">
+              Anmeldung mit Passwort für Mitarbeiter deaktivieren (Kundenkonten sind ausgenommen)
+            </Label>
+          </div>
+
+          <Button type="submit" disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? "Wird gespeichert..." : "Speichern"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -130,7 +130,7 @@ export default function SubGalleries({ parentGalleryId, onSelectSubGallery, isSu
     onSuccess: () => {
       toast({
         title: "Sub-Galerie gelöscht",
-        description: "Die Sub-Galerie wurde erfolgreich gelöscht.",
+        description: "Die Sub-Galerie wurde in den Papierkorb verschoben.",
       });
       refetch();
     },
@@ -216,7 +216,7 @@ export default function SubGalleries({ parentGalleryId, onSelectSubGallery, isSu
   };
 
   const handleDeleteSubGallery = (subGalleryId: string, subGalleryName: string) => {
-    if (confirm(`Möchtest du die Sub-Galerie "${subGalleryName}" wirklich löschen? Diese Aktion kann nicht rückrückgängig gemacht werden.`)) {
+    if (confirm(`Möchtest du die Sub-Galerie "${subGalleryName}" in den Papierkorb verschieben? Dort kann sie wiederhergestellt werden.`)) {
       deleteSubGalleryMutation.mutate(subGalleryId);
     }
   };
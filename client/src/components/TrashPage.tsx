@@ -0,0 +1,376 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ArrowLeft, Folder, Image, LogOut, RotateCcw, Trash2 } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import ThemeToggle from "./ThemeToggle";
+import NotificationBell from "./NotificationBell";
+
+interface TrashedGallery {
+  id: string;
+  name: string;
+  parentId: string | null;
+  parentName: string | null;
+  parentTrashed: boolean;
+  photoCount: number;
+  deletedAt: string;
+  purgeAt: string | null;
+}
+
+interface TrashedPhoto {
+  id: string;
+  originalName: string;
+  thumbnailUrl: string | null;
+  galleryId: string;
+  galleryName: string;
+  deletedAt: string;
+  purgeAt: string | null;
+}
+
+interface TrashResponse {
+  retentionDays: number;
+  galleries: TrashedGallery[];
+  photos: TrashedPhoto[];
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("de-DE", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  });
+
+const describeDeletion = (item: { deletedAt: string; purgeAt: string | null }) =>
+  item.purgeAt
+    ? `Gelöscht am ${formatDate(item.deletedAt)} · endgültig ab ${formatDate(item.purgeAt)}`
+    : `Gelöscht am ${formatDate(item.deletedAt)}`;
+
+// Deleted galleries and photos, restorable until the retention has passed
+export default function TrashPage() {
+  const { user, logout } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [retentionDays, setRetentionDays] = useState("30");
+
+  const isAdmin = user?.role === "Admin";
+  const queryKey = ["/api/trash"];
+
+  // Clients have no galleries to manage
+  useEffect(() => {
+    if (user && user.role === "Client") {
+      navigate("/portal");
+    }
+  }, [user, navigate]);
+
+  const { data, isLoading } = useQuery<TrashResponse>({
+    queryKey,
+    queryFn: () => apiRequest("GET", "/api/trash"),
+    enabled: !!user && user.role !== "Client",
+  });
+  const trashedGalleries = data?.galleries || [];
+  const trashedPhotos = data?.photos || [];
+  const isEmpty = trashedGalleries.length === 0 && trashedPhotos.length === 0;
+
+  useEffect(() => {
+    if (data) {
+      setRetentionDays(String(data.retentionDays));
+    }
+  }, [data?.retentionDays]);
+
+  const onChanged = (description: string) => {
+    toast({ title: "Erfolg", description });
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/galleries"] });
+  };
+
+  const onFailed = (description: string) => () => {
+    toast({ title: "Fehler", description, variant: "destructive" });
+  };
+
+  const restoreGalleryMutation = useMutation({
+    mutationFn: async (galleryId: string) => {
+      return apiRequest("POST", `/api/trash/galleries/${galleryId}/restore`);
+    },
+    onSuccess: () => onChanged("Die Galerie wurde wiederhergestellt."),
+    onError: onFailed("Die Galerie konnte nicht wiederhergestellt werden."),
+  });
+
+  const purgeGalleryMutation = useMutation({
+    mutationFn: async (galleryId: string) => {
+      return apiRequest("DELETE", `/api/trash/galleries/${galleryId}`);
+    },
+    onSuccess: () => onChanged("Die Galerie wurde endgültig gelöscht."),
+    onError: onFailed("Die Galerie konnte nicht gelöscht werden."),
+  });
+
+  const restorePhotosMutation = useMutation({
+    mutationFn: async (photoIds: string[]) => {
+      return apiRequest("POST", "/api/trash/photos/restore", { photoIds });
+    },
+    onSuccess: () => onChanged("Die Fotos wurden wiederhergestellt."),
+    onError: onFailed("Die Fotos konnten nicht wiederhergestellt werden."),
+  });
+
+  const purgePhotosMutation = useMutation({
+    mutationFn: async (photoIds: string[]) => {
+      return apiRequest("DELETE", "/api/trash/photos", { photoIds });
+    },
+    onSuccess: () => onChanged("Die Fotos wurden endgültig gelöscht."),
+    onError: onFailed("Die Fotos konnten nicht gelöscht werden."),
+  });
+
+  const emptyTrashMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("DELETE", "/api/trash");
+    },
+    onSuccess: () => onChanged("Der Papierkorb wurde geleert."),
+    onError: onFailed("Der Papierkorb konnte nicht geleert werden."),
+  });
+
+  const retentionMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/system-settings", {
+        trashRetentionDays: parseInt(retentionDays, 10),
+      });
+    },
+    onSuccess: () => onChanged("Die Aufbewahrungsdauer wurde gespeichert."),
+    onError: onFailed("Bitte gib eine Anzahl von Tagen zwischen 0 und 3650 ein."),
+  });
+
+  const handlePurgeGallery = (gallery: TrashedGallery) => {
+    if (confirm(`Möchtest du die Galerie "${gallery.name}" mit allen Sub-Galerien und Fotos endgültig löschen? Diese Aktion kann nicht rückgängig gemacht werden.`)) {
+      purgeGalleryMutation.mutate(gallery.id);
+    }
+  };
+
+  const handlePurgePhoto = (photo: TrashedPhoto) => {
+    if (confirm(`Möchtest du das Foto "${photo.originalName}" endgültig löschen? Diese Aktion kann nicht rückgängig gemacht werden.`)) {
+      purgePhotosMutation.mutate([photo.id]);
+    }
+  };
+
+  const handleEmptyTrash = () => {
+    if (confirm("Möchtest du alle Galerien und Fotos im Papierkorb endgültig löschen? Diese Aktion kann nicht rückgängig gemacht werden.")) {
+      emptyTrashMutation.mutate();
+    }
+  };
+
+  if (!user || user.role === "Client") {
+    return null;
+  }
+
+  return (
+    <div className="container mx-auto p-6 max-w-4xl">
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-4">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => navigate("/galleries")}
+              data-testid="button-back"
+            >
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <h1 className="text-3xl font-semibold">Papierkorb</h1>
+          </div>
+          <div className="flex items-center space-x-3">
+            <NotificationBell />
+            <ThemeToggle />
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={logout}
+              className="hover-elevate"
+              data-testid="button-logout"
+            >
+              <LogOut className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+              <div>
+                <CardTitle>Gelöschte Galerien und Fotos</CardTitle>
+                <CardDescription>
+                  {data && data.retentionDays > 0
+                    ? `Wiederherstellen mit allen Bewertungen und Kommentaren ist ${data.retentionDays} Tage lang möglich, danach wird endgültig gelöscht.`
+                    : "Wiederherstellen mit allen Bewertungen und Kommentaren ist möglich, bis der Papierkorb geleert wird."}
+                </CardDescription>
+              </div>
+              <Button
+                variant="destructive"
+                onClick={handleEmptyTrash}
+                disabled={isEmpty || emptyTrashMutation.isPending}
+                data-testid="button-empty-trash"
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Papierkorb leeren
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground">Lädt...</p>
+            ) : isEmpty ? (
+              <p className="text-sm text-muted-foreground">Der Papierkorb ist leer</p>
+            ) : null}
+
+            {trashedGalleries.length > 0 && (
+              <div className="space-y-2">
+                <h2 className="text-sm font-medium">Galerien</h2>
+                {trashedGalleries.map((gallery) => (
+                  <div
+                    key={gallery.id}
+                    className="flex items-center justify-between gap-2 p-3 border rounded-lg"
+                    data-testid={`trash-gallery-${gallery.id}`}
+                  >
+                    <div className="flex items-center gap-3 min-w-0">
+                      <Folder className="w-5 h-5 shrink-0 text-muted-foreground" />
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium truncate">
+                          {gallery.parentName ? `${gallery.parentName} / ` : ""}
+                          {gallery.name}
+                        </p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {gallery.photoCount} Fotos · {describeDeletion(gallery)}
+                        </p>
+                        {gallery.parentTrashed && (
+                          <p className="text-xs text-muted-foreground">
+                            Die übergeordnete Galerie liegt ebenfalls im Papierkorb und muss zuerst wiederhergestellt werden.
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex shrink-0 items-center space-x-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => restoreGalleryMutation.mutate(gallery.id)}
+                        disabled={gallery.parentTrashed || restoreGalleryMutation.isPending}
+                        title="Wiederherstellen"
+                        data-testid={`button-restore-gallery-${gallery.id}`}
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        onClick={() => handlePurgeGallery(gallery)}
+                        disabled={purgeGalleryMutation.isPending}
+                        title="Endgültig löschen"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {trashedPhotos.length > 0 && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <h2 className="text-sm font-medium">Fotos</h2>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => restorePhotosMutation.mutate(trashedPhotos.map((photo) => photo.id))}
+                    disabled={restorePhotosMutation.isPending}
+                    data-testid="button-restore-all-photos"
+                  >
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                    Alle wiederherstellen
+                  </Button>
+                </div>
+                {trashedPhotos.map((photo) => (
+                  <div
+                    key={photo.id}
+                    className="flex items-center justify-between gap-2 p-3 border rounded-lg"
+                    data-testid={`trash-photo-${photo.id}`}
+                  >
+                    <div className="flex items-center gap-3 min-w-0">
+                      {photo.thumbnailUrl ? (
+                        <img
+                          src={photo.thumbnailUrl}
+                          alt={photo.originalName}
+                          className="w-12 h-12 shrink-0 rounded object-cover"
+                        />
+                      ) : (
+                        <div className="flex items-center justify-center w-12 h-12 shrink-0 rounded bg-muted">
+                          <Image className="w-5 h-5 text-muted-foreground" />
+                        </div>
+                      )}
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium truncate">{photo.originalName}</p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {photo.galleryName} · {describeDeletion(photo)}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex shrink-0 items-center space-x-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => restorePhotosMutation.mutate([photo.id])}
+                        disabled={restorePhotosMutation.isPending}
+                        title="Wiederherstellen"
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        onClick={() => handlePurgePhoto(photo)}
+                        disabled={purgePhotosMutation.isPending}
+                        title="Endgültig löschen"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {isAdmin && (
+              <form
+                className="flex flex-col sm:flex-row sm:items-end gap-3 pt-4 border-t"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  retentionMutation.mutate();
+                }}
+              >
+                <div className="space-y-2">
+                  <Label htmlFor="trash-retention">Aufbewahrung (Tage, 0 = bis zum Leeren)</Label>
+                  <Input
+                    id="trash-retention"
+                    type="number"
+                    min={0}
+                    max={3650}
+                    value={retentionDays}
+                    onChange={(e) => setRetentionDays(e.target.value)}
+                    className="w-40"
+                    data-testid="input-trash-retention"
+                  />
+                </div>
+                <Button type="submit" variant="outline" disabled={retentionMutation.isPending}>
+                  Speichern
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import TwoFactorSetup, { RecoveryCodes, postTwoFactor } from "./TwoFactorSetup";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+  required: boolean;
+}
+
+type Mode = "idle" | "setup" | "disable" | "regenerate";
+
+// Account tab: enable 2FA, replace the recovery codes or turn 2FA off again
+export default function TwoFactorSettings() {
+  const { toast } = useToast();
+  const [mode, setMode] = useState<Mode>("idle");
+  const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const queryKey = ["/api/auth/2fa"];
+  const { data: status } = useQuery<TwoFactorStatus>({
+    queryKey,
+    queryFn: () => apiRequest("GET", "/api/auth/2fa"),
+  });
+
+  const resetForm = () => {
+    setMode("idle");
+    setPassword("");
+    setCode("");
+  };
+
+  const handleSetupComplete = () => {
+    resetForm();
+    queryClient.invalidateQueries({ queryKey });
+    toast({
+      title: "Erfolg",
+      description: "Die Zwei-Faktor-Authentifizierung ist jetzt aktiv.",
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    try {
+      const { ok, data } = mode === "disable"
+        ? await postTwoFactor("/api/auth/2fa/disable", { password, code })
+        : await postTwoFactor("/api/auth/2fa/recovery-codes", { code });
+
+      if (ok) {
+        if (mode === "regenerate") {
+          setRecoveryCodes(data.recoveryCodes);
+        } else {
+          toast({
+            title: "Erfolg",
+            description: "Die Zwei-Faktor-Authentifizierung wurde deaktiviert.",
+          });
+        }
+        resetForm();
+        queryClient.invalidateQueries({ queryKey });
+      } else {
+        toast({
+          title: "Fehler",
+          description: data.error || "Ein Fehler ist aufgetreten.",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Fehler",
+        description: "Ein Fehler ist aufgetreten.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <CardTitle>Zwei-Faktor-Authentifizierung</CardTitle>
+          {status && (
+            status.enabled
+              ? <Badge>Aktiv</Badge>
+              : <Badge variant="secondary">Inaktiv</Badge>
+          )}
+        </div>
+        <CardDescription>
+          Schütze dein Konto zusätzlich mit einem Code aus einer Authenticator-App
+          {status?.required && " – für deine Rolle vom Administrator vorgeschrieben"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {recoveryCodes ? (
+          <RecoveryCodes codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />
+        ) : mode === "setup" ? (
+          <TwoFactorSetup onComplete={handleSetupComplete} onCancel={resetForm} />
+        ) : mode === "disable" || mode === "regenerate" ? (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {mode === "disable" && (
+              <div className="space-y-2">
+                <Label htmlFor="two-factor-password">Passwort</Label>
+                <Input
+                  id="two-factor-password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  data-testid="input-2fa-password"
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="two-factor-code">Code aus der App oder Wiederherstellungscode</Label>
+              <Input
+                id="two-factor-code"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                required
+                data-testid="input-2fa-code"
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button
+                type="submit"
+                variant={mode === "disable" ? "destructive" : "default"}
+                disabled={isLoading}
+              >
+                {isLoading
+                  ? "Wird geprüft..."
+                  : mode === "disable" ? "2FA deaktivieren" : "Neue Codes erzeugen"}
+              </Button>
+              <Button type="button" variant="outline" onClick={resetForm}>
+                Abbrechen
+              </Button>
+            </div>
+          </form>
+        ) : status?.enabled ? (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              Noch {status.recoveryCodesRemaining} ungenutzte Wiederherstellungscodes.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={() => setMode("regenerate")} data-testid="button-2fa-regenerate">
+                Neue Wiederherstellungscodes
+              </Button>
+              {!status.required && (
+                <Button variant="outline" onClick={() => setMode("disable")} data-testid="button-2fa-disable">
+                  2FA deaktivieren
+                </Button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <Button onClick={() => setMode("setup")} disabled={!status} data-testid="button-2fa-enable">
+            2FA einrichten
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
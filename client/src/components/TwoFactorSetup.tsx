@@ -0,0 +1,183 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Copy } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+interface TwoFactorSetupProps {
+  // Enrollment as part of the login, before a session exists
+  challengeToken?: string;
+  onComplete: (data: any) => void;
+  onCancel?: () => void;
+}
+
+interface Enrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+export const postTwoFactor = async (url: string, body: Record<string, unknown>) => {
+  const token = localStorage.getItem('authToken');
+  const response = await fetch(url, {
+    method: "POST",
+    credentials: 'include',
+    headers: {
+      "Content-Type": "application/json",
+      ...(!body.challengeToken && token && { 'Authorization': `Bearer ${token}` })
+    },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => ({}));
+  return { ok: response.ok, data };
+};
+
+// QR code enrollment in an authenticator app, confirmation with a first code
+// and the one-time display of the recovery codes
+export default function TwoFactorSetup({ challengeToken, onComplete, onCancel }: TwoFactorSetupProps) {
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [code, setCode] = useState("");
+  const [error, setError] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [result, setResult] = useState<any>(null);
+
+  useEffect(() => {
+    postTwoFactor("/api/auth/2fa/setup", { challengeToken })
+      .then(({ ok, data }) => {
+        if (ok) {
+          setEnrollment(data);
+        } else {
+          setError(data.error || "2FA konnte nicht eingerichtet werden.");
+        }
+      })
+      .catch(() => setError("Netzwerkfehler. Bitte versuche es erneut."));
+  }, [challengeToken]);
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError("");
+
+    try {
+      const { ok, data } = await postTwoFactor("/api/auth/2fa/enable", { challengeToken, code });
+      if (ok) {
+        setResult(data);
+      } else {
+        setError(data.error || "Ungültiger Code");
+      }
+    } catch (error) {
+      setError("Netzwerkfehler. Bitte versuche es erneut.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (result) {
+    return (
+      <RecoveryCodes
+        codes={result.recoveryCodes}
+        onDone={() => onComplete(result)}
+      />
+    );
+  }
+
+  if (!enrollment) {
+    return error ? (
+      <p className="text-sm text-destructive">{error}</p>
+    ) : (
+      <Skeleton className="h-48 w-48 mx-auto" />
+    );
+  }
+
+  return (
+    <form onSubmit={handleConfirm} className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Scanne den QR-Code mit einer Authenticator-App (z.B. Aegis, Google Authenticator
+        oder 1Password) und gib anschließend den angezeigten Code ein.
+      </p>
+      <img
+        src={enrollment.qrCode}
+        alt="QR-Code für die Authenticator-App"
+        className="h-48 w-48 mx-auto rounded-md bg-white p-2"
+        data-testid="img-2fa-qr"
+      />
+      <p className="text-xs text-muted-foreground text-center break-all">
+        Manuelle Eingabe: <span className="font-mono">{enrollment.secret}</span>
+      </p>
+      <div className="space-y-2">
+        <Label htmlFor="two-factor-setup-code">Code aus der App</Label>
+        <Input
+          id="two-factor-setup-code"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          placeholder="123456"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          required
+          data-testid="input-2fa-setup-code"
+        />
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      <div className="flex gap-2">
+        <Button type="submit" disabled={isLoading || !code.trim()} data-testid="button-2fa-confirm">
+          {isLoading ? "Wird geprüft..." : "Bestätigen"}
+        </Button>
+        {onCancel && (
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Abbrechen
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+}
+
+interface RecoveryCodesProps {
+  codes: string[];
+  onDone: () => void;
+}
+
+export function RecoveryCodes({ codes, onDone }: RecoveryCodesProps) {
+  const { toast } = useToast();
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(codes.join("\n")).then(() => {
+      toast({
+        title: "Codes kopiert",
+        description: "Die Wiederherstellungscodes wurden in die Zwischenablage kopiert.",
+      });
+    }).catch(() => {
+      toast({
+        title: "Fehler beim Kopieren",
+        description: "Die Codes konnten nicht in die Zwischenablage kopiert werden.",
+        variant: "destructive",
+      });
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Bewahre diese Wiederherstellungscodes sicher auf. Jeder Code kann einmal statt
+        eines Codes aus der App verwendet werden, falls du keinen Zugriff auf dein Gerät hast.
+        Sie werden nur jetzt angezeigt.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-md border p-3 font-mono text-sm" data-testid="list-recovery-codes">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" onClick={handleCopy}>
+          <Copy className="h-4 w-4 mr-2" />
+          Kopieren
+        </Button>
+        <Button type="button" onClick={onDone} data-testid="button-recovery-codes-done">
+          Ich habe die Codes gespeichert
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import {
   Settings as SettingsIcon,
   ChevronLeft,
   ChevronRight,
+  Filter,
 } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -26,6 +27,11 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import GalleryStatusBadge, {
+  GALLERY_STATUSES,
+  GALLERY_STATUS_BADGES,
+  type GalleryStatus,
+} from "./GalleryStatusBadge";
 const Settings = lazy(() => import("./Settings"));
 
 interface GalleryPreview {
@@ -75,6 +81,7 @@ export default function UsersOverview() {
     return (saved as typeof sortBy) || "name-asc";
   });
   const [searchQuery, setSearchQuery] = useState("");
+  const [statusFilter, setStatusFilter] = useState<GalleryStatus | "all">("all");
   const [isSidebarOpen, setIsSidebarOpen] = useState(() => {
     // Check if mobile (width < 768px)
     return window.innerWidth >= 768;
@@ -105,6 +112,9 @@ export default function UsersOverview() {
         gallery.name.toLowerCase().includes(searchQuery.toLowerCase()),
       );
     }
+    if (statusFilter !== "all") {
+      filtered = filtered.filter((gallery) => gallery.status === statusFilter);
+    }
 
     // Then sort
     const sorted = [...filtered];
@@ -286,6 +296,27 @@ export default function UsersOverview() {
                     className="w-full sm:w-64"
                     data-testid="input-search-galleries"
                   />
+                  <div className="flex items-center space-x-2 w-full sm:w-auto">
+                    <Filter className="w-4 h-4 text-muted-foreground" />
+                    <Select
+                      value={statusFilter}
+                      onValueChange={(value) =>
+                        setStatusFilter(value as GalleryStatus | "all")
+                      }
+                    >
+                      <SelectTrigger className="w-full sm:w-40" data-testid="select-status-filter">
+                        <SelectValue placeholder="Status" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">Alle Status</SelectItem>
+                        {GALLERY_STATUSES.map((status) => (
+                          <SelectItem key={status} value={status}>
+                            {GALLERY_STATUS_BADGES[status].label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                   <div className="flex items-center space-x-2 w-full sm:w-auto">
                     <ArrowUpDown className="w-4 h-4 text-muted-foreground" />
                     <Select
@@ -323,6 +354,11 @@ export default function UsersOverview() {
                 <div className="col-span-full text-center py-12 text-muted-foreground">
                   Keine Gallerien gefunden für "{searchQuery}"
                 </div>
+              ) : filterAndSortGalleries(galleries).length === 0 &&
+                statusFilter !== "all" ? (
+                <div className="col-span-full text-center py-12 text-muted-foreground">
+                  Keine Gallerien mit dem Status "{GALLERY_STATUS_BADGES[statusFilter].label}"
+                </div>
               ) : null}
               {filterAndSortGalleries(galleries).map((gallery) => (
                 <Card
@@ -342,6 +378,10 @@ export default function UsersOverview() {
                           {gallery.name}
                         </h3>
                       </div>
+                      <GalleryStatusBadge
+                        status={gallery.status as GalleryStatus}
+                        className="shrink-0"
+                      />
                     </div>
                   </CardContent>
                 </Card>
@@ -0,0 +1,86 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { UserRound } from "lucide-react";
+
+interface VisitorIdentificationProps {
+  galleryName: string;
+  onSubmit: (name: string, email: string) => void;
+  error?: string | null;
+  loading?: boolean;
+}
+
+export default function VisitorIdentification({
+  galleryName,
+  onSubmit,
+  error,
+  loading = false,
+}: VisitorIdentificationProps) {
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (name.trim()) {
+      onSubmit(name.trim(), email.trim());
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-background">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-4">
+            <UserRound className="w-12 h-12 text-primary" />
+          </div>
+          <CardTitle className="text-2xl">Willkommen!</CardTitle>
+          <CardDescription>
+            Bitte gib deinen Namen ein, bevor du die Galerie "{galleryName}" ansiehst. So bleiben deine Bewertungen, Likes und deine Auswahl getrennt von denen anderer Besucher.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="visitor-name">Name</Label>
+              <Input
+                id="visitor-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Dein Name"
+                maxLength={100}
+                autoFocus
+                disabled={loading}
+                data-testid="input-visitor-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="visitor-email">E-Mail (optional)</Label>
+              <Input
+                id="visitor-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="deine-email@beispiel.de"
+                disabled={loading}
+                data-testid="input-visitor-email"
+              />
+              {error && (
+                <p className="text-sm text-destructive">{error}</p>
+              )}
+            </div>
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={loading || !name.trim()}
+              data-testid="button-visitor-submit"
+            >
+              {loading ? "Wird gespeichert..." : "Zur Galerie"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { useSessionKeepAlive } from "@/hooks/use-session-keep-alive";
 
 interface User {
   id: string;
@@ -15,12 +16,27 @@ interface Gallery {
   lastModified: string;
   userId: string;
   createdAt: string;
+  expiresAt: string | null;
+  archivedAt: string | null;
+  status: string; // see GALLERY_STATUSES
+  statusChangedAt: string | null;
+}
+
+// With 2FA the login returns a challenge for the second step instead of a session
+interface LoginResult {
+  success: boolean;
+  error?: string;
+  twoFactorRequired?: boolean;
+  twoFactorSetupRequired?: boolean;
+  challengeToken?: string;
 }
 
 interface AuthContextType {
   user: User | null;
   isAuthenticated: boolean;
-  login: (email: string, password: string) => Promise<boolean>;
+  login: (email: string, password: string) => Promise<LoginResult>;
+  verifyTwoFactor: (challengeToken: string, code: string) => Promise<{ success: boolean; error?: string }>;
+  completeLogin: (data: { user: User; token?: string }) => void;
   logout: () => void;
   galleries: Gallery[];
   galleriesLoading: boolean;
@@ -48,6 +64,20 @@ export function AuthProvider({ children }: AuthProviderProps) {
     return savedUser ? JSON.parse(savedUser) : null;
   });
 
+  const clearSession = () => {
+    setUser(null);
+    localStorage.removeItem('user');
+    localStorage.removeItem('authToken');
+  };
+
+  useSessionKeepAlive(!!user?.id, {
+    onEnded: clearSession,
+    onRenewedAfterExpiry: () => {
+      const savedUser = localStorage.getItem('user');
+      setUser(savedUser ? JSON.parse(savedUser) : null);
+    },
+  });
+
   // Fetch galleries from backend when user is authenticated
   const { 
     data: galleries = [], 
@@ -197,7 +227,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
   };
 
 
-  const login = async (name: string, password: string) => {
+  const login = async (name: string, password: string): Promise<LoginResult> => {
     try {
       const response = await fetch('/api/auth/login', {
         method: 'POST',
@@ -210,16 +240,18 @@ export function AuthProvider({ children }: AuthProviderProps) {
 
       if (response.ok) {
         const data = await response.json();
-        console.log('Login response user data:', data.user);
-        setUser(data.user);
-        
-        // Token wird als HTTP-only Cookie gespeichert
-        // Optional: Fallback localStorage für token (falls Cookie nicht funktioniert)
-        if (data.token) {
-          localStorage.setItem('authToken', data.token);
+
+        // Second step (or 2FA enrollment) before the session is issued
+        if (data.twoFactorRequired || data.twoFactorSetupRequired) {
+          return {
+            success: false,
+            twoFactorRequired: !!data.twoFactorRequired,
+            twoFactorSetupRequired: !!data.twoFactorSetupRequired,
+            challengeToken: data.challengeToken as string,
+          };
         }
-        localStorage.setItem('user', JSON.stringify(data.user));
-        
+
+        completeLogin(data);
         return { success: true };
       } else {
         const errorData = await response.json();
@@ -231,25 +263,64 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
+  const completeLogin = (data: { user: User; token?: string }) => {
+    console.log('Login response user data:', data.user);
+    setUser(data.user);
+
+    // Token wird als HTTP-only Cookie gespeichert
+    // Optional: Fallback localStorage für token (falls Cookie nicht funktioniert)
+    if (data.token) {
+      localStorage.setItem('authToken', data.token);
+    }
+    localStorage.setItem('user', JSON.stringify(data.user));
+  };
+
+  const verifyTwoFactor = async (challengeToken: string, code: string) => {
+    try {
+      const response = await fetch('/api/auth/login/verify', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        credentials: 'include',
+        body: JSON.stringify({ challengeToken, code })
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        completeLogin(data);
+        return { success: true };
+      }
+      return { success: false, error: data.error || 'Ungültiger Code' };
+    } catch (error) {
+      console.error('2FA verification error:', error);
+      return { success: false, error: 'Netzwerkfehler beim Login' };
+    }
+  };
+
   const logout = async () => {
     try {
+      const token = localStorage.getItem('authToken');
       await fetch('/api/auth/logout', {
         method: 'POST',
-        credentials: 'include'
+        credentials: 'include',
+        headers: {
+          ...(token && { 'Authorization': `Bearer ${token}` })
+        }
       });
     } catch (error) {
       console.error('Logout error:', error);
     }
     
-    setUser(null);
-    localStorage.removeItem('user');
-    localStorage.removeItem('authToken');
+    clearSession();
   };
 
   const value = {
     user,
     isAuthenticated: !!user,
     login,
+    verifyTwoFactor,
+    completeLogin,
     logout,
     galleries: combinedGalleries, // Use the combined galleries
     galleriesLoading: areGalleriesLoading, // Use the loading state for combined galleries
@@ -8,6 +8,14 @@ interface Comment {
   timestamp: string;
 }
 
+// Edited image delivered for the photo, shown to visitors instead of it
+export interface FinalVersion {
+  id: string;
+  src: string;
+  mediumSrc?: string;
+  originalSrc?: string; // Only if finals may be downloaded
+}
+
 interface Photo {
   id: string;
   src: string;
@@ -17,6 +25,8 @@ interface Photo {
   rating: number;
   isLiked: boolean;
   comments: Comment[];
+  processingStatus?: string;
+  final?: FinalVersion | null;
 }
 
 interface PhotoContextType {
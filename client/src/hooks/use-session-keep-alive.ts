@@ -0,0 +1,70 @@
+import { useEffect, useRef, useState } from "react"
+import { ensureFreshSession, isAccessTokenExpired } from "@/lib/queryClient"
+
+const SESSION_CHECK_INTERVAL = 60 * 1000
+
+interface SessionKeepAliveOptions {
+  // The session was revoked or has expired
+  onEnded?: () => void
+  // The access token had already expired, earlier requests went out without it
+  onRenewedAfterExpiry?: () => void
+}
+
+// Access tokens are short-lived: renew them in time through the session,
+// also when returning to a tab that was in the background for a while
+export function useSessionKeepAlive(
+  enabled: boolean,
+  options: SessionKeepAliveOptions = {}
+) {
+  const optionsRef = useRef(options)
+  optionsRef.current = options
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const keepSessionAlive = async () => {
+      const wasExpired = isAccessTokenExpired()
+      if (!(await ensureFreshSession())) {
+        optionsRef.current.onEnded?.()
+        return
+      }
+
+      if (wasExpired) {
+        optionsRef.current.onRenewedAfterExpiry?.()
+      }
+    }
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible") {
+        keepSessionAlive()
+      }
+    }
+
+    keepSessionAlive()
+    const interval = setInterval(keepSessionAlive, SESSION_CHECK_INTERVAL)
+    document.addEventListener("visibilitychange", handleVisibilityChange)
+
+    return () => {
+      clearInterval(interval)
+      document.removeEventListener("visibilitychange", handleVisibilityChange)
+    }
+  }, [enabled])
+}
+
+// Clients open their galleries from the portal in the public gallery view,
+// which lives outside the AuthProvider
+export function useClientSession(): boolean {
+  const [isClient] = useState(() => {
+    const savedUser = localStorage.getItem("user")
+    return savedUser ? JSON.parse(savedUser).role === "Client" : false
+  })
+
+  useSessionKeepAlive(isClient, {
+    onEnded: () => {
+      localStorage.removeItem("user")
+      localStorage.removeItem("authToken")
+    },
+  })
+
+  return isClient
+}
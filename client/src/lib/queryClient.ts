@@ -7,27 +7,93 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+let refreshPromise: Promise<boolean> | null = null;
+
+// Erneuert das kurzlebige Access-Token über den Refresh-Cookie der Sitzung.
+// Parallele Aufrufe teilen sich eine Anfrage, damit der Token nur einmal rotiert.
+export function refreshSession(): Promise<boolean> {
+  if (!refreshPromise) {
+    refreshPromise = fetch('/api/auth/refresh', {
+      method: 'POST',
+      credentials: 'include',
+    })
+      .then(async (response) => {
+        if (!response.ok) return false;
+        const data = await response.json();
+        if (data.token) {
+          localStorage.setItem('authToken', data.token);
+        }
+        localStorage.setItem('user', JSON.stringify(data.user));
+        return true;
+      })
+      .catch(() => false)
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+}
+
+// Access-Token so viel vor Ablauf erneuern
+const SESSION_REFRESH_BEFORE = 5 * 60 * 1000;
+
+// Ablaufzeit des Access-Tokens (ms), null wenn es nicht lesbar ist
+const getTokenExpiry = (token: string | null): number | null => {
+  try {
+    const payload = token?.split('.')[1];
+    if (!payload) return null;
+    const { exp } = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof exp === 'number' ? exp * 1000 : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+export function isAccessTokenExpired(): boolean {
+  const expiresAt = getTokenExpiry(localStorage.getItem('authToken'));
+  return expiresAt === null || expiresAt < Date.now();
+}
+
+// Erneuert das Access-Token, wenn es bald abläuft. false, wenn die Sitzung
+// beendet oder abgelaufen ist.
+export async function ensureFreshSession(): Promise<boolean> {
+  const expiresAt = getTokenExpiry(localStorage.getItem('authToken'));
+  if (expiresAt && expiresAt - Date.now() > SESSION_REFRESH_BEFORE) {
+    return true;
+  }
+  return refreshSession();
+}
+
 export async function apiRequest(
   method: string,
   url: string,
   data?: any
 ): Promise<any> {
-  const token = localStorage.getItem('authToken');
+  const send = () => {
+    const token = localStorage.getItem('authToken');
 
-  const options: RequestInit = {
-    method,
-    headers: {
-      "Content-Type": "application/json",
-      ...(token && { "Authorization": `Bearer ${token}` })
-    },
-    credentials: 'include', // Include cookies for HTTP-only token
+    const options: RequestInit = {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+        ...(token && { "Authorization": `Bearer ${token}` })
+      },
+      credentials: 'include', // Include cookies for HTTP-only token
+    };
+
+    if (data) {
+      options.body = JSON.stringify(data);
+    }
+
+    return fetch(url, options);
   };
 
-  if (data) {
-    options.body = JSON.stringify(data);
-  }
+  let response = await send();
 
-  const response = await fetch(url, options);
+  // Abgelaufenes Access-Token: einmal erneuern und wiederholen
+  if (response.status === 401 && (await refreshSession())) {
+    response = await send();
+  }
 
   if (!response.ok) {
     // Bei 401 Unauthorized -> Auto-Logout
@@ -0,0 +1,328 @@
+CREATE TABLE "api_tokens" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"name" text NOT NULL,
+	"token_hash" text NOT NULL,
+	"token_prefix" text NOT NULL,
+	"scopes" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"expires_at" timestamp,
+	"last_used_at" timestamp,
+	"last_used_ip" text,
+	"created_at" timestamp DEFAULT now(),
+	"revoked_at" timestamp,
+	CONSTRAINT "api_tokens_token_hash_unique" UNIQUE("token_hash")
+);
+--> statement-breakpoint
+CREATE TABLE "audit_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"actor_id" uuid,
+	"actor_name" text,
+	"action" text NOT NULL,
+	"target_type" text,
+	"target_id" text,
+	"target_name" text,
+	"ip_address" text,
+	"changes" jsonb,
+	"details" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "branding_settings" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"company_name" text DEFAULT 'PhotoGallery' NOT NULL,
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "comments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"photo_id" uuid NOT NULL,
+	"commenter_name" text NOT NULL,
+	"text" text NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "galleries" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"user_id" uuid NOT NULL,
+	"parent_id" uuid,
+	"password" text,
+	"allow_download" boolean DEFAULT true,
+	"sort_mode" text DEFAULT 'uploadedAt' NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "gallery_assignments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"gallery_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"permission" text DEFAULT 'comment' NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "gallery_visitors" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"gallery_id" uuid NOT NULL,
+	"name" text NOT NULL,
+	"email" text,
+	"user_id" uuid,
+	"created_at" timestamp DEFAULT now(),
+	"last_seen_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "jobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"type" text NOT NULL,
+	"payload" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer DEFAULT 3 NOT NULL,
+	"last_error" text,
+	"run_at" timestamp DEFAULT now() NOT NULL,
+	"locked_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "notifications" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid,
+	"gallery_id" uuid,
+	"photo_id" uuid,
+	"type" text NOT NULL,
+	"message" text NOT NULL,
+	"actor_name" text,
+	"is_read" boolean DEFAULT false,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "password_reset_tokens" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"token" text NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "password_reset_tokens_token_unique" UNIQUE("token")
+);
+--> statement-breakpoint
+CREATE TABLE "photo_likes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"photo_id" uuid NOT NULL,
+	"is_liked" boolean DEFAULT false NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "photo_metadata" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"photo_id" uuid NOT NULL,
+	"camera_make" text,
+	"camera_model" text,
+	"lens" text,
+	"focal_length" real,
+	"aperture" real,
+	"exposure_time" real,
+	"iso" integer,
+	"captured_at" timestamp,
+	"artist" text,
+	"copyright" text,
+	"width" integer,
+	"height" integer,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "photo_metadata_photo_id_unique" UNIQUE("photo_id")
+);
+--> statement-breakpoint
+CREATE TABLE "photos" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"filename" text NOT NULL,
+	"original_name" text NOT NULL,
+	"alt" text NOT NULL,
+	"file_path" text,
+	"thumbnail_path" text,
+	"medium_path" text,
+	"gallery_id" uuid NOT NULL,
+	"rating" integer DEFAULT 0,
+	"processing_status" text DEFAULT 'ready' NOT NULL,
+	"sort_order" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "proofing_rounds" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"gallery_id" uuid NOT NULL,
+	"name" text NOT NULL,
+	"deadline" timestamp,
+	"photo_limit" integer,
+	"status" text DEFAULT 'open' NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"closed_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "proofing_submissions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"round_id" uuid NOT NULL,
+	"visitor_id" uuid NOT NULL,
+	"photo_ids" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"note" text,
+	"submitted_at" timestamp DEFAULT now(),
+	CONSTRAINT "proofing_submissions_round_id_visitor_id_unique" UNIQUE("round_id","visitor_id")
+);
+--> statement-breakpoint
+CREATE TABLE "rate_limits" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"scope" text NOT NULL,
+	"key" text NOT NULL,
+	"failures" integer DEFAULT 0 NOT NULL,
+	"blocked_until" timestamp,
+	"locked_at" timestamp,
+	"last_failure_at" timestamp DEFAULT now(),
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "rate_limits_scope_key_unique" UNIQUE("scope","key")
+);
+--> statement-breakpoint
+CREATE TABLE "sessions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"refresh_token_hash" text NOT NULL,
+	"previous_refresh_token_hash" text,
+	"rotated_at" timestamp,
+	"user_agent" text,
+	"ip_address" text,
+	"created_at" timestamp DEFAULT now(),
+	"last_seen_at" timestamp DEFAULT now(),
+	"expires_at" timestamp NOT NULL,
+	"revoked_at" timestamp,
+	CONSTRAINT "sessions_refresh_token_hash_unique" UNIQUE("refresh_token_hash")
+);
+--> statement-breakpoint
+CREATE TABLE "share_links" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"gallery_id" uuid NOT NULL,
+	"token" text NOT NULL,
+	"label" text NOT NULL,
+	"password" text,
+	"expires_at" timestamp,
+	"can_view" boolean DEFAULT true NOT NULL,
+	"can_rate" boolean DEFAULT true NOT NULL,
+	"can_comment" boolean DEFAULT true NOT NULL,
+	"download_mode" text DEFAULT 'none' NOT NULL,
+	"created_by" uuid,
+	"created_at" timestamp DEFAULT now(),
+	"last_used_at" timestamp,
+	"revoked_at" timestamp,
+	CONSTRAINT "share_links_token_unique" UNIQUE("token")
+);
+--> statement-breakpoint
+CREATE TABLE "system_settings" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"smtp_host" text,
+	"smtp_port" integer,
+	"smtp_user" text,
+	"smtp_password" text,
+	"smtp_from" text,
+	"app_url" text,
+	"public_metadata_fields" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"require_two_factor" boolean DEFAULT false NOT NULL,
+	"oidc_enabled" boolean DEFAULT false NOT NULL,
+	"oidc_provider_name" text,
+	"oidc_issuer" text,
+	"oidc_client_id" text,
+	"oidc_client_secret" text,
+	"oidc_scopes" text DEFAULT 'openid email profile' NOT NULL,
+	"oidc_role_claim" text,
+	"oidc_admin_role_value" text,
+	"oidc_creator_role_value" text,
+	"disable_password_login" boolean DEFAULT false NOT NULL,
+	"audit_retention_days" integer DEFAULT 365 NOT NULL,
+	"backup_interval_hours" integer DEFAULT 0 NOT NULL,
+	"backup_keep_count" integer DEFAULT 7 NOT NULL,
+	"backup_include_derivatives" boolean DEFAULT false NOT NULL,
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "upload_sessions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"gallery_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"fingerprint" text NOT NULL,
+	"original_name" text NOT NULL,
+	"alt" text NOT NULL,
+	"mime_type" text NOT NULL,
+	"size" integer NOT NULL,
+	"offset" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "user_invitations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"email" text NOT NULL,
+	"role" text DEFAULT 'User' NOT NULL,
+	"token_hash" text NOT NULL,
+	"invited_by" uuid,
+	"expires_at" timestamp NOT NULL,
+	"last_sent_at" timestamp DEFAULT now(),
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "user_invitations_email_unique" UNIQUE("email"),
+	CONSTRAINT "user_invitations_token_hash_unique" UNIQUE("token_hash")
+);
+--> statement-breakpoint
+CREATE TABLE "user_two_factor" (
+	"user_id" uuid PRIMARY KEY NOT NULL,
+	"secret" text NOT NULL,
+	"enabled_at" timestamp,
+	"recovery_codes" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"last_used_step" integer,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"email" text NOT NULL,
+	"password" text NOT NULL,
+	"role" text DEFAULT 'User' NOT NULL,
+	"oidc_subject" text,
+	CONSTRAINT "users_name_unique" UNIQUE("name"),
+	CONSTRAINT "users_email_unique" UNIQUE("email"),
+	CONSTRAINT "users_oidc_subject_unique" UNIQUE("oidc_subject")
+);
+--> statement-breakpoint
+CREATE TABLE "visitor_picks" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"visitor_id" uuid NOT NULL,
+	"photo_id" uuid NOT NULL,
+	"rating" integer DEFAULT 0 NOT NULL,
+	"is_liked" boolean DEFAULT false NOT NULL,
+	"is_selected" boolean DEFAULT false NOT NULL,
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "visitor_picks_visitor_id_photo_id_unique" UNIQUE("visitor_id","photo_id")
+);
+--> statement-breakpoint
+ALTER TABLE "api_tokens" ADD CONSTRAINT "api_tokens_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "audit_events" ADD CONSTRAINT "audit_events_actor_id_users_id_fk" FOREIGN KEY ("actor_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "comments" ADD CONSTRAINT "comments_photo_id_photos_id_fk" FOREIGN KEY ("photo_id") REFERENCES "public"."photos"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "galleries" ADD CONSTRAINT "galleries_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "galleries" ADD CONSTRAINT "galleries_parent_id_galleries_id_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."galleries"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "gallery_assignments" ADD CONSTRAINT "gallery_assignments_gallery_id_galleries_id_fk" FOREIGN KEY ("gallery_id") REFERENCES "public"."galleries"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "gallery_assignments" ADD CONSTRAINT "gallery_assignments_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "gallery_visitors" ADD CONSTRAINT "gallery_visitors_gallery_id_galleries_id_fk" FOREIGN KEY ("gallery_id") REFERENCES "public"."galleries"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "gallery_visitors" ADD CONSTRAINT "gallery_visitors_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_gallery_id_galleries_id_fk" FOREIGN KEY ("gallery_id") REFERENCES "public"."galleries"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_photo_id_photos_id_fk" FOREIGN KEY ("photo_id") REFERENCES "public"."photos"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "password_reset_tokens" ADD CONSTRAINT "password_reset_tokens_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "photo_likes" ADD CONSTRAINT "photo_likes_photo_id_photos_id_fk" FOREIGN KEY ("photo_id") REFERENCES "public"."photos"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "photo_metadata" ADD CONSTRAINT "photo_metadata_photo_id_photos_id_fk" FOREIGN KEY ("photo_id") REFERENCES "public"."photos"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "photos" ADD CONSTRAINT "photos_gallery_id_galleries_id_fk" FOREIGN KEY ("gallery_id") REFERENCES "public"."galleries"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "proofing_rounds" ADD CONSTRAINT "proofing_rounds_gallery_id_galleries_id_fk" FOREIGN KEY ("gallery_id") REFERENCES "public"."galleries"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "proofing_submissions" ADD CONSTRAINT "proofing_submissions_round_id_proofing_rounds_id_fk" FOREIGN KEY ("round_id") REFERENCES "public"."proofing_rounds"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "proofing_submissions" ADD CONSTRAINT "proofing_submissions_visitor_id_gallery_visitors_id_fk" FOREIGN KEY ("visitor_id") REFERENCES "public"."gallery_visitors"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "share_links" ADD CONSTRAINT "share_links_gallery_id_galleries_id_fk" FOREIGN KEY ("gallery_id") REFERENCES "public"."galleries"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "share_links" ADD CONSTRAINT "share_links_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "upload_sessions" ADD CONSTRAINT "upload_sessions_gallery_id_galleries_id_fk" FOREIGN KEY ("gallery_id") REFERENCES "public"."galleries"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "upload_sessions" ADD CONSTRAINT "upload_sessions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_invitations" ADD CONSTRAINT "user_invitations_invited_by_users_id_fk" FOREIGN KEY ("invited_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_two_factor" ADD CONSTRAINT "user_two_factor_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "visitor_picks" ADD CONSTRAINT "visitor_picks_visitor_id_gallery_visitors_id_fk" FOREIGN KEY ("visitor_id") REFERENCES "public"."gallery_visitors"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "visitor_picks" ADD CONSTRAINT "visitor_picks_photo_id_photos_id_fk" FOREIGN KEY ("photo_id") REFERENCES "public"."photos"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "system_settings" DROP COLUMN "trash_retention_days";--> statement-breakpoint
+ALTER TABLE "photos" DROP COLUMN "deleted_at";--> statement-breakpoint
+ALTER TABLE "galleries" DROP COLUMN "deleted_at";
@@ -0,0 +1,3 @@
+ALTER TABLE "galleries" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "photos" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "system_settings" ADD COLUMN "trash_retention_days" integer DEFAULT 30 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "system_settings" DROP COLUMN "archive_expired_galleries";--> statement-breakpoint
+ALTER TABLE "system_settings" DROP COLUMN "expiry_reminder_days";--> statement-breakpoint
+ALTER TABLE "galleries" DROP COLUMN "archived_at";--> statement-breakpoint
+ALTER TABLE "galleries" DROP COLUMN "expiry_reminder_sent_at";--> statement-breakpoint
+ALTER TABLE "galleries" DROP COLUMN "expires_at";
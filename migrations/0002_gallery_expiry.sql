@@ -0,0 +1,5 @@
+ALTER TABLE "galleries" ADD COLUMN "expires_at" timestamp;--> statement-breakpoint
+ALTER TABLE "galleries" ADD COLUMN "expiry_reminder_sent_at" timestamp;--> statement-breakpoint
+ALTER TABLE "galleries" ADD COLUMN "archived_at" timestamp;--> statement-breakpoint
+ALTER TABLE "system_settings" ADD COLUMN "expiry_reminder_days" integer DEFAULT 14 NOT NULL;--> statement-breakpoint
+ALTER TABLE "system_settings" ADD COLUMN "archive_expired_galleries" boolean DEFAULT false NOT NULL;
\ No newline at end of file
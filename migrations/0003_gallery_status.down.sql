@@ -0,0 +1,2 @@
+ALTER TABLE "galleries" DROP COLUMN "status_changed_at";--> statement-breakpoint
+ALTER TABLE "galleries" DROP COLUMN "status";
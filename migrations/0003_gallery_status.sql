@@ -0,0 +1,4 @@
+ALTER TABLE "galleries" ADD COLUMN "status" text DEFAULT 'draft' NOT NULL;--> statement-breakpoint
+ALTER TABLE "galleries" ADD COLUMN "status_changed_at" timestamp DEFAULT now();--> statement-breakpoint
+-- Galleries from before the status were already reachable publicly
+UPDATE "galleries" SET "status" = 'shared';
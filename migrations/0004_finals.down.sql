@@ -0,0 +1,2 @@
+ALTER TABLE "galleries" DROP COLUMN "finals_download";--> statement-breakpoint
+DROP TABLE "final_photos";
\ No newline at end of file
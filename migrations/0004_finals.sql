@@ -0,0 +1,17 @@
+CREATE TABLE "final_photos" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"gallery_id" uuid NOT NULL,
+	"proof_id" uuid,
+	"filename" text NOT NULL,
+	"original_name" text NOT NULL,
+	"file_path" text,
+	"thumbnail_path" text,
+	"medium_path" text,
+	"processing_status" text DEFAULT 'processing' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "final_photos_proof_id_unique" UNIQUE("proof_id")
+);
+--> statement-breakpoint
+ALTER TABLE "galleries" ADD COLUMN "finals_download" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "final_photos" ADD CONSTRAINT "final_photos_gallery_id_galleries_id_fk" FOREIGN KEY ("gallery_id") REFERENCES "public"."galleries"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "final_photos" ADD CONSTRAINT "final_photos_proof_id_photos_id_fk" FOREIGN KEY ("proof_id") REFERENCES "public"."photos"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "upload_sessions" DROP COLUMN "writing_since";
\ No newline at end of file
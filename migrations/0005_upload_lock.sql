@@ -0,0 +1 @@
+ALTER TABLE "upload_sessions" ADD COLUMN "writing_since" timestamp;
\ No newline at end of file
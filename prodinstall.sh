@@ -155,8 +155,8 @@ JWT_SECRET=$jwt_secret
 EOF"
 $SUDO chown fotostube:fotostube "$install_dir/.env"
 
-# Jetzt klappt der DB-Push, da der User Owner ist und Rechte auf das public-Schema hat
-run_as fotostube "cd $install_dir && npm run db:push"
+# Jetzt klappen die Migrationen, da der User Owner ist und Rechte auf das public-Schema hat
+run_as fotostube "cd $install_dir && npm run db:migrate"
 wait_for_continue
 
 $SUDO chown -R fotostube:fotostube "$install_dir"
@@ -0,0 +1,82 @@
+import type { Request } from "express";
+import crypto from "crypto";
+import { storage } from "./storage";
+import type { JWTPayload } from "./auth";
+import type { ApiToken, ApiTokenScope } from "@shared/schema";
+
+// Personal access tokens for studio scripts. They are sent in the
+// Authorization header, act as their user and are limited to the gallery API
+// (galleries, photos, uploads, downloads) within the scopes of the token.
+
+export const API_TOKEN_PREFIX = "fst_";
+// lastUsedAt is only written once a minute, not on every request
+const TOUCH_INTERVAL = 60 * 1000;
+
+const hashApiToken = (token: string) =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+export const isApiToken = (token: string) => token.startsWith(API_TOKEN_PREFIX);
+
+export function generateApiToken() {
+  const token =
+    API_TOKEN_PREFIX + crypto.randomBytes(32).toString("base64url");
+  return {
+    token,
+    tokenHash: hashApiToken(token),
+    tokenPrefix: token.slice(0, API_TOKEN_PREFIX.length + 6),
+  };
+}
+
+export const isApiTokenExpired = (apiToken: ApiToken) =>
+  !!apiToken.expiresAt && apiToken.expiresAt.getTime() <= Date.now();
+
+// Scope a request needs, null if it is not part of the gallery API
+export function getRequiredScope(req: Request): ApiTokenScope | null {
+  const path = req.path;
+  if (!/^\/api\/(galleries|photos)(\/|$)/.test(path)) return null;
+
+  if (
+    req.method === "GET" ||
+    path === "/api/photos/prepare-download" ||
+    path === "/api/photos/download"
+  ) {
+    return "read";
+  }
+
+  if (/^\/api\/galleries\/[^/]+\/(uploads(\/|$)|photos(\/upload(-multiple)?)?$)/.test(path)) {
+    return "upload";
+  }
+
+  return "manage";
+}
+
+// Resolves an API token to the user it acts as, null if it is unknown,
+// revoked or expired
+export async function authenticateApiToken(
+  req: Request,
+  token: string,
+): Promise<JWTPayload | null> {
+  const apiToken = await storage.getApiTokenByHash(hashApiToken(token));
+  if (!apiToken || apiToken.revokedAt || isApiTokenExpired(apiToken)) {
+    return null;
+  }
+
+  // The role is read on every request, client accounts can't use tokens
+  const user = await storage.getUser(apiToken.userId);
+  if (!user || user.role === "Client") return null;
+
+  const lastUsed = apiToken.lastUsedAt?.getTime() ?? 0;
+  if (Date.now() - lastUsed > TOUCH_INTERVAL) {
+    storage.touchApiToken(apiToken.id, req.ip || null).catch((error) => {
+      console.error("Touch API token error:", error);
+    });
+  }
+
+  return {
+    userId: user.id,
+    email: user.email,
+    role: user.role,
+    apiTokenId: apiToken.id,
+    scopes: apiToken.scopes,
+  };
+}
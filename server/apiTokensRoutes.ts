@@ -0,0 +1,134 @@
+import type { Express } from "express";
+import { storage } from "./storage";
+import { authenticateJWT, requireStaff } from "./auth";
+import { generateApiToken, isApiTokenExpired } from "./apiTokens";
+import { recordAuditEvent } from "./audit";
+import { API_TOKEN_SCOPES, type ApiToken } from "@shared/schema";
+
+// Personal access tokens in the account settings. The token itself is only
+// returned once when it is created, afterwards only its prefix is known.
+
+const MAX_TOKEN_LIFETIME_DAYS = 3650;
+
+const toApiTokenResponse = (apiToken: ApiToken) => ({
+  id: apiToken.id,
+  name: apiToken.name,
+  tokenPrefix: apiToken.tokenPrefix,
+  scopes: apiToken.scopes,
+  expiresAt: apiToken.expiresAt,
+  lastUsedAt: apiToken.lastUsedAt,
+  lastUsedIp: apiToken.lastUsedIp,
+  createdAt: apiToken.createdAt,
+  isExpired: isApiTokenExpired(apiToken),
+});
+
+export async function registerApiTokensRoutes(app: Express): Promise<void> {
+  app.get(
+    "/api/auth/api-tokens",
+    authenticateJWT,
+    requireStaff,
+    async (req: any, res) => {
+      try {
+        const apiTokens = await storage.getUserApiTokens(req.user.userId);
+        res.json(apiTokens.map(toApiTokenResponse));
+      } catch (error) {
+        console.error("Get API tokens error:", error);
+        res.status(500).json({ error: "Fehler beim Laden der API-Tokens" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/auth/api-tokens",
+    authenticateJWT,
+    requireStaff,
+    async (req: any, res) => {
+      try {
+        const { name, scopes, expiresInDays } = req.body;
+
+        if (!name || typeof name !== "string" || name.trim() === "") {
+          return res.status(400).json({ error: "Name ist erforderlich" });
+        }
+
+        if (
+          !Array.isArray(scopes) ||
+          scopes.length === 0 ||
+          scopes.some((scope) => !API_TOKEN_SCOPES.includes(scope))
+        ) {
+          return res
+            .status(400)
+            .json({ error: "Mindestens ein gültiger Scope ist erforderlich" });
+        }
+
+        if (
+          expiresInDays !== null &&
+          (!Number.isInteger(expiresInDays) ||
+            expiresInDays < 1 ||
+            expiresInDays > MAX_TOKEN_LIFETIME_DAYS)
+        ) {
+          return res.status(400).json({ error: "Ungültige Gültigkeitsdauer" });
+        }
+
+        const { token, tokenHash, tokenPrefix } = generateApiToken();
+        const apiToken = await storage.createApiToken({
+          userId: req.user.userId,
+          name: name.trim(),
+          tokenHash,
+          tokenPrefix,
+          scopes: Array.from(new Set<string>(scopes)),
+          expiresAt:
+            expiresInDays === null
+              ? null
+              : new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+        });
+
+        await recordAuditEvent(req, {
+          action: "auth.api_token_create",
+          targetType: "api_token",
+          targetId: apiToken.id,
+          targetName: apiToken.name,
+          details: {
+            scopes: apiToken.scopes,
+            expiresAt: apiToken.expiresAt,
+            tokenPrefix: apiToken.tokenPrefix,
+          },
+        });
+
+        res.status(201).json({ ...toApiTokenResponse(apiToken), token });
+      } catch (error) {
+        console.error("Create API token error:", error);
+        res.status(500).json({ error: "Fehler beim Erstellen des API-Tokens" });
+      }
+    },
+  );
+
+  app.delete(
+    "/api/auth/api-tokens/:id",
+    authenticateJWT,
+    requireStaff,
+    async (req: any, res) => {
+      try {
+        const apiToken = (
+          await storage.getUserApiTokens(req.user.userId)
+        ).find((token) => token.id === req.params.id);
+        const success = await storage.revokeApiToken(
+          req.params.id,
+          req.user.userId,
+        );
+        if (!success) {
+          return res.status(404).json({ error: "API-Token nicht gefunden" });
+        }
+        await recordAuditEvent(req, {
+          action: "auth.api_token_revoke",
+          targetType: "api_token",
+          targetId: req.params.id,
+          targetName: apiToken?.name,
+        });
+        res.json({ success: true });
+      } catch (error) {
+        console.error("Revoke API token error:", error);
+        res.status(500).json({ error: "Fehler beim Widerrufen des API-Tokens" });
+      }
+    },
+  );
+}
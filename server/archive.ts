@@ -0,0 +1,90 @@
+import fs from "fs";
+import zlib from "zlib";
+import { pipeline } from "stream/promises";
+import tar from "tar-stream";
+import { getTableColumns } from "drizzle-orm";
+import type { PgDatabase, PgTable } from "drizzle-orm/pg-core";
+
+// Shared by backups and gallery bundles: reading .tar.gz archives and
+// turning exported JSON rows back into insertable rows.
+
+export type Row = Record<string, any>;
+
+const INSERT_CHUNK_SIZE = 500;
+
+export type ArchiveEntry = tar.ExtractEvents["entry"][1];
+
+// Entries are read one after the other while iterating over `entries`,
+// `done` rejects if the archive itself is broken
+export function openTarGz(archivePath: string) {
+  const entries = tar.extract();
+  const done = pipeline(fs.createReadStream(archivePath), zlib.createGunzip(), entries);
+  // Errors also end the iteration over the entries, `done` rethrows them
+  done.catch(() => {});
+  return { entries, done };
+}
+
+export const readEntry = (entry: ArchiveEntry) =>
+  new Promise<string>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    entry.on("data", (chunk) => {
+      chunks.push(chunk as Buffer);
+    });
+    entry.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    entry.on("error", reject);
+  });
+
+export const writeEntry = (entry: ArchiveEntry, target: string) =>
+  new Promise<void>((resolve, reject) => {
+    const output = fs.createWriteStream(target);
+    output.on("finish", resolve);
+    output.on("error", reject);
+    entry.on("error", reject);
+    entry.pipe(output);
+  });
+
+// JSON turns dates into strings, the timestamp columns need them back as dates
+export function reviveRow(table: PgTable, row: Row): Row {
+  for (const [key, column] of Object.entries(getTableColumns(table))) {
+    if (column.columnType === "PgTimestamp" && typeof row[key] === "string") {
+      row[key] = new Date(row[key]);
+    }
+  }
+  return row;
+}
+
+// Sub-galleries reference their parent, so parents are inserted first
+export function sortParentsFirst(galleries: Row[]): Row[] {
+  const ids = new Set(galleries.map((gallery) => gallery.id));
+  const inserted = new Set<string>();
+  const sorted: Row[] = [];
+  let pending = galleries;
+
+  while (pending.length > 0) {
+    const ready = pending.filter(
+      (gallery) =>
+        !gallery.parentId || !ids.has(gallery.parentId) || inserted.has(gallery.parentId),
+    );
+    if (ready.length === 0) {
+      throw new Error("Gallery hierarchy in archive contains a cycle");
+    }
+    for (const gallery of ready) {
+      inserted.add(gallery.id);
+      sorted.push(gallery);
+    }
+    pending = pending.filter((gallery) => !inserted.has(gallery.id));
+  }
+
+  return sorted;
+}
+
+// Inserted in chunks, a single statement is limited to 65535 parameters
+export async function insertRows(
+  tx: PgDatabase<any, any, any>,
+  table: PgTable,
+  rows: Row[],
+): Promise<void> {
+  for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+    await tx.insert(table).values(rows.slice(i, i + INSERT_CHUNK_SIZE));
+  }
+}
@@ -0,0 +1,149 @@
+import type { Request } from "express";
+import { storage } from "./storage";
+import type { AuditEvent } from "@shared/schema";
+
+// Audit log of administrative and security-relevant actions. Events are
+// written next to the action and never make the action itself fail.
+
+// Values of these fields are never stored, only that they changed
+const SECRET_FIELDS = new Set([
+  "password",
+  "smtpPassword",
+  "oidcClientSecret",
+  "tokenHash",
+  "refreshTokenHash",
+]);
+const MASKED = "***";
+
+interface AuditActor {
+  id: string;
+  name: string | null;
+}
+
+export interface AuditEventInput {
+  action: string; // "<category>.<verb>", see AUDIT_CATEGORIES
+  targetType?: string;
+  targetId?: string | null;
+  targetName?: string | null;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  details?: Record<string, unknown>;
+  // Defaults to the authenticated user, e.g. logins pass the user explicitly
+  actor?: AuditActor | null;
+}
+
+const isEqual = (a: unknown, b: unknown) =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// Fields of `after` that differ from `before`. Only fields present in
+// `after` are compared, so partial updates can be passed as they are.
+export function diffChanges(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined,
+): Record<string, { from: unknown; to: unknown }> | null {
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  const keys = after ? Object.keys(after) : Object.keys(before || {});
+
+  for (const key of keys) {
+    const from = before?.[key];
+    const to = after?.[key];
+    if (to === undefined && after) continue;
+    if (isEqual(from, to)) continue;
+
+    changes[key] = SECRET_FIELDS.has(key)
+      ? { from: from ? MASKED : null, to: to ? MASKED : null }
+      : { from: from ?? null, to: to ?? null };
+  }
+
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+async function getRequestActor(req: Request): Promise<AuditActor | null> {
+  const userId = (req as any).user?.userId;
+  if (!userId) return null;
+  const user = await storage.getUser(userId);
+  return { id: userId, name: user?.name ?? null };
+}
+
+export async function recordAuditEvent(
+  req: Request,
+  event: AuditEventInput,
+): Promise<void> {
+  try {
+    const actor =
+      event.actor === undefined ? await getRequestActor(req) : event.actor;
+    const apiTokenId = (req as any).user?.apiTokenId;
+    const details =
+      apiTokenId && !event.details?.apiTokenId
+        ? { ...event.details, apiTokenId }
+        : event.details;
+
+    await storage.createAuditEvent({
+      actorId: actor?.id ?? null,
+      actorName: actor?.name ?? null,
+      action: event.action,
+      targetType: event.targetType ?? null,
+      targetId: event.targetId ?? null,
+      targetName: event.targetName ?? null,
+      ipAddress: req.ip || null,
+      changes:
+        event.before || event.after
+          ? diffChanges(event.before, event.after)
+          : null,
+      details: details && Object.keys(details).length > 0 ? details : null,
+    });
+  } catch (error) {
+    console.error("Record audit event error:", error);
+  }
+}
+
+// Older events are removed according to the retention in the system settings
+export async function purgeAuditEvents(): Promise<number> {
+  const settings = await storage.getSystemSettings();
+  const retentionDays = settings?.auditRetentionDays ?? 365;
+  if (retentionDays <= 0) return 0; // 0 = keep forever
+
+  return storage.deleteAuditEventsBefore(
+    new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000),
+  );
+}
+
+const CSV_COLUMNS = [
+  "Zeitpunkt",
+  "Benutzer",
+  "Aktion",
+  "Objekttyp",
+  "Objekt-ID",
+  "Objekt",
+  "IP-Adresse",
+  "Änderungen",
+  "Details",
+] as const;
+
+function csvValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  // Leading formula characters are neutralized for spreadsheet programs
+  const safe = /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+  return /[";\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+// Semicolon separated with BOM, as expected by Excel with German locale
+export function toAuditCsv(events: AuditEvent[]): string {
+  const rows = events.map((event) =>
+    [
+      event.createdAt.toISOString(),
+      event.actorName,
+      event.action,
+      event.targetType,
+      event.targetId,
+      event.targetName,
+      event.ipAddress,
+      event.changes,
+      event.details,
+    ]
+      .map(csvValue)
+      .join(";"),
+  );
+  return "\uFEFF" + [CSV_COLUMNS.join(";"), ...rows].join("\r\n") + "\r\n";
+}
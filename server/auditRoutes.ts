@@ -0,0 +1,100 @@
+import type { Express, Request } from "express";
+import { storage, type AuditEventFilter } from "./storage";
+import { authenticateJWT, requireAdmin } from "./auth";
+import { purgeAuditEvents, toAuditCsv } from "./audit";
+import { AUDIT_CATEGORIES } from "@shared/schema";
+
+// Admin-only audit viewer with filters and CSV export
+
+const PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+const MAX_EXPORT_ROWS = 50000;
+
+async function cleanupAuditEvents() {
+  try {
+    const removed = await purgeAuditEvents();
+    if (removed > 0) {
+      console.log(`Removed ${removed} audit event(s) past retention`);
+    }
+  } catch (error) {
+    console.error("Cleanup audit events error:", error);
+  }
+}
+
+const parseDate = (value: unknown) => {
+  if (typeof value !== "string" || !value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+function parseFilter(req: Request): AuditEventFilter {
+  const { category, actorId, search, from, to } = req.query;
+  return {
+    category:
+      typeof category === "string" &&
+      (AUDIT_CATEGORIES as readonly string[]).includes(category)
+        ? category
+        : undefined,
+    actorId: typeof actorId === "string" && actorId ? actorId : undefined,
+    search:
+      typeof search === "string" && search.trim() ? search.trim() : undefined,
+    from: parseDate(from),
+    to: parseDate(to),
+  };
+}
+
+export async function registerAuditRoutes(app: Express): Promise<void> {
+  // Apply the retention every hour
+  cleanupAuditEvents();
+  setInterval(cleanupAuditEvents, 60 * 60 * 1000);
+
+  app.get(
+    "/api/audit-events",
+    authenticateJWT,
+    requireAdmin,
+    async (req: any, res) => {
+      try {
+        const limit = Math.min(
+          Math.max(parseInt(req.query.limit as string) || PAGE_SIZE, 1),
+          MAX_PAGE_SIZE,
+        );
+        const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
+        const result = await storage.getAuditEvents(
+          parseFilter(req),
+          limit,
+          offset,
+        );
+        res.json(result);
+      } catch (error) {
+        console.error("Get audit events error:", error);
+        res.status(500).json({ error: "Fehler beim Laden des Protokolls" });
+      }
+    },
+  );
+
+  app.get(
+    "/api/audit-events/export",
+    authenticateJWT,
+    requireAdmin,
+    async (req: any, res) => {
+      try {
+        const { events } = await storage.getAuditEvents(
+          parseFilter(req),
+          MAX_EXPORT_ROWS,
+        );
+        const date = new Date().toISOString().slice(0, 10);
+
+        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="protokoll-${date}.csv"`,
+        );
+        res.send(toAuditCsv(events));
+      } catch (error) {
+        console.error("Export audit events error:", error);
+        res.status(500).json({ error: "Fehler beim Exportieren des Protokolls" });
+      }
+    },
+  );
+}
@@ -2,6 +2,8 @@ import dotenv from 'dotenv';
 dotenv.config();
 import jwt from 'jsonwebtoken';
 import { type Request, type Response, type NextFunction } from 'express';
+import { createSession, getActiveSession } from './sessions';
+import { authenticateApiToken, getRequiredScope, isApiToken } from './apiTokens';
 
 // Ensure JWT secret is set in production
 if (process.env.NODE_ENV === 'production' && !process.env.JWT_SECRET) {
@@ -9,12 +11,20 @@ if (process.env.NODE_ENV === 'production' && !process.env.JWT_SECRET) {
 }
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
-const JWT_EXPIRES_IN = '7d'; // Token gültig für 7 Tage
+const JWT_EXPIRES_IN = '15m'; // Kurzlebig, verlängert wird über den Refresh-Token der Sitzung
+const JWT_COOKIE_MAX_AGE = 15 * 60 * 1000;
+const LOGIN_CHALLENGE_EXPIRES_IN = '5m'; // Zeit für den zweiten Anmeldeschritt
+
+// Secret für signierte Cookies (cookie-parser)
+export const COOKIE_SECRET = process.env.COOKIE_SECRET || JWT_SECRET;
 
 export interface JWTPayload {
   userId: string;
   email: string;
   role: string;
+  sessionId?: string; // Fehlt bei Login-Challenges und API-Tokens
+  apiTokenId?: string; // Nur bei Anfragen mit persönlichem API-Token
+  scopes?: string[];
 }
 
 // JWT Token generieren
@@ -25,17 +35,83 @@ export function generateToken(payload: JWTPayload): string {
 // JWT Token verifizieren
 export function verifyToken(token: string): JWTPayload | null {
   try {
-    return jwt.verify(token, JWT_SECRET) as JWTPayload;
+    const payload = jwt.verify(token, JWT_SECRET) as JWTPayload & { purpose?: string };
+    // Login-Challenges sind keine Sitzung
+    return payload.purpose ? null : payload;
   } catch (error) {
     return null;
   }
 }
 
-// Middleware: JWT aus Cookie oder Authorization Header extrahieren und verifizieren
-export function authenticateJWT(req: any, res: Response, next: NextFunction) {
+// Kurzlebiges Token nach korrektem Passwort, berechtigt nur zur Eingabe bzw.
+// Einrichtung des zweiten Faktors
+export function generateLoginChallenge(payload: JWTPayload): string {
+  return jwt.sign(
+    { userId: payload.userId, email: payload.email, role: payload.role, purpose: 'login_challenge' },
+    JWT_SECRET,
+    { expiresIn: LOGIN_CHALLENGE_EXPIRES_IN },
+  );
+}
+
+export function verifyLoginChallenge(token: string): JWTPayload | null {
+  try {
+    const payload = jwt.verify(token, JWT_SECRET) as JWTPayload & { purpose?: string };
+    if (payload.purpose !== 'login_challenge') return null;
+    return { userId: payload.userId, email: payload.email, role: payload.role };
+  } catch (error) {
+    return null;
+  }
+}
+
+// Access-Token für eine Sitzung ausstellen und als HTTP-only Cookie setzen
+export function issueAccessToken(
+  res: Response,
+  user: { id: string; email: string; role: string },
+  sessionId: string,
+): string {
+  const token = generateToken({
+    userId: user.id,
+    email: user.email,
+    role: user.role,
+    sessionId,
+  });
+
+  // Set HTTP-only cookie
+  res.cookie('authToken', token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    maxAge: JWT_COOKIE_MAX_AGE,
+  });
+
+  return token;
+}
+
+// Anmeldung abschließen: Sitzung anlegen, Tokens als HTTP-only Cookies setzen
+// und User ohne Passwort zurückgeben
+export async function sendLoginResponse(
+  req: Request,
+  res: Response,
+  user: { id: string; email: string; role: string; password: string },
+  extra: Record<string, unknown> = {},
+) {
+  const session = await createSession(req, res, user.id);
+  const token = issueAccessToken(res, user, session.id);
+
+  // Don't send password back to client
+  const { password: _, ...userWithoutPassword } = user;
+  res.json({
+    ...extra,
+    user: userWithoutPassword,
+    token, // Optional: auch als JSON zurückgeben für localStorage-Fallback
+  });
+}
+
+// Token aus Cookie oder Authorization Header
+export function getRequestToken(req: any): string | undefined {
   // Token aus Cookie holen
   let token = req.cookies?.authToken;
-  
+
   // Fallback: Token aus Authorization Header
   if (!token) {
     const authHeader = req.headers.authorization;
@@ -44,21 +120,77 @@ export function authenticateJWT(req: any, res: Response, next: NextFunction) {
     }
   }
 
+  return token;
+}
+
+// Middleware: JWT verifizieren und prüfen, ob die Sitzung noch gültig ist
+export async function authenticateJWT(req: any, res: Response, next: NextFunction) {
+  const token = getRequestToken(req);
+
   if (!token) {
     return res.status(401).json({ error: 'Nicht authentifiziert - kein Token' });
   }
 
+  // Persönliche API-Tokens: nur für die Galerie-API und im Rahmen ihrer Scopes
+  if (isApiToken(token)) {
+    try {
+      const apiPayload = await authenticateApiToken(req, token);
+      if (!apiPayload) {
+        return res.status(401).json({ error: 'Ungültiges oder abgelaufenes API-Token' });
+      }
+
+      const scope = getRequiredScope(req);
+      if (!scope || !apiPayload.scopes?.includes(scope)) {
+        return res.status(403).json({ error: 'Keine Berechtigung - der Scope des API-Tokens reicht nicht aus' });
+      }
+
+      req.user = apiPayload;
+      return next();
+    } catch (error) {
+      console.error('API token check error:', error);
+      return res.status(500).json({ error: 'Fehler bei der Authentifizierung' });
+    }
+  }
+
   const payload = verifyToken(token);
   
-  if (!payload) {
+  if (!payload || !payload.sessionId) {
     return res.status(401).json({ error: 'Ungültiges oder abgelaufenes Token' });
   }
 
+  try {
+    // Widerrufene Sitzungen (Abmeldung, Passwortänderung) sofort ablehnen
+    const session = await getActiveSession(payload.sessionId);
+    if (!session || session.userId !== payload.userId) {
+      return res.status(401).json({ error: 'Sitzung abgelaufen oder beendet' });
+    }
+  } catch (error) {
+    console.error('Session check error:', error);
+    return res.status(500).json({ error: 'Fehler bei der Authentifizierung' });
+  }
+
   // User-Daten an Request anhängen
   req.user = payload;
   next();
 }
 
+// Middleware: Login-Challenge (zweiter Anmeldeschritt) oder reguläres JWT
+export function authenticateChallengeOrJWT(req: any, res: Response, next: NextFunction) {
+  const challengeToken = req.body?.challengeToken;
+  if (!challengeToken) {
+    return authenticateJWT(req, res, next);
+  }
+
+  const payload = verifyLoginChallenge(challengeToken);
+  if (!payload) {
+    return res.status(401).json({ error: 'Anmeldung abgelaufen - bitte erneut anmelden' });
+  }
+
+  req.user = payload;
+  req.loginChallenge = true;
+  next();
+}
+
 // Middleware: Nur Admin-Zugriff
 export function requireAdmin(req: any, res: Response, next: NextFunction) {
   if (!req.user) {
@@ -85,40 +217,28 @@ export function requireAdminOrCreator(req: any, res: Response, next: NextFunctio
   next();
 }
 
-// Middleware: Ownership prüfen (z.B. für Galerien)
-export async function requireGalleryOwnership(storage: any) {
-  return async (req: any, res: Response, next: NextFunction) => {
-    if (!req.user) {
-      return res.status(401).json({ error: 'Nicht authentifiziert' });
-    }
+// Middleware: Kunden haben nur Zugriff auf ihr Portal und die öffentlichen Galerie-Funktionen
+export function requireStaff(req: any, res: Response, next: NextFunction) {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Nicht authentifiziert' });
+  }
 
-    const galleryId = req.params.galleryId || req.params.id;
-    if (!galleryId) {
-      return res.status(400).json({ error: 'Galerie-ID fehlt' });
-    }
+  if (req.user.role === 'Client') {
+    return res.status(403).json({ error: 'Keine Berechtigung' });
+  }
 
-    const gallery = await storage.getGallery(galleryId);
-    
-    if (!gallery) {
-      return res.status(404).json({ error: 'Galerie nicht gefunden' });
-    }
+  next();
+}
 
-    // Admin hat immer Zugriff
-    if (req.user.role === 'Admin') {
-      return next();
-    }
+// Middleware: Nur Kunden (Kundenportal)
+export function requireClient(req: any, res: Response, next: NextFunction) {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Nicht authentifiziert' });
+  }
 
-    // Prüfe ob User der Besitzer ist
-    if (gallery.userId !== req.user.userId) {
-      // Prüfe ob Galerie dem User zugewiesen ist
-      const assignments = await storage.getGalleryAssignments(galleryId);
-      const isAssigned = assignments.some((a: any) => a.userId === req.user.userId);
-      
-      if (!isAssigned) {
-        return res.status(403).json({ error: 'Keine Berechtigung für diese Galerie' });
-      }
-    }
+  if (req.user.role !== 'Client') {
+    return res.status(403).json({ error: 'Keine Berechtigung - nur für Kundenkonten' });
+  }
 
-    next();
-  };
+  next();
 }
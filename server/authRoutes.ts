@@ -29,12 +29,30 @@ import {
 } from "../shared/schema";
 import { eq, desc, and } from "drizzle-orm";
 import bcrypt from "bcrypt";
-import { authenticateJWT, requireAdmin, requireAdminOrCreator } from "./auth";
+import {
+  authenticateJWT,
+  generateLoginChallenge,
+  getRequestToken,
+  requireAdmin,
+  requireAdminOrCreator,
+  sendLoginResponse,
+  verifyToken,
+} from "./auth";
+import { clearRefreshCookie, getRefreshSession } from "./sessions";
+import { isTwoFactorEnabled, isTwoFactorRequired } from "./twoFactor";
+import { isPasswordLoginDisabled } from "./oidc";
+import { recordAuditEvent } from "./audit";
 import { db } from "./storage";
 import { sendPasswordResetEmail } from "./mailer";
 import crypto from "crypto";
 import { checkInitialSetup, createInitialAdmin, configureSmtp } from "./setup";
 import { upload, ensureUploadDirs } from "./upload";
+import {
+  beginAttempt,
+  getClientKey,
+  recordSuccessfulAttempt,
+  sendRateLimited,
+} from "./rateLimits";
 
 export async function registerAuthRoutes(app: Express): Promise<void> {
   app.post("/api/auth/login", async (req, res) => {
@@ -47,6 +65,14 @@ export async function registerAuthRoutes(app: Express): Promise<void> {
             .json({ error: "Name/E-Mail und Passwort sind erforderlich" });
         }
 
+        // Unknown names are counted as well, so probing for accounts gets slow too
+        const accountKey = `account:${String(name).toLowerCase()}`;
+        const rateLimitKeys = [getClientKey(req), accountKey];
+        const retryAfter = await beginAttempt("login", rateLimitKeys);
+        if (retryAfter > 0) {
+          return sendRateLimited(res, retryAfter);
+        }
+
         // Try to find user by name or email
         let user = await storage.getUserByName(name);
 
@@ -56,47 +82,99 @@ export async function registerAuthRoutes(app: Express): Promise<void> {
         }
 
         if (!user) {
+          await recordAuditEvent(req, {
+            action: "auth.login_failed",
+            targetType: "user",
+            targetName: String(name),
+            details: { reason: "unknown_user" },
+            actor: null,
+          });
           return res.status(401).json({ error: "Ungültige Anmeldedaten" });
         }
 
         // Use bcrypt to compare password
         const isValidPassword = await bcrypt.compare(password, user.password);
         if (!isValidPassword) {
+          await recordAuditEvent(req, {
+            action: "auth.login_failed",
+            targetType: "user",
+            targetId: user.id,
+            targetName: user.name,
+            details: { reason: "wrong_password" },
+            actor: null,
+          });
           return res.status(401).json({ error: "Ungültige Anmeldedaten" });
         }
 
-        // Generate JWT token
-        const { generateToken } = await import("./auth");
-        const token = generateToken({
-          userId: user.id,
-          email: user.email,
-          role: user.role,
-        });
+        await recordSuccessfulAttempt("login", rateLimitKeys, [accountKey]);
 
-        // Set HTTP-only cookie
-        res.cookie("authToken", token, {
-          httpOnly: true,
-          secure: process.env.NODE_ENV === "production",
-          sameSite: "strict",
-          maxAge: 7 * 24 * 60 * 60 * 1000, // 7 Tage
-        });
+        if (await isPasswordLoginDisabled(user)) {
+          return res.status(403).json({
+            error:
+              "Die Anmeldung mit Passwort ist deaktiviert - bitte über Single Sign-On anmelden",
+          });
+        }
 
-        // Don't send password back to client
-        const { password: _, ...userWithoutPassword } = user;
-        res.json({
-          user: userWithoutPassword,
-          token, // Optional: auch als JSON zurückgeben für localStorage-Fallback
+        // With 2FA the session is only issued after the second step. If the
+        // policy requires 2FA, accounts without it have to set it up first.
+        const twoFactorEnabled = await isTwoFactorEnabled(user.id);
+        if (twoFactorEnabled || (await isTwoFactorRequired(user))) {
+          return res.json({
+            [twoFactorEnabled ? "twoFactorRequired" : "twoFactorSetupRequired"]:
+              true,
+            challengeToken: generateLoginChallenge({
+              userId: user.id,
+              email: user.email,
+              role: user.role,
+            }),
+          });
+        }
+
+        await recordAuditEvent(req, {
+          action: "auth.login",
+          targetType: "user",
+          targetId: user.id,
+          targetName: user.name,
+          details: { method: "password" },
+          actor: { id: user.id, name: user.name },
         });
+        await sendLoginResponse(req, res, user);
       } catch (error) {
         console.error("Login error:", error);
         res.status(500).json({ error: "Anmeldefehler" });
       }
     })
-  app.post("/api/auth/logout", (req, res) => {
+  app.post("/api/auth/logout", async (req, res) => {
+      try {
+        // Beendet die Sitzung des Refresh-Cookies bzw. des Access-Tokens
+        const token = getRequestToken(req);
+        const refreshSession = await getRefreshSession(req);
+        const payload = token ? verifyToken(token) : null;
+        const sessionId = refreshSession?.id || payload?.sessionId;
+        if (sessionId) {
+          await storage.revokeSession(sessionId);
+        }
+
+        const userId = refreshSession?.userId || payload?.userId;
+        const user = userId ? await storage.getUser(userId) : undefined;
+        if (user) {
+          await recordAuditEvent(req, {
+            action: "auth.logout",
+            targetType: "user",
+            targetId: user.id,
+            targetName: user.name,
+            actor: { id: user.id, name: user.name },
+          });
+        }
+      } catch (error) {
+        console.error("Logout error:", error);
+      }
+
       res.clearCookie("authToken");
+      clearRefreshCookie(res);
       res.json({ success: true });
     })
-  app.post("/api/auth/change-password", async (req, res) => {
+  app.post("/api/auth/change-password", authenticateJWT, async (req: any, res) => {
       try {
         const { userId, currentPassword, newPassword } = req.body;
 
@@ -104,6 +182,10 @@ export async function registerAuthRoutes(app: Express): Promise<void> {
           return res.status(400).json({ error: "Alle Felder sind erforderlich" });
         }
 
+        if (userId !== req.user.userId) {
+          return res.status(403).json({ error: "Keine Berechtigung" });
+        }
+
         const user = await storage.getUser(userId);
         if (!user) {
           return res.status(404).json({ error: "Benutzer nicht gefunden" });
@@ -115,6 +197,12 @@ export async function registerAuthRoutes(app: Express): Promise<void> {
           user.password,
         );
         if (!isValidPassword) {
+          await recordAuditEvent(req, {
+            action: "auth.password_change_failed",
+            targetType: "user",
+            targetId: user.id,
+            targetName: user.name,
+          });
           return res.status(401).json({ error: "Aktuelles Passwort ist falsch" });
         }
 
@@ -125,6 +213,16 @@ export async function registerAuthRoutes(app: Express): Promise<void> {
         // Update password
         await storage.updateUserPassword(userId, hashedPassword);
 
+        // Andere Geräte abmelden, die aktuelle Sitzung bleibt bestehen
+        await storage.revokeUserSessions(userId, req.user.sessionId);
+
+        await recordAuditEvent(req, {
+          action: "auth.password_change",
+          targetType: "user",
+          targetId: user.id,
+          targetName: user.name,
+        });
+
         res.json({ success: true });
       } catch (error) {
         console.error("Change password error:", error);
@@ -144,7 +242,16 @@ export async function registerAuthRoutes(app: Express): Promise<void> {
         return res.status(400).json({ error: "Name wird bereits verwendet" });
       }
 
+      const user = await storage.getUser(userId);
       await storage.updateUserName(userId, newName);
+      await recordAuditEvent(req, {
+        action: "user.rename",
+        targetType: "user",
+        targetId: userId,
+        targetName: newName,
+        before: { name: user?.name },
+        after: { name: newName },
+      });
       res.json({ message: "Name erfolgreich geändert" });
     })
   app.post("/api/auth/forgot-password", async (req, res) => {
@@ -155,12 +262,23 @@ export async function registerAuthRoutes(app: Express): Promise<void> {
           return res.status(400).json({ error: "E-Mail ist erforderlich" });
         }
 
+        // Every request counts, each one may send an email
+        const rateLimitKeys = [
+          getClientKey(req),
+          `account:${String(email).toLowerCase()}`,
+        ];
+        const retryAfter = await beginAttempt("forgot_password", rateLimitKeys);
+        if (retryAfter > 0) {
+          return sendRateLimited(res, retryAfter);
+        }
+
         // Find user by email (case-insensitive)
         const user = await storage.getUserByEmail(email.toLowerCase());
 
         // Aus Sicherheitsgründen immer erfolgreiche Antwort zurückgeben,
-        // auch wenn die E-Mail nicht existiert (verhindert E-Mail-Enumeration)
-        if (!user) {
+        // auch wenn die E-Mail nicht existiert (verhindert E-Mail-Enumeration).
+        // Ohne Passwort-Login gibt es für Mitarbeiter nichts zurückzusetzen.
+        if (!user || (await isPasswordLoginDisabled(user))) {
           return res.json({
             message:
               "Falls diese E-Mail registriert ist, wurde ein Reset-Link gesendet",
@@ -188,6 +306,15 @@ export async function registerAuthRoutes(app: Express): Promise<void> {
           // Trotzdem erfolgreiche Antwort (aus Sicherheitsgründen)
         }
 
+        await recordAuditEvent(req, {
+          action: "auth.password_reset_request",
+          targetType: "user",
+          targetId: user.id,
+          targetName: user.name,
+          details: { emailSent },
+          actor: null,
+        });
+
         res.json({
           message:
             "Falls diese E-Mail registriert ist, wurde ein Reset-Link gesendet",
@@ -237,6 +364,18 @@ export async function registerAuthRoutes(app: Express): Promise<void> {
         // Lösche den verwendeten Token
         await storage.deletePasswordResetToken(token);
 
+        // Alle bestehenden Sitzungen beenden
+        await storage.revokeUserSessions(resetToken.userId);
+
+        const user = await storage.getUser(resetToken.userId);
+        await recordAuditEvent(req, {
+          action: "auth.password_reset",
+          targetType: "user",
+          targetId: resetToken.userId,
+          targetName: user?.name,
+          actor: user ? { id: user.id, name: user.name } : null,
+        });
+
         res.json({ message: "Passwort erfolgreich geändert" });
       } catch (error) {
         console.error("Reset password error:", error);
@@ -265,6 +404,14 @@ export async function registerAuthRoutes(app: Express): Promise<void> {
         }
 
         const user = await storage.createUser(userData);
+        await recordAuditEvent(req, {
+          action: "user.register",
+          targetType: "user",
+          targetId: user.id,
+          targetName: user.name,
+          details: { role: user.role },
+          actor: null,
+        });
         const { password: _, ...userWithoutPassword } = user;
         res.status(201).json({ user: userWithoutPassword });
       } catch (error) {
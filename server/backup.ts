@@ -0,0 +1,405 @@
+import fs from "fs";
+import path from "path";
+import { pipeline } from "stream/promises";
+import archiver from "archiver";
+import { getTableName, sql } from "drizzle-orm";
+import type { PgTable } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+import { db, storage } from "./storage";
+import { FINAL_THUMBNAIL_JOB, THUMBNAIL_JOB } from "./thumbnailJobs";
+import { getFinalsDir } from "./finals";
+import {
+  insertRows,
+  openTarGz,
+  readEntry,
+  reviveRow,
+  sortParentsFirst,
+  writeEntry,
+  type Row,
+} from "./archive";
+
+// Backups are a single .tar.gz with a manifest, every table as JSON and the
+// uploaded files. Photo paths are rewritten to the paths inside the archive,
+// so a restore works regardless of where the files were stored before.
+
+export const BACKUP_DIR = process.env.BACKUP_DIR || "backups";
+
+const BACKUP_FORMAT = "fotostube-backup";
+const BACKUP_VERSION = 1;
+const BACKUP_NAME_PATTERN =
+  /^fotostube-backup-\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}\.tar\.gz$/;
+const MANIFEST_ENTRY = "manifest.json";
+const DATABASE_DIR = "database/";
+const FILES_DIR = "uploads/galleries/";
+
+// Insert order, referenced tables first. Sessions, reset tokens, unfinished
+// uploads, rate limits and jobs are transient and not part of a backup.
+const BACKUP_TABLES: PgTable[] = [
+  schema.users,
+  schema.userTwoFactor,
+  schema.apiTokens,
+  schema.userInvitations,
+  schema.auditEvents,
+  schema.galleries,
+  schema.photos,
+  schema.photoMetadata,
+  schema.photoLikes,
+  schema.comments,
+  schema.notifications,
+  schema.galleryAssignments,
+  schema.brandingSettings,
+  schema.systemSettings,
+  schema.galleryVisitors,
+  schema.visitorPicks,
+  schema.finalPhotos,
+  schema.proofingRounds,
+  schema.proofingSubmissions,
+  schema.shareLinks,
+];
+
+// Single-row tables, an existing row is replaced on restore
+const SETTINGS_TABLES: PgTable[] = [schema.brandingSettings, schema.systemSettings];
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  includesDerivatives: boolean;
+  tables: Record<string, number>; // Row count per table
+  files: number;
+  missingFiles: string[]; // Referenced by a photo but not found on disk
+}
+
+export interface BackupInfo {
+  name: string;
+  size: number;
+  createdAt: Date;
+}
+
+export interface RestoreResult {
+  manifest: BackupManifest;
+  tables: Record<string, number>;
+  files: number;
+  thumbnailJobs: number;
+}
+
+interface ArchiveFile {
+  source: string; // Path on disk
+  name: string; // Path inside the archive
+}
+
+const isMissing = async (filePath: string) =>
+  !(await fs.promises.stat(filePath).then((stat) => stat.isFile(), () => false));
+
+export function getBackupPath(name: string): string | null {
+  return BACKUP_NAME_PATTERN.test(name) ? path.join(BACKUP_DIR, name) : null;
+}
+
+export async function listBackups(): Promise<BackupInfo[]> {
+  const names = await fs.promises.readdir(BACKUP_DIR).catch(() => [] as string[]);
+  const backups: BackupInfo[] = [];
+
+  for (const name of names.filter((name) => BACKUP_NAME_PATTERN.test(name))) {
+    const stat = await fs.promises.stat(path.join(BACKUP_DIR, name));
+    backups.push({ name, size: stat.size, createdAt: stat.mtime });
+  }
+
+  return backups.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+export async function deleteBackup(name: string): Promise<boolean> {
+  const backupPath = getBackupPath(name);
+  if (!backupPath) return false;
+  return fs.promises.unlink(backupPath).then(() => true, () => false);
+}
+
+// Reads all tables from one snapshot, so the rows are consistent with each other
+async function exportTables(): Promise<Map<PgTable, Row[]>> {
+  return db.transaction(
+    async (tx) => {
+      const rows = new Map<PgTable, Row[]>();
+      for (const table of BACKUP_TABLES) {
+        rows.set(table, await tx.select().from(table));
+      }
+      return rows;
+    },
+    { isolationLevel: "repeatable read", accessMode: "read only" },
+  );
+}
+
+export async function createBackup(includeDerivatives: boolean): Promise<BackupInfo> {
+  const tables = await exportTables();
+  const files: ArchiveFile[] = [];
+  const missingFiles: string[] = [];
+
+  const addFile = async (source: string, name: string) => {
+    if (await isMissing(source)) {
+      missingFiles.push(source);
+      return null;
+    }
+    files.push({ source, name });
+    return name;
+  };
+
+  for (const photo of tables.get(schema.photos)!) {
+    const original =
+      photo.filePath || `uploads/galleries/${photo.galleryId}/${photo.filename}`;
+    photo.filePath = await addFile(
+      original,
+      `${FILES_DIR}${photo.galleryId}/${path.basename(original)}`,
+    );
+
+    for (const key of ["thumbnailPath", "mediumPath"]) {
+      photo[key] =
+        includeDerivatives && photo[key]
+          ? await addFile(
+              photo[key],
+              `${FILES_DIR}thumbnails/${photo.galleryId}/${path.basename(photo[key])}`,
+            )
+          : null;
+    }
+  }
+
+  for (const finalPhoto of tables.get(schema.finalPhotos)!) {
+    const finalsDir = getFinalsDir(finalPhoto.galleryId);
+    finalPhoto.filePath = finalPhoto.filePath
+      ? await addFile(
+          finalPhoto.filePath,
+          `${FILES_DIR}${finalsDir}/${path.basename(finalPhoto.filePath)}`,
+        )
+      : null;
+
+    for (const key of ["thumbnailPath", "mediumPath"]) {
+      finalPhoto[key] =
+        includeDerivatives && finalPhoto[key]
+          ? await addFile(
+              finalPhoto[key],
+              `${FILES_DIR}thumbnails/${finalsDir}/${path.basename(finalPhoto[key])}`,
+            )
+          : null;
+    }
+  }
+
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    includesDerivatives: includeDerivatives,
+    tables: Object.fromEntries(
+      BACKUP_TABLES.map((table) => [getTableName(table), tables.get(table)!.length]),
+    ),
+    files: files.length,
+    missingFiles,
+  };
+
+  await fs.promises.mkdir(BACKUP_DIR, { recursive: true });
+  const name = `fotostube-backup-${manifest.createdAt.slice(0, 19).replace(/:/g, "-")}.tar.gz`;
+  const backupPath = path.join(BACKUP_DIR, name);
+  // Written under a temporary name, unfinished archives never show up in the list
+  const tempPath = `${backupPath}.partial`;
+
+  try {
+    const archive = archiver("tar", { gzip: true });
+    const output = fs.createWriteStream(tempPath);
+    const written = pipeline(archive, output);
+
+    archive.append(JSON.stringify(manifest, null, 2), { name: MANIFEST_ENTRY });
+    for (const table of BACKUP_TABLES) {
+      archive.append(JSON.stringify(tables.get(table)), {
+        name: `${DATABASE_DIR}${getTableName(table)}.json`,
+      });
+    }
+    for (const file of files) {
+      archive.file(file.source, { name: file.name });
+    }
+
+    await Promise.all([written, archive.finalize()]);
+    await fs.promises.rename(tempPath, backupPath);
+  } catch (error) {
+    await fs.promises.unlink(tempPath).catch(() => {});
+    throw error;
+  }
+
+  const stat = await fs.promises.stat(backupPath);
+  return { name, size: stat.size, createdAt: stat.mtime };
+}
+
+// Keeps the newest backups according to the system settings
+export async function pruneBackups(): Promise<number> {
+  const settings = await storage.getSystemSettings();
+  const keepCount = settings?.backupKeepCount ?? 7;
+  if (keepCount <= 0) return 0; // 0 = keep all
+
+  const outdated = (await listBackups()).slice(keepCount);
+  for (const backup of outdated) {
+    await deleteBackup(backup.name);
+  }
+  return outdated.length;
+}
+
+let runningBackup: Promise<void> | null = null;
+let lastBackupError: string | null = null;
+
+export function getBackupStatus() {
+  return { running: runningBackup !== null, lastError: lastBackupError };
+}
+
+// Runs in the background, returns false if a backup is already running
+export function startBackup(includeDerivatives: boolean): boolean {
+  if (runningBackup) return false;
+
+  runningBackup = createBackup(includeDerivatives)
+    .then(async (backup) => {
+      lastBackupError = null;
+      console.log(`Backup ${backup.name} created (${backup.size} bytes)`);
+      await pruneBackups();
+    })
+    .catch((error) => {
+      lastBackupError = error instanceof Error ? error.message : String(error);
+      console.error("Create backup error:", error);
+    })
+    .finally(() => {
+      runningBackup = null;
+    });
+
+  return true;
+}
+
+// Starts a backup when the configured interval has passed since the last one
+export async function runScheduledBackup(checkInterval: number): Promise<boolean> {
+  const settings = await storage.getSystemSettings();
+  const intervalHours = settings?.backupIntervalHours ?? 0;
+  if (intervalHours <= 0) return false; // 0 = no scheduled backups
+
+  const [latest] = await listBackups();
+  // Half a check interval of slack, otherwise the schedule drifts by one check
+  const dueAfter = intervalHours * 60 * 60 * 1000 - checkInterval / 2;
+  if (latest && Date.now() - latest.createdAt.getTime() < dueAfter) return false;
+
+  return startBackup(settings?.backupIncludeDerivatives ?? false);
+}
+
+// ------------------ RESTORE ------------------
+
+// Archive paths are only ever extracted below uploads/galleries
+function getRestorePath(name: string): string | null {
+  const normalized = path.posix.normalize(name);
+  if (!normalized.startsWith(FILES_DIR) || normalized.split("/").includes("..")) {
+    return null;
+  }
+  return normalized;
+}
+
+async function isInstanceEmpty(): Promise<boolean> {
+  for (const table of [schema.users, schema.galleries]) {
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(table);
+    if (count > 0) return false;
+  }
+  return true;
+}
+
+// Rebuilds an empty instance (schema created with `npm run db:migrate`) from a
+// backup. Files are extracted relative to the working directory.
+export async function restoreBackup(archivePath: string): Promise<RestoreResult> {
+  if (!(await isInstanceEmpty())) {
+    throw new Error(
+      "Restore requires an empty instance, but users or galleries already exist",
+    );
+  }
+
+  let manifest: BackupManifest | null = null;
+  const tableRows = new Map<string, Row[]>();
+  let files = 0;
+
+  const { entries, done } = openTarGz(archivePath);
+
+  for await (const entry of entries) {
+    const name = entry.header.name;
+
+    if (name === MANIFEST_ENTRY) {
+      manifest = JSON.parse(await readEntry(entry));
+      if (manifest?.format !== BACKUP_FORMAT || manifest.version > BACKUP_VERSION) {
+        throw new Error("Unsupported backup format or version");
+      }
+    } else if (!manifest) {
+      // The manifest comes first, nothing is written before it was checked
+      throw new Error("Backup manifest missing");
+    } else if (name.startsWith(DATABASE_DIR) && name.endsWith(".json")) {
+      tableRows.set(
+        name.slice(DATABASE_DIR.length, -".json".length),
+        JSON.parse(await readEntry(entry)),
+      );
+    } else if (entry.header.type === "file" && getRestorePath(name)) {
+      const target = getRestorePath(name)!;
+      await fs.promises.mkdir(path.dirname(target), { recursive: true });
+      await writeEntry(entry, target);
+      files++;
+    } else {
+      entry.resume();
+    }
+  }
+  await done;
+
+  if (!manifest) {
+    throw new Error("Backup manifest missing");
+  }
+
+  const restoredTables: Record<string, number> = {};
+  const pendingThumbnails: string[] = [];
+  const pendingFinalThumbnails: string[] = [];
+
+  await db.transaction(async (tx) => {
+    for (const table of BACKUP_TABLES) {
+      const tableName = getTableName(table);
+      let rows = (tableRows.get(tableName) || []).map((row) => reviveRow(table, row));
+
+      if (table === schema.galleries) {
+        rows = sortParentsFirst(rows);
+      }
+      if (table === schema.photos) {
+        // Derivatives that aren't in the backup are generated again
+        for (const photo of rows) {
+          if (photo.filePath && (!photo.thumbnailPath || !photo.mediumPath)) {
+            photo.processingStatus = "processing";
+            pendingThumbnails.push(photo.id);
+          }
+        }
+      }
+      if (table === schema.finalPhotos) {
+        for (const finalPhoto of rows) {
+          if (finalPhoto.filePath && (!finalPhoto.thumbnailPath || !finalPhoto.mediumPath)) {
+            finalPhoto.processingStatus = "processing";
+            pendingFinalThumbnails.push(finalPhoto.id);
+          }
+        }
+      }
+      if (SETTINGS_TABLES.includes(table) && rows.length > 0) {
+        await tx.delete(table);
+      }
+
+      await insertRows(tx, table, rows);
+      restoredTables[tableName] = rows.length;
+    }
+  });
+
+  // Picked up by the job queue once the server runs
+  for (const photoId of pendingThumbnails) {
+    await storage.createJob({ type: THUMBNAIL_JOB, payload: { photoId }, maxAttempts: 3 });
+  }
+  for (const finalId of pendingFinalThumbnails) {
+    await storage.createJob({
+      type: FINAL_THUMBNAIL_JOB,
+      payload: { finalId },
+      maxAttempts: 3,
+    });
+  }
+
+  return {
+    manifest,
+    tables: restoredTables,
+    files,
+    thumbnailJobs: pendingThumbnails.length + pendingFinalThumbnails.length,
+  };
+}
@@ -0,0 +1,115 @@
+import type { Express } from "express";
+import { storage } from "./storage";
+import { authenticateJWT, requireAdmin } from "./auth";
+import {
+  deleteBackup,
+  getBackupPath,
+  getBackupStatus,
+  listBackups,
+  runScheduledBackup,
+  startBackup,
+} from "./backup";
+import { recordAuditEvent } from "./audit";
+
+// Admins create, download and delete backups, scheduled backups follow the
+// interval from the system settings. Restoring is done on the command line.
+
+const SCHEDULE_CHECK_INTERVAL = 60 * 60 * 1000;
+
+async function scheduledBackup() {
+  try {
+    if (await runScheduledBackup(SCHEDULE_CHECK_INTERVAL)) {
+      console.log("Scheduled backup started");
+    }
+  } catch (error) {
+    console.error("Scheduled backup error:", error);
+  }
+}
+
+export async function registerBackupRoutes(app: Express): Promise<void> {
+  // Check every hour whether a scheduled backup is due
+  scheduledBackup();
+  setInterval(scheduledBackup, SCHEDULE_CHECK_INTERVAL);
+
+  app.get("/api/backups", authenticateJWT, requireAdmin, async (req: any, res) => {
+    try {
+      res.json({ backups: await listBackups(), ...getBackupStatus() });
+    } catch (error) {
+      console.error("Get backups error:", error);
+      res.status(500).json({ error: "Fehler beim Laden der Backups" });
+    }
+  });
+
+  app.post("/api/backups", authenticateJWT, requireAdmin, async (req: any, res) => {
+    try {
+      const settings = await storage.getSystemSettings();
+      const includeDerivatives =
+        req.body.includeDerivatives === undefined
+          ? (settings?.backupIncludeDerivatives ?? false)
+          : !!req.body.includeDerivatives;
+
+      if (!startBackup(includeDerivatives)) {
+        return res.status(409).json({ error: "Es läuft bereits ein Backup" });
+      }
+
+      await recordAuditEvent(req, {
+        action: "settings.backup_create",
+        targetType: "backup",
+        details: { includeDerivatives },
+      });
+
+      res.status(202).json({ success: true });
+    } catch (error) {
+      console.error("Create backup error:", error);
+      res.status(500).json({ error: "Fehler beim Erstellen des Backups" });
+    }
+  });
+
+  app.get(
+    "/api/backups/:name/download",
+    authenticateJWT,
+    requireAdmin,
+    async (req: any, res) => {
+      const backupPath = getBackupPath(req.params.name);
+      if (!backupPath) {
+        return res.status(404).json({ error: "Backup nicht gefunden" });
+      }
+
+      res.download(backupPath, req.params.name, (error) => {
+        if (error) {
+          if (!res.headersSent) {
+            res.status(404).json({ error: "Backup nicht gefunden" });
+          }
+          return;
+        }
+        recordAuditEvent(req, {
+          action: "settings.backup_download",
+          targetType: "backup",
+          targetName: req.params.name,
+        });
+      });
+    },
+  );
+
+  app.delete(
+    "/api/backups/:name",
+    authenticateJWT,
+    requireAdmin,
+    async (req: any, res) => {
+      try {
+        if (!(await deleteBackup(req.params.name))) {
+          return res.status(404).json({ error: "Backup nicht gefunden" });
+        }
+        await recordAuditEvent(req, {
+          action: "settings.backup_delete",
+          targetType: "backup",
+          targetName: req.params.name,
+        });
+        res.json({ success: true });
+      } catch (error) {
+        console.error("Delete backup error:", error);
+        res.status(500).json({ error: "Fehler beim Löschen des Backups" });
+      }
+    },
+  );
+}
@@ -0,0 +1,45 @@
+import type { Request } from "express";
+import { storage } from "./storage";
+import { getRequestToken, verifyToken, type JWTPayload } from "./auth";
+import { getActiveSession } from "./sessions";
+
+// Client accounts see the galleries assigned to them in the client portal and
+// use them like a visitor: public gallery routes, public proofing features,
+// no management actions. The public routes don't require a login, the client
+// is resolved from the access token if there is one.
+
+export const isClientRole = (role: string | undefined) => role === "Client";
+
+// Logged-in client of the request, resolved once per request
+export async function getRequestClient(
+  req: Request,
+): Promise<JWTPayload | null> {
+  const cached = (req as any).client as JWTPayload | null | undefined;
+  if (cached !== undefined) return cached;
+
+  let client: JWTPayload | null = null;
+  const token = getRequestToken(req);
+  const payload = token ? verifyToken(token) : null;
+  if (payload?.sessionId && isClientRole(payload.role)) {
+    const session = await getActiveSession(payload.sessionId);
+    if (session && session.userId === payload.userId) {
+      client = payload;
+    }
+  }
+
+  (req as any).client = client;
+  return client;
+}
+
+// The client of the request, if the (root) gallery is assigned to them
+export async function getAssignedClient(
+  req: Request,
+  rootGalleryId: string,
+): Promise<JWTPayload | null> {
+  const client = await getRequestClient(req);
+  if (!client) return null;
+
+  return (await storage.isGalleryAssignedToUser(rootGalleryId, client.userId))
+    ? client
+    : null;
+}
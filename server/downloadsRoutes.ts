@@ -9,6 +9,8 @@ import {
   insertPhotoLikeSchema,
   insertCommentSchema,
   insertNotificationSchema,
+  type Photo,
+  type ShareLinkDownloadMode,
 } from "@shared/schema";
 import { z } from "zod";
 import multer from "multer";
@@ -29,17 +31,77 @@ import {
 } from "../shared/schema";
 import { eq, desc, and } from "drizzle-orm";
 import bcrypt from "bcrypt";
-import { authenticateJWT, requireAdmin, requireAdminOrCreator } from "./auth";
+import {
+  authenticateJWT,
+  requireAdmin,
+  requireAdminOrCreator,
+  requireStaff,
+} from "./auth";
 import { db } from "./storage";
 import { sendPasswordResetEmail } from "./mailer";
 import crypto from "crypto";
 import { checkInitialSetup, createInitialAdmin, configureSmtp } from "./setup";
 import { upload, ensureUploadDirs } from "./upload";
+import { getDownloadAccessForPhotos, getGalleryAccess } from "./shareLinks";
+import { canDownloadFinals } from "./finals";
+import { requirePhotoPermission } from "./galleryPermissions";
+import { recordAuditEvent } from "./audit";
+
+type DownloadQuality = Exclude<ShareLinkDownloadMode, "none">;
+
+// Alt text + extension of the downloaded file, prefixed with the position so
+// that file managers list the files in gallery order
+function getArchiveFilename(
+  photo: Photo,
+  filePath: string,
+  index: number,
+  total: number,
+) {
+  const position = String(index + 1).padStart(String(total).length, "0");
+  return `${position}_${photo.alt}${path.extname(filePath)}`;
+}
+
+// Web downloads only ever contain the medium version, never the original
+function getDownloadFilePath(photo: Photo, quality: DownloadQuality) {
+  if (quality === "web") {
+    return photo.mediumPath;
+  }
+  return (
+    photo.filePath || `uploads/galleries/${photo.galleryId}/${photo.filename}`
+  );
+}
+
+// One audit event per download, for the gallery of the first photo
+async function recordDownload(
+  req: any,
+  downloadPhotos: Photo[],
+  quality: DownloadQuality,
+  shareLinkId?: string,
+) {
+  if (downloadPhotos.length === 0) return;
+  const gallery = await storage.getGallery(downloadPhotos[0].galleryId);
+  await recordAuditEvent(req, {
+    action: "download.photos",
+    targetType: "gallery",
+    targetId: gallery?.id,
+    targetName: gallery?.name,
+    details: {
+      photoCount: downloadPhotos.length,
+      quality,
+      ...(shareLinkId && { shareLinkId }),
+    },
+  });
+}
 
 export async function registerDownloadsRoutes(app: Express): Promise<void> {
   const downloadCache = new Map<
       string,
-      { photoIds: string[]; expiresAt: number }
+      {
+        photoIds: string[];
+        quality: DownloadQuality;
+        finals?: boolean; // Packs the finals of the photos instead
+        expiresAt: number;
+      }
     >();
 
     // Cleanup expired tokens every minute
@@ -55,6 +117,8 @@ export async function registerDownloadsRoutes(app: Express): Promise<void> {
   app.post(
       "/api/photos/prepare-download",
       authenticateJWT,
+      requireStaff,
+      requirePhotoPermission("view"),
       async (req: any, res) => {
         try {
           const { photoIds } = req.body;
@@ -69,9 +133,16 @@ export async function registerDownloadsRoutes(app: Express): Promise<void> {
           // Store in cache with 5 minute expiration
           downloadCache.set(token, {
             photoIds,
+            quality: "original",
             expiresAt: Date.now() + 5 * 60 * 1000,
           });
 
+          await recordDownload(
+            req,
+            await storage.getPhotosByIds(photoIds),
+            "original",
+          );
+
           res.json({ downloadUrl: `/api/download-zip/${token}` });
         } catch (error) {
           console.error("Prepare download error:", error);
@@ -87,21 +158,94 @@ export async function registerDownloadsRoutes(app: Express): Promise<void> {
           return res.status(400).json({ error: "photoIds array is required" });
         }
 
+        // The share link decides whether originals or web versions are packed
+        const { access, photos: downloadPhotos } = await getDownloadAccessForPhotos(
+          req,
+          photoIds,
+        );
+        if (!access || access.downloadMode === "none") {
+          return res
+            .status(403)
+            .json({ error: "Downloads sind über diesen Link nicht erlaubt" });
+        }
+
         // Generate unique token
         const token = crypto.randomBytes(32).toString("hex");
 
         // Store in cache with 5 minute expiration
         downloadCache.set(token, {
-          photoIds,
+          photoIds: downloadPhotos.map((photo) => photo.id),
+          quality: access.downloadMode,
           expiresAt: Date.now() + 5 * 60 * 1000,
         });
 
+        await recordDownload(
+          req,
+          downloadPhotos,
+          access.downloadMode,
+          access.shareLink?.id,
+        );
+
         res.json({ downloadUrl: `/api/download-zip/${token}` });
       } catch (error) {
         console.error("Prepare download error:", error);
         res.status(500).json({ error: "Failed to prepare download" });
       }
     })
+  // Finals are downloadable by the gallery setting where the visitor's access
+  // allows original downloads, see canDownloadFinals
+  app.post(
+      "/api/public/galleries/:galleryId/finals/prepare-download",
+      async (req, res) => {
+        try {
+          const gallery = await storage.getGallery(req.params.galleryId);
+          if (!gallery) {
+            return res.status(404).json({ error: "Galerie nicht gefunden" });
+          }
+
+          const access = await getGalleryAccess(req, gallery.id);
+          if (!access?.canView || !canDownloadFinals(gallery, access)) {
+            return res.status(403).json({
+              error: "Die finalen Bilder können nicht heruntergeladen werden",
+            });
+          }
+
+          const finalPhotos = (await storage.getFinalPhotos(gallery.id)).filter(
+            (finalPhoto) =>
+              finalPhoto.proofId && finalPhoto.processingStatus === "ready",
+          );
+          if (finalPhotos.length === 0) {
+            return res
+              .status(404)
+              .json({ error: "Keine finalen Bilder vorhanden" });
+          }
+
+          const token = crypto.randomBytes(32).toString("hex");
+          downloadCache.set(token, {
+            photoIds: finalPhotos.map((finalPhoto) => finalPhoto.proofId!),
+            quality: "original",
+            finals: true,
+            expiresAt: Date.now() + 5 * 60 * 1000,
+          });
+
+          await recordAuditEvent(req, {
+            action: "download.finals",
+            targetType: "gallery",
+            targetId: gallery.id,
+            targetName: gallery.name,
+            details: {
+              photoCount: finalPhotos.length,
+              ...(access.shareLink && { shareLinkId: access.shareLink.id }),
+            },
+          });
+
+          res.json({ downloadUrl: `/api/download-zip/${token}` });
+        } catch (error) {
+          console.error("Prepare finals download error:", error);
+          res.status(500).json({ error: "Failed to prepare download" });
+        }
+      },
+    )
   app.get("/api/download-zip/:token", async (req, res) => {
       try {
         const { token } = req.params;
@@ -115,7 +259,7 @@ export async function registerDownloadsRoutes(app: Express): Promise<void> {
             .json({ error: "Download token expired or invalid" });
         }
 
-        const { photoIds } = cacheEntry;
+        const { photoIds, quality, finals } = cacheEntry;
 
         // Delete token after use (one-time use)
         downloadCache.delete(token);
@@ -126,7 +270,7 @@ export async function registerDownloadsRoutes(app: Express): Promise<void> {
         res.setHeader("Content-Type", "application/zip");
         res.setHeader(
           "Content-Disposition",
-          `attachment; filename="photos_${new Date().toISOString().split("T")[0]}.zip"`,
+          `attachment; filename="${finals ? "finals" : "photos"}_${new Date().toISOString().split("T")[0]}.zip"`,
         );
 
         // Create ZIP archive
@@ -139,33 +283,50 @@ export async function registerDownloadsRoutes(app: Express): Promise<void> {
 
         let addedCount = 0;
 
-        for (const photoId of photoIds) {
-          try {
-            const photo = await storage.getPhoto(photoId);
-
-            if (photo) {
-              const filePath =
-                photo.filePath ||
-                `uploads/galleries/${photo.galleryId}/${photo.filename}`;
-
-              try {
-                // Check if file exists before adding to archive
-                await fs.promises.access(filePath, fs.constants.R_OK);
-
-                // Get file extension from filename
-                const extension = path.extname(photo.filename);
-                // Add file to archive with alt text + original extension
-                const archiveFilename = photo.alt + extension;
-                archive.file(filePath, { name: archiveFilename });
-                addedCount++;
-              } catch (fileError) {
-                console.warn(`Could not access file ${filePath}:`, fileError);
-              }
-            } else {
-              console.warn(`Photo with ID ${photoId} not found.`);
+        // Same order as in the gallery
+        const orderedPhotos = await storage.getPhotosByIds(photoIds);
+        if (orderedPhotos.length < photoIds.length) {
+          console.warn(
+            `${photoIds.length - orderedPhotos.length} photos not found.`,
+          );
+        }
+
+        const finalPaths = new Map<string, string | null>();
+        if (finals && orderedPhotos.length > 0) {
+          for (const finalPhoto of await storage.getFinalPhotos(
+            orderedPhotos[0].galleryId,
+          )) {
+            if (finalPhoto.proofId) {
+              finalPaths.set(finalPhoto.proofId, finalPhoto.filePath);
             }
-          } catch (photoError) {
-            console.error(`Error processing photo ${photoId}:`, photoError);
+          }
+        }
+
+        for (let index = 0; index < orderedPhotos.length; index++) {
+          const photo = orderedPhotos[index];
+          const filePath = finals
+            ? finalPaths.get(photo.id)
+            : getDownloadFilePath(photo, quality);
+          if (!filePath) {
+            console.warn(`No ${finals ? "final" : quality} version for photo ${photo.id}`);
+            continue;
+          }
+
+          try {
+            // Check if file exists before adding to archive
+            await fs.promises.access(filePath, fs.constants.R_OK);
+
+            archive.file(filePath, {
+              name: getArchiveFilename(
+                photo,
+                filePath,
+                index,
+                orderedPhotos.length,
+              ),
+            });
+            addedCount++;
+          } catch (fileError) {
+            console.warn(`Could not access file ${filePath}:`, fileError);
           }
         }
 
@@ -193,6 +354,17 @@ export async function registerDownloadsRoutes(app: Express): Promise<void> {
           return res.status(400).json({ error: "photoIds array is required" });
         }
 
+        const { access, photos: downloadPhotos } = await getDownloadAccessForPhotos(
+          req,
+          photoIds,
+        );
+        if (!access || access.downloadMode === "none") {
+          return res
+            .status(403)
+            .json({ error: "Downloads sind über diesen Link nicht erlaubt" });
+        }
+        const quality = access.downloadMode;
+
         console.log(`Public download request for ${photoIds.length} photos`);
 
         // Set headers for ZIP download
@@ -212,33 +384,37 @@ export async function registerDownloadsRoutes(app: Express): Promise<void> {
 
         let addedCount = 0;
 
-        for (const photoId of photoIds) {
+        // Same order as in the gallery
+        const orderedPhotos = downloadPhotos;
+        if (orderedPhotos.length < photoIds.length) {
+          console.warn(
+            `${photoIds.length - orderedPhotos.length} photos not found.`,
+          );
+        }
+
+        for (let index = 0; index < orderedPhotos.length; index++) {
+          const photo = orderedPhotos[index];
+          const filePath = getDownloadFilePath(photo, quality);
+          if (!filePath) {
+            console.warn(`No ${quality} version for photo ${photo.id}`);
+            continue;
+          }
+
           try {
-            const photo = await storage.getPhoto(photoId);
-
-            if (photo) {
-              const filePath =
-                photo.filePath ||
-                `uploads/galleries/${photo.galleryId}/${photo.filename}`;
-
-              try {
-                // Check if file exists before adding to archive
-                await fs.promises.access(filePath, fs.constants.R_OK);
-
-                // Get file extension from filename
-                const extension = path.extname(photo.filename);
-                // Add file to archive with alt text + original extension
-                const archiveFilename = photo.alt + extension;
-                archive.file(filePath, { name: archiveFilename });
-                addedCount++;
-              } catch (fileError) {
-                console.warn(`Could not access file ${filePath}:`, fileError);
-              }
-            } else {
-              console.warn(`Photo with ID ${photoId} not found.`);
-            }
-          } catch (photoError) {
-            console.error(`Error processing photo ${photoId}:`, photoError);
+            // Check if file exists before adding to archive
+            await fs.promises.access(filePath, fs.constants.R_OK);
+
+            archive.file(filePath, {
+              name: getArchiveFilename(
+                photo,
+                filePath,
+                index,
+                orderedPhotos.length,
+              ),
+            });
+            addedCount++;
+          } catch (fileError) {
+            console.warn(`Could not access file ${filePath}:`, fileError);
           }
         }
 
@@ -253,12 +429,19 @@ export async function registerDownloadsRoutes(app: Express): Promise<void> {
 
         // Finalize the archive
         archive.finalize();
+
+        await recordDownload(
+          req,
+          orderedPhotos,
+          quality,
+          access.shareLink?.id,
+        );
       } catch (error) {
         console.error("Public download error:", error);
         res.status(500).json({ error: "Failed to create download archive" });
       }
     })
-  app.post("/api/photos/download", authenticateJWT, async (req: any, res) => {
+  app.post("/api/photos/download", authenticateJWT, requireStaff, requirePhotoPermission("view"), async (req: any, res) => {
       try {
         const { photoIds } = req.body;
 
@@ -267,6 +450,7 @@ export async function registerDownloadsRoutes(app: Express): Promise<void> {
         }
 
         console.log(`Download request for ${photoIds.length} photos`);
+        const quality: DownloadQuality = "original";
 
         // Set headers for ZIP download
         res.setHeader("Content-Type", "application/zip");
@@ -285,33 +469,37 @@ export async function registerDownloadsRoutes(app: Express): Promise<void> {
 
         let addedCount = 0;
 
-        for (const photoId of photoIds) {
+        // Same order as in the gallery
+        const orderedPhotos = await storage.getPhotosByIds(photoIds);
+        if (orderedPhotos.length < photoIds.length) {
+          console.warn(
+            `${photoIds.length - orderedPhotos.length} photos not found.`,
+          );
+        }
+
+        for (let index = 0; index < orderedPhotos.length; index++) {
+          const photo = orderedPhotos[index];
+          const filePath = getDownloadFilePath(photo, quality);
+          if (!filePath) {
+            console.warn(`No ${quality} version for photo ${photo.id}`);
+            continue;
+          }
+
           try {
-            const photo = await storage.getPhoto(photoId);
-
-            if (photo) {
-              const filePath =
-                photo.filePath ||
-                `uploads/galleries/${photo.galleryId}/${photo.filename}`;
-
-              try {
-                // Check if file exists before adding to archive
-                await fs.promises.access(filePath, fs.constants.R_OK);
-
-                // Get file extension from filename
-                const extension = path.extname(photo.filename);
-                // Add file to archive with alt text + original extension
-                const archiveFilename = photo.alt + extension;
-                archive.file(filePath, { name: archiveFilename });
-                addedCount++;
-              } catch (fileError) {
-                console.warn(`Could not access file ${filePath}:`, fileError);
-              }
-            } else {
-              console.warn(`Photo with ID ${photoId} not found.`);
-            }
-          } catch (photoError) {
-            console.error(`Error processing photo ${photoId}:`, photoError);
+            // Check if file exists before adding to archive
+            await fs.promises.access(filePath, fs.constants.R_OK);
+
+            archive.file(filePath, {
+              name: getArchiveFilename(
+                photo,
+                filePath,
+                index,
+                orderedPhotos.length,
+              ),
+            });
+            addedCount++;
+          } catch (fileError) {
+            console.warn(`Could not access file ${filePath}:`, fileError);
           }
         }
 
@@ -326,6 +514,8 @@ export async function registerDownloadsRoutes(app: Express): Promise<void> {
 
         // Finalize the archive
         archive.finalize();
+
+        await recordDownload(req, orderedPhotos, quality);
       } catch (error) {
         console.error("Download error:", error);
         res.status(500).json({ error: "Failed to create download archive" });
@@ -0,0 +1,76 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import { storage } from "./storage";
+import { registerPublicRoutes } from "./publicRoutes";
+import { registerShareLinksRoutes } from "./shareLinksRoutes";
+import { registerDownloadsRoutes } from "./downloadsRoutes";
+import {
+  createTestApp,
+  createTestGallery,
+  createTestPhoto,
+  createTestUser,
+} from "./testing";
+
+describe("finals download", () => {
+  let app: Express;
+  let owner: Awaited<ReturnType<typeof createTestUser>>;
+
+  beforeAll(async () => {
+    app = await createTestApp(
+      registerPublicRoutes,
+      registerShareLinksRoutes,
+      registerDownloadsRoutes,
+    );
+    owner = await createTestUser("Creator");
+  });
+
+  // A gallery with the final of one proof, opened through a new share link
+  const openFinals = async (downloadMode: string, finalsDownload = true) => {
+    const gallery = await createTestGallery(owner.user, { finalsDownload });
+    const proof = await createTestPhoto(gallery.id);
+    await storage.createFinalPhoto({
+      galleryId: gallery.id,
+      proofId: proof.id,
+      filename: "final.jpg",
+      originalName: "IMG_0001.jpg",
+      filePath: "final.jpg",
+      processingStatus: "ready",
+    });
+    const link = await request(app)
+      .post(`/api/galleries/${gallery.id}/share-links`)
+      .set("Authorization", owner.auth)
+      .send({ label: "Kunde", downloadMode });
+
+    const visitor = request.agent(app);
+    await visitor.post(`/api/public/share/${link.body.token}`).send({});
+    const { body } = await visitor.get(`/api/gallery/${gallery.id}/public`);
+    const download = await visitor.post(
+      `/api/public/galleries/${gallery.id}/finals/prepare-download`,
+    );
+    return { final: body.photos[0].final, download };
+  };
+
+  it("offers the finals to links with original downloads", async () => {
+    const { final, download } = await openFinals("original");
+
+    expect(final.originalUrl).toEqual(expect.any(String));
+    expect(download.status).toBe(200);
+  });
+
+  it("keeps the finals from links without original downloads", async () => {
+    for (const downloadMode of ["none", "web"]) {
+      const { final, download } = await openFinals(downloadMode);
+
+      expect(final.originalUrl).toBeNull();
+      expect(download.status).toBe(403);
+    }
+  });
+
+  it("keeps the finals when the gallery doesn't release them", async () => {
+    const { final, download } = await openFinals("original", false);
+
+    expect(final.originalUrl).toBeNull();
+    expect(download.status).toBe(403);
+  });
+});
@@ -0,0 +1,81 @@
+import fs from "fs";
+import path from "path";
+import { storage } from "./storage";
+import { getFinalMediaUrls } from "./media";
+import type { GalleryAccess } from "./shareLinks";
+import type { FinalPhoto, Photo } from "@shared/schema";
+
+// Finals are the edited images delivered for the proofs of a gallery. An
+// upload belongs to the proof with the same filename stem, so "IMG_0042.jpg"
+// replaces the proof "IMG_0042.JPG" for the client. Uploads without a proof
+// are kept unmatched until staff assigns them.
+
+// Below uploads/galleries like a gallery of its own, see ThumbnailGenerator
+export const getFinalsDir = (galleryId: string) => `${galleryId}/finals`;
+
+export const getFilenameStem = (filename: string) =>
+  path.parse(filename).name.trim().toLowerCase();
+
+// Proofs of the gallery by filename stem, the first one wins on duplicates
+export async function getProofsByStem(galleryId: string): Promise<Map<string, Photo>> {
+  const proofs = new Map<string, Photo>();
+  for (const photo of await storage.getPhotosByGalleryId(galleryId)) {
+    const stem = getFilenameStem(photo.originalName);
+    if (!proofs.has(stem)) proofs.set(stem, photo);
+  }
+  return proofs;
+}
+
+export async function deleteFinalPhotoFiles(finalPhoto: FinalPhoto) {
+  for (const filePath of [
+    finalPhoto.filePath,
+    finalPhoto.thumbnailPath,
+    finalPhoto.mediumPath,
+  ]) {
+    if (filePath) await fs.promises.unlink(filePath).catch(() => {});
+  }
+}
+
+export async function removeFinalPhoto(finalPhoto: FinalPhoto): Promise<boolean> {
+  if (!(await storage.deleteFinalPhoto(finalPhoto.id))) return false;
+  await deleteFinalPhotoFiles(finalPhoto);
+  return true;
+}
+
+// Staff sees every final with its original
+export const toFinalPhotoResponse = (finalPhoto: FinalPhoto) => ({
+  ...finalPhoto,
+  ...getFinalMediaUrls(finalPhoto, true),
+});
+
+// Finals follow the gallery setting and, like the proofs, only ever go out as
+// originals where the visitor's access allows original downloads
+export const canDownloadFinals = (
+  gallery: { finalsDownload: boolean },
+  access: GalleryAccess,
+) => gallery.finalsDownload && access.downloadMode === "original";
+
+// Adds the processed final of each proof for visitors, with the original only
+// where the finals are downloadable
+export async function withFinalPhotos<T extends Photo>(
+  photos: T[],
+  galleryId: string,
+  includeOriginals: boolean,
+) {
+  const finals = new Map<string, FinalPhoto>();
+  for (const finalPhoto of await storage.getFinalPhotos(galleryId)) {
+    if (finalPhoto.proofId && finalPhoto.processingStatus === "ready") {
+      finals.set(finalPhoto.proofId, finalPhoto);
+    }
+  }
+
+  return photos.map((photo) => {
+    const finalPhoto = finals.get(photo.id);
+    return {
+      ...photo,
+      final: finalPhoto
+        ? { id: finalPhoto.id, ...getFinalMediaUrls(finalPhoto, includeOriginals) }
+        : null,
+    };
+  });
+}
@@ -0,0 +1,205 @@
+import type { Express } from "express";
+import { storage } from "./storage";
+import { authenticateJWT, requireStaff } from "./auth";
+import { requireGalleryPermission } from "./galleryPermissions";
+import { recordAuditEvent } from "./audit";
+import { upload } from "./upload";
+import { createFinalPhotoWithThumbnailJob } from "./thumbnailJobs";
+import { advanceGalleryStatus } from "./galleryStatus";
+import {
+  getFilenameStem,
+  getProofsByStem,
+  removeFinalPhoto,
+  toFinalPhotoResponse,
+} from "./finals";
+
+// Finals of a gallery: upload with automatic matching to the proofs and
+// manual matching of the unmatched ones. Whether visitors may download them
+// is part of the gallery's download settings.
+
+export async function registerFinalsRoutes(app: Express): Promise<void> {
+  app.get(
+    "/api/galleries/:galleryId/finals",
+    authenticateJWT,
+    requireStaff,
+    requireGalleryPermission("view"),
+    async (req: any, res) => {
+      try {
+        const gallery = await storage.getGallery(req.params.galleryId);
+        if (!gallery) {
+          return res.status(404).json({ error: "Galerie nicht gefunden" });
+        }
+
+        const finalPhotos = await storage.getFinalPhotos(gallery.id);
+        res.json({
+          finals: finalPhotos.map(toFinalPhotoResponse),
+          finalsDownload: gallery.finalsDownload,
+        });
+      } catch (error) {
+        console.error("Get finals error:", error);
+        res.status(500).json({ error: "Fehler beim Laden der finalen Bilder" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/galleries/:galleryId/finals",
+    authenticateJWT,
+    requireStaff,
+    requireGalleryPermission("upload"),
+    (req: any, res) => {
+      upload.array("finals")(req, res, async (err) => {
+        if (err) {
+          console.error("Upload finals error:", err);
+          return res.status(400).json({ error: err.message });
+        }
+
+        try {
+          const files = (req.files || []) as Express.Multer.File[];
+          if (files.length === 0) {
+            return res.status(400).json({ error: "Keine Dateien hochgeladen" });
+          }
+
+          const gallery = await storage.getGallery(req.params.galleryId);
+          if (!gallery) {
+            return res.status(404).json({ error: "Galerie nicht gefunden" });
+          }
+
+          const proofs = await getProofsByStem(gallery.id);
+          const uploaded = [];
+          const unmatched: string[] = [];
+
+          for (const file of files) {
+            const proof = proofs.get(getFilenameStem(file.originalname));
+            if (proof) {
+              // A new version replaces the final delivered before
+              const previous = await storage.getFinalPhotoByProofId(proof.id);
+              if (previous) await removeFinalPhoto(previous);
+            } else {
+              unmatched.push(file.originalname);
+            }
+
+            uploaded.push(
+              await createFinalPhotoWithThumbnailJob({
+                galleryId: gallery.id,
+                proofId: proof?.id ?? null,
+                filename: file.filename,
+                originalName: file.originalname,
+                filePath: file.path,
+              }),
+            );
+          }
+
+          await recordAuditEvent(req, {
+            action: "gallery.finals_upload",
+            targetType: "gallery",
+            targetId: gallery.id,
+            targetName: gallery.name,
+            details: { count: uploaded.length, unmatched: unmatched.length },
+          });
+
+          // Finals uploaded while editing are the delivery
+          if (unmatched.length < uploaded.length) {
+            await advanceGalleryStatus(gallery.id, ["editing"], "delivered", {
+              userId: req.user.userId,
+            });
+          }
+
+          res.status(201).json({
+            finals: uploaded.map(toFinalPhotoResponse),
+            unmatched,
+          });
+        } catch (error) {
+          console.error("Upload finals error:", error);
+          res.status(500).json({ error: "Fehler beim Hochladen der finalen Bilder" });
+        }
+      });
+    },
+  );
+
+  // Manual match, proofId null unassigns the final
+  app.patch(
+    "/api/galleries/:galleryId/finals/:finalId",
+    authenticateJWT,
+    requireStaff,
+    requireGalleryPermission("upload"),
+    async (req: any, res) => {
+      try {
+        const finalPhoto = await storage.getFinalPhoto(req.params.finalId);
+        if (!finalPhoto || finalPhoto.galleryId !== req.params.galleryId) {
+          return res.status(404).json({ error: "Finales Bild nicht gefunden" });
+        }
+
+        const { proofId } = req.body;
+        if (proofId !== null) {
+          const proof =
+            typeof proofId === "string" ? await storage.getPhoto(proofId) : undefined;
+          if (!proof || proof.galleryId !== finalPhoto.galleryId) {
+            return res.status(400).json({ error: "Ungültiges Foto" });
+          }
+
+          const existing = await storage.getFinalPhotoByProofId(proof.id);
+          if (existing && existing.id !== finalPhoto.id) {
+            return res.status(409).json({
+              error: "Diesem Foto ist bereits ein finales Bild zugeordnet",
+            });
+          }
+        }
+
+        const updated = await storage.updateFinalPhoto(finalPhoto.id, { proofId });
+        if (!updated) {
+          return res.status(404).json({ error: "Finales Bild nicht gefunden" });
+        }
+
+        const gallery = await storage.getGallery(finalPhoto.galleryId);
+        await recordAuditEvent(req, {
+          action: "gallery.final_match",
+          targetType: "gallery",
+          targetId: gallery?.id,
+          targetName: gallery?.name,
+          before: { proofId: finalPhoto.proofId },
+          after: { proofId: updated.proofId },
+          details: { finalId: finalPhoto.id, originalName: finalPhoto.originalName },
+        });
+
+        res.json(toFinalPhotoResponse(updated));
+      } catch (error) {
+        console.error("Match final error:", error);
+        res.status(500).json({ error: "Fehler beim Zuordnen des finalen Bildes" });
+      }
+    },
+  );
+
+  app.delete(
+    "/api/galleries/:galleryId/finals/:finalId",
+    authenticateJWT,
+    requireStaff,
+    requireGalleryPermission("upload"),
+    async (req: any, res) => {
+      try {
+        const finalPhoto = await storage.getFinalPhoto(req.params.finalId);
+        if (!finalPhoto || finalPhoto.galleryId !== req.params.galleryId) {
+          return res.status(404).json({ error: "Finales Bild nicht gefunden" });
+        }
+
+        if (!(await removeFinalPhoto(finalPhoto))) {
+          return res.status(404).json({ error: "Finales Bild nicht gefunden" });
+        }
+
+        const gallery = await storage.getGallery(finalPhoto.galleryId);
+        await recordAuditEvent(req, {
+          action: "gallery.final_delete",
+          targetType: "gallery",
+          targetId: gallery?.id,
+          targetName: gallery?.name,
+          details: { finalId: finalPhoto.id, originalName: finalPhoto.originalName },
+        });
+
+        res.json({ success: true });
+      } catch (error) {
+        console.error("Delete final error:", error);
+        res.status(500).json({ error: "Fehler beim Löschen des finalen Bildes" });
+      }
+    },
+  );
+}
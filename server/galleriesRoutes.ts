@@ -9,14 +9,15 @@ import {
   insertPhotoLikeSchema,
   insertCommentSchema,
   insertNotificationSchema,
+  PHOTO_METADATA_FIELDS,
+  GALLERY_SORT_MODES,
+  GALLERY_PERMISSIONS,
 } from "@shared/schema";
 import { z } from "zod";
 import multer from "multer";
 import path from "path";
-import fs from "fs";
 import { randomUUID } from "crypto";
 import archiver from "archiver";
-import { ThumbnailGenerator } from "./thumbnailGenerator";
 import {
   galleries,
   photos,
@@ -29,15 +30,33 @@ import {
 } from "../shared/schema";
 import { eq, desc, and } from "drizzle-orm";
 import bcrypt from "bcrypt";
-import { authenticateJWT, requireAdmin, requireAdminOrCreator } from "./auth";
+import {
+  authenticateJWT,
+  requireAdmin,
+  requireAdminOrCreator,
+  requireStaff,
+} from "./auth";
 import { db } from "./storage";
 import { sendPasswordResetEmail } from "./mailer";
 import crypto from "crypto";
 import { checkInitialSetup, createInitialAdmin, configureSmtp } from "./setup";
 import { upload, ensureUploadDirs } from "./upload";
+import { createPhotoWithThumbnailJob } from "./thumbnailJobs";
+import { MetadataExtractor } from "./metadataExtractor";
+import { getRootGalleryId } from "./visitors";
+import { withMediaUrls } from "./media";
+import {
+  getGalleryPermission,
+  hasGalleryPermission,
+  requireGalleryPermission,
+  requirePhotoPermission,
+} from "./galleryPermissions";
+import { recordAuditEvent } from "./audit";
+import { isClientRole } from "./clients";
+import { advanceGalleryStatus } from "./galleryStatus";
 
 export async function registerGalleriesRoutes(app: Express): Promise<void> {
-  app.get("/api/galleries", authenticateJWT, async (req: any, res) => {
+  app.get("/api/galleries", authenticateJWT, requireStaff, async (req: any, res) => {
       try {
         const userId = req.user.userId; // Get userId from JWT token
 
@@ -81,6 +100,7 @@ export async function registerGalleriesRoutes(app: Express): Promise<void> {
   app.get(
       "/api/galleries/activities",
       authenticateJWT,
+      requireStaff,
       async (req: any, res) => {
         try {
           const userId = req.user.userId; // Get userId from JWT token
@@ -120,41 +140,14 @@ export async function registerGalleriesRoutes(app: Express): Promise<void> {
         }
       },
     )
-  app.get("/api/galleries/:id", authenticateJWT, async (req: any, res) => {
+  app.get("/api/galleries/:id", authenticateJWT, requireStaff, requireGalleryPermission("view"), async (req: any, res) => {
       try {
         const gallery = await storage.getGallery(req.params.id);
         if (!gallery) {
           return res.status(404).json({ error: "Galerie nicht gefunden" });
         }
 
-        // Check if user has access to this gallery
-        const userId = req.user.userId;
-
-        // For sub-galleries, check access based on parent gallery
-        let checkGallery = gallery;
-        if (gallery.parentId) {
-          const parentGallery = await storage.getGallery(gallery.parentId);
-          if (parentGallery) {
-            checkGallery = parentGallery;
-          }
-        }
-
-        // Check if user is the owner of the (parent) gallery
-        const isOwner = checkGallery.userId === userId;
-
-        if (!isOwner) {
-          // Check if (parent) gallery is assigned to user
-          const assignments = await storage.getGalleryAssignments(
-            checkGallery.id,
-          );
-          const isAssigned = assignments.some((a: any) => a.userId === userId);
-
-          if (!isAssigned) {
-            return res.status(404).json({ error: "Galerie nicht gefunden" });
-          }
-        }
-
-        res.json(gallery);
+        res.json({ ...gallery, permission: req.galleryPermission });
       } catch (error) {
         console.error("Get gallery error:", error);
         res.status(500).json({ error: "Fehler beim Laden der Galerie" });
@@ -168,6 +161,19 @@ export async function registerGalleriesRoutes(app: Express): Promise<void> {
         try {
           const galleryData = insertGallerySchema.parse(req.body);
 
+          // Sub-galleries are part of the management of their parent gallery
+          if (req.body.parentId) {
+            const permission = await getGalleryPermission(
+              req.user,
+              req.body.parentId,
+            );
+            if (!hasGalleryPermission(permission, "manage")) {
+              return res
+                .status(403)
+                .json({ error: "Keine Berechtigung für diese Galerie" });
+            }
+          }
+
           // Hash password if provided
           if (galleryData.password) {
             const saltRounds = 10;
@@ -178,6 +184,13 @@ export async function registerGalleriesRoutes(app: Express): Promise<void> {
           }
 
           const gallery = await storage.createGallery(galleryData);
+          await recordAuditEvent(req, {
+            action: "gallery.create",
+            targetType: "gallery",
+            targetId: gallery.id,
+            targetName: gallery.name,
+            details: gallery.parentId ? { parentId: gallery.parentId } : undefined,
+          });
           res.status(201).json(gallery);
         } catch (error) {
           if (error instanceof z.ZodError) {
@@ -193,7 +206,8 @@ export async function registerGalleriesRoutes(app: Express): Promise<void> {
   app.put(
       "/api/galleries/:id",
       authenticateJWT,
-      requireAdminOrCreator,
+      requireStaff,
+      requireGalleryPermission("manage"),
       async (req: any, res) => {
         try {
           const updates = insertGallerySchema.partial().parse(req.body);
@@ -204,10 +218,19 @@ export async function registerGalleriesRoutes(app: Express): Promise<void> {
             updates.password = await bcrypt.hash(updates.password, saltRounds);
           }
 
+          const before = await storage.getGallery(req.params.id);
           const gallery = await storage.updateGallery(req.params.id, updates);
           if (!gallery) {
             return res.status(404).json({ error: "Galerie nicht gefunden" });
           }
+          await recordAuditEvent(req, {
+            action: "gallery.update",
+            targetType: "gallery",
+            targetId: gallery.id,
+            targetName: gallery.name,
+            before,
+            after: updates,
+          });
           res.json(gallery);
         } catch (error) {
           if (error instanceof z.ZodError) {
@@ -225,7 +248,8 @@ export async function registerGalleriesRoutes(app: Express): Promise<void> {
   app.patch(
       "/api/galleries/:id/rename",
       authenticateJWT,
-      requireAdminOrCreator,
+      requireStaff,
+      requireGalleryPermission("manage"),
       async (req: any, res) => {
         try {
           const { name } = req.body;
@@ -235,12 +259,21 @@ export async function registerGalleriesRoutes(app: Express): Promise<void> {
               .json({ error: "Gültiger Name ist erforderlich" });
           }
 
+          const before = await storage.getGallery(req.params.id);
           const gallery = await storage.updateGallery(req.params.id, {
             name: name.trim(),
           });
           if (!gallery) {
             return res.status(404).json({ error: "Galerie nicht gefunden" });
           }
+          await recordAuditEvent(req, {
+            action: "gallery.rename",
+            targetType: "gallery",
+            targetId: gallery.id,
+            targetName: gallery.name,
+            before: { name: before?.name },
+            after: { name: gallery.name },
+          });
           res.json(gallery);
         } catch (error) {
           console.error("Rename gallery error:", error);
@@ -251,7 +284,8 @@ export async function registerGalleriesRoutes(app: Express): Promise<void> {
   app.get(
       "/api/galleries/:id/password",
       authenticateJWT,
-      requireAdminOrCreator,
+      requireStaff,
+      requireGalleryPermission("manage"),
       async (req: any, res) => {
         try {
           const gallery = await storage.getGallery(req.params.id);
@@ -274,7 +308,8 @@ export async function registerGalleriesRoutes(app: Express): Promise<void> {
   app.patch(
       "/api/galleries/:id/password",
       authenticateJWT,
-      requireAdminOrCreator,
+      requireStaff,
+      requireGalleryPermission("manage"),
       async (req: any, res) => {
         try {
           const { password } = req.body;
@@ -285,12 +320,21 @@ export async function registerGalleriesRoutes(app: Express): Promise<void> {
             hashedPassword = await bcrypt.hash(password.trim(), saltRounds);
           }
 
+          const before = await storage.getGallery(req.params.id);
           const gallery = await storage.updateGallery(req.params.id, {
             password: hashedPassword,
           });
           if (!gallery) {
             return res.status(404).json({ error: "Galerie nicht gefunden" });
           }
+          await recordAuditEvent(req, {
+            action: "gallery.password_change",
+            targetType: "gallery",
+            targetId: gallery.id,
+            targetName: gallery.name,
+            before: { password: before?.password },
+            after: { password: hashedPassword },
+          });
           res.json(gallery);
         } catch (error) {
           console.error("Change password error:", error);
@@ -301,23 +345,46 @@ export async function registerGalleriesRoutes(app: Express): Promise<void> {
   app.patch(
       "/api/galleries/:id/download-settings",
       authenticateJWT,
-      requireAdminOrCreator,
+      requireStaff,
+      requireGalleryPermission("manage"),
       async (req: any, res) => {
         try {
-          const { allowDownload } = req.body;
+          // Proofs and finals are released for download independently
+          const { allowDownload, finalsDownload } = req.body;
 
-          if (typeof allowDownload !== "boolean") {
+          if (allowDownload === undefined && finalsDownload === undefined) {
+            return res.status(400).json({ error: "Keine Einstellung angegeben" });
+          }
+          if (allowDownload !== undefined && typeof allowDownload !== "boolean") {
             return res
               .status(400)
               .json({ error: "allowDownload muss ein Boolean sein" });
           }
+          if (finalsDownload !== undefined && typeof finalsDownload !== "boolean") {
+            return res
+              .status(400)
+              .json({ error: "finalsDownload muss ein Boolean sein" });
+          }
 
+          const before = await storage.getGallery(req.params.id);
           const gallery = await storage.updateGallery(req.params.id, {
             allowDownload,
+            finalsDownload,
           });
           if (!gallery) {
             return res.status(404).json({ error: "Galerie nicht gefunden" });
           }
+          await recordAuditEvent(req, {
+            action: "gallery.download_settings",
+            targetType: "gallery",
+            targetId: gallery.id,
+            targetName: gallery.name,
+            before: {
+              allowDownload: before?.allowDownload,
+              finalsDownload: before?.finalsDownload,
+            },
+            after: { allowDownload, finalsDownload },
+          });
           res.json(gallery);
         } catch (error) {
           console.error("Update download settings error:", error);
@@ -327,60 +394,72 @@ export async function registerGalleriesRoutes(app: Express): Promise<void> {
         }
       },
     )
-  app.delete(
-      "/api/galleries/:id",
+  app.patch(
+      "/api/galleries/:id/sort-mode",
       authenticateJWT,
-      requireAdminOrCreator,
+      requireStaff,
+      requireGalleryPermission("manage"),
       async (req: any, res) => {
         try {
-          // Get all photos before deleting from database
-          const photos = await storage.getPhotosByGalleryId(req.params.id);
+          const { sortMode } = req.body;
 
-          const success = await storage.deleteGallery(req.params.id);
-          if (!success) {
-            return res.status(404).json({ error: "Galerie nicht gefunden" });
+          if (!GALLERY_SORT_MODES.includes(sortMode)) {
+            return res.status(400).json({ error: "Ungültige Sortierung" });
           }
 
-          // Delete physical files including thumbnails
-          for (const photo of photos) {
-            // Delete original file
-            const filePath =
-              photo.filePath ||
-              `uploads/galleries/${photo.galleryId}/${photo.filename}`;
-            if (fs.existsSync(filePath)) {
-              fs.unlinkSync(filePath);
-            }
+          const gallery = await storage.getGallery(req.params.id);
+          if (!gallery) {
+            return res.status(404).json({ error: "Galerie nicht gefunden" });
+          }
 
-            // Delete thumbnails using ThumbnailGenerator
-            await ThumbnailGenerator.deleteThumbnails(
-              photo.filename,
-              photo.galleryId,
+          if (sortMode === "manual") {
+            // Freeze the currently visible order as starting point
+            const photos = await storage.getPhotosByGalleryId(gallery.id);
+            await storage.reorderPhotos(
+              gallery.id,
+              photos.map((photo) => photo.id),
             );
+          } else {
+            await storage.updateGallery(gallery.id, { sortMode });
           }
 
-          // Try to remove the gallery directory if it's empty
-          const galleryDir = `uploads/galleries/${req.params.id}`;
-          if (fs.existsSync(galleryDir)) {
-            try {
-              fs.rmdirSync(galleryDir);
-            } catch (error) {
-              console.log(`Could not remove directory ${galleryDir}:`, error);
-            }
-          }
+          res.json({ ...gallery, sortMode });
+        } catch (error) {
+          console.error("Update sort mode error:", error);
+          res.status(500).json({
+            error: "Fehler beim Aktualisieren der Sortierung",
+          });
+        }
+      },
+    )
+  app.delete(
+      "/api/galleries/:id",
+      authenticateJWT,
+      requireStaff,
+      requireGalleryPermission("manage"),
+      async (req: any, res) => {
+        try {
+          const gallery = await storage.getGallery(req.params.id);
+          const photos = await storage.getPhotosByGalleryId(req.params.id);
 
-          // Try to remove the thumbnails directory for this gallery
-          const thumbnailsDir = `uploads/galleries/thumbnails/${req.params.id}`;
-          if (fs.existsSync(thumbnailsDir)) {
-            try {
-              fs.rmSync(thumbnailsDir, { recursive: true, force: true });
-            } catch (error) {
-              console.log(
-                `Could not remove thumbnails directory ${thumbnailsDir}:`,
-                error,
-              );
-            }
+          // Moved to the trash with its sub-galleries, files stay until purged
+          const trashed = await storage.trashGallery(req.params.id, new Date());
+          if (trashed.length === 0) {
+            return res.status(404).json({ error: "Galerie nicht gefunden" });
           }
 
+          await recordAuditEvent(req, {
+            action: "gallery.delete",
+            targetType: "gallery",
+            targetId: req.params.id,
+            targetName: gallery?.name,
+            details: {
+              photoCount: photos.length,
+              parentId: gallery?.parentId,
+              galleries: trashed.length,
+            },
+          });
+
           res.status(204).send();
         } catch (error) {
           console.error("Delete gallery error:", error);
@@ -391,31 +470,11 @@ export async function registerGalleriesRoutes(app: Express): Promise<void> {
   app.get(
       "/api/galleries/:parentId/sub-galleries",
       authenticateJWT,
+      requireStaff,
+      requireGalleryPermission("view"),
       async (req: any, res) => {
         try {
           const { parentId } = req.params;
-
-          // Check if user has access to parent gallery
-          const parentGallery = await storage.getGallery(parentId);
-          if (!parentGallery) {
-            return res.status(404).json({ error: "Parent gallery not found" });
-          }
-
-          const userId = req.user.userId;
-
-          // Check if user is the owner of parent gallery
-          const isOwner = parentGallery.userId === userId;
-
-          if (!isOwner) {
-            // Check if parent gallery is assigned to user
-            const assignments = await storage.getGalleryAssignments(parentId);
-            const isAssigned = assignments.some((a: any) => a.userId === userId);
-
-            if (!isAssigned) {
-              return res.status(404).json({ error: "Gallery not found" });
-            }
-          }
-
           const subGalleries = await storage.getSubGalleriesByParentId(parentId);
 
           // Add photo count for each sub-gallery
@@ -440,42 +499,12 @@ export async function registerGalleriesRoutes(app: Express): Promise<void> {
   app.get(
       "/api/galleries/:galleryId/preview",
       authenticateJWT,
+      requireStaff,
+      requireGalleryPermission("view"),
       async (req: any, res) => {
         try {
           const { galleryId } = req.params;
 
-          // Check if user has access to this gallery
-          const gallery = await storage.getGallery(galleryId);
-          if (!gallery) {
-            return res.status(404).json({ error: "Gallery not found" });
-          }
-
-          const userId = req.user.userId;
-
-          // For sub-galleries, check access based on parent gallery
-          let checkGallery = gallery;
-          if (gallery.parentId) {
-            const parentGallery = await storage.getGallery(gallery.parentId);
-            if (parentGallery) {
-              checkGallery = parentGallery;
-            }
-          }
-
-          // Check if user is the owner of the (parent) gallery
-          const isOwner = checkGallery.userId === userId;
-
-          if (!isOwner) {
-            // Check if (parent) gallery is assigned to user
-            const assignments = await storage.getGalleryAssignments(
-              checkGallery.id,
-            );
-            const isAssigned = assignments.some((a: any) => a.userId === userId);
-
-            if (!isAssigned) {
-              return res.status(404).json({ error: "Gallery not found" });
-            }
-          }
-
           const photos = await storage.getPhotosByGalleryId(galleryId);
 
           if (photos.length === 0) {
@@ -485,10 +514,10 @@ export async function registerGalleriesRoutes(app: Express): Promise<void> {
           }
 
           // Return the first photo as preview using thumbnail
-          const previewPhoto = photos[0];
+          const [previewPhoto] = withMediaUrls([photos[0]], true);
           res.json({
             id: previewPhoto.id,
-            src: `/${previewPhoto.thumbnailPath || previewPhoto.filePath}`,
+            src: previewPhoto.thumbnailUrl || previewPhoto.originalUrl,
             alt: previewPhoto.alt,
           });
         } catch (error) {
@@ -500,42 +529,11 @@ export async function registerGalleriesRoutes(app: Express): Promise<void> {
   app.get(
       "/api/galleries/:galleryId/photos",
       authenticateJWT,
+      requireStaff,
+      requireGalleryPermission("view"),
       async (req: any, res) => {
         try {
           const { galleryId } = req.params;
-          const gallery = await storage.getGallery(galleryId);
-
-          if (!gallery) {
-            return res.status(404).json({ error: "Gallery not found" });
-          }
-
-          // Check if user has access to this gallery
-          const userId = req.user.userId;
-
-          // For sub-galleries, check access based on parent gallery
-          let checkGallery = gallery;
-          if (gallery.parentId) {
-            const parentGallery = await storage.getGallery(gallery.parentId);
-            if (parentGallery) {
-              checkGallery = parentGallery;
-            }
-          }
-
-          // Check if user is the owner of the (parent) gallery
-          const isOwner = checkGallery.userId === userId;
-
-          if (!isOwner) {
-            // Check if (parent) gallery is assigned to user
-            const assignments = await storage.getGalleryAssignments(
-              checkGallery.id,
-            );
-            const isAssigned = assignments.some((a: any) => a.userId === userId);
-
-            if (!isAssigned) {
-              return res.status(404).json({ error: "Gallery not found" });
-            }
-          }
-
           console.log(`Fetching photos for gallery ${galleryId}...`);
           const startTime = Date.now();
 
@@ -560,13 +558,8 @@ export async function registerGalleriesRoutes(app: Express): Promise<void> {
             `Fetched ${photos.length} photos in ${endTime - startTime}ms`,
           );
 
-          // Map photos to use thumbnail paths if available, otherwise original paths
-          const photosWithCorrectPaths = photos.map((photo) => ({
-            ...photo,
-            filePath: photo.filePath, // Prioritize thumbnail, then medium, then original
-          }));
-
-          res.json(photosWithCorrectPaths);
+          // Owners and assigned users may always see the originals
+          res.json(withMediaUrls(photos, true));
         } catch (error) {
           console.error("Error fetching gallery photos:", error);
           if (error.message === "Request timeout - gallery too large") {
@@ -582,7 +575,8 @@ export async function registerGalleriesRoutes(app: Express): Promise<void> {
   app.post(
       "/api/galleries/:galleryId/photos/upload",
       authenticateJWT,
-      requireAdminOrCreator,
+      requireStaff,
+      requireGalleryPermission("upload"),
       (req: any, res) => {
         upload.single("photo")(req, res, async (err) => {
           if (err) {
@@ -600,24 +594,14 @@ export async function registerGalleriesRoutes(app: Express): Promise<void> {
               return res.status(400).json({ error: "Alt-Text ist erforderlich" });
             }
 
-            // Generate thumbnails
-            const thumbnailPaths = await ThumbnailGenerator.generateThumbnails(
-              req.file.path,
-              req.file.filename,
-              req.params.galleryId,
-            );
-
-            const photoData = {
+            // Thumbnails are generated in the background job queue
+            const photo = await createPhotoWithThumbnailJob({
               filename: req.file.filename,
               originalName: req.file.originalname,
               alt: alt,
               galleryId: req.params.galleryId,
-              filePath: thumbnailPaths.original,
-              thumbnailPath: thumbnailPaths.thumbnail,
-              mediumPath: thumbnailPaths.medium,
-            };
-
-            const photo = await storage.createPhoto(photoData);
+              filePath: req.file.path,
+            });
             res.status(201).json(photo);
           } catch (error) {
             console.error("Upload photo error:", error);
@@ -629,7 +613,8 @@ export async function registerGalleriesRoutes(app: Express): Promise<void> {
   app.post(
       "/api/galleries/:galleryId/photos/upload-multiple",
       authenticateJWT,
-      requireAdminOrCreator,
+      requireStaff,
+      requireGalleryPermission("upload"),
       (req: any, res) => {
         upload.array("photos")(req, res, async (err) => {
           if (err) {
@@ -654,24 +639,15 @@ export async function registerGalleriesRoutes(app: Express): Promise<void> {
               const file = files[i];
               const alt = altTexts[i] || file.originalname;
 
-              // Generate thumbnails for each file
-              const thumbnailPaths = await ThumbnailGenerator.generateThumbnails(
-                file.path,
-                file.filename,
-                req.params.galleryId,
-              );
-
-              const photoData = {
+              // Only store the original here - thumbnails are generated
+              // by the job queue so large uploads don't time out
+              const photo = await createPhotoWithThumbnailJob({
                 filename: file.filename,
                 originalName: file.originalname,
                 alt: alt,
                 galleryId: req.params.galleryId,
-                filePath: thumbnailPaths.original,
-                thumbnailPath: thumbnailPaths.thumbnail,
-                mediumPath: thumbnailPaths.medium,
-              };
-
-              const photo = await storage.createPhoto(photoData);
+                filePath: file.path,
+              });
               uploadedPhotos.push(photo);
             }
 
@@ -683,88 +659,118 @@ export async function registerGalleriesRoutes(app: Express): Promise<void> {
         });
       },
     )
-  app.post("/api/galleries/:galleryId/photos", async (req, res) => {
-      try {
-        const photoData = insertPhotoSchema.parse({
-          ...req.body,
-          galleryId: req.params.galleryId,
-        });
-        const photo = await storage.createPhoto(photoData);
-        res.status(201).json(photo);
-      } catch (error) {
-        if (error instanceof z.ZodError) {
-          return res
-            .status(400)
-            .json({ error: "Ungültige Foto-Daten", details: error.errors });
+  app.post(
+      "/api/galleries/:galleryId/photos",
+      authenticateJWT,
+      requireStaff,
+      requireGalleryPermission("upload"),
+      async (req, res) => {
+        try {
+          const photoData = insertPhotoSchema.parse({
+            ...req.body,
+            galleryId: req.params.galleryId,
+          });
+          const photo = await storage.createPhoto(photoData);
+          res.status(201).json(photo);
+        } catch (error) {
+          if (error instanceof z.ZodError) {
+            return res
+              .status(400)
+              .json({ error: "Ungültige Foto-Daten", details: error.errors });
+          }
+          console.error("Create photo error:", error);
+          res.status(500).json({ error: "Fehler beim Hinzufügen des Fotos" });
         }
-        console.error("Create photo error:", error);
-        res.status(500).json({ error: "Fehler beim Hinzufügen des Fotos" });
-      }
-    })
-  app.delete(
-      "/api/photos/batch",
+      },
+    )
+  app.put(
+      "/api/galleries/:galleryId/photos/order",
       authenticateJWT,
-      requireAdminOrCreator,
+      requireStaff,
+      requireGalleryPermission("manage"),
       async (req: any, res) => {
         try {
           const { photoIds } = req.body;
 
-          if (!photoIds || !Array.isArray(photoIds) || photoIds.length === 0) {
+          if (
+            !Array.isArray(photoIds) ||
+            photoIds.length === 0 ||
+            photoIds.some((id: unknown) => typeof id !== "string")
+          ) {
             return res.status(400).json({ error: "Foto-IDs sind erforderlich" });
           }
 
-          console.log("Batch delete request for photos:", photoIds);
+          const gallery = await storage.getGallery(req.params.galleryId);
+          if (!gallery) {
+            return res.status(404).json({ error: "Galerie nicht gefunden" });
+          }
 
-          const deletedPhotos = [];
-          const errors = [];
+          await storage.reorderPhotos(gallery.id, photoIds);
+          res.json({ success: true, sortMode: "manual" });
+        } catch (error) {
+          console.error("Reorder photos error:", error);
+          res.status(500).json({ error: "Fehler beim Sortieren der Fotos" });
+        }
+      },
+    )
+  app.get(
+      "/api/galleries/:galleryId/visitor-picks",
+      authenticateJWT,
+      requireStaff,
+      requireGalleryPermission("view"),
+      async (req: any, res) => {
+        try {
+          const gallery = await storage.getGallery(req.params.galleryId);
+          if (!gallery) {
+            return res.status(404).json({ error: "Galerie nicht gefunden" });
+          }
 
-          for (const photoId of photoIds) {
-            try {
-              // Get photo info before deleting
-              const photo = await storage.getPhoto(photoId);
-              if (photo) {
-                console.log(`Deleting photo ${photoId}:`, photo.filename);
-
-                // Delete from database
-                const success = await storage.deletePhoto(photoId);
-                if (success) {
-                  // Delete physical files including thumbnails
-                  await ThumbnailGenerator.deleteThumbnails(
-                    photo.filename,
-                    photo.galleryId,
-                  );
-                  console.log(`Deleted files for photo: ${photo.filename}`);
-                  deletedPhotos.push(photoId);
-                } else {
-                  console.error(
-                    `Failed to delete photo ${photoId} from database`,
-                  );
-                  errors.push({
-                    photoId,
-                    error: "Fehler beim Löschen aus der Datenbank",
-                  });
-                }
-              } else {
-                console.log(
-                  `Photo ${photoId} not found, treating as already deleted`,
-                );
-                deletedPhotos.push(photoId);
-              }
-            } catch (error) {
-              console.error(`Error deleting photo ${photoId}:`, error);
-              errors.push({ photoId, error: (error as Error).message });
-            }
+          // Visitors belong to the top-level gallery, picks to this gallery's photos
+          const visitors = await storage.getGalleryVisitors(
+            await getRootGalleryId(gallery.id),
+          );
+          const picks = await storage.getVisitorPicksByGalleryId(gallery.id);
+
+          res.json({ visitors, picks });
+        } catch (error) {
+          console.error("Get visitor picks error:", error);
+          res.status(500).json({ error: "Fehler beim Laden der Besucher-Bewertungen" });
+        }
+      },
+    )
+  app.delete(
+      "/api/photos/batch",
+      authenticateJWT,
+      requireStaff,
+      requirePhotoPermission("manage"),
+      async (req: any, res) => {
+        try {
+          const { photoIds } = req.body;
+
+          if (!photoIds || !Array.isArray(photoIds) || photoIds.length === 0) {
+            return res.status(400).json({ error: "Foto-IDs sind erforderlich" });
           }
 
-          console.log(
-            `Batch delete result: ${deletedPhotos.length} deleted, ${errors.length} errors`,
+          // Moved to the trash, unknown or already deleted photos count as deleted
+          const photos = await storage.getPhotosByIds(
+            photoIds.filter((id: unknown): id is string => typeof id === "string"),
+          );
+          const trashed = await storage.trashPhotos(
+            photos.map((photo) => photo.id),
+            new Date(),
           );
 
+          await recordAuditEvent(req, {
+            action: "gallery.photos_delete",
+            targetType: "photo",
+            details: { photoIds: trashed.map((photo) => photo.id) },
+          });
+
           res.json({
-            deleted: deletedPhotos,
-            errors: errors,
-            success: deletedPhotos.length,
-            failed: errors.length,
+            deleted: photoIds,
+            errors: [],
+            success: photoIds.length,
+            failed: 0,
           });
         } catch (error) {
           console.error("Batch delete photos error:", error);
@@ -775,7 +781,8 @@ export async function registerGalleriesRoutes(app: Express): Promise<void> {
   app.delete(
       "/api/photos/:id",
       authenticateJWT,
-      requireAdminOrCreator,
+      requireStaff,
+      requirePhotoPermission("manage"),
       async (req: any, res) => {
         try {
           // Get photo info before deleting from database
@@ -784,17 +791,19 @@ export async function registerGalleriesRoutes(app: Express): Promise<void> {
             return res.status(404).json({ error: "Foto nicht gefunden" });
           }
 
-          // Delete from database
-          const success = await storage.deletePhoto(req.params.id);
-          if (!success) {
+          // Moved to the trash, files stay until it is purged
+          const trashed = await storage.trashPhotos([photo.id], new Date());
+          if (trashed.length === 0) {
             return res.status(404).json({ error: "Foto nicht gefunden" });
           }
 
-          // Delete physical files including thumbnails
-          await ThumbnailGenerator.deleteThumbnails(
-            photo.filename,
-            photo.galleryId,
-          );
+          await recordAuditEvent(req, {
+            action: "gallery.photos_delete",
+            targetType: "photo",
+            targetId: photo.id,
+            targetName: photo.originalName || photo.filename,
+            details: { galleryId: photo.galleryId },
+          });
 
           res.status(204).send();
         } catch (error) {
@@ -803,21 +812,53 @@ export async function registerGalleriesRoutes(app: Express): Promise<void> {
         }
       },
     )
-  app.get("/api/photos/:photoId/rating", async (req, res) => {
-      try {
-        const photo = await storage.getPhoto(req.params.photoId);
-        if (!photo) {
-          return res.status(404).json({ error: "Foto nicht gefunden" });
+  app.get(
+      "/api/photos/:photoId/metadata",
+      authenticateJWT,
+      requireStaff,
+      requirePhotoPermission("view"),
+      async (req: any, res) => {
+        try {
+          const photo = await storage.getPhoto(req.params.photoId);
+          if (!photo) {
+            return res.status(404).json({ error: "Foto nicht gefunden" });
+          }
+
+          const metadata = await storage.getPhotoMetadata(photo.id);
+          res.json(
+            metadata
+              ? MetadataExtractor.toDisplayFields(metadata, PHOTO_METADATA_FIELDS)
+              : {},
+          );
+        } catch (error) {
+          console.error("Get photo metadata error:", error);
+          res.status(500).json({ error: "Fehler beim Laden der Metadaten" });
         }
-        res.json({ rating: photo.rating || 0 });
-      } catch (error) {
-        console.error("Get rating error:", error);
-        res.status(500).json({ error: "Fehler beim Laden der Bewertung" });
-      }
-    })
+      },
+    )
+  app.get(
+      "/api/photos/:photoId/rating",
+      authenticateJWT,
+      requireStaff,
+      requirePhotoPermission("view"),
+      async (req, res) => {
+        try {
+          const photo = await storage.getPhoto(req.params.photoId);
+          if (!photo) {
+            return res.status(404).json({ error: "Foto nicht gefunden" });
+          }
+          res.json({ rating: photo.rating || 0 });
+        } catch (error) {
+          console.error("Get rating error:", error);
+          res.status(500).json({ error: "Fehler beim Laden der Bewertung" });
+        }
+      },
+    )
   app.post(
       "/api/photos/batch/rating",
       authenticateJWT,
+      requireStaff,
+      requirePhotoPermission("comment"),
       async (req: any, res) => {
         try {
           const { photoIds, rating, userName } = req.body;
@@ -897,6 +938,8 @@ export async function registerGalleriesRoutes(app: Express): Promise<void> {
   app.post(
       "/api/photos/:photoId/rating",
       authenticateJWT,
+      requireStaff,
+      requirePhotoPermission("comment"),
       async (req: any, res) => {
         try {
           const { photoId } = req.params;
@@ -956,27 +999,35 @@ export async function registerGalleriesRoutes(app: Express): Promise<void> {
         }
       },
     )
-  app.get("/api/photos/:photoId/like", async (req, res) => {
-      try {
-        const likes = await storage.getAllPhotoLikes(req.params.photoId);
-        const likeCount = likes.filter((like) => like.isLiked).length;
-        const dislikeCount = likes.filter((like) => !like.isLiked).length;
-        const currentStatus = likeCount > dislikeCount;
-
-        res.json({
-          likeCount,
-          dislikeCount,
-          totalLikes: likes.length,
-          isLiked: currentStatus,
-        });
-      } catch (error) {
-        console.error("Get like error:", error);
-        res.status(500).json({ error: "Fehler beim Laden des Likes" });
-      }
-    })
+  app.get(
+      "/api/photos/:photoId/like",
+      authenticateJWT,
+      requireStaff,
+      requirePhotoPermission("view"),
+      async (req, res) => {
+        try {
+          const likes = await storage.getAllPhotoLikes(req.params.photoId);
+          const likeCount = likes.filter((like) => like.isLiked).length;
+          const dislikeCount = likes.filter((like) => !like.isLiked).length;
+          const currentStatus = likeCount > dislikeCount;
+
+          res.json({
+            likeCount,
+            dislikeCount,
+            totalLikes: likes.length,
+            isLiked: currentStatus,
+          });
+        } catch (error) {
+          console.error("Get like error:", error);
+          res.status(500).json({ error: "Fehler beim Laden des Likes" });
+        }
+      },
+    )
   app.post(
       "/api/photos/:photoId/like",
       authenticateJWT,
+      requireStaff,
+      requirePhotoPermission("comment"),
       async (req: any, res) => {
         try {
           const { isLiked, userName } = req.body;
@@ -1038,18 +1089,26 @@ export async function registerGalleriesRoutes(app: Express): Promise<void> {
         }
       },
     )
-  app.get("/api/photos/:photoId/comments", async (req, res) => {
-      try {
-        const comments = await storage.getCommentsByPhotoId(req.params.photoId);
-        res.json(comments);
-      } catch (error) {
-        console.error("Get comments error:", error);
-        res.status(500).json({ error: "Fehler beim Laden der Kommentare" });
-      }
-    })
+  app.get(
+      "/api/photos/:photoId/comments",
+      authenticateJWT,
+      requireStaff,
+      requirePhotoPermission("view"),
+      async (req, res) => {
+        try {
+          const comments = await storage.getCommentsByPhotoId(req.params.photoId);
+          res.json(comments);
+        } catch (error) {
+          console.error("Get comments error:", error);
+          res.status(500).json({ error: "Fehler beim Laden der Kommentare" });
+        }
+      },
+    )
   app.post(
       "/api/photos/:photoId/comments",
       authenticateJWT,
+      requireStaff,
+      requirePhotoPermission("comment"),
       async (req: any, res) => {
         try {
           const { commenterName, text } = req.body;
@@ -1148,16 +1207,47 @@ export async function registerGalleriesRoutes(app: Express): Promise<void> {
       async (req: any, res) => {
         try {
           const { galleryId } = req.params;
-          const { userIds } = req.body;
+          const { userIds, permission } = req.body;
 
           if (!Array.isArray(userIds)) {
             return res.status(400).json({ error: "userIds muss ein Array sein" });
           }
 
+          if (
+            permission !== undefined &&
+            !GALLERY_PERMISSIONS.includes(permission)
+          ) {
+            return res.status(400).json({ error: "Ungültige Berechtigung" });
+          }
+
           const assignments = await storage.assignGalleryToUsers(
             galleryId,
             userIds,
+            permission,
+          );
+
+          const gallery = await storage.getGallery(galleryId);
+          const users = await Promise.all(
+            userIds.map((userId: string) => storage.getUser(userId)),
           );
+          await recordAuditEvent(req, {
+            action: "assignment.create",
+            targetType: "gallery",
+            targetId: galleryId,
+            targetName: gallery?.name,
+            details: {
+              users: users.map((user, index) => user?.name || userIds[index]),
+              permission: permission || "comment",
+            },
+          });
+
+          // Assigning a client shares a draft
+          if (users.some((user) => user && isClientRole(user.role))) {
+            await advanceGalleryStatus(galleryId, ["draft"], "shared", {
+              userId: req.user.userId,
+            });
+          }
+
           res.status(201).json(assignments);
         } catch (error) {
           console.error("Assign gallery error:", error);
@@ -1165,6 +1255,53 @@ export async function registerGalleriesRoutes(app: Express): Promise<void> {
         }
       },
     )
+  app.patch(
+      "/api/galleries/:galleryId/assignments/:userId",
+      authenticateJWT,
+      requireAdmin,
+      async (req: any, res) => {
+        try {
+          const { galleryId, userId } = req.params;
+          const { permission } = req.body;
+
+          if (!GALLERY_PERMISSIONS.includes(permission)) {
+            return res.status(400).json({ error: "Ungültige Berechtigung" });
+          }
+
+          const previous = await storage.getGalleryAssignmentPermission(
+            galleryId,
+            userId,
+          );
+          const success = await storage.updateGalleryAssignmentPermission(
+            galleryId,
+            userId,
+            permission,
+          );
+          if (!success) {
+            return res.status(404).json({ error: "Zuweisung nicht gefunden" });
+          }
+
+          const gallery = await storage.getGallery(galleryId);
+          const user = await storage.getUser(userId);
+          await recordAuditEvent(req, {
+            action: "assignment.update",
+            targetType: "gallery",
+            targetId: galleryId,
+            targetName: gallery?.name,
+            before: { permission: previous },
+            after: { permission },
+            details: { userId, userName: user?.name },
+          });
+
+          res.json({ galleryId, userId, permission });
+        } catch (error) {
+          console.error("Update gallery assignment error:", error);
+          res
+            .status(500)
+            .json({ error: "Fehler beim Ändern der Berechtigung" });
+        }
+      },
+    )
   app.delete(
       "/api/galleries/:galleryId/assignments/:userId",
       authenticateJWT,
@@ -1179,6 +1316,17 @@ export async function registerGalleriesRoutes(app: Express): Promise<void> {
           if (!success) {
             return res.status(404).json({ error: "Zuweisung nicht gefunden" });
           }
+
+          const gallery = await storage.getGallery(galleryId);
+          const user = await storage.getUser(userId);
+          await recordAuditEvent(req, {
+            action: "assignment.delete",
+            targetType: "gallery",
+            targetId: galleryId,
+            targetName: gallery?.name,
+            details: { userId, userName: user?.name },
+          });
+
           res.status(204).send();
         } catch (error) {
           console.error("Remove gallery assignment error:", error);
@@ -0,0 +1,141 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { storage } from "./storage";
+import {
+  createTestApp,
+  createTestGallery,
+  createTestPhoto,
+  createTestUser,
+} from "./testing";
+import type { Gallery } from "@shared/schema";
+
+const listDir = (dir: string) => (fs.existsSync(dir) ? fs.readdirSync(dir) : []);
+
+describe("gallery bundles", () => {
+  const originalDir = process.cwd();
+  let workDir: string;
+  let app: Express;
+  let owner: Awaited<ReturnType<typeof createTestUser>>;
+  let gallery: Gallery;
+  let bundlePath: string;
+
+  beforeAll(async () => {
+    // Uploads and imported files end up below the working directory, multer
+    // creates its directory there as soon as the routes are loaded
+    workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "fotostube-"));
+    process.chdir(workDir);
+    const { registerGalleryBundlesRoutes } = await import("./galleryBundlesRoutes");
+
+    app = await createTestApp(registerGalleryBundlesRoutes);
+    owner = await createTestUser("Creator");
+    gallery = await createTestGallery(owner.user, { name: "Hochzeit" });
+    const subGallery = await createTestGallery(owner.user, {
+      name: "Feier",
+      parentId: gallery.id,
+    });
+
+    for (const galleryId of [gallery.id, subGallery.id]) {
+      const photo = await createTestPhoto(galleryId);
+      const filePath = path.join(workDir, photo.filename);
+      await fs.promises.writeFile(filePath, "jpeg");
+      await storage.updatePhoto(photo.id, { filePath });
+      await storage.createComment({
+        photoId: photo.id,
+        commenterName: "Anna",
+        text: "Schön",
+      });
+    }
+    await storage.createShareLink({
+      galleryId: gallery.id,
+      token: "bundle-test-token",
+      label: "Kunde",
+      createdBy: owner.user.id,
+    });
+
+    const prepared = await request(app)
+      .post(`/api/galleries/${gallery.id}/export`)
+      .set("Authorization", owner.auth);
+    const exported = await request(app)
+      .get(prepared.body.downloadUrl)
+      .buffer(true)
+      .parse((res, callback) => {
+        const chunks: Buffer[] = [];
+        res.on("data", (chunk) => chunks.push(chunk));
+        res.on("end", () => callback(null, Buffer.concat(chunks)));
+      });
+    expect(exported.status).toBe(200);
+    bundlePath = path.join(workDir, "galerie.tar.gz");
+    await fs.promises.writeFile(bundlePath, exported.body);
+  });
+
+  afterAll(async () => {
+    process.chdir(originalDir);
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  });
+
+  it("imports the gallery tree as new galleries of the importing user", async () => {
+    const importer = await createTestUser("Creator");
+
+    const res = await request(app)
+      .post("/api/galleries/import")
+      .set("Authorization", importer.auth)
+      .attach("bundle", bundlePath);
+
+    expect(res.status).toBe(201);
+    expect(res.body).toMatchObject({ galleries: 2, photos: 2 });
+
+    const imported = await storage.getGallery(res.body.gallery.id);
+    expect(imported).toMatchObject({ name: "Hochzeit", userId: importer.user.id });
+    expect(imported!.id).not.toBe(gallery.id);
+
+    const [subGallery] = await storage.getSubGalleriesByParentId(imported!.id);
+    const photos = await storage.getPhotosByGalleryId(subGallery.id);
+    expect(subGallery.name).toBe("Feier");
+    expect(photos).toHaveLength(1);
+    expect(photos[0].processingStatus).toBe("processing");
+    expect(fs.existsSync(photos[0].filePath!)).toBe(true);
+    expect(await storage.getCommentsByPhotoId(photos[0].id)).toMatchObject([
+      { commenterName: "Anna", text: "Schön" },
+    ]);
+
+    // Links of the other instance must not open the imported gallery
+    const [link] = await storage.getShareLinks(imported!.id);
+    expect(link.label).toBe("Kunde");
+    expect(link.token).not.toBe("bundle-test-token");
+  });
+
+  it("leaves nothing behind when a bundle can't be imported", async () => {
+    const importer = await createTestUser("Creator");
+    // Cut off at the end, after the files have been unpacked
+    const bundle = await fs.promises.readFile(bundlePath);
+    const brokenPath = path.join(workDir, "kaputt.tar.gz");
+    await fs.promises.writeFile(brokenPath, bundle.subarray(0, bundle.length - 8));
+    const galleryDirs = listDir(path.join(workDir, "uploads/galleries"));
+
+    const res = await request(app)
+      .post("/api/galleries/import")
+      .set("Authorization", importer.auth)
+      .attach("bundle", brokenPath);
+
+    expect(res.status).toBe(400);
+    expect(await storage.getGalleriesByUserId(importer.user.id)).toEqual([]);
+    expect(fs.readdirSync(path.join(workDir, "uploads/tmp"))).toEqual([]);
+    expect(await storage.getGalleriesByUserId(owner.user.id)).toHaveLength(2);
+    expect(listDir(path.join(workDir, "uploads/galleries"))).toEqual(galleryDirs);
+  });
+
+  it("only lets creators and admins import", async () => {
+    const user = await createTestUser("User");
+
+    const res = await request(app)
+      .post("/api/galleries/import")
+      .set("Authorization", user.auth)
+      .attach("bundle", bundlePath);
+
+    expect(res.status).toBe(403);
+  });
+});
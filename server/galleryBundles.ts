@@ -0,0 +1,476 @@
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import type { Writable } from "stream";
+import { pipeline } from "stream/promises";
+import archiver from "archiver";
+import { z } from "zod";
+import { and, eq, inArray, isNull } from "drizzle-orm";
+import type { PgTable } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+import type { Gallery } from "@shared/schema";
+import { db, storage } from "./storage";
+import { JobQueue } from "./jobQueue";
+import { THUMBNAIL_JOB } from "./thumbnailJobs";
+import { generateShareToken } from "./shareLinks";
+import { getRootGalleryId } from "./visitors";
+import {
+  insertRows,
+  openTarGz,
+  readEntry,
+  reviveRow,
+  sortParentsFirst,
+  writeEntry,
+  type Row,
+} from "./archive";
+
+// A gallery bundle hands a gallery with its sub-galleries over to another
+// FotoStube instance: ratings, comments, likes, visitors, proofing rounds and
+// share links as JSON plus the original files. The import creates everything
+// with new IDs, derivatives are generated again by the thumbnail jobs.
+
+const BUNDLE_FORMAT = "fotostube-gallery";
+const BUNDLE_VERSION = 1;
+const MANIFEST_ENTRY = "manifest.json";
+const DATA_ENTRY = "gallery.json";
+const FILES_DIR = "files/";
+const IMAGE_EXTENSION = /^\.(jpe?g|png|gif|webp)$/i;
+
+// Insert order, referenced tables first
+const BUNDLE_TABLES = {
+  galleries: schema.galleries,
+  photos: schema.photos,
+  photoMetadata: schema.photoMetadata,
+  photoLikes: schema.photoLikes,
+  comments: schema.comments,
+  visitors: schema.galleryVisitors,
+  visitorPicks: schema.visitorPicks,
+  proofingRounds: schema.proofingRounds,
+  proofingSubmissions: schema.proofingSubmissions,
+  shareLinks: schema.shareLinks,
+} satisfies Record<string, PgTable>;
+
+type BundleData = Record<keyof typeof BUNDLE_TABLES, Row[]>;
+
+// Columns taken over from a bundle. IDs, references, owners, files and
+// states like status, archivedAt or processingStatus are set by the import,
+// a crafted bundle can't smuggle them in.
+const historyDate = z.date().nullish();
+const BUNDLE_SCHEMAS = {
+  galleries: schema.insertGallerySchema.pick({
+    name: true,
+    password: true,
+    allowDownload: true,
+    sortMode: true,
+    finalsDownload: true,
+  }),
+  photos: schema.insertPhotoSchema.pick({
+    originalName: true,
+    alt: true,
+    rating: true,
+    sortOrder: true,
+  }),
+  photoMetadata: schema.insertPhotoMetadataSchema.pick({
+    cameraMake: true,
+    cameraModel: true,
+    lens: true,
+    focalLength: true,
+    aperture: true,
+    exposureTime: true,
+    iso: true,
+    capturedAt: true,
+    artist: true,
+    copyright: true,
+    width: true,
+    height: true,
+  }),
+  photoLikes: schema.insertPhotoLikeSchema.pick({ isLiked: true }),
+  comments: schema.insertCommentSchema
+    .pick({ commenterName: true, text: true })
+    .extend({ createdAt: historyDate }),
+  visitors: schema.insertGalleryVisitorSchema.pick({ name: true, email: true }),
+  visitorPicks: schema.insertVisitorPickSchema.pick({
+    rating: true,
+    isLiked: true,
+    isSelected: true,
+  }),
+  proofingRounds: schema.insertProofingRoundSchema
+    .pick({ name: true, deadline: true, photoLimit: true })
+    .extend({
+      status: z.enum(["open", "closed"]),
+      createdAt: historyDate,
+      closedAt: historyDate,
+    }),
+  proofingSubmissions: schema.insertProofingSubmissionSchema
+    .pick({ note: true })
+    .extend({ photoIds: z.array(z.string()), submittedAt: historyDate }),
+  shareLinks: schema.insertShareLinkSchema
+    .pick({
+      label: true,
+      password: true,
+      expiresAt: true,
+      canView: true,
+      canRate: true,
+      canComment: true,
+    })
+    .extend({
+      downloadMode: z.enum(schema.SHARE_LINK_DOWNLOAD_MODES),
+      revokedAt: historyDate,
+    }),
+} satisfies Record<keyof BundleData, z.ZodTypeAny>;
+
+interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  createdAt: string;
+  galleryName: string;
+  galleries: number;
+  photos: number;
+}
+
+export interface BundleImportResult {
+  gallery: Gallery;
+  galleries: number;
+  photos: number;
+}
+
+const getOriginalPath = (photo: Row) =>
+  photo.filePath || `uploads/galleries/${photo.galleryId}/${photo.filename}`;
+
+const fileExists = (filePath: string) =>
+  fs.promises.stat(filePath).then((stat) => stat.isFile(), () => false);
+
+// The gallery and all its sub-galleries outside the trash, parents first
+async function getGalleryTree(galleryId: string): Promise<Gallery[]> {
+  const root = await storage.getGallery(galleryId);
+  if (!root) return [];
+
+  const tree = [root];
+  const seen = new Set([root.id]);
+  for (let i = 0; i < tree.length; i++) {
+    for (const child of await storage.getSubGalleriesByParentId(tree[i].id)) {
+      if (seen.has(child.id)) continue; // Guards against parent loops
+      seen.add(child.id);
+      tree.push(child);
+    }
+  }
+  return tree;
+}
+
+async function collectBundleData(tree: Gallery[]): Promise<BundleData> {
+  const galleryIds = tree.map((gallery) => gallery.id);
+  const photos = await db
+    .select()
+    .from(schema.photos)
+    .where(
+      and(
+        inArray(schema.photos.galleryId, galleryIds),
+        isNull(schema.photos.deletedAt),
+      ),
+    );
+  const photoIds = photos.map((photo) => photo.id);
+  const hasPhotos = photoIds.length > 0;
+
+  // Visitors always belong to the top-level gallery
+  const visitorGalleryId = await getRootGalleryId(tree[0].id);
+  const proofingRounds = await db
+    .select()
+    .from(schema.proofingRounds)
+    .where(inArray(schema.proofingRounds.galleryId, galleryIds));
+  const roundIds = proofingRounds.map((round) => round.id);
+
+  return {
+    galleries: tree.map((gallery) => ({ ...gallery, userId: null })),
+    photos,
+    photoMetadata: hasPhotos
+      ? await db
+          .select()
+          .from(schema.photoMetadata)
+          .where(inArray(schema.photoMetadata.photoId, photoIds))
+      : [],
+    photoLikes: hasPhotos
+      ? await db
+          .select()
+          .from(schema.photoLikes)
+          .where(inArray(schema.photoLikes.photoId, photoIds))
+      : [],
+    comments: hasPhotos
+      ? await db
+          .select()
+          .from(schema.comments)
+          .where(inArray(schema.comments.photoId, photoIds))
+      : [],
+    // Client accounts aren't part of the bundle, their visitors stay guests
+    visitors: (
+      await db
+        .select()
+        .from(schema.galleryVisitors)
+        .where(eq(schema.galleryVisitors.galleryId, visitorGalleryId))
+    ).map((visitor) => ({ ...visitor, userId: null })),
+    visitorPicks: hasPhotos
+      ? await db
+          .select()
+          .from(schema.visitorPicks)
+          .where(inArray(schema.visitorPicks.photoId, photoIds))
+      : [],
+    proofingRounds,
+    proofingSubmissions:
+      roundIds.length > 0
+        ? await db
+            .select()
+            .from(schema.proofingSubmissions)
+            .where(inArray(schema.proofingSubmissions.roundId, roundIds))
+        : [],
+    // Links get a new token on import, the old ones must not work elsewhere
+    shareLinks: (
+      await db
+        .select()
+        .from(schema.shareLinks)
+        .where(inArray(schema.shareLinks.galleryId, galleryIds))
+    ).map(({ token, ...link }) => ({ ...link, createdBy: null, lastUsedAt: null })),
+  };
+}
+
+// Writes the bundle of the gallery tree as .tar.gz to the output
+export async function exportGalleryBundle(
+  galleryId: string,
+  output: Writable,
+): Promise<void> {
+  const tree = await getGalleryTree(galleryId);
+  if (tree.length === 0) {
+    throw new Error(`Gallery ${galleryId} not found`);
+  }
+
+  const data = await collectBundleData(tree);
+  const files: { source: string; name: string }[] = [];
+  const exportedPhotos: Row[] = [];
+
+  for (const photo of data.photos) {
+    const source = getOriginalPath(photo);
+    // Photos without original can't be imported anywhere
+    if (!(await fileExists(source))) {
+      console.warn(`Original of photo ${photo.id} not found, skipped in export`);
+      continue;
+    }
+    files.push({ source, name: `${FILES_DIR}${photo.id}${path.extname(source)}` });
+    // Paths and derivatives belong to the exporting instance
+    exportedPhotos.push({
+      ...photo,
+      filePath: null,
+      thumbnailPath: null,
+      mediumPath: null,
+    });
+  }
+  data.photos = exportedPhotos;
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    createdAt: new Date().toISOString(),
+    galleryName: tree[0].name,
+    galleries: tree.length,
+    photos: data.photos.length,
+  };
+
+  const archive = archiver("tar", { gzip: true });
+  const written = pipeline(archive, output);
+
+  archive.append(JSON.stringify(manifest, null, 2), { name: MANIFEST_ENTRY });
+  archive.append(JSON.stringify(data), { name: DATA_ENTRY });
+  for (const file of files) {
+    archive.file(file.source, { name: file.name });
+  }
+
+  await Promise.all([written, archive.finalize()]);
+}
+
+const newIds = (rows: Row[]) =>
+  new Map<string, string>(rows.map((row) => [row.id, randomUUID()]));
+
+// Recreates the gallery tree of a bundle as new top-level gallery of the user
+export async function importGalleryBundle(
+  archivePath: string,
+  userId: string,
+): Promise<BundleImportResult> {
+  let manifest: BundleManifest | null = null;
+  let data: BundleData | null = null;
+  let galleryIds = new Map<string, string>();
+  let photoIds = new Map<string, string>();
+  let bundlePhotos = new Map<string, Row>();
+  const photoFiles = new Map<string, string>(); // Bundle photo ID -> imported file
+  const writtenFiles: string[] = [];
+  let committed = false;
+
+  try {
+    const { entries, done } = openTarGz(archivePath);
+
+    for await (const entry of entries) {
+      const name = entry.header.name;
+
+      if (name === MANIFEST_ENTRY) {
+        manifest = JSON.parse(await readEntry(entry));
+        if (manifest?.format !== BUNDLE_FORMAT || manifest.version > BUNDLE_VERSION) {
+          throw new Error("Unsupported gallery bundle format or version");
+        }
+      } else if (name === DATA_ENTRY && manifest) {
+        data = JSON.parse(await readEntry(entry)) as BundleData;
+        galleryIds = newIds(data.galleries);
+        photoIds = newIds(data.photos);
+        bundlePhotos = new Map(data.photos.map((photo) => [photo.id, photo]));
+      } else if (name.startsWith(FILES_DIR) && data && entry.header.type === "file") {
+        // Files are named after the photo ID in the bundle
+        const extension = path.extname(name);
+        const photo = bundlePhotos.get(path.basename(name, extension));
+        const galleryId = photo && galleryIds.get(photo.galleryId);
+        if (!photo || !galleryId || !IMAGE_EXTENSION.test(extension)) {
+          entry.resume();
+          continue;
+        }
+
+        const target = `uploads/galleries/${galleryId}/${randomUUID()}${extension.toLowerCase()}`;
+        await fs.promises.mkdir(path.dirname(target), { recursive: true });
+        writtenFiles.push(target);
+        await writeEntry(entry, target);
+        photoFiles.set(photo.id, target);
+      } else {
+        entry.resume();
+      }
+    }
+    await done;
+
+    if (!manifest || !data) {
+      throw new Error("Gallery bundle is incomplete");
+    }
+
+    const rootGallery = data.galleries.find(
+      (gallery) => !gallery.parentId || !galleryIds.has(gallery.parentId),
+    );
+    if (!rootGallery) {
+      throw new Error("Gallery bundle contains no gallery");
+    }
+    const rootId = galleryIds.get(rootGallery.id)!;
+    const visitorIds = newIds(data.visitors);
+    const roundIds = newIds(data.proofingRounds);
+    // Rows of photos whose file is missing in the bundle are left out
+    const hasPhoto = (row: Row) => photoFiles.has(row.photoId);
+    const revive = (key: keyof BundleData) =>
+      (data![key] || []).map((row) => reviveRow(BUNDLE_TABLES[key], row));
+    const columns = (key: keyof BundleData, row: Row): Row =>
+      BUNDLE_SCHEMAS[key].parse(row);
+
+    const rows: BundleData = {
+      galleries: sortParentsFirst(revive("galleries")).map((gallery) => ({
+        ...columns("galleries", gallery),
+        id: galleryIds.get(gallery.id),
+        parentId: gallery.parentId ? galleryIds.get(gallery.parentId) || null : null,
+        userId,
+      })),
+      photos: revive("photos")
+        .filter((photo) => photoFiles.has(photo.id))
+        .map((photo) => ({
+          ...columns("photos", photo),
+          id: photoIds.get(photo.id),
+          galleryId: galleryIds.get(photo.galleryId),
+          filename: path.basename(photoFiles.get(photo.id)!),
+          filePath: photoFiles.get(photo.id),
+          // Derivatives are generated anew by the thumbnail jobs
+          processingStatus: "processing",
+        })),
+      photoMetadata: revive("photoMetadata")
+        .filter(hasPhoto)
+        .map((metadata) => ({
+          ...columns("photoMetadata", metadata),
+          id: randomUUID(),
+          photoId: photoIds.get(metadata.photoId),
+        })),
+      photoLikes: revive("photoLikes")
+        .filter(hasPhoto)
+        .map((like) => ({
+          ...columns("photoLikes", like),
+          id: randomUUID(),
+          photoId: photoIds.get(like.photoId),
+        })),
+      comments: revive("comments")
+        .filter(hasPhoto)
+        .map((comment) => ({
+          ...columns("comments", comment),
+          id: randomUUID(),
+          photoId: photoIds.get(comment.photoId),
+        })),
+      // Visitors belong to the top-level gallery, which is the imported root
+      visitors: revive("visitors").map((visitor) => ({
+        ...columns("visitors", visitor),
+        id: visitorIds.get(visitor.id),
+        galleryId: rootId,
+        userId: null,
+      })),
+      visitorPicks: revive("visitorPicks")
+        .filter((pick) => hasPhoto(pick) && visitorIds.has(pick.visitorId))
+        .map((pick) => ({
+          ...columns("visitorPicks", pick),
+          id: randomUUID(),
+          visitorId: visitorIds.get(pick.visitorId),
+          photoId: photoIds.get(pick.photoId),
+        })),
+      proofingRounds: revive("proofingRounds")
+        .filter((round) => galleryIds.has(round.galleryId))
+        .map((round) => ({
+          ...columns("proofingRounds", round),
+          id: roundIds.get(round.id),
+          galleryId: galleryIds.get(round.galleryId),
+        })),
+      proofingSubmissions: revive("proofingSubmissions")
+        .filter(
+          (submission) =>
+            roundIds.has(submission.roundId) && visitorIds.has(submission.visitorId),
+        )
+        .map((submission) => ({
+          ...columns("proofingSubmissions", submission),
+          id: randomUUID(),
+          roundId: roundIds.get(submission.roundId),
+          visitorId: visitorIds.get(submission.visitorId),
+          photoIds: (submission.photoIds || [])
+            .filter((photoId: string) => photoFiles.has(photoId))
+            .map((photoId: string) => photoIds.get(photoId)),
+        })),
+      shareLinks: revive("shareLinks")
+        .filter((link) => galleryIds.has(link.galleryId))
+        .map((link) => ({
+          ...columns("shareLinks", link),
+          id: randomUUID(),
+          galleryId: galleryIds.get(link.galleryId),
+          token: generateShareToken(),
+          createdBy: userId,
+          lastUsedAt: null,
+        })),
+    };
+
+    await db.transaction(async (tx) => {
+      for (const key of Object.keys(BUNDLE_TABLES) as (keyof BundleData)[]) {
+        await insertRows(tx, BUNDLE_TABLES[key], rows[key]);
+      }
+    });
+    committed = true;
+
+    for (const photo of rows.photos) {
+      await JobQueue.enqueue(THUMBNAIL_JOB, { photoId: photo.id });
+    }
+
+    return {
+      gallery: (await storage.getGallery(rootId))!,
+      galleries: rows.galleries.length,
+      photos: rows.photos.length,
+    };
+  } catch (error) {
+    if (committed) throw error;
+
+    // Nothing of a failed import stays behind
+    for (const file of writtenFiles) {
+      await fs.promises.unlink(file).catch(() => {});
+    }
+    for (const galleryId of Array.from(galleryIds.values())) {
+      await fs.promises.rmdir(`uploads/galleries/${galleryId}`).catch(() => {});
+    }
+    throw error;
+  }
+}
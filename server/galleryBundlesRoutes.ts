@@ -0,0 +1,151 @@
+import type { Express } from "express";
+import crypto from "crypto";
+import fs from "fs";
+import multer from "multer";
+import { storage } from "./storage";
+import { authenticateJWT, requireAdminOrCreator, requireStaff } from "./auth";
+import { requireGalleryPermission } from "./galleryPermissions";
+import { exportGalleryBundle, importGalleryBundle } from "./galleryBundles";
+import { recordAuditEvent } from "./audit";
+
+// Export of a gallery tree as bundle for another FotoStube instance and the
+// import of such bundles. Like the ZIP downloads, the export is prepared by
+// an authenticated request and then fetched once through a short-lived link.
+
+const EXPORT_LINK_LIFETIME = 5 * 60 * 1000;
+
+const bundleUpload = multer({
+  dest: "uploads/tmp",
+  fileFilter: (req, file, cb) => {
+    if (/\.(tar\.gz|tgz)$/i.test(file.originalname)) {
+      return cb(null, true);
+    }
+    cb(new Error("Nur Galerie-Exporte (.tar.gz) sind erlaubt"));
+  },
+});
+
+const toBundleFilename = (galleryName: string) =>
+  `galerie-${galleryName.replace(/[^\w-]+/g, "_").slice(0, 50) || "export"}.tar.gz`;
+
+export async function registerGalleryBundlesRoutes(app: Express): Promise<void> {
+  const exportCache = new Map<string, { galleryId: string; expiresAt: number }>();
+
+  // Cleanup expired links every minute
+  setInterval(() => {
+    const now = Date.now();
+    for (const [token, entry] of Array.from(exportCache.entries())) {
+      if (entry.expiresAt < now) {
+        exportCache.delete(token);
+      }
+    }
+  }, 60000);
+
+  app.post(
+    "/api/galleries/:id/export",
+    authenticateJWT,
+    requireStaff,
+    requireGalleryPermission("manage"),
+    async (req: any, res) => {
+      try {
+        const gallery = await storage.getGallery(req.params.id);
+        const token = crypto.randomBytes(32).toString("hex");
+        exportCache.set(token, {
+          galleryId: req.params.id,
+          expiresAt: Date.now() + EXPORT_LINK_LIFETIME,
+        });
+
+        await recordAuditEvent(req, {
+          action: "gallery.export",
+          targetType: "gallery",
+          targetId: req.params.id,
+          targetName: gallery?.name,
+        });
+
+        res.json({ downloadUrl: `/api/gallery-exports/${token}` });
+      } catch (error) {
+        console.error("Prepare gallery export error:", error);
+        res.status(500).json({ error: "Fehler beim Vorbereiten des Exports" });
+      }
+    },
+  );
+
+  app.get("/api/gallery-exports/:token", async (req, res) => {
+    const entry = exportCache.get(req.params.token);
+    // One-time link
+    exportCache.delete(req.params.token);
+
+    try {
+      const gallery = entry && (await storage.getGallery(entry.galleryId));
+      if (!entry || entry.expiresAt < Date.now() || !gallery) {
+        return res
+          .status(404)
+          .json({ error: "Export-Link abgelaufen oder ungültig" });
+      }
+
+      res.setHeader("Content-Type", "application/gzip");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${toBundleFilename(gallery.name)}"`,
+      );
+      await exportGalleryBundle(gallery.id, res);
+    } catch (error) {
+      console.error("Gallery export error:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Fehler beim Exportieren der Galerie" });
+      } else {
+        res.destroy();
+      }
+    }
+  });
+
+  app.post(
+    "/api/galleries/import",
+    authenticateJWT,
+    requireAdminOrCreator,
+    bundleUpload.single("bundle"),
+    async (req: any, res) => {
+      try {
+        if (!req.file) {
+          return res.status(400).json({ error: "Keine Datei hochgeladen" });
+        }
+
+        // Admins choose the owner, creators import for themselves
+        const ownerId = req.body.userId || req.user.userId;
+        if (req.user.role !== "Admin" && ownerId !== req.user.userId) {
+          return res.status(403).json({ error: "Keine Berechtigung" });
+        }
+        const owner = await storage.getUser(ownerId);
+        if (!owner || (owner.role !== "Admin" && owner.role !== "Creator")) {
+          return res
+            .status(400)
+            .json({ error: "Der Besitzer muss ein Admin oder Creator sein" });
+        }
+
+        const result = await importGalleryBundle(req.file.path, owner.id);
+
+        await recordAuditEvent(req, {
+          action: "gallery.import",
+          targetType: "gallery",
+          targetId: result.gallery.id,
+          targetName: result.gallery.name,
+          details: {
+            owner: owner.name,
+            galleries: result.galleries,
+            photos: result.photos,
+          },
+        });
+
+        res.status(201).json(result);
+      } catch (error) {
+        console.error("Import gallery error:", error);
+        res.status(400).json({
+          error: "Der Galerie-Export konnte nicht importiert werden",
+        });
+      } finally {
+        if (req.file) {
+          fs.promises.unlink(req.file.path).catch(() => {});
+        }
+      }
+    },
+  );
+}
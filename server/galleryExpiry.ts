@@ -0,0 +1,131 @@
+import fs from "fs";
+import { storage } from "./storage";
+import { JobQueue } from "./jobQueue";
+import { THUMBNAIL_JOB } from "./thumbnailJobs";
+import { getRootGalleryId } from "./visitors";
+import { isClientRole } from "./clients";
+import { changeGalleryStatus } from "./galleryStatus";
+import {
+  sendGalleryExpiryOwnerEmail,
+  sendGalleryExpiryReminderEmail,
+} from "./mailer";
+import type { Gallery } from "@shared/schema";
+
+// Galleries can be given an expiry date on the top-level gallery, its
+// sub-galleries expire along with it. Afterwards the public view only shows
+// that the gallery has expired, staff keeps full access. Clients and the
+// owner are reminded before, expired galleries can optionally be archived:
+// thumbnails and medium versions are deleted and regenerated when extended.
+
+const DAY = 24 * 60 * 60 * 1000;
+// Guards against parent loops in broken data
+const MAX_GALLERY_DEPTH = 10;
+
+export const isGalleryExpired = (gallery: Pick<Gallery, "expiresAt">) =>
+  !!gallery.expiresAt && gallery.expiresAt.getTime() <= Date.now();
+
+// The top-level gallery if it has expired, for any gallery of its tree
+export async function getExpiredRootGallery(galleryId: string): Promise<Gallery | null> {
+  const rootGallery = await storage.getGallery(await getRootGalleryId(galleryId));
+  return rootGallery && isGalleryExpired(rootGallery) ? rootGallery : null;
+}
+
+// Body of the 410 response, public clients show an expired page for it
+export const toExpiredResponse = (gallery: Gallery) => ({
+  error: "Diese Galerie ist abgelaufen",
+  expired: true,
+  galleryName: gallery.name,
+  expiresAt: gallery.expiresAt,
+});
+
+async function getGalleryTreeIds(galleryId: string): Promise<string[]> {
+  const galleryIds = [galleryId];
+  let parentIds = [galleryId];
+  for (let depth = 0; parentIds.length > 0 && depth < MAX_GALLERY_DEPTH; depth++) {
+    const children: string[] = [];
+    for (const parentId of parentIds) {
+      const subGalleries = await storage.getSubGalleriesByParentId(parentId);
+      children.push(...subGalleries.map((gallery) => gallery.id));
+    }
+    galleryIds.push(...children);
+    parentIds = children;
+  }
+  return galleryIds;
+}
+
+async function sendExpiryReminders(gallery: Gallery) {
+  const expiresAt = gallery.expiresAt!;
+
+  for (const assignment of await storage.getGalleryAssignments(gallery.id)) {
+    const user = await storage.getUser(assignment.userId);
+    if (user && isClientRole(user.role)) {
+      await sendGalleryExpiryReminderEmail(
+        user.email,
+        user.name,
+        gallery.id,
+        gallery.name,
+        expiresAt,
+      );
+    }
+  }
+
+  const owner = await storage.getUser(gallery.userId);
+  if (owner) {
+    await sendGalleryExpiryOwnerEmail(owner.email, owner.name, gallery.name, expiresAt);
+  }
+}
+
+// Deletes the derivatives of all photos, the originals stay untouched
+export async function archiveGallery(gallery: Gallery): Promise<void> {
+  for (const galleryId of await getGalleryTreeIds(gallery.id)) {
+    for (const photo of await storage.getPhotosByGalleryId(galleryId)) {
+      for (const filePath of [photo.thumbnailPath, photo.mediumPath]) {
+        if (filePath) await fs.promises.unlink(filePath).catch(() => {});
+      }
+      await storage.updatePhoto(photo.id, { thumbnailPath: null, mediumPath: null });
+    }
+  }
+  await storage.updateGalleryExpiry(gallery.id, { archivedAt: new Date() });
+}
+
+// Queues the derivatives of an archived gallery for regeneration
+export async function unarchiveGallery(gallery: Gallery): Promise<void> {
+  for (const galleryId of await getGalleryTreeIds(gallery.id)) {
+    for (const photo of await storage.getPhotosByGalleryId(galleryId)) {
+      if (photo.thumbnailPath && photo.mediumPath) continue;
+      await storage.updatePhoto(photo.id, { processingStatus: "processing" });
+      await JobQueue.enqueue(THUMBNAIL_JOB, { photoId: photo.id });
+    }
+  }
+  await storage.updateGalleryExpiry(gallery.id, { archivedAt: null });
+}
+
+// Sends due reminders and archives expired galleries if enabled
+export async function processGalleryExpiry(): Promise<{ reminded: number; archived: number }> {
+  const settings = await storage.getSystemSettings();
+  const reminderDays = settings?.expiryReminderDays ?? 14;
+  const archiveExpired = settings?.archiveExpiredGalleries ?? false;
+
+  let reminded = 0;
+  let archived = 0;
+  for (const gallery of await storage.getGalleriesWithExpiry()) {
+    if (isGalleryExpired(gallery)) {
+      if (archiveExpired && !gallery.archivedAt) {
+        await archiveGallery(gallery);
+        await changeGalleryStatus(gallery.id, "archived");
+        archived++;
+      }
+    } else if (
+      reminderDays > 0 &&
+      !gallery.expiryReminderSentAt &&
+      gallery.expiresAt!.getTime() - Date.now() <= reminderDays * DAY
+    ) {
+      // Marked first, a failing mail server must not cause a reminder every hour
+      await storage.updateGalleryExpiry(gallery.id, { expiryReminderSentAt: new Date() });
+      await sendExpiryReminders(gallery);
+      reminded++;
+    }
+  }
+
+  return { reminded, archived };
+}
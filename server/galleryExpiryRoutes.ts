@@ -0,0 +1,82 @@
+import type { Express } from "express";
+import { storage } from "./storage";
+import { authenticateJWT, requireStaff } from "./auth";
+import { requireGalleryPermission } from "./galleryPermissions";
+import { recordAuditEvent } from "./audit";
+import { isGalleryExpired, processGalleryExpiry, unarchiveGallery } from "./galleryExpiry";
+
+// Expiry dates of galleries: reminders and archiving run hourly, owners
+// extend or remove the expiry of their top-level galleries.
+
+async function checkGalleryExpiry() {
+  try {
+    const { reminded, archived } = await processGalleryExpiry();
+    if (reminded > 0 || archived > 0) {
+      console.log(
+        `Sent expiry reminders for ${reminded} gallery(s), archived ${archived} expired gallery(s)`,
+      );
+    }
+  } catch (error) {
+    console.error("Gallery expiry error:", error);
+  }
+}
+
+export async function registerGalleryExpiryRoutes(app: Express): Promise<void> {
+  // Reminders and archiving every hour
+  checkGalleryExpiry();
+  setInterval(checkGalleryExpiry, 60 * 60 * 1000);
+
+  app.patch(
+    "/api/galleries/:id/expiry",
+    authenticateJWT,
+    requireStaff,
+    requireGalleryPermission("manage"),
+    async (req: any, res) => {
+      try {
+        const gallery = await storage.getGallery(req.params.id);
+        if (!gallery) {
+          return res.status(404).json({ error: "Galerie nicht gefunden" });
+        }
+        if (gallery.parentId) {
+          return res.status(400).json({
+            error: "Das Ablaufdatum wird in der übergeordneten Galerie festgelegt",
+          });
+        }
+
+        const { expiresAt } = req.body;
+        const newExpiresAt =
+          expiresAt === null || expiresAt === undefined || expiresAt === ""
+            ? null
+            : new Date(expiresAt);
+        if (newExpiresAt && isNaN(newExpiresAt.getTime())) {
+          return res.status(400).json({ error: "Ungültiges Ablaufdatum" });
+        }
+
+        // A new date gets its own reminder
+        let updated = await storage.updateGalleryExpiry(gallery.id, {
+          expiresAt: newExpiresAt,
+          expiryReminderSentAt: null,
+        });
+        if (updated?.archivedAt && !isGalleryExpired(updated)) {
+          await unarchiveGallery(updated);
+          updated = await storage.getGallery(gallery.id);
+        }
+
+        await recordAuditEvent(req, {
+          action: "gallery.expiry_change",
+          targetType: "gallery",
+          targetId: gallery.id,
+          targetName: gallery.name,
+          before: { expiresAt: gallery.expiresAt },
+          after: { expiresAt: newExpiresAt },
+          details: gallery.archivedAt && !updated?.archivedAt ? { unarchived: true } : undefined,
+        });
+
+        res.json(updated);
+      } catch (error) {
+        console.error("Update gallery expiry error:", error);
+        res.status(500).json({ error: "Fehler beim Ändern des Ablaufdatums" });
+      }
+    },
+  );
+}
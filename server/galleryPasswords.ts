@@ -0,0 +1,52 @@
+import type { Request, Response } from "express";
+import crypto from "crypto";
+import { COOKIE_SECRET } from "./auth";
+import type { Gallery } from "@shared/schema";
+
+const ACCESS_COOKIE_PREFIX = "gallery_access_";
+const ACCESS_COOKIE_MAX_AGE = 30 * 24 * 60 * 60 * 1000; // 30 Tage
+
+// Ties the cookie to the current password hash, so setting a new password
+// invalidates all access cookies handed out before
+function getPasswordFingerprint(passwordHash: string): string {
+  return crypto
+    .createHmac("sha256", COOKIE_SECRET)
+    .update(passwordHash)
+    .digest("hex")
+    .slice(0, 32);
+}
+
+// Remembers a successful password check for the top-level gallery, which
+// also protects its sub-galleries. The client never has to keep the password.
+export function setGalleryAccessCookie(res: Response, rootGallery: Gallery) {
+  if (!rootGallery.password) return;
+
+  const expiresAt = Date.now() + ACCESS_COOKIE_MAX_AGE;
+  res.cookie(
+    ACCESS_COOKIE_PREFIX + rootGallery.id,
+    `${expiresAt}.${getPasswordFingerprint(rootGallery.password)}`,
+    {
+      httpOnly: true,
+      signed: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      maxAge: ACCESS_COOKIE_MAX_AGE,
+    },
+  );
+}
+
+export function hasGalleryPasswordAccess(
+  req: Request,
+  rootGallery: Gallery,
+): boolean {
+  if (!rootGallery.password) return true;
+
+  const value = req.signedCookies?.[ACCESS_COOKIE_PREFIX + rootGallery.id];
+  if (typeof value !== "string") return false;
+
+  const [expiresAt, fingerprint] = value.split(".");
+  return (
+    Number(expiresAt) > Date.now() &&
+    fingerprint === getPasswordFingerprint(rootGallery.password)
+  );
+}
@@ -0,0 +1,118 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import { storage } from "./storage";
+import { registerGalleriesRoutes } from "./galleriesRoutes";
+import { registerShareLinksRoutes } from "./shareLinksRoutes";
+import {
+  createTestApp,
+  createTestGallery,
+  createTestPhoto,
+  createTestUser,
+} from "./testing";
+import type { Gallery, Photo } from "@shared/schema";
+
+describe("gallery permissions", () => {
+  let app: Express;
+  let owner: Awaited<ReturnType<typeof createTestUser>>;
+  let gallery: Gallery;
+  let subGallery: Gallery;
+  let photo: Photo;
+
+  beforeAll(async () => {
+    app = await createTestApp(registerGalleriesRoutes, registerShareLinksRoutes);
+    owner = await createTestUser("Creator");
+    gallery = await createTestGallery(owner.user);
+    subGallery = await createTestGallery(owner.user, { parentId: gallery.id });
+    photo = await createTestPhoto(subGallery.id);
+  });
+
+  const assign = async (permission: "view" | "comment" | "upload" | "manage") => {
+    const assignee = await createTestUser("User");
+    await storage.assignGalleryToUsers(gallery.id, [assignee.user.id], permission);
+    return assignee;
+  };
+
+  it("hides galleries from staff without an assignment", async () => {
+    const stranger = await createTestUser("Creator");
+
+    const res = await request(app)
+      .get(`/api/galleries/${gallery.id}`)
+      .set("Authorization", stranger.auth);
+
+    expect(res.status).toBe(404);
+  });
+
+  it("lets sub-galleries inherit the assignment of their parent", async () => {
+    const viewer = await assign("view");
+
+    const res = await request(app)
+      .get(`/api/galleries/${subGallery.id}`)
+      .set("Authorization", viewer.auth);
+
+    expect(res.status).toBe(200);
+    expect(res.body.id).toBe(subGallery.id);
+  });
+
+  it("requires the comment level to rate a photo", async () => {
+    const viewer = await assign("view");
+    const commenter = await assign("comment");
+
+    const denied = await request(app)
+      .post(`/api/photos/${photo.id}/rating`)
+      .set("Authorization", viewer.auth)
+      .send({ rating: 4 });
+    const allowed = await request(app)
+      .post(`/api/photos/${photo.id}/rating`)
+      .set("Authorization", commenter.auth)
+      .send({ rating: 4 });
+
+    expect(denied.status).toBe(403);
+    expect(allowed.status).toBe(200);
+    expect(allowed.body.photo.rating).toBe(4);
+  });
+
+  it("requires the upload level to add photos", async () => {
+    const commenter = await assign("comment");
+    const uploader = await assign("upload");
+    const body = { filename: "a.jpg", originalName: "a.jpg", alt: "a" };
+
+    const denied = await request(app)
+      .post(`/api/galleries/${subGallery.id}/photos`)
+      .set("Authorization", commenter.auth)
+      .send(body);
+    const allowed = await request(app)
+      .post(`/api/galleries/${subGallery.id}/photos`)
+      .set("Authorization", uploader.auth)
+      .send(body);
+
+    expect(denied.status).toBe(403);
+    expect(allowed.status).toBe(201);
+  });
+
+  it("requires the manage level for share links", async () => {
+    const uploader = await assign("upload");
+    const manager = await assign("manage");
+
+    const denied = await request(app)
+      .get(`/api/galleries/${gallery.id}/share-links`)
+      .set("Authorization", uploader.auth);
+    const allowed = await request(app)
+      .get(`/api/galleries/${gallery.id}/share-links`)
+      .set("Authorization", manager.auth);
+
+    expect(denied.status).toBe(403);
+    expect(allowed.status).toBe(200);
+  });
+
+  it("keeps clients out of the staff routes whatever they are assigned", async () => {
+    const client = await createTestUser("Client");
+    await storage.assignGalleryToUsers(gallery.id, [client.user.id], "manage");
+
+    const res = await request(app)
+      .get(`/api/galleries/${gallery.id}`)
+      .set("Authorization", client.auth);
+
+    expect(res.status).toBe(403);
+  });
+});
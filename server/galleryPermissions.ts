@@ -0,0 +1,128 @@
+import type { Response, NextFunction } from "express";
+import { storage } from "./storage";
+import type { JWTPayload } from "./auth";
+import { GALLERY_PERMISSIONS, type GalleryPermission } from "@shared/schema";
+
+// Access of staff accounts to a gallery. Admins and the owner may do
+// everything, assigned users get the level of their assignment. Sub-galleries
+// inherit the permission of their parent galleries.
+
+// Guards against parent loops in broken data
+export const MAX_GALLERY_DEPTH = 10;
+
+export const hasGalleryPermission = (
+  permission: GalleryPermission | null,
+  required: GalleryPermission,
+) =>
+  permission !== null &&
+  GALLERY_PERMISSIONS.indexOf(permission) >=
+    GALLERY_PERMISSIONS.indexOf(required);
+
+// Permission of the user on the gallery, null without any access. Galleries
+// in the trash are only considered for restoring them.
+export async function getGalleryPermission(
+  user: JWTPayload,
+  galleryId: string,
+  includeTrashed = false,
+): Promise<GalleryPermission | null> {
+  if (user.role === "Admin") return "manage";
+
+  let best: GalleryPermission | null = null;
+  let currentId: string | null = galleryId;
+  for (let depth = 0; currentId && depth < MAX_GALLERY_DEPTH; depth++) {
+    const gallery = await storage.getGallery(currentId, includeTrashed);
+    if (!gallery) break;
+
+    if (gallery.userId === user.userId) return "manage";
+
+    const permission = await storage.getGalleryAssignmentPermission(
+      gallery.id,
+      user.userId,
+    );
+    if (permission && !hasGalleryPermission(best, permission)) {
+      best = permission;
+    }
+
+    currentId = gallery.parentId;
+  }
+
+  return best;
+}
+
+const sendPermissionError = (
+  res: Response,
+  permission: GalleryPermission | null,
+) =>
+  permission === null
+    ? res.status(404).json({ error: "Galerie nicht gefunden" })
+    : res.status(403).json({ error: "Keine Berechtigung für diese Galerie" });
+
+// Middleware: the gallery of the route (:galleryId, :parentId or :id) needs
+// at least the given permission. Routes on records of a gallery pass
+// getGalleryId to resolve it, unknown records are left to the route.
+export function requireGalleryPermission(
+  required: GalleryPermission,
+  getGalleryId?: (req: any) => Promise<string | undefined>,
+) {
+  return async (req: any, res: Response, next: NextFunction) => {
+    try {
+      const galleryId: string | undefined = getGalleryId
+        ? await getGalleryId(req)
+        : req.params.galleryId || req.params.parentId || req.params.id;
+      if (!galleryId && getGalleryId) return next();
+
+      const gallery = galleryId ? await storage.getGallery(galleryId) : undefined;
+      if (!gallery) {
+        return res.status(404).json({ error: "Galerie nicht gefunden" });
+      }
+
+      const permission = await getGalleryPermission(req.user, gallery.id);
+      if (!hasGalleryPermission(permission, required)) {
+        return sendPermissionError(res, permission);
+      }
+
+      req.galleryPermission = permission;
+      next();
+    } catch (error) {
+      console.error("Gallery permission error:", error);
+      res.status(500).json({ error: "Fehler beim Prüfen der Berechtigung" });
+    }
+  };
+}
+
+// Middleware: the photo of the route (:photoId or :id) or all photos in
+// req.body.photoIds need at least the given permission on their galleries.
+// Unknown photos are left to the route.
+export function requirePhotoPermission(required: GalleryPermission) {
+  return async (req: any, res: Response, next: NextFunction) => {
+    try {
+      const photoId = req.params.photoId || req.params.id;
+      const photoIds: unknown[] = photoId
+        ? [photoId]
+        : Array.isArray(req.body?.photoIds)
+          ? req.body.photoIds
+          : [];
+
+      const photos = await storage.getPhotosByIds(
+        photoIds.filter((id): id is string => typeof id === "string"),
+      );
+      const galleryIds = Array.from(
+        new Set(photos.map((photo) => photo.galleryId)),
+      );
+
+      for (const galleryId of galleryIds) {
+        const permission = await getGalleryPermission(req.user, galleryId);
+        if (!hasGalleryPermission(permission, required)) {
+          return permission === null
+            ? res.status(404).json({ error: "Foto nicht gefunden" })
+            : sendPermissionError(res, permission);
+        }
+      }
+
+      next();
+    } catch (error) {
+      console.error("Photo permission error:", error);
+      res.status(500).json({ error: "Fehler beim Prüfen der Berechtigung" });
+    }
+  };
+}
@@ -0,0 +1,97 @@
+import { storage } from "./storage";
+import { getRootGalleryId } from "./visitors";
+import { isClientRole } from "./clients";
+import type { Gallery, GalleryStatus } from "@shared/schema";
+
+// Lifecycle status of a job, kept on the top-level gallery and shared by its
+// sub-galleries. Staff moves galleries along GALLERY_STATUS_TRANSITIONS,
+// steps the system sees happen on their own: sharing the gallery, opening a
+// selection round, a submitted selection and finals uploaded while editing.
+
+export const GALLERY_STATUS_LABELS: Record<GalleryStatus, string> = {
+  draft: "Entwurf",
+  shared: "Geteilt",
+  selecting: "Auswahl läuft",
+  editing: "In Bearbeitung",
+  delivered: "Geliefert",
+  archived: "Archiviert",
+};
+
+interface StatusActor {
+  userId?: string; // Staff member, not notified about their own change
+  name?: string; // Visitors have a name only
+}
+
+// Drafts are not reachable through any public route
+export async function isDraftGallery(galleryId: string): Promise<boolean> {
+  const rootGallery = await storage.getGallery(await getRootGalleryId(galleryId));
+  return rootGallery?.status === "draft";
+}
+
+// Owner and assigned staff, clients are not told about internal steps
+async function notifyStatusChange(
+  gallery: Gallery,
+  previous: GalleryStatus,
+  actor: StatusActor,
+) {
+  const recipients = new Set([gallery.userId]);
+  for (const assignment of await storage.getGalleryAssignments(gallery.id)) {
+    const user = await storage.getUser(assignment.userId);
+    if (user && !isClientRole(user.role)) recipients.add(user.id);
+  }
+  if (actor.userId) recipients.delete(actor.userId);
+
+  const actorName =
+    actor.name ?? (actor.userId ? (await storage.getUser(actor.userId))?.name : undefined);
+  const status = GALLERY_STATUS_LABELS[gallery.status as GalleryStatus];
+  const message = actorName
+    ? `${actorName} hat den Status der Galerie "${gallery.name}" von "${GALLERY_STATUS_LABELS[previous]}" auf "${status}" geändert`
+    : `Der Status der Galerie "${gallery.name}" ist jetzt "${status}" (vorher "${GALLERY_STATUS_LABELS[previous]}")`;
+
+  for (const userId of Array.from(recipients)) {
+    await storage.createNotification({
+      userId,
+      galleryId: gallery.id,
+      type: "status",
+      message,
+      actorName: actorName ?? null,
+      isRead: false,
+    });
+  }
+}
+
+// Sets the status of the gallery's top-level gallery. With fromStatuses it
+// is only changed while the gallery has one of them. Returns the gallery if
+// the status changed.
+export async function changeGalleryStatus(
+  galleryId: string,
+  status: GalleryStatus,
+  options: { fromStatuses?: GalleryStatus[]; actor?: StatusActor } = {},
+): Promise<Gallery | undefined> {
+  const rootGallery = await storage.getGallery(await getRootGalleryId(galleryId));
+  if (!rootGallery || rootGallery.status === status) return undefined;
+
+  const updated = await storage.updateGalleryStatus(
+    rootGallery.id,
+    status,
+    options.fromStatuses,
+  );
+  if (updated) {
+    await notifyStatusChange(updated, rootGallery.status as GalleryStatus, options.actor ?? {});
+  }
+  return updated;
+}
+
+// Automatic step after an action, failures must not fail the action itself
+export async function advanceGalleryStatus(
+  galleryId: string,
+  fromStatuses: GalleryStatus[],
+  status: GalleryStatus,
+  actor: StatusActor = {},
+): Promise<void> {
+  try {
+    await changeGalleryStatus(galleryId, status, { fromStatuses, actor });
+  } catch (error) {
+    console.error("Error advancing gallery status:", error);
+  }
+}
@@ -0,0 +1,75 @@
+import type { Express } from "express";
+import { storage } from "./storage";
+import { authenticateJWT, requireStaff } from "./auth";
+import { requireGalleryPermission } from "./galleryPermissions";
+import { recordAuditEvent } from "./audit";
+import { changeGalleryStatus, GALLERY_STATUS_LABELS } from "./galleryStatus";
+import {
+  GALLERY_STATUSES,
+  GALLERY_STATUS_TRANSITIONS,
+  type GalleryStatus,
+} from "@shared/schema";
+
+// Manual status changes of top-level galleries along the defined transitions
+
+export async function registerGalleryStatusRoutes(app: Express): Promise<void> {
+  app.patch(
+    "/api/galleries/:id/status",
+    authenticateJWT,
+    requireStaff,
+    requireGalleryPermission("manage"),
+    async (req: any, res) => {
+      try {
+        const gallery = await storage.getGallery(req.params.id);
+        if (!gallery) {
+          return res.status(404).json({ error: "Galerie nicht gefunden" });
+        }
+        if (gallery.parentId) {
+          return res.status(400).json({
+            error: "Der Status wird in der übergeordneten Galerie festgelegt",
+          });
+        }
+
+        const { status } = req.body;
+        if (!GALLERY_STATUSES.includes(status)) {
+          return res.status(400).json({ error: "Ungültiger Status" });
+        }
+
+        const current = gallery.status as GalleryStatus;
+        if (current === status) {
+          return res.json(gallery);
+        }
+        if (!GALLERY_STATUS_TRANSITIONS[current].includes(status)) {
+          return res.status(409).json({
+            error: `Von "${GALLERY_STATUS_LABELS[current]}" kann nicht zu "${GALLERY_STATUS_LABELS[status as GalleryStatus]}" gewechselt werden`,
+          });
+        }
+
+        // Checked against the current status again, a concurrent change wins
+        const updated = await changeGalleryStatus(gallery.id, status, {
+          fromStatuses: [current],
+          actor: { userId: req.user.userId },
+        });
+        if (!updated) {
+          return res
+            .status(409)
+            .json({ error: "Der Status wurde zwischenzeitlich geändert" });
+        }
+
+        await recordAuditEvent(req, {
+          action: "gallery.status_change",
+          targetType: "gallery",
+          targetId: gallery.id,
+          targetName: gallery.name,
+          before: { status: current },
+          after: { status: updated.status },
+        });
+
+        res.json(updated);
+      } catch (error) {
+        console.error("Change gallery status error:", error);
+        res.status(500).json({ error: "Fehler beim Ändern des Status" });
+      }
+    },
+  );
+}
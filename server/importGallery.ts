@@ -0,0 +1,39 @@
+import { storage } from "./storage";
+import { importGalleryBundle } from "./galleryBundles";
+
+// Imports a gallery export of another instance for a user (name or e-mail):
+//   npm run gallery:import -- galerie-hochzeit.tar.gz anna
+
+async function main() {
+  const [archivePath, ownerName] = process.argv.slice(2);
+  if (!archivePath || !ownerName) {
+    console.error("Usage: npm run gallery:import -- <bundle.tar.gz> <user name or e-mail>");
+    process.exit(1);
+  }
+
+  const owner =
+    (await storage.getUserByName(ownerName)) ||
+    (await storage.getUserByEmail(ownerName.toLowerCase()));
+  if (!owner || (owner.role !== "Admin" && owner.role !== "Creator")) {
+    console.error(`No Admin or Creator account "${ownerName}" found`);
+    process.exit(1);
+  }
+
+  console.log(`Importing ${archivePath} for ${owner.name}...`);
+  const result = await importGalleryBundle(archivePath, owner.id);
+
+  console.log(
+    `Gallery "${result.gallery.name}" imported: ${result.galleries} galleries, ${result.photos} photos`,
+  );
+  if (result.photos > 0) {
+    console.log("Thumbnails are generated by the server in the background");
+  }
+}
+
+main().then(
+  () => process.exit(0),
+  (error) => {
+    console.error("Import failed:", error);
+    process.exit(1);
+  },
+);
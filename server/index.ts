@@ -3,27 +3,48 @@ import cookieParser from "cookie-parser";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { createServer } from "http";
+import { JobQueue } from "./jobQueue";
+import { registerThumbnailJobs } from "./thumbnailJobs";
+import { COOKIE_SECRET } from "./auth";
+import { migrate } from "./migrations";
 
 const app = express();
-app.use(cookieParser());
+
+// Client IPs (e.g. for rate limiting) come from X-Forwarded-For only when it
+// is set by a trusted proxy. Anyone else could pick their own IP with it, so
+// proxies outside this host have to be named in TRUST_PROXY.
+app.set("trust proxy", process.env.TRUST_PROXY || "loopback");
+app.use(cookieParser(COOKIE_SECRET));
 
 // Middleware to parse JSON request bodies
 app.use(express.json());
 
-// Register all application routes
-await registerRoutes(app);
+(async () => {
+	// Bring the database schema up to date before anything touches it
+	await migrate();
+
+	// Register all application routes
+	await registerRoutes(app);
+
+	// Start background workers (thumbnail generation etc.)
+	registerThumbnailJobs();
+	JobQueue.start();
 
-// Setup Vite or static serving based on environment
-const server = createServer(app);
+	// Setup Vite or static serving based on environment
+	const server = createServer(app);
 
-if (process.env.NODE_ENV === "production") {
-	serveStatic(app);
-} else {
-	await setupVite(app, server);
-}
+	if (process.env.NODE_ENV === "production") {
+		serveStatic(app);
+	} else {
+		await setupVite(app, server);
+	}
 
-// Start the server
-const PORT = process.env.PORT || 5000;
-server.listen(PORT, "0.0.0.0", () => {
-	log(`Server is running on http://0.0.0.0:${PORT}`);
-});
\ No newline at end of file
+	// Start the server
+	const PORT = process.env.PORT || 5000;
+	server.listen(PORT, "0.0.0.0", () => {
+		log(`Server is running on http://0.0.0.0:${PORT}`);
+	});
+})().catch((error) => {
+	console.error("Server startup failed:", error);
+	process.exit(1);
+});
@@ -0,0 +1,58 @@
+import crypto from "crypto";
+import { storage } from "./storage";
+import { sendInvitationEmail } from "./mailer";
+import type { UserInvitation } from "@shared/schema";
+
+// Email invitations for new users. The invitee chooses their own password
+// via a single-use link, the user account is only created at that point.
+
+export const INVITATION_LIFETIME = 7 * 24 * 60 * 60 * 1000;
+
+export const hashInvitationToken = (token: string) =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+export const isInvitationExpired = (invitation: UserInvitation) =>
+  invitation.expiresAt.getTime() <= Date.now();
+
+// Name and email must be free among users and other pending invitations
+export async function getInvitationConflict(
+  name: string,
+  email: string,
+): Promise<string | null> {
+  if (await storage.getUserByName(name)) {
+    return "Name wird bereits verwendet";
+  }
+  if (await storage.getUserByEmail(email)) {
+    return "E-Mail wird bereits verwendet";
+  }
+  if (await storage.getUserInvitationByEmail(email)) {
+    return "Für diese E-Mail gibt es bereits eine Einladung";
+  }
+  return null;
+}
+
+// A new token invalidates any earlier link of the invitation
+export function generateInvitationToken() {
+  const token = crypto.randomBytes(32).toString("hex");
+  return {
+    token,
+    tokenHash: hashInvitationToken(token),
+    expiresAt: new Date(Date.now() + INVITATION_LIFETIME),
+  };
+}
+
+export async function emailInvitation(
+  invitation: UserInvitation,
+  token: string,
+): Promise<boolean> {
+  const inviter = invitation.invitedBy
+    ? await storage.getUser(invitation.invitedBy)
+    : undefined;
+  return sendInvitationEmail(
+    invitation.email,
+    token,
+    invitation.name,
+    inviter?.name || null,
+    invitation.expiresAt,
+  );
+}
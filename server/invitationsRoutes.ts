@@ -0,0 +1,248 @@
+import type { Express } from "express";
+import bcrypt from "bcrypt";
+import { storage } from "./storage";
+import { authenticateJWT, requireAdmin } from "./auth";
+import {
+  emailInvitation,
+  generateInvitationToken,
+  getInvitationConflict,
+  hashInvitationToken,
+  isInvitationExpired,
+} from "./invitations";
+import { recordAuditEvent } from "./audit";
+import { USER_ROLES, type UserInvitation } from "@shared/schema";
+
+// Admins invite users by email, the invitee sets their password on the
+// accept-invite page. Pending invitations can be resent and revoked.
+
+const toInvitationResponse = (invitation: UserInvitation) => ({
+  id: invitation.id,
+  name: invitation.name,
+  email: invitation.email,
+  role: invitation.role,
+  expiresAt: invitation.expiresAt,
+  lastSentAt: invitation.lastSentAt,
+  createdAt: invitation.createdAt,
+  isExpired: isInvitationExpired(invitation),
+});
+
+export async function registerInvitationsRoutes(app: Express): Promise<void> {
+  app.get(
+    "/api/invitations",
+    authenticateJWT,
+    requireAdmin,
+    async (req: any, res) => {
+      try {
+        const invitations = await storage.getUserInvitations();
+        res.json(invitations.map(toInvitationResponse));
+      } catch (error) {
+        console.error("Get invitations error:", error);
+        res.status(500).json({ error: "Fehler beim Laden der Einladungen" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/invitations",
+    authenticateJWT,
+    requireAdmin,
+    async (req: any, res) => {
+      try {
+        const name = req.body.name?.trim();
+        const email = req.body.email?.trim().toLowerCase();
+        const role = req.body.role || "User";
+
+        if (!name || !email) {
+          return res
+            .status(400)
+            .json({ error: "Name und E-Mail sind erforderlich" });
+        }
+
+        if (!USER_ROLES.includes(role)) {
+          return res.status(400).json({ error: "Ungültige Rolle" });
+        }
+
+        const conflict = await getInvitationConflict(name, email);
+        if (conflict) {
+          return res.status(400).json({ error: conflict });
+        }
+
+        const { token, tokenHash, expiresAt } = generateInvitationToken();
+        const invitation = await storage.createUserInvitation({
+          name,
+          email,
+          role,
+          tokenHash,
+          invitedBy: req.user.userId,
+          expiresAt,
+        });
+
+        const emailSent = await emailInvitation(invitation, token);
+
+        await recordAuditEvent(req, {
+          action: "user.invite",
+          targetType: "invitation",
+          targetId: invitation.id,
+          targetName: invitation.name,
+          after: { name, email, role },
+          details: { emailSent },
+        });
+
+        res
+          .status(201)
+          .json({ ...toInvitationResponse(invitation), emailSent });
+      } catch (error) {
+        console.error("Create invitation error:", error);
+        res.status(500).json({ error: "Fehler beim Erstellen der Einladung" });
+      }
+    },
+  );
+
+  // Sends a new link, the previous one stops working
+  app.post(
+    "/api/invitations/:id/resend",
+    authenticateJWT,
+    requireAdmin,
+    async (req: any, res) => {
+      try {
+        const { token, tokenHash, expiresAt } = generateInvitationToken();
+        const invitation = await storage.updateUserInvitation(req.params.id, {
+          tokenHash,
+          expiresAt,
+          lastSentAt: new Date(),
+        });
+        if (!invitation) {
+          return res.status(404).json({ error: "Einladung nicht gefunden" });
+        }
+
+        const emailSent = await emailInvitation(invitation, token);
+
+        await recordAuditEvent(req, {
+          action: "user.invite_resend",
+          targetType: "invitation",
+          targetId: invitation.id,
+          targetName: invitation.name,
+          details: { emailSent },
+        });
+
+        res.json({ ...toInvitationResponse(invitation), emailSent });
+      } catch (error) {
+        console.error("Resend invitation error:", error);
+        res.status(500).json({ error: "Fehler beim erneuten Senden der Einladung" });
+      }
+    },
+  );
+
+  app.delete(
+    "/api/invitations/:id",
+    authenticateJWT,
+    requireAdmin,
+    async (req: any, res) => {
+      try {
+        const invitation = await storage.getUserInvitation(req.params.id);
+        const success = await storage.deleteUserInvitation(req.params.id);
+        if (!invitation || !success) {
+          return res.status(404).json({ error: "Einladung nicht gefunden" });
+        }
+        await recordAuditEvent(req, {
+          action: "user.invite_revoke",
+          targetType: "invitation",
+          targetId: invitation.id,
+          targetName: invitation.name,
+          details: { email: invitation.email },
+        });
+        res.json({ success: true });
+      } catch (error) {
+        console.error("Revoke invitation error:", error);
+        res.status(500).json({ error: "Fehler beim Widerrufen der Einladung" });
+      }
+    },
+  );
+
+  // Shown on the accept-invite page before the password is chosen
+  app.get("/api/auth/invitation", async (req, res) => {
+    try {
+      const token = typeof req.query.token === "string" ? req.query.token : "";
+      const invitation = token
+        ? await storage.getUserInvitationByHash(hashInvitationToken(token))
+        : undefined;
+
+      if (!invitation || isInvitationExpired(invitation)) {
+        return res
+          .status(404)
+          .json({ error: "Ungültiger oder abgelaufener Einladungslink" });
+      }
+
+      res.json({ name: invitation.name, email: invitation.email });
+    } catch (error) {
+      console.error("Get invitation error:", error);
+      res.status(500).json({ error: "Fehler beim Laden der Einladung" });
+    }
+  });
+
+  app.post("/api/auth/accept-invitation", async (req, res) => {
+    try {
+      const { token, password } = req.body;
+
+      if (!token || !password) {
+        return res
+          .status(400)
+          .json({ error: "Token und Passwort sind erforderlich" });
+      }
+
+      if (password.length < 6) {
+        return res
+          .status(400)
+          .json({ error: "Passwort muss mindestens 6 Zeichen lang sein" });
+      }
+
+      const invitation = await storage.getUserInvitationByHash(
+        hashInvitationToken(token),
+      );
+      if (!invitation || isInvitationExpired(invitation)) {
+        return res
+          .status(400)
+          .json({ error: "Ungültiger oder abgelaufener Einladungslink" });
+      }
+
+      // The name or email may have been taken since the invitation was sent
+      if (
+        (await storage.getUserByName(invitation.name)) ||
+        (await storage.getUserByEmail(invitation.email))
+      ) {
+        return res.status(409).json({
+          error:
+            "Name oder E-Mail wird bereits verwendet - bitte wende dich an den Administrator",
+        });
+      }
+
+      // Single use: whoever deletes the invitation creates the user
+      if (!(await storage.deleteUserInvitation(invitation.id))) {
+        return res
+          .status(400)
+          .json({ error: "Ungültiger oder abgelaufener Einladungslink" });
+      }
+
+      const user = await storage.createUser({
+        name: invitation.name,
+        email: invitation.email,
+        password: await bcrypt.hash(password, 10),
+        role: invitation.role,
+      });
+
+      await recordAuditEvent(req, {
+        action: "user.invite_accept",
+        targetType: "user",
+        targetId: user.id,
+        targetName: user.name,
+        details: { role: user.role, invitedBy: invitation.invitedBy },
+        actor: { id: user.id, name: user.name },
+      });
+
+      res.json({ message: "Konto erfolgreich erstellt" });
+    } catch (error) {
+      console.error("Accept invitation error:", error);
+      res.status(500).json({ error: "Fehler beim Annehmen der Einladung" });
+    }
+  });
+}
@@ -0,0 +1,146 @@
+import { storage } from "./storage";
+import type { Job } from "@shared/schema";
+
+export interface JobHandler {
+  // Does the actual work - throwing marks the attempt as failed
+  run: (payload: any, job: Job) => Promise<void>;
+  // Called once after the last attempt has failed
+  onFailed?: (payload: any, job: Job, error: Error) => Promise<void>;
+}
+
+export interface JobQueueOptions {
+  concurrency: number;
+  pollInterval: number; // ms between polls when the queue is empty
+  retryDelay: number; // base delay in ms, doubled on every attempt
+  staleAfter: number; // ms after which a running job counts as abandoned
+}
+
+export const JOB_QUEUE_DEFAULTS: JobQueueOptions = {
+  concurrency: parseInt(process.env.JOB_CONCURRENCY || "2", 10),
+  pollInterval: 2000,
+  retryDelay: 5000,
+  staleAfter: 10 * 60 * 1000,
+};
+
+export class JobQueue {
+  private static handlers = new Map<string, JobHandler>();
+  private static options: JobQueueOptions = JOB_QUEUE_DEFAULTS;
+  private static running = 0;
+  private static started = false;
+  private static timer: NodeJS.Timeout | null = null;
+
+  static registerHandler(type: string, handler: JobHandler) {
+    this.handlers.set(type, handler);
+  }
+
+  static async enqueue(
+    type: string,
+    payload: Record<string, any>,
+    maxAttempts: number = 3,
+  ): Promise<Job> {
+    const job = await storage.createJob({ type, payload, maxAttempts });
+    // Wake up the workers instead of waiting for the next poll
+    this.poll();
+    return job;
+  }
+
+  static async start(options: Partial<JobQueueOptions> = {}) {
+    if (this.started) return;
+    this.options = { ...JOB_QUEUE_DEFAULTS, ...options };
+    this.started = true;
+
+    try {
+      const released = await storage.releaseStaleJobs(
+        new Date(Date.now() - this.options.staleAfter),
+      );
+      if (released > 0) {
+        console.log(`Job queue: ${released} abandoned job(s) re-queued`);
+      }
+    } catch (error) {
+      console.error("Job queue: failed to release stale jobs:", error);
+    }
+
+    console.log(
+      `Job queue started (concurrency: ${this.options.concurrency})`,
+    );
+    this.poll();
+  }
+
+  static stop() {
+    this.started = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private static schedulePoll() {
+    if (!this.started || this.timer) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.poll();
+    }, this.options.pollInterval);
+  }
+
+  private static async poll() {
+    if (!this.started) return;
+
+    // Fill up all free worker slots
+    while (this.running < this.options.concurrency) {
+      let job: Job | undefined;
+      this.running++;
+      try {
+        job = await storage.claimNextJob(Array.from(this.handlers.keys()));
+      } catch (error) {
+        console.error("Job queue: failed to claim job:", error);
+      }
+
+      if (!job) {
+        this.running--;
+        break;
+      }
+
+      this.process(job).finally(() => {
+        this.running--;
+        this.poll();
+      });
+    }
+
+    this.schedulePoll();
+  }
+
+  private static async process(job: Job) {
+    const handler = this.handlers.get(job.type);
+    if (!handler) {
+      await storage.failJob(job.id, `Kein Handler für Job-Typ "${job.type}"`);
+      return;
+    }
+
+    try {
+      await handler.run(job.payload, job);
+      await storage.completeJob(job.id);
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err));
+      console.error(
+        `Job ${job.id} (${job.type}) failed on attempt ${job.attempts}/${job.maxAttempts}:`,
+        error,
+      );
+
+      try {
+        if (job.attempts < job.maxAttempts) {
+          const delay = this.options.retryDelay * 2 ** (job.attempts - 1);
+          await storage.retryJob(
+            job.id,
+            error.message,
+            new Date(Date.now() + delay),
+          );
+        } else {
+          await storage.failJob(job.id, error.message);
+          await handler.onFailed?.(job.payload, job, error);
+        }
+      } catch (updateError) {
+        console.error(`Job ${job.id}: failed to record failure:`, updateError);
+      }
+    }
+  }
+}
@@ -75,3 +75,177 @@ export async function sendPasswordResetEmail(
     return false;
   }
 }
+
+export async function sendInvitationEmail(
+  email: string,
+  inviteToken: string,
+  userName: string,
+  inviterName: string | null,
+  expiresAt: Date
+): Promise<boolean> {
+  try {
+    const settings = await storage.getSystemSettings();
+    const transporter = await createTransporter();
+
+    // Erstelle den Einladungs-Link
+    const inviteUrl = `${settings?.appUrl || process.env.APP_URL || 'http://localhost:5000'}/accept-invite?token=${inviteToken}`;
+    const inviter = inviterName ? `${inviterName} hat dich` : 'Du wurdest';
+    const validUntil = expiresAt.toLocaleDateString('de-DE');
+
+    const mailOptions = {
+      from: settings?.smtpFrom || process.env.SMTP_FROM || process.env.SMTP_USER,
+      to: email,
+      subject: 'Einladung zu FotoStube',
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>Einladung zu FotoStube</h2>
+          <p>Hallo ${userName},</p>
+          <p>${inviter} zu FotoStube eingeladen.</p>
+          <p>Klicke auf den folgenden Link, um dein Passwort festzulegen und dein Konto zu aktivieren:</p>
+          <p style="margin: 20px 0;">
+            <a href="${inviteUrl}" style="background-color: #4CAF50; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px; display: inline-block;">
+              Einladung annehmen
+            </a>
+          </p>
+          <p>Dieser Link ist bis zum ${validUntil} gültig und kann nur einmal verwendet werden.</p>
+          <hr style="margin: 30px 0; border: none; border-top: 1px solid #ddd;">
+          <p style="color: #666; font-size: 12px;">
+            Falls der Button nicht funktioniert, kopiere diesen Link in deinen Browser:<br>
+            ${inviteUrl}
+          </p>
+        </div>
+      `,
+      text: `
+        Hallo ${userName},
+        
+        ${inviter} zu FotoStube eingeladen.
+        
+        Verwende den folgenden Link, um dein Passwort festzulegen und dein Konto zu aktivieren:
+        ${inviteUrl}
+        
+        Dieser Link ist bis zum ${validUntil} gültig und kann nur einmal verwendet werden.
+      `,
+    };
+
+    await transporter.sendMail(mailOptions);
+    console.log('Invitation email sent to:', email);
+    return true;
+  } catch (error) {
+    console.error('Error sending invitation email:', error);
+    return false;
+  }
+}
+
+// Erinnerung an Kunden, dass die Galerie bald nicht mehr erreichbar ist
+export async function sendGalleryExpiryReminderEmail(
+  email: string,
+  userName: string,
+  galleryId: string,
+  galleryName: string,
+  expiresAt: Date
+): Promise<boolean> {
+  try {
+    const settings = await storage.getSystemSettings();
+    const transporter = await createTransporter();
+
+    const galleryUrl = `${settings?.appUrl || process.env.APP_URL || 'http://localhost:5000'}/gallery/${galleryId}`;
+    const availableUntil = expiresAt.toLocaleDateString('de-DE');
+
+    const mailOptions = {
+      from: settings?.smtpFrom || process.env.SMTP_FROM || process.env.SMTP_USER,
+      to: email,
+      subject: `Deine Galerie "${galleryName}" läuft bald ab`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>Deine Galerie läuft bald ab</h2>
+          <p>Hallo ${userName},</p>
+          <p>die Galerie "${galleryName}" ist nur noch bis zum ${availableUntil} online.</p>
+          <p>Lade dir bis dahin die Fotos herunter, die du behalten möchtest:</p>
+          <p style="margin: 20px 0;">
+            <a href="${galleryUrl}" style="background-color: #4CAF50; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px; display: inline-block;">
+              Galerie öffnen
+            </a>
+          </p>
+          <p>Falls du länger Zugriff benötigst, melde dich einfach bei uns.</p>
+          <hr style="margin: 30px 0; border: none; border-top: 1px solid #ddd;">
+          <p style="color: #666; font-size: 12px;">
+            Falls der Button nicht funktioniert, kopiere diesen Link in deinen Browser:<br>
+            ${galleryUrl}
+          </p>
+        </div>
+      `,
+      text: `
+        Hallo ${userName},
+        
+        die Galerie "${galleryName}" ist nur noch bis zum ${availableUntil} online.
+        
+        Lade dir bis dahin die Fotos herunter, die du behalten möchtest:
+        ${galleryUrl}
+        
+        Falls du länger Zugriff benötigst, melde dich einfach bei uns.
+      `,
+    };
+
+    await transporter.sendMail(mailOptions);
+    console.log('Gallery expiry reminder sent to:', email);
+    return true;
+  } catch (error) {
+    console.error('Error sending gallery expiry reminder:', error);
+    return false;
+  }
+}
+
+// Hinweis an den Fotografen, damit die Galerie bei Bedarf verlängert werden kann
+export async function sendGalleryExpiryOwnerEmail(
+  email: string,
+  userName: string,
+  galleryName: string,
+  expiresAt: Date
+): Promise<boolean> {
+  try {
+    const settings = await storage.getSystemSettings();
+    const transporter = await createTransporter();
+
+    const galleriesUrl = `${settings?.appUrl || process.env.APP_URL || 'http://localhost:5000'}/galleries`;
+    const availableUntil = expiresAt.toLocaleDateString('de-DE');
+
+    const mailOptions = {
+      from: settings?.smtpFrom || process.env.SMTP_FROM || process.env.SMTP_USER,
+      to: email,
+      subject: `Galerie "${galleryName}" läuft am ${availableUntil} ab`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>Galerie läuft bald ab</h2>
+          <p>Hallo ${userName},</p>
+          <p>deine Galerie "${galleryName}" ist nur noch bis zum ${availableUntil} öffentlich erreichbar. Deine Kunden wurden ebenfalls daran erinnert.</p>
+          <p>Falls die Galerie länger online bleiben soll, kannst du das Ablaufdatum in der Galerieübersicht verlängern:</p>
+          <p style="margin: 20px 0;">
+            <a href="${galleriesUrl}" style="background-color: #4CAF50; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px; display: inline-block;">
+              Zur Galerieübersicht
+            </a>
+          </p>
+          <hr style="margin: 30px 0; border: none; border-top: 1px solid #ddd;">
+          <p style="color: #666; font-size: 12px;">
+            Falls der Button nicht funktioniert, kopiere diesen Link in deinen Browser:<br>
+            ${galleriesUrl}
+          </p>
+        </div>
+      `,
+      text: `
+        Hallo ${userName},
+        
+        deine Galerie "${galleryName}" ist nur noch bis zum ${availableUntil} öffentlich erreichbar. Deine Kunden wurden ebenfalls daran erinnert.
+        
+        Falls die Galerie länger online bleiben soll, kannst du das Ablaufdatum in der Galerieübersicht verlängern:
+        ${galleriesUrl}
+      `,
+    };
+
+    await transporter.sendMail(mailOptions);
+    console.log('Gallery expiry notice sent to:', email);
+    return true;
+  } catch (error) {
+    console.error('Error sending gallery expiry notice:', error);
+    return false;
+  }
+}
@@ -0,0 +1,145 @@
+import crypto from "crypto";
+import { COOKIE_SECRET } from "./auth";
+import type { FinalPhoto, Photo } from "@shared/schema";
+
+// Photo files are only reachable through short-lived signed URLs. Whoever
+// hands out a URL has checked the access to the gallery before.
+
+export const MEDIA_VARIANTS = ["thumbnail", "medium", "original"] as const;
+export type MediaVariant = (typeof MEDIA_VARIANTS)[number];
+
+const MEDIA_SECRET = process.env.MEDIA_SECRET || COOKIE_SECRET;
+const MEDIA_URL_TTL = 60 * 60 * 1000; // 1 Stunde
+// Expiry is rounded up so that repeated requests get the same URL and the
+// browser cache keeps working
+const MEDIA_URL_WINDOW = 10 * 60 * 1000; // 10 Minuten
+
+// Finals are signed with a prefix, a signature for a final is never valid
+// for a photo and vice versa
+const getFinalSubject = (finalId: string) => `final:${finalId}`;
+
+function signMedia(subject: string, variant: MediaVariant, expires: number) {
+  return crypto
+    .createHmac("sha256", MEDIA_SECRET)
+    .update(`${subject}:${variant}:${expires}`)
+    .digest("hex");
+}
+
+const getUrlExpiry = () =>
+  Math.ceil((Date.now() + MEDIA_URL_TTL) / MEDIA_URL_WINDOW) * MEDIA_URL_WINDOW;
+
+export function getMediaUrl(photoId: string, variant: MediaVariant): string {
+  const expires = getUrlExpiry();
+  const signature = signMedia(photoId, variant, expires);
+  return `/api/media/${photoId}/${variant}?expires=${expires}&signature=${signature}`;
+}
+
+export function getFinalMediaUrl(finalId: string, variant: MediaVariant): string {
+  const expires = getUrlExpiry();
+  const signature = signMedia(getFinalSubject(finalId), variant, expires);
+  return `/api/media/finals/${finalId}/${variant}?expires=${expires}&signature=${signature}`;
+}
+
+export function verifyMediaSignature(
+  photoId: string,
+  variant: MediaVariant,
+  expires: number,
+  signature: string,
+): boolean {
+  return verifySignature(photoId, variant, expires, signature);
+}
+
+export function verifyFinalMediaSignature(
+  finalId: string,
+  variant: MediaVariant,
+  expires: number,
+  signature: string,
+): boolean {
+  return verifySignature(getFinalSubject(finalId), variant, expires, signature);
+}
+
+function verifySignature(
+  subject: string,
+  variant: MediaVariant,
+  expires: number,
+  signature: string,
+): boolean {
+  if (!Number.isFinite(expires) || expires < Date.now()) {
+    return false;
+  }
+
+  const expected = Buffer.from(signMedia(subject, variant, expires));
+  const actual = Buffer.from(signature);
+  return (
+    expected.length === actual.length &&
+    crypto.timingSafeEqual(expected, actual)
+  );
+}
+
+// Thumbnails fall back to the medium version, never to the original - it
+// would hand out originals where downloading is not permitted
+export function getMediaFilePath(
+  photo: Photo,
+  variant: MediaVariant,
+): string | null {
+  switch (variant) {
+    case "thumbnail":
+      return photo.thumbnailPath || photo.mediumPath;
+    case "medium":
+      return photo.mediumPath;
+    case "original":
+      return (
+        photo.filePath ||
+        `uploads/galleries/${photo.galleryId}/${photo.filename}`
+      );
+  }
+}
+
+export function getFinalMediaFilePath(
+  finalPhoto: FinalPhoto,
+  variant: MediaVariant,
+): string | null {
+  switch (variant) {
+    case "thumbnail":
+      return finalPhoto.thumbnailPath || finalPhoto.mediumPath;
+    case "medium":
+      return finalPhoto.mediumPath;
+    case "original":
+      return finalPhoto.filePath;
+  }
+}
+
+// Adds signed URLs to the photos. The original is only included when the
+// requester may download it.
+export function withMediaUrls<T extends Photo>(
+  photos: T[],
+  includeOriginal: boolean,
+): (T & {
+  thumbnailUrl: string | null;
+  mediumUrl: string | null;
+  originalUrl: string | null;
+})[] {
+  return photos.map((photo) => ({
+    ...photo,
+    thumbnailUrl:
+      photo.thumbnailPath || photo.mediumPath
+        ? getMediaUrl(photo.id, "thumbnail")
+        : null,
+    mediumUrl: photo.mediumPath ? getMediaUrl(photo.id, "medium") : null,
+    originalUrl: includeOriginal ? getMediaUrl(photo.id, "original") : null,
+  }));
+}
+
+// Signed URLs of a final, the original only where finals may be downloaded
+export function getFinalMediaUrls(finalPhoto: FinalPhoto, includeOriginal: boolean) {
+  return {
+    thumbnailUrl:
+      finalPhoto.thumbnailPath || finalPhoto.mediumPath
+        ? getFinalMediaUrl(finalPhoto.id, "thumbnail")
+        : null,
+    mediumUrl: finalPhoto.mediumPath
+      ? getFinalMediaUrl(finalPhoto.id, "medium")
+      : null,
+    originalUrl: includeOriginal ? getFinalMediaUrl(finalPhoto.id, "original") : null,
+  };
+}
@@ -0,0 +1,109 @@
+import type { Express, Response } from "express";
+import path from "path";
+import { storage } from "./storage";
+import {
+  MEDIA_VARIANTS,
+  getFinalMediaFilePath,
+  getMediaFilePath,
+  verifyFinalMediaSignature,
+  verifyMediaSignature,
+  type MediaVariant,
+} from "./media";
+
+function sendMediaFile(
+  res: Response,
+  filePath: string,
+  expires: number,
+  downloadName?: string,
+) {
+  // The browser may keep the file as long as the URL is valid
+  const maxAge = Math.max(Math.floor((expires - Date.now()) / 1000), 0);
+  res.setHeader("Cache-Control", `private, max-age=${maxAge}`);
+  if (downloadName) {
+    res.attachment(downloadName);
+  }
+
+  res.sendFile(path.resolve(filePath), (error) => {
+    if (error && !res.headersSent) {
+      console.error(`Could not send media file ${filePath}:`, error);
+      res.status(404).json({ error: "Datei nicht gefunden" });
+    }
+  });
+}
+
+export async function registerMediaRoutes(app: Express): Promise<void> {
+  app.get("/api/media/:photoId/:variant", async (req, res) => {
+    try {
+      const { photoId } = req.params;
+      const variant = req.params.variant as MediaVariant;
+      const expires = Number(req.query.expires);
+      const signature =
+        typeof req.query.signature === "string" ? req.query.signature : "";
+
+      if (
+        !MEDIA_VARIANTS.includes(variant) ||
+        !verifyMediaSignature(photoId, variant, expires, signature)
+      ) {
+        return res
+          .status(403)
+          .json({ error: "Ungültiger oder abgelaufener Link" });
+      }
+
+      // Thumbnails of trashed photos are still shown in the trash
+      const photo = await storage.getPhoto(photoId, variant === "thumbnail");
+      if (!photo) {
+        return res.status(404).json({ error: "Foto nicht gefunden" });
+      }
+
+      const filePath = getMediaFilePath(photo, variant);
+      if (!filePath) {
+        return res.status(404).json({ error: "Datei nicht gefunden" });
+      }
+
+      sendMediaFile(res, filePath, expires);
+    } catch (error) {
+      console.error("Get media error:", error);
+      res.status(500).json({ error: "Fehler beim Laden der Datei" });
+    }
+  });
+
+  app.get("/api/media/finals/:finalId/:variant", async (req, res) => {
+    try {
+      const { finalId } = req.params;
+      const variant = req.params.variant as MediaVariant;
+      const expires = Number(req.query.expires);
+      const signature =
+        typeof req.query.signature === "string" ? req.query.signature : "";
+
+      if (
+        !MEDIA_VARIANTS.includes(variant) ||
+        !verifyFinalMediaSignature(finalId, variant, expires, signature)
+      ) {
+        return res
+          .status(403)
+          .json({ error: "Ungültiger oder abgelaufener Link" });
+      }
+
+      const finalPhoto = await storage.getFinalPhoto(finalId);
+      if (!finalPhoto) {
+        return res.status(404).json({ error: "Foto nicht gefunden" });
+      }
+
+      const filePath = getFinalMediaFilePath(finalPhoto, variant);
+      if (!filePath) {
+        return res.status(404).json({ error: "Datei nicht gefunden" });
+      }
+
+      // Originals of finals are only ever downloaded, under the uploaded name
+      sendMediaFile(
+        res,
+        filePath,
+        expires,
+        variant === "original" ? finalPhoto.originalName : undefined,
+      );
+    } catch (error) {
+      console.error("Get final media error:", error);
+      res.status(500).json({ error: "Fehler beim Laden der Datei" });
+    }
+  });
+}
@@ -0,0 +1,142 @@
+import sharp from 'sharp';
+import exifReader from 'exif-reader';
+import type { InsertPhotoMetadata, PhotoMetadata } from '@shared/schema';
+
+export type ExtractedMetadata = Omit<InsertPhotoMetadata, 'photoId'>;
+
+// IPTC IIM datasets (record 2) we are interested in
+const IPTC_BYLINE = 80;
+const IPTC_DATE_CREATED = 55;
+const IPTC_COPYRIGHT = 116;
+
+export class MetadataExtractor {
+  static async extract(filePath: string): Promise<ExtractedMetadata> {
+    const metadata = await sharp(filePath).metadata();
+
+    // EXIF orientations 5-8 are rotated by 90°, so width and height swap
+    const rotated = (metadata.orientation || 1) >= 5;
+    const result: ExtractedMetadata = {
+      width: (rotated ? metadata.height : metadata.width) ?? null,
+      height: (rotated ? metadata.width : metadata.height) ?? null,
+    };
+
+    if (metadata.exif) {
+      try {
+        const exif = exifReader(metadata.exif);
+        const image = exif.Image || {};
+        const photo = exif.Photo || {};
+
+        result.cameraMake = this.cleanString(image.Make);
+        result.cameraModel = this.cleanString(image.Model);
+        result.lens = this.cleanString(photo.LensModel);
+        result.focalLength = this.toNumber(photo.FocalLength);
+        result.aperture = this.toNumber(photo.FNumber);
+        result.exposureTime = this.toNumber(photo.ExposureTime);
+        result.iso = this.toNumber(photo.ISOSpeedRatings);
+        result.capturedAt = this.toDate(photo.DateTimeOriginal ?? image.DateTime);
+        result.artist = this.cleanString(image.Artist);
+        result.copyright = this.cleanString(image.Copyright);
+      } catch (error) {
+        console.warn(`Could not parse EXIF data of ${filePath}:`, error);
+      }
+    }
+
+    // IPTC fills gaps EXIF leaves (common for files exported from Lightroom)
+    if (metadata.iptc) {
+      const iptc = this.parseIptc(metadata.iptc);
+      result.artist = result.artist || iptc[IPTC_BYLINE] || null;
+      result.copyright = result.copyright || iptc[IPTC_COPYRIGHT] || null;
+      if (!result.capturedAt && iptc[IPTC_DATE_CREATED]) {
+        const match = iptc[IPTC_DATE_CREATED].match(/^(\d{4})(\d{2})(\d{2})$/);
+        if (match) {
+          result.capturedAt = new Date(`${match[1]}-${match[2]}-${match[3]}`);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  // Reads the IPTC IIM records 2:xx, returns dataset number -> value
+  static parseIptc(buffer: Buffer): Record<number, string> {
+    const values: Record<number, string> = {};
+    let i = 0;
+
+    while (i < buffer.length - 5) {
+      if (buffer[i] !== 0x1c || buffer[i + 1] !== 0x02) {
+        i++;
+        continue;
+      }
+
+      const dataset = buffer[i + 2];
+      const length = buffer.readUInt16BE(i + 3);
+      // Extended datasets (length > 32767) are never used for text fields
+      if (length & 0x8000) {
+        i += 5;
+        continue;
+      }
+
+      const value = buffer.subarray(i + 5, i + 5 + length).toString('utf8').trim();
+      if (value && !values[dataset]) {
+        values[dataset] = value;
+      }
+      i += 5 + length;
+    }
+
+    return values;
+  }
+
+  // Formats stored metadata for display - only the requested fields
+  static toDisplayFields(metadata: PhotoMetadata, fields: readonly string[]) {
+    const camera = [metadata.cameraMake, metadata.cameraModel]
+      .filter(Boolean)
+      .join(' ');
+    const all: Record<string, unknown> = {
+      camera: camera || null,
+      lens: metadata.lens,
+      focalLength: metadata.focalLength,
+      aperture: metadata.aperture,
+      exposureTime: metadata.exposureTime,
+      iso: metadata.iso,
+      capturedAt: metadata.capturedAt,
+      artist: metadata.artist,
+      copyright: metadata.copyright,
+      dimensions:
+        metadata.width && metadata.height
+          ? { width: metadata.width, height: metadata.height }
+          : null,
+    };
+
+    const result: Record<string, unknown> = {};
+    for (const field of fields) {
+      if (all[field] !== null && all[field] !== undefined) {
+        result[field] = all[field];
+      }
+    }
+    return result;
+  }
+
+  private static cleanString(value: unknown): string | null {
+    if (typeof value !== 'string') return null;
+    // EXIF strings are often padded with NUL bytes or spaces
+    const cleaned = value.replace(/\0/g, '').trim();
+    return cleaned || null;
+  }
+
+  private static toNumber(value: unknown): number | null {
+    const number = Array.isArray(value) ? value[0] : value;
+    return typeof number === 'number' && isFinite(number) ? number : null;
+  }
+
+  private static toDate(value: unknown): Date | null {
+    if (value instanceof Date) {
+      return isNaN(value.getTime()) ? null : value;
+    }
+    if (typeof value === 'string') {
+      // EXIF format: "YYYY:MM:DD HH:MM:SS"
+      const date = new Date(value.replace(/^(\d{4}):(\d{2}):(\d{2})/, '$1-$2-$3'));
+      return isNaN(date.getTime()) ? null : date;
+    }
+    return null;
+  }
+}
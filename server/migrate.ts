@@ -0,0 +1,55 @@
+import dotenv from "dotenv";
+dotenv.config();
+import { getMigrationStatus, migrate, rollback } from "./migrations";
+
+// Schema migrations on the command line, the server also migrates on startup:
+//   npm run db:migrate
+//   npm run db:status
+//   npm run db:rollback -- [steps]
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 19).replace("T", " ");
+
+async function main() {
+  const [command = "up", argument] = process.argv.slice(2);
+
+  if (command === "up") {
+    const applied = await migrate();
+    console.log(
+      applied.length > 0
+        ? `${applied.length} migration(s) applied`
+        : "Database schema is up to date",
+    );
+  } else if (command === "status") {
+    for (const migration of await getMigrationStatus()) {
+      const state = migration.appliedAt
+        ? `${migration.baselined ? "baselined" : "applied"} ${formatDate(migration.appliedAt)}`
+        : "pending";
+      const notes = [
+        migration.modified ? "modified after it was applied" : "",
+        migration.reversible ? "" : "irreversible",
+      ].filter(Boolean);
+      console.log(
+        `${migration.tag.padEnd(40)} ${state}${notes.length > 0 ? ` (${notes.join(", ")})` : ""}`,
+      );
+    }
+  } else if (command === "rollback") {
+    const steps = argument ? parseInt(argument, 10) : 1;
+    if (!Number.isInteger(steps) || steps < 1) {
+      console.error("Usage: npm run db:rollback -- [steps]");
+      process.exit(1);
+    }
+    const reverted = await rollback(steps);
+    console.log(`${reverted.length} migration(s) rolled back`);
+  } else {
+    console.error("Usage: tsx server/migrate.ts [up|status|rollback [steps]]");
+    process.exit(1);
+  }
+}
+
+main().then(
+  () => process.exit(0),
+  (error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  },
+);
@@ -0,0 +1,51 @@
+import { storage, db } from './storage';
+import { MetadataExtractor } from './metadataExtractor';
+import { photos, photoMetadata } from '@shared/schema';
+import { eq, isNull } from 'drizzle-orm';
+import fs from 'fs';
+
+// Backfills EXIF/IPTC metadata for photos uploaded before metadata extraction
+// existed. Usage: npx tsx server/migrateMetadata.ts [--force]
+async function migrateMetadata(force: boolean) {
+  console.log('Starting metadata migration...');
+
+  try {
+    // Without --force only photos without a metadata row are processed
+    const allPhotos = force
+      ? await db.select().from(photos)
+      : (
+          await db
+            .select({ photo: photos })
+            .from(photos)
+            .leftJoin(photoMetadata, eq(photoMetadata.photoId, photos.id))
+            .where(isNull(photoMetadata.id))
+        ).map((row) => row.photo);
+
+    console.log(`Found ${allPhotos.length} photos to migrate`);
+
+    let migrated = 0;
+    for (const photo of allPhotos) {
+      const originalPath = photo.filePath || `uploads/galleries/${photo.galleryId}/${photo.filename}`;
+
+      if (!fs.existsSync(originalPath)) {
+        console.warn(`Original file not found: ${originalPath}`);
+        continue;
+      }
+
+      try {
+        const metadata = await MetadataExtractor.extract(originalPath);
+        await storage.upsertPhotoMetadata({ ...metadata, photoId: photo.id });
+        migrated++;
+        console.log(`✓ Extracted metadata for ${photo.filename}`);
+      } catch (error) {
+        console.error(`✗ Error extracting metadata for ${photo.filename}:`, error);
+      }
+    }
+
+    console.log(`Metadata migration completed! (${migrated}/${allPhotos.length})`);
+  } catch (error) {
+    console.error('Migration failed:', error);
+  }
+}
+
+migrateMetadata(process.argv.includes('--force')).then(() => process.exit(0));
@@ -0,0 +1,326 @@
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import pg from "pg";
+
+// Versioned schema migrations. The SQL files in migrations/ are generated from
+// shared/schema.ts with `npm run db:generate` and applied in journal order,
+// each in its own transaction. Applied migrations are tracked in
+// schema_migrations, an advisory lock keeps concurrent instances from
+// migrating at the same time. Rollbacks use a hand-written <tag>.down.sql.
+
+export const MIGRATIONS_DIR = process.env.MIGRATIONS_DIR || "migrations";
+
+const MIGRATIONS_TABLE = "schema_migrations";
+const STATEMENT_BREAKPOINT = "--> statement-breakpoint";
+// Arbitrary but fixed, shared by every instance using the same database
+const MIGRATION_LOCK_ID = 4_805_210_917;
+
+export interface Migration {
+  tag: string;
+  hash: string;
+  statements: string[];
+  down: string[] | null; // Null if the migration can't be rolled back
+}
+
+export interface AppliedMigration {
+  tag: string;
+  hash: string;
+  appliedAt: Date;
+  baselined: boolean; // Recorded for an existing installation instead of run
+}
+
+export interface MigrationStatus {
+  tag: string;
+  appliedAt: Date | null;
+  baselined: boolean;
+  modified: boolean; // The file changed after the migration was applied
+  reversible: boolean;
+}
+
+interface Journal {
+  entries: { idx: number; tag: string }[];
+}
+
+interface SnapshotColumn {
+  name: string;
+  type: string;
+  primaryKey: boolean;
+  notNull: boolean;
+  default?: string | number | boolean;
+}
+
+interface Snapshot {
+  tables: Record<
+    string,
+    {
+      name: string;
+      columns: Record<string, SnapshotColumn>;
+      uniqueConstraints: Record<string, { name: string; columns: string[] }>;
+    }
+  >;
+}
+
+const splitStatements = (sql: string) =>
+  sql
+    .split(STATEMENT_BREAKPOINT)
+    .map((statement) => statement.trim())
+    .filter(Boolean);
+
+const readJson = <T>(file: string): T =>
+  JSON.parse(fs.readFileSync(path.join(MIGRATIONS_DIR, file), "utf8"));
+
+export function loadMigrations(): Migration[] {
+  const journal = readJson<Journal>("meta/_journal.json");
+
+  return [...journal.entries]
+    .sort((a, b) => a.idx - b.idx)
+    .map(({ tag }) => {
+      const sql = fs.readFileSync(path.join(MIGRATIONS_DIR, `${tag}.sql`), "utf8");
+      const downPath = path.join(MIGRATIONS_DIR, `${tag}.down.sql`);
+      return {
+        tag,
+        hash: createHash("sha256").update(sql).digest("hex"),
+        statements: splitStatements(sql),
+        down: fs.existsSync(downPath)
+          ? splitStatements(fs.readFileSync(downPath, "utf8"))
+          : null,
+      };
+    });
+}
+
+// Fills columns that older installations lack with what matches their old
+// behaviour, new rows still get the column default
+const BASELINE_BACKFILLS: Record<string, string> = {
+  // Before permission levels, Creators could manage every assigned gallery and
+  // other staff could rate and comment
+  "gallery_assignments.permission": `UPDATE "gallery_assignments" SET "permission" = 'manage' FROM "users" WHERE "users"."id" = "gallery_assignments"."user_id" AND "users"."role" IN ('Admin', 'Creator')`,
+};
+
+// Installations from before versioned migrations were set up with `db:push`
+// and may lag behind the baseline schema. Instead of running the baseline as
+// is, its statements are made idempotent and missing columns are added, so
+// existing tables and data stay untouched.
+function getBaselineStatements(baseline: Migration): string[] {
+  const ignoreExisting = (statement: string) =>
+    `DO $$ BEGIN ${statement.replace(/;\s*$/, "")}; EXCEPTION WHEN duplicate_object OR duplicate_table THEN NULL; END $$;`;
+
+  const isConstraint = (statement: string) => /^ALTER TABLE [^;]* ADD CONSTRAINT /.test(statement);
+  const tables = baseline.statements
+    .filter((statement) => !isConstraint(statement))
+    .map((statement) =>
+      statement
+        .replace(/^CREATE TABLE "/, 'CREATE TABLE IF NOT EXISTS "')
+        .replace(/^CREATE (UNIQUE )?INDEX "/, 'CREATE $1INDEX IF NOT EXISTS "'),
+    );
+  const columns: string[] = [];
+  const uniques: string[] = [];
+
+  const snapshot = readJson<Snapshot>(`meta/${baseline.tag.slice(0, 4)}_snapshot.json`);
+  for (const table of Object.values(snapshot.tables)) {
+    for (const column of Object.values(table.columns)) {
+      if (column.primaryKey) continue;
+      const definition = [
+        `"${column.name}" ${column.type}`,
+        column.default !== undefined ? `DEFAULT ${column.default}` : "",
+        column.notNull ? "NOT NULL" : "",
+      ]
+        .filter(Boolean)
+        .join(" ");
+      const backfill = BASELINE_BACKFILLS[`${table.name}.${column.name}`];
+      columns.push(
+        backfill
+          ? `DO $$ BEGIN IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = '${table.name}' AND column_name = '${column.name}') THEN ALTER TABLE "${table.name}" ADD COLUMN ${definition}; ${backfill}; END IF; END $$;`
+          : `ALTER TABLE "${table.name}" ADD COLUMN IF NOT EXISTS ${definition};`,
+      );
+    }
+    for (const unique of Object.values(table.uniqueConstraints)) {
+      const names = unique.columns.map((name) => `"${name}"`).join(", ");
+      uniques.push(
+        ignoreExisting(`ALTER TABLE "${table.name}" ADD CONSTRAINT "${unique.name}" UNIQUE(${names})`),
+      );
+    }
+  }
+
+  // Columns before constraints, foreign keys may reference a column added here
+  return [
+    ...tables,
+    ...columns,
+    ...uniques,
+    ...baseline.statements.filter(isConstraint).map(ignoreExisting),
+  ];
+}
+
+async function ensureMigrationsTable(client: pg.ClientBase) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS "${MIGRATIONS_TABLE}" (
+      "tag" text PRIMARY KEY NOT NULL,
+      "hash" text NOT NULL,
+      "baselined" boolean DEFAULT false NOT NULL,
+      "applied_at" timestamp DEFAULT now() NOT NULL
+    )
+  `);
+}
+
+async function getAppliedMigrations(client: pg.ClientBase): Promise<AppliedMigration[]> {
+  const result = await client.query(
+    `SELECT tag, hash, baselined, applied_at FROM "${MIGRATIONS_TABLE}" ORDER BY tag`,
+  );
+  return result.rows.map((row) => ({
+    tag: row.tag,
+    hash: row.hash,
+    baselined: row.baselined,
+    appliedAt: row.applied_at,
+  }));
+}
+
+// A database with application tables but no migration history
+async function isUnversionedInstall(client: pg.ClientBase): Promise<boolean> {
+  const result = await client.query(`SELECT to_regclass('public.users') IS NOT NULL AS exists`);
+  return result.rows[0].exists;
+}
+
+async function runInTransaction(
+  client: pg.ClientBase,
+  statements: string[],
+  record: () => Promise<unknown>,
+) {
+  await client.query("BEGIN");
+  try {
+    for (const statement of statements) {
+      await client.query(statement);
+    }
+    await record();
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  }
+}
+
+// Opens a dedicated connection holding the migration lock for the callback
+async function withMigrationLock<T>(callback: (client: pg.Client) => Promise<T>): Promise<T> {
+  const client = new pg.Client({ connectionString: process.env.DATABASE_URL });
+  await client.connect();
+  try {
+    await client.query("SELECT pg_advisory_lock($1)", [MIGRATION_LOCK_ID]);
+    try {
+      await ensureMigrationsTable(client);
+      return await callback(client);
+    } finally {
+      await client.query("SELECT pg_advisory_unlock($1)", [MIGRATION_LOCK_ID]);
+    }
+  } finally {
+    await client.end();
+  }
+}
+
+// Applies all pending migrations, returns the tags that were applied
+export async function migrate(): Promise<string[]> {
+  const migrations = loadMigrations();
+
+  return withMigrationLock(async (client) => {
+    let applied = await getAppliedMigrations(client);
+    const done: string[] = [];
+
+    if (applied.length === 0 && migrations.length > 0 && (await isUnversionedInstall(client))) {
+      const [baseline] = migrations;
+      console.log(`Existing installation detected, baselining at ${baseline.tag}`);
+      await runInTransaction(client, getBaselineStatements(baseline), () =>
+        client.query(
+          `INSERT INTO "${MIGRATIONS_TABLE}" (tag, hash, baselined) VALUES ($1, $2, true)`,
+          [baseline.tag, baseline.hash],
+        ),
+      );
+      done.push(baseline.tag);
+      applied = await getAppliedMigrations(client);
+    }
+
+    const appliedHashes = new Map(applied.map((migration) => [migration.tag, migration.hash]));
+
+    for (const migration of migrations) {
+      const appliedHash = appliedHashes.get(migration.tag);
+      if (appliedHash !== undefined) {
+        if (appliedHash !== migration.hash) {
+          console.warn(`Migration ${migration.tag} was modified after it was applied`);
+        }
+        continue;
+      }
+
+      console.log(`Applying migration ${migration.tag}...`);
+      await runInTransaction(client, migration.statements, () =>
+        client.query(`INSERT INTO "${MIGRATIONS_TABLE}" (tag, hash) VALUES ($1, $2)`, [
+          migration.tag,
+          migration.hash,
+        ]),
+      );
+      done.push(migration.tag);
+    }
+
+    return done;
+  });
+}
+
+export async function getMigrationStatus(): Promise<MigrationStatus[]> {
+  const migrations = loadMigrations();
+
+  return withMigrationLock(async (client) => {
+    const applied = new Map(
+      (await getAppliedMigrations(client)).map((migration) => [migration.tag, migration]),
+    );
+
+    const status: MigrationStatus[] = migrations.map((migration) => {
+      const record = applied.get(migration.tag);
+      return {
+        tag: migration.tag,
+        appliedAt: record?.appliedAt ?? null,
+        baselined: record?.baselined ?? false,
+        modified: !!record && record.hash !== migration.hash,
+        reversible: migration.down !== null && !record?.baselined,
+      };
+    });
+
+    // Applied by a newer version whose files are not present here
+    for (const record of Array.from(applied.values())) {
+      if (!migrations.some((migration) => migration.tag === record.tag)) {
+        status.push({
+          tag: record.tag,
+          appliedAt: record.appliedAt,
+          baselined: record.baselined,
+          modified: false,
+          reversible: false,
+        });
+      }
+    }
+
+    return status;
+  });
+}
+
+// Reverts the most recently applied migrations, returns the reverted tags
+export async function rollback(steps = 1): Promise<string[]> {
+  const migrations = new Map(loadMigrations().map((migration) => [migration.tag, migration]));
+
+  return withMigrationLock(async (client) => {
+    const applied = (await getAppliedMigrations(client)).reverse().slice(0, steps);
+    const reverted: string[] = [];
+
+    for (const record of applied) {
+      const migration = migrations.get(record.tag);
+      if (!migration) {
+        throw new Error(`Migration ${record.tag} is not known to this version`);
+      }
+      if (!migration.down || record.baselined) {
+        throw new Error(`Migration ${record.tag} can't be rolled back`);
+      }
+
+      console.log(`Rolling back migration ${record.tag}...`);
+      await runInTransaction(client, migration.down, () =>
+        client.query(`DELETE FROM "${MIGRATIONS_TABLE}" WHERE tag = $1`, [record.tag]),
+      );
+      reverted.push(record.tag);
+    }
+
+    return reverted;
+  });
+}
@@ -0,0 +1,143 @@
+import express from 'express';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+
+// Minimal OpenID Connect provider for trying out single sign-on locally.
+// Usage: npx tsx server/mockOidcProvider.ts
+// Then configure in Settings > System: Issuer http://localhost:5055,
+// Client-ID "fotostube", no secret, role claim "groups" with the values
+// "admins" and "creators". Every login shows a form to pick the identity.
+const PORT = parseInt(process.env.MOCK_OIDC_PORT || '5055', 10);
+const ISSUER = process.env.MOCK_OIDC_ISSUER || `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.MOCK_OIDC_CLIENT_ID || 'fotostube';
+
+const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const KEY_ID = crypto.randomBytes(8).toString('hex');
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  nonce?: string;
+  codeChallenge?: string;
+  claims: Record<string, unknown>;
+  expiresAt: number;
+}
+
+const codes = new Map<string, PendingCode>();
+const accessTokens = new Map<string, Record<string, unknown>>();
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"]/g, (char) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[char]!);
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+
+app.get('/.well-known/openid-configuration', (req, res) => {
+  res.json({
+    issuer: ISSUER,
+    authorization_endpoint: `${ISSUER}/authorize`,
+    token_endpoint: `${ISSUER}/token`,
+    userinfo_endpoint: `${ISSUER}/userinfo`,
+    jwks_uri: `${ISSUER}/jwks`,
+    response_types_supported: ['code'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['RS256'],
+    code_challenge_methods_supported: ['S256'],
+  });
+});
+
+app.get('/jwks', (req, res) => {
+  res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, use: 'sig', alg: 'RS256' }] });
+});
+
+// Login form instead of a real authentication
+app.get('/authorize', (req, res) => {
+  const hidden = Object.entries(req.query)
+    .map(([name, value]) => `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(String(value))}">`)
+    .join('');
+
+  res.send(`<!doctype html>
+<html><body style="font-family: sans-serif; max-width: 320px; margin: 40px auto">
+  <h3>Mock OIDC Login</h3>
+  <form method="post" action="/authorize">
+    ${hidden}
+    <p><label>E-Mail<br><input name="email" value="anna@example.com" required></label></p>
+    <p><label>Name<br><input name="name" value="Anna Beispiel"></label></p>
+    <p><label>Gruppen (kommagetrennt)<br><input name="groups" value="creators"></label></p>
+    <p><label><input type="checkbox" name="email_verified" checked> E-Mail bestätigt</label></p>
+    <button type="submit">Anmelden</button>
+  </form>
+</body></html>`);
+});
+
+app.post('/authorize', (req, res) => {
+  const { client_id, redirect_uri, state, nonce, code_challenge, code_challenge_method, email, name, groups } = req.body;
+
+  if (client_id !== CLIENT_ID || !redirect_uri) {
+    return res.status(400).send('Unbekannter Client oder fehlende redirect_uri');
+  }
+  if (code_challenge && code_challenge_method !== 'S256') {
+    return res.status(400).send('Nur S256 wird unterstützt');
+  }
+
+  const code = crypto.randomBytes(16).toString('hex');
+  codes.set(code, {
+    clientId: client_id,
+    redirectUri: redirect_uri,
+    nonce,
+    codeChallenge: code_challenge,
+    claims: {
+      sub: crypto.createHash('sha256').update(email).digest('hex').slice(0, 16),
+      email,
+      email_verified: req.body.email_verified === 'on',
+      name: name || undefined,
+      groups: (groups || '').split(',').map((group: string) => group.trim()).filter(Boolean),
+    },
+    expiresAt: Date.now() + 60 * 1000,
+  });
+
+  const url = new URL(redirect_uri);
+  url.searchParams.set('code', code);
+  if (state) url.searchParams.set('state', state);
+  res.redirect(url.toString());
+});
+
+app.post('/token', (req, res) => {
+  const { grant_type, code, redirect_uri, code_verifier } = req.body;
+  const pending = codes.get(code);
+  codes.delete(code);
+
+  if (grant_type !== 'authorization_code' || !pending || pending.expiresAt < Date.now() || pending.redirectUri !== redirect_uri) {
+    return res.status(400).json({ error: 'invalid_grant' });
+  }
+  if (pending.codeChallenge) {
+    const challenge = crypto.createHash('sha256').update(code_verifier || '').digest('base64url');
+    if (challenge !== pending.codeChallenge) {
+      return res.status(400).json({ error: 'invalid_grant', error_description: 'PKCE verification failed' });
+    }
+  }
+
+  const idToken = jwt.sign({ ...pending.claims, nonce: pending.nonce }, privateKey, {
+    algorithm: 'RS256',
+    keyid: KEY_ID,
+    issuer: ISSUER,
+    audience: pending.clientId,
+    expiresIn: '5m',
+  });
+  const accessToken = crypto.randomBytes(16).toString('hex');
+  accessTokens.set(accessToken, pending.claims);
+
+  res.json({ access_token: accessToken, token_type: 'Bearer', expires_in: 300, id_token: idToken });
+});
+
+app.get('/userinfo', (req, res) => {
+  const claims = accessTokens.get((req.headers.authorization || '').replace(/^Bearer /, ''));
+  if (!claims) {
+    return res.status(401).json({ error: 'invalid_token' });
+  }
+  res.json(claims);
+});
+
+app.listen(PORT, () => {
+  console.log(`Mock OIDC provider running at ${ISSUER} (client id "${CLIENT_ID}")`);
+});
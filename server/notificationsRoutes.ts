@@ -29,7 +29,12 @@ import {
 } from "../shared/schema";
 import { eq, desc, and } from "drizzle-orm";
 import bcrypt from "bcrypt";
-import { authenticateJWT, requireAdmin, requireAdminOrCreator } from "./auth";
+import {
+  authenticateJWT,
+  requireAdmin,
+  requireAdminOrCreator,
+  requireStaff,
+} from "./auth";
 import { db } from "./storage";
 import { sendPasswordResetEmail } from "./mailer";
 import crypto from "crypto";
@@ -40,6 +45,7 @@ export async function registerNotificationsRoutes(app: Express): Promise<void> {
   app.get(
       "/api/notifications/:userId",
       authenticateJWT,
+      requireStaff,
       async (req: any, res) => {
         try {
           const { userId } = req.params;
@@ -53,7 +59,7 @@ export async function registerNotificationsRoutes(app: Express): Promise<void> {
         }
       },
     )
-  app.post("/api/notifications", authenticateJWT, async (req: any, res) => {
+  app.post("/api/notifications", authenticateJWT, requireStaff, async (req: any, res) => {
       try {
         const notificationData = insertNotificationSchema.parse(req.body);
         const notification = await storage.createNotification(notificationData);
@@ -74,6 +80,7 @@ export async function registerNotificationsRoutes(app: Express): Promise<void> {
   app.patch(
       "/api/notifications/:id/read",
       authenticateJWT,
+      requireStaff,
       async (req: any, res) => {
         try {
           const success = await storage.markNotificationAsRead(req.params.id);
@@ -94,6 +101,7 @@ export async function registerNotificationsRoutes(app: Express): Promise<void> {
   app.patch(
       "/api/notifications/:userId/read-all",
       authenticateJWT,
+      requireStaff,
       async (req: any, res) => {
         try {
           const { userId } = req.params;
@@ -0,0 +1,361 @@
+import type { Request, Response } from "express";
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import bcrypt from "bcrypt";
+import { storage } from "./storage";
+import type { SystemSettings, User, UserRole } from "@shared/schema";
+
+// Single sign-on via OpenID Connect (authorization code flow with PKCE).
+// Users are created on their first login, their role can be taken from a
+// claim of the identity provider on every login.
+
+const LOGIN_COOKIE = "oidcLogin";
+const LOGIN_COOKIE_PATH = "/api/auth/oidc";
+const LOGIN_TIMEOUT = 10 * 60 * 1000; // Time to log in at the identity provider
+const DISCOVERY_CACHE_TTL = 60 * 60 * 1000;
+// Unknown key IDs trigger a reload of the JWKS, but not more often than this
+const JWKS_RELOAD_INTERVAL = 60 * 1000;
+
+// Error codes are passed to the login page, which shows a matching message
+export type OidcErrorCode =
+  | "sso_disabled"
+  | "sso_failed"
+  | "sso_missing_email"
+  | "sso_unverified_email"
+  | "sso_client_account";
+
+export class OidcError extends Error {
+  constructor(
+    public code: OidcErrorCode,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint?: string;
+  jwks_uri: string;
+}
+
+interface LoginState {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  expiresAt: number;
+}
+
+type Claims = Record<string, unknown>;
+
+const discoveryCache = new Map<
+  string,
+  { metadata: ProviderMetadata; expiresAt: number }
+>();
+const jwksCache = new Map<
+  string,
+  { keys: crypto.JsonWebKey[]; loadedAt: number }
+>();
+
+const base64url = (buffer: Buffer) => buffer.toString("base64url");
+
+// OIDC is only offered with a complete configuration
+export function isOidcConfigured(
+  settings: SystemSettings | undefined,
+): settings is SystemSettings {
+  return !!(
+    settings?.oidcEnabled &&
+    settings.oidcIssuer &&
+    settings.oidcClientId
+  );
+}
+
+export async function getOidcSettings(): Promise<SystemSettings | null> {
+  const settings = await storage.getSystemSettings();
+  return isOidcConfigured(settings) ? settings : null;
+}
+
+// Password login is only switched off for staff accounts and only while OIDC
+// is usable - client accounts don't exist at the identity provider
+export async function isPasswordLoginDisabled(
+  user?: Pick<User, "role">,
+): Promise<boolean> {
+  if (user?.role === "Client") return false;
+  const settings = await getOidcSettings();
+  return !!settings?.disablePasswordLogin;
+}
+
+export function getRedirectUri(req: Request, settings: SystemSettings) {
+  const baseUrl =
+    settings.appUrl ||
+    process.env.APP_URL ||
+    `${req.protocol}://${req.get("host")}`;
+  return `${baseUrl.replace(/\/$/, "")}/api/auth/oidc/callback`;
+}
+
+async function fetchJson(url: string, init?: RequestInit): Promise<any> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`${url} antwortete mit ${response.status}`);
+  }
+  return response.json();
+}
+
+async function discover(issuer: string): Promise<ProviderMetadata> {
+  const cached = discoveryCache.get(issuer);
+  if (cached && cached.expiresAt > Date.now()) return cached.metadata;
+
+  const metadata: ProviderMetadata = await fetchJson(
+    `${issuer.replace(/\/$/, "")}/.well-known/openid-configuration`,
+  );
+  if (metadata.issuer.replace(/\/$/, "") !== issuer.replace(/\/$/, "")) {
+    throw new Error(`Issuer stimmt nicht überein: ${metadata.issuer}`);
+  }
+
+  discoveryCache.set(issuer, {
+    metadata,
+    expiresAt: Date.now() + DISCOVERY_CACHE_TTL,
+  });
+  return metadata;
+}
+
+async function getSigningKey(jwksUri: string, kid: string | undefined) {
+  const findKey = (keys: crypto.JsonWebKey[]) =>
+    keys.find((key) => (kid ? key.kid === kid : key.use !== "enc"));
+
+  let cached = jwksCache.get(jwksUri);
+  let key = cached ? findKey(cached.keys) : undefined;
+
+  // Key rotation at the identity provider
+  if (!key && (!cached || Date.now() - cached.loadedAt > JWKS_RELOAD_INTERVAL)) {
+    const { keys } = await fetchJson(jwksUri);
+    cached = { keys, loadedAt: Date.now() };
+    jwksCache.set(jwksUri, cached);
+    key = findKey(keys);
+  }
+
+  if (!key) {
+    throw new Error(`Unbekannter Signaturschlüssel: ${kid}`);
+  }
+  return crypto.createPublicKey({ key, format: "jwk" });
+}
+
+// Redirects to the identity provider. State, nonce and PKCE verifier are kept
+// in a signed cookie until the callback.
+export async function startLogin(
+  req: Request,
+  res: Response,
+  settings: SystemSettings,
+) {
+  const metadata = await discover(settings.oidcIssuer!);
+
+  const loginState: LoginState = {
+    state: base64url(crypto.randomBytes(16)),
+    nonce: base64url(crypto.randomBytes(16)),
+    codeVerifier: base64url(crypto.randomBytes(32)),
+    expiresAt: Date.now() + LOGIN_TIMEOUT,
+  };
+
+  res.cookie(LOGIN_COOKIE, JSON.stringify(loginState), {
+    httpOnly: true,
+    signed: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax", // The callback is a cross-site redirect
+    path: LOGIN_COOKIE_PATH,
+    maxAge: LOGIN_TIMEOUT,
+  });
+
+  const url = new URL(metadata.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: "code",
+    client_id: settings.oidcClientId!,
+    redirect_uri: getRedirectUri(req, settings),
+    scope: settings.oidcScopes,
+    state: loginState.state,
+    nonce: loginState.nonce,
+    code_challenge: base64url(
+      crypto.createHash("sha256").update(loginState.codeVerifier).digest(),
+    ),
+    code_challenge_method: "S256",
+  }).toString();
+
+  res.redirect(url.toString());
+}
+
+// Validates the callback of the identity provider and returns the claims of
+// the ID token, completed by the userinfo endpoint
+export async function completeLogin(
+  req: Request,
+  res: Response,
+  settings: SystemSettings,
+): Promise<Claims> {
+  const rawState = req.signedCookies?.[LOGIN_COOKIE];
+  res.clearCookie(LOGIN_COOKIE, { path: LOGIN_COOKIE_PATH });
+
+  const loginState: LoginState | null = rawState ? JSON.parse(rawState) : null;
+  const { code, state, error } = req.query;
+
+  if (error) {
+    throw new OidcError("sso_failed", `Identity Provider meldet: ${error}`);
+  }
+  if (
+    !loginState ||
+    loginState.expiresAt < Date.now() ||
+    typeof code !== "string" ||
+    state !== loginState.state
+  ) {
+    throw new OidcError("sso_failed", "Ungültiger oder abgelaufener Login-Status");
+  }
+
+  const metadata = await discover(settings.oidcIssuer!);
+
+  const body = new URLSearchParams({
+    grant_type: "authorization_code",
+    code,
+    redirect_uri: getRedirectUri(req, settings),
+    client_id: settings.oidcClientId!,
+    code_verifier: loginState.codeVerifier,
+  });
+  const headers: Record<string, string> = {
+    "Content-Type": "application/x-www-form-urlencoded",
+  };
+  if (settings.oidcClientSecret) {
+    headers.Authorization = `Basic ${Buffer.from(
+      `${encodeURIComponent(settings.oidcClientId!)}:${encodeURIComponent(settings.oidcClientSecret)}`,
+    ).toString("base64")}`;
+  }
+
+  const tokens = await fetchJson(metadata.token_endpoint, {
+    method: "POST",
+    headers,
+    body,
+  });
+  if (!tokens.id_token) {
+    throw new OidcError("sso_failed", "Kein ID-Token erhalten");
+  }
+
+  const decoded = jwt.decode(tokens.id_token, { complete: true });
+  const key = await getSigningKey(metadata.jwks_uri, decoded?.header.kid);
+  const claims = jwt.verify(tokens.id_token, key, {
+    algorithms: ["RS256", "RS384", "RS512", "ES256", "ES384", "ES512", "PS256"],
+    issuer: metadata.issuer,
+    audience: settings.oidcClientId!,
+  }) as Claims;
+
+  if (claims.nonce !== loginState.nonce) {
+    throw new OidcError("sso_failed", "Nonce stimmt nicht überein");
+  }
+
+  // Some providers only put email and groups into the userinfo response
+  if (metadata.userinfo_endpoint && tokens.access_token) {
+    try {
+      const userInfo = await fetchJson(metadata.userinfo_endpoint, {
+        headers: { Authorization: `Bearer ${tokens.access_token}` },
+      });
+      if (userInfo.sub === claims.sub) {
+        return { ...userInfo, ...claims };
+      }
+    } catch (userInfoError) {
+      console.error("OIDC userinfo error:", userInfoError);
+    }
+  }
+
+  return claims;
+}
+
+// Claim by name, nested claims as path (e.g. "realm_access.roles")
+function getClaim(claims: Claims, path: string): unknown {
+  return path
+    .split(".")
+    .reduce<unknown>(
+      (value, key) =>
+        value && typeof value === "object"
+          ? (value as Record<string, unknown>)[key]
+          : undefined,
+      claims,
+    );
+}
+
+export function mapRole(
+  settings: SystemSettings,
+  claims: Claims,
+): UserRole | null {
+  if (!settings.oidcRoleClaim) return null;
+
+  const claim = getClaim(claims, settings.oidcRoleClaim);
+  const values = (Array.isArray(claim) ? claim : [claim])
+    .filter((value) => value !== undefined && value !== null)
+    .map(String);
+
+  if (settings.oidcAdminRoleValue && values.includes(settings.oidcAdminRoleValue)) {
+    return "Admin";
+  }
+  if (settings.oidcCreatorRoleValue && values.includes(settings.oidcCreatorRoleValue)) {
+    return "Creator";
+  }
+  return "User";
+}
+
+// Finds the user of the identity (by subject, then by verified email) or
+// creates them. The role is updated if a role claim is configured.
+export async function resolveOidcUser(
+  settings: SystemSettings,
+  claims: Claims,
+): Promise<User> {
+  const subject = String(claims.sub);
+  const email =
+    typeof claims.email === "string" ? claims.email.toLowerCase() : null;
+  const role = mapRole(settings, claims);
+
+  let user = await storage.getUserByOidcSubject(subject);
+
+  if (!user) {
+    if (!email) {
+      throw new OidcError("sso_missing_email", "Keine E-Mail-Adresse im Token");
+    }
+
+    const existing = await storage.getUserByEmail(email);
+    if (existing) {
+      // Only addresses the provider vouches for may take over local accounts
+      if (claims.email_verified !== true) {
+        throw new OidcError(
+          "sso_unverified_email",
+          "E-Mail-Adresse nicht bestätigt",
+        );
+      }
+      await storage.updateUser(existing.id, { oidcSubject: subject });
+      user = { ...existing, oidcSubject: subject };
+    } else {
+      const claimedName = [claims.name, claims.preferred_username].find(
+        (value): value is string => typeof value === "string" && !!value.trim(),
+      );
+      const name =
+        claimedName && !(await storage.getUserByName(claimedName.trim()))
+          ? claimedName.trim()
+          : email;
+
+      // Provisioned users can't log in with a password
+      user = await storage.createUser({
+        name,
+        email,
+        password: await bcrypt.hash(crypto.randomBytes(32).toString("hex"), 10),
+        role: role || "User",
+        oidcSubject: subject,
+      });
+      return user;
+    }
+  }
+
+  if (user.role === "Client") {
+    throw new OidcError("sso_client_account", "Kundenkonten nutzen kein SSO");
+  }
+
+  if (role && role !== user.role) {
+    await storage.updateUser(user.id, { role });
+    user = { ...user, role };
+  }
+
+  return user;
+}
@@ -0,0 +1,84 @@
+import type { Express } from "express";
+import { createSession } from "./sessions";
+import { issueAccessToken } from "./auth";
+import {
+  OidcError,
+  completeLogin,
+  getOidcSettings,
+  resolveOidcUser,
+  startLogin,
+} from "./oidc";
+import { recordAuditEvent } from "./audit";
+
+// Single sign-on login. The callback sets the session cookies and sends the
+// browser back to the login page, which picks up the session through
+// /api/auth/refresh like a reload would.
+
+const LOGIN_PAGE = "/login";
+
+export async function registerOidcRoutes(app: Express): Promise<void> {
+  // What the login page offers
+  app.get("/api/auth/oidc/config", async (req, res) => {
+    try {
+      const settings = await getOidcSettings();
+      res.json({
+        enabled: !!settings,
+        providerName: settings?.oidcProviderName || "Single Sign-On",
+        passwordLoginDisabled: !!settings?.disablePasswordLogin,
+      });
+    } catch (error) {
+      console.error("Get OIDC config error:", error);
+      res.status(500).json({ error: "Fehler beim Laden der SSO-Einstellungen" });
+    }
+  });
+
+  app.get("/api/auth/oidc/login", async (req, res) => {
+    try {
+      const settings = await getOidcSettings();
+      if (!settings) {
+        return res.redirect(`${LOGIN_PAGE}?ssoError=sso_disabled`);
+      }
+
+      await startLogin(req, res, settings);
+    } catch (error) {
+      console.error("OIDC login error:", error);
+      res.redirect(`${LOGIN_PAGE}?ssoError=sso_failed`);
+    }
+  });
+
+  app.get("/api/auth/oidc/callback", async (req, res) => {
+    try {
+      const settings = await getOidcSettings();
+      if (!settings) {
+        return res.redirect(`${LOGIN_PAGE}?ssoError=sso_disabled`);
+      }
+
+      const claims = await completeLogin(req, res, settings);
+      const user = await resolveOidcUser(settings, claims);
+
+      // Second factors are up to the identity provider
+      const session = await createSession(req, res, user.id);
+      issueAccessToken(res, user, session.id);
+
+      await recordAuditEvent(req, {
+        action: "auth.login",
+        targetType: "user",
+        targetId: user.id,
+        targetName: user.name,
+        details: { method: "sso" },
+        actor: { id: user.id, name: user.name },
+      });
+
+      res.redirect(`${LOGIN_PAGE}?sso=success`);
+    } catch (error) {
+      console.error("OIDC callback error:", error);
+      const code = error instanceof OidcError ? error.code : "sso_failed";
+      await recordAuditEvent(req, {
+        action: "auth.login_failed",
+        details: { method: "sso", reason: code },
+        actor: null,
+      });
+      res.redirect(`${LOGIN_PAGE}?ssoError=${code}`);
+    }
+  });
+}
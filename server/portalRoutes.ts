@@ -0,0 +1,85 @@
+import type { Express } from "express";
+import { storage } from "./storage";
+import { authenticateJWT, requireClient } from "./auth";
+import { isRoundExpired } from "./proofing";
+import { isGalleryExpired } from "./galleryExpiry";
+import { withMediaUrls } from "./media";
+import type { Gallery } from "@shared/schema";
+
+// Client portal: every gallery that was ever assigned to the client, opened
+// through the public gallery view. The status tells the client whether a
+// selection is expected from them.
+
+type PortalGalleryStatus =
+  | "available" // No open selection round
+  | "selection_open"
+  | "selection_submitted"
+  | "selection_expired"
+  | "expired"; // The gallery itself, no longer reachable
+
+const toPortalGallery = async (gallery: Gallery, userId: string) => {
+  const photos = await storage.getPhotosByGalleryId(gallery.id);
+  const [cover] = withMediaUrls(photos.slice(0, 1), false);
+
+  const round = await storage.getOpenProofingRound(gallery.id);
+  const visitor = round
+    ? await storage.getGalleryVisitorByUserId(gallery.id, userId)
+    : undefined;
+  const submission =
+    round && visitor
+      ? await storage.getProofingSubmission(round.id, visitor.id)
+      : undefined;
+
+  let status: PortalGalleryStatus = "available";
+  if (isGalleryExpired(gallery)) {
+    status = "expired";
+  } else if (round) {
+    status = submission
+      ? "selection_submitted"
+      : isRoundExpired(round)
+        ? "selection_expired"
+        : "selection_open";
+  }
+
+  return {
+    id: gallery.id,
+    name: gallery.name,
+    createdAt: gallery.createdAt,
+    photoCount: photos.length,
+    coverUrl: cover?.thumbnailUrl || null,
+    status,
+    selectionDeadline: round?.deadline || null,
+    expiresAt: gallery.expiresAt,
+  };
+};
+
+export async function registerPortalRoutes(app: Express): Promise<void> {
+  app.get(
+    "/api/portal/galleries",
+    authenticateJWT,
+    requireClient,
+    async (req: any, res) => {
+      try {
+        const userId = req.user.userId;
+
+        // Sub-galleries are reached from their parent gallery, drafts
+        // aren't shared yet
+        const galleries = (await storage.getUserAssignedGalleries(userId))
+          .filter((gallery) => !gallery.parentId && gallery.status !== "draft")
+          .sort(
+            (a, b) =>
+              (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0),
+          );
+
+        res.json(
+          await Promise.all(
+            galleries.map((gallery) => toPortalGallery(gallery, userId)),
+          ),
+        );
+      } catch (error) {
+        console.error("Get portal galleries error:", error);
+        res.status(500).json({ error: "Fehler beim Laden der Galerien" });
+      }
+    },
+  );
+}
@@ -0,0 +1,26 @@
+import { storage } from "./storage";
+import type { ProofingRound } from "@shared/schema";
+
+export function isRoundExpired(round: ProofingRound): boolean {
+  return !!round.deadline && round.deadline.getTime() < Date.now();
+}
+
+// Returns why a visitor may no longer change ratings, likes or the selection
+// of photos in these galleries, or null if changes are allowed
+export async function getSelectionLockError(
+  visitorId: string,
+  galleryIds: string[],
+): Promise<string | null> {
+  for (const galleryId of Array.from(new Set(galleryIds))) {
+    const round = await storage.getOpenProofingRound(galleryId);
+    if (!round) continue;
+
+    if (await storage.getProofingSubmission(round.id, visitorId)) {
+      return "Deine Auswahl wurde bereits abgeschickt";
+    }
+    if (isRoundExpired(round)) {
+      return "Die Frist für die Auswahl ist abgelaufen";
+    }
+  }
+  return null;
+}
@@ -0,0 +1,276 @@
+import type { Express } from "express";
+import { storage } from "./storage";
+import { authenticateJWT, requireStaff } from "./auth";
+import { requireGalleryPermission } from "./galleryPermissions";
+import { getRootGalleryId, getVisitor } from "./visitors";
+import { isRoundExpired } from "./proofing";
+import { getGalleryAccess } from "./shareLinks";
+import { advanceGalleryStatus } from "./galleryStatus";
+import type { ProofingRound } from "@shared/schema";
+
+// Proofing workflow: the photographer opens a selection round for a gallery,
+// visitors pick photos and submit their selection, which locks their picks
+// until the round is closed. Closed rounds stay as history.
+
+const toRoundResponse = (round: ProofingRound) => ({
+  ...round,
+  isExpired: isRoundExpired(round),
+});
+
+export async function registerProofingRoutes(app: Express): Promise<void> {
+  app.get(
+    "/api/galleries/:galleryId/proofing-rounds",
+    authenticateJWT,
+    requireStaff,
+    requireGalleryPermission("view"),
+    async (req: any, res) => {
+      try {
+        const gallery = await storage.getGallery(req.params.galleryId);
+        if (!gallery) {
+          return res.status(404).json({ error: "Galerie nicht gefunden" });
+        }
+
+        const visitors = await storage.getGalleryVisitors(
+          await getRootGalleryId(gallery.id),
+        );
+        const visitorNames = new Map(
+          visitors.map((visitor) => [visitor.id, visitor.name]),
+        );
+
+        const rounds = await storage.getProofingRounds(gallery.id);
+        const roundsWithSubmissions = await Promise.all(
+          rounds.map(async (round) => {
+            const submissions = await storage.getProofingSubmissions(round.id);
+            return {
+              ...toRoundResponse(round),
+              submissions: submissions.map((submission) => ({
+                ...submission,
+                visitorName:
+                  visitorNames.get(submission.visitorId) || "Unbekannt",
+              })),
+            };
+          }),
+        );
+
+        res.json(roundsWithSubmissions);
+      } catch (error) {
+        console.error("Get proofing rounds error:", error);
+        res.status(500).json({ error: "Fehler beim Laden der Auswahlrunden" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/galleries/:galleryId/proofing-rounds",
+    authenticateJWT,
+    requireStaff,
+    requireGalleryPermission("manage"),
+    async (req: any, res) => {
+      try {
+        const { name, deadline, photoLimit } = req.body;
+
+        if (typeof name !== "string" || !name.trim()) {
+          return res.status(400).json({ error: "Name ist erforderlich" });
+        }
+
+        const deadlineDate = deadline ? new Date(deadline) : null;
+        if (deadlineDate && isNaN(deadlineDate.getTime())) {
+          return res.status(400).json({ error: "Ungültige Frist" });
+        }
+
+        if (
+          photoLimit !== undefined &&
+          photoLimit !== null &&
+          (!Number.isInteger(photoLimit) || photoLimit < 1)
+        ) {
+          return res
+            .status(400)
+            .json({ error: "Foto-Limit muss eine positive Zahl sein" });
+        }
+
+        const gallery = await storage.getGallery(req.params.galleryId);
+        if (!gallery) {
+          return res.status(404).json({ error: "Galerie nicht gefunden" });
+        }
+
+        // Only one open round per gallery - the previous one becomes history
+        const openRound = await storage.getOpenProofingRound(gallery.id);
+        if (openRound) {
+          await storage.closeProofingRound(openRound.id);
+        }
+
+        const round = await storage.createProofingRound({
+          galleryId: gallery.id,
+          name: name.trim(),
+          deadline: deadlineDate,
+          photoLimit: photoLimit ?? null,
+        });
+
+        await advanceGalleryStatus(gallery.id, ["shared"], "selecting", {
+          userId: req.user.userId,
+        });
+
+        res.status(201).json({ ...toRoundResponse(round), submissions: [] });
+      } catch (error) {
+        console.error("Create proofing round error:", error);
+        res.status(500).json({ error: "Fehler beim Erstellen der Auswahlrunde" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/proofing-rounds/:roundId/close",
+    authenticateJWT,
+    requireStaff,
+    requireGalleryPermission(
+      "manage",
+      async (req) => (await storage.getProofingRound(req.params.roundId))?.galleryId,
+    ),
+    async (req: any, res) => {
+      try {
+        const round = await storage.closeProofingRound(req.params.roundId);
+        if (!round) {
+          return res.status(404).json({ error: "Auswahlrunde nicht gefunden" });
+        }
+        res.json(toRoundResponse(round));
+      } catch (error) {
+        console.error("Close proofing round error:", error);
+        res.status(500).json({ error: "Fehler beim Schließen der Auswahlrunde" });
+      }
+    },
+  );
+
+  app.get("/api/public/galleries/:galleryId/proofing", async (req, res) => {
+    try {
+      const access = await getGalleryAccess(req, req.params.galleryId);
+      if (!access?.canView) {
+        return res.status(403).json({ error: "Kein Zugriff auf diese Galerie" });
+      }
+
+      const round = await storage.getOpenProofingRound(req.params.galleryId);
+      if (!round) {
+        return res.json({ round: null, submission: null });
+      }
+
+      const visitor = await getVisitor(req, req.params.galleryId);
+      const submission = visitor
+        ? await storage.getProofingSubmission(round.id, visitor.id)
+        : undefined;
+
+      res.json({
+        round: {
+          id: round.id,
+          name: round.name,
+          deadline: round.deadline,
+          photoLimit: round.photoLimit,
+          isExpired: isRoundExpired(round),
+        },
+        submission: submission || null,
+      });
+    } catch (error) {
+      console.error("Get public proofing round error:", error);
+      res.status(500).json({ error: "Fehler beim Laden der Auswahlrunde" });
+    }
+  });
+
+  app.post(
+    "/api/public/galleries/:galleryId/proofing/submit",
+    async (req, res) => {
+      try {
+        const { galleryId } = req.params;
+        const note =
+          typeof req.body.note === "string" && req.body.note.trim()
+            ? req.body.note.trim()
+            : null;
+
+        const visitor = await getVisitor(req, galleryId);
+        if (!visitor) {
+          return res
+            .status(401)
+            .json({ error: "Bitte gib zuerst deinen Namen ein" });
+        }
+
+        const access = await getGalleryAccess(req, galleryId);
+        if (!access?.canRate) {
+          return res
+            .status(403)
+            .json({ error: "Bewerten ist über diesen Link nicht erlaubt" });
+        }
+
+        const round = await storage.getOpenProofingRound(galleryId);
+        if (!round) {
+          return res
+            .status(404)
+            .json({ error: "Keine offene Auswahlrunde gefunden" });
+        }
+        if (isRoundExpired(round)) {
+          return res
+            .status(423)
+            .json({ error: "Die Frist für die Auswahl ist abgelaufen" });
+        }
+        if (await storage.getProofingSubmission(round.id, visitor.id)) {
+          return res
+            .status(409)
+            .json({ error: "Deine Auswahl wurde bereits abgeschickt" });
+        }
+
+        // Snapshot of the visitor's current selection in gallery order
+        const photos = await storage.getPhotosByGalleryId(galleryId);
+        const picks = await storage.getVisitorPicks(
+          visitor.id,
+          photos.map((photo) => photo.id),
+        );
+        const selectedIds = new Set(
+          picks.filter((pick) => pick.isSelected).map((pick) => pick.photoId),
+        );
+        const photoIds = photos
+          .map((photo) => photo.id)
+          .filter((id) => selectedIds.has(id));
+
+        if (photoIds.length === 0) {
+          return res
+            .status(400)
+            .json({ error: "Bitte wähle mindestens ein Foto aus" });
+        }
+        if (round.photoLimit && photoIds.length > round.photoLimit) {
+          return res.status(400).json({
+            error: `Du kannst höchstens ${round.photoLimit} Fotos auswählen`,
+          });
+        }
+
+        const submission = await storage.createProofingSubmission({
+          roundId: round.id,
+          visitorId: visitor.id,
+          photoIds,
+          note,
+        });
+
+        const gallery = await storage.getGallery(galleryId);
+        if (gallery?.userId) {
+          storage
+            .createNotification({
+              userId: gallery.userId,
+              galleryId: gallery.id,
+              type: "proofing",
+              message: `${visitor.name} hat die Auswahl "${round.name}" mit ${photoIds.length} Foto${photoIds.length !== 1 ? "s" : ""} in Galerie "${gallery.name}" abgeschickt`,
+              actorName: visitor.name,
+              isRead: false,
+            })
+            .catch((error) =>
+              console.error("Error creating proofing notification:", error),
+            );
+        }
+
+        // The selection is in, editing starts
+        await advanceGalleryStatus(galleryId, ["shared", "selecting"], "editing", {
+          name: visitor.name,
+        });
+
+        res.status(201).json({ submission });
+      } catch (error) {
+        console.error("Submit proofing selection error:", error);
+        res.status(500).json({ error: "Fehler beim Abschicken der Auswahl" });
+      }
+    },
+  );
+}
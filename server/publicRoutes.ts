@@ -35,6 +35,32 @@ import { sendPasswordResetEmail } from "./mailer";
 import crypto from "crypto";
 import { checkInitialSetup, createInitialAdmin, configureSmtp } from "./setup";
 import { upload, ensureUploadDirs } from "./upload";
+import { MetadataExtractor } from "./metadataExtractor";
+import {
+  getOrCreateClientVisitor,
+  getRootGalleryId,
+  getVisitor,
+  getVisitorForPhotos,
+  setVisitorCookie,
+  withVisitorPicks,
+} from "./visitors";
+import { getSelectionLockError } from "./proofing";
+import {
+  getDefaultAccess,
+  getGalleryAccess,
+  toPublicAccess,
+} from "./shareLinks";
+import { setGalleryAccessCookie } from "./galleryPasswords";
+import {
+  beginAttempt,
+  getClientKey,
+  recordSuccessfulAttempt,
+  sendRateLimited,
+} from "./rateLimits";
+import { withMediaUrls } from "./media";
+import { canDownloadFinals, withFinalPhotos } from "./finals";
+import { getExpiredRootGallery, toExpiredResponse } from "./galleryExpiry";
+import { isDraftGallery } from "./galleryStatus";
 
 export async function registerPublicRoutes(app: Express): Promise<void> {
   app.get("/api/gallery/:galleryId/sub-galleries/public", async (req, res) => {
@@ -47,7 +73,11 @@ export async function registerPublicRoutes(app: Express): Promise<void> {
           return res.status(404).json({ error: "Galerie nicht gefunden" });
         }
 
-        // For public access, we don't check password here - the gallery itself was already unlocked
+        const access = await getGalleryAccess(req, galleryId);
+        if (!access?.canView) {
+          return res.status(403).json({ error: "Kein Zugriff auf diese Galerie" });
+        }
+
         // Get sub-galleries
         const subGalleries = await storage.getSubGalleriesByParentId(galleryId);
 
@@ -79,26 +109,58 @@ export async function registerPublicRoutes(app: Express): Promise<void> {
           return res.status(404).json({ error: "Galerie nicht gefunden" });
         }
 
-        // For sub-galleries, check parent gallery password
-        let effectivePassword = gallery.password;
-        if (gallery.parentId) {
-          const parentGallery = await storage.getGallery(gallery.parentId);
-          effectivePassword = parentGallery?.password || null;
+        // Drafts aren't shared yet, as if they didn't exist
+        if (await isDraftGallery(galleryId)) {
+          return res.status(404).json({ error: "Galerie nicht gefunden" });
+        }
+
+        const expiredGallery = await getExpiredRootGallery(galleryId);
+        if (expiredGallery) {
+          return res.status(410).json(toExpiredResponse(expiredGallery));
         }
 
-        // Check if gallery has password protection
-        if (effectivePassword) {
+        const access = await getGalleryAccess(req, galleryId);
+        if (!access) {
+          if (await storage.hasShareLinks(await getRootGalleryId(galleryId))) {
+            return res.status(403).json({
+              error: "Zugriff nur über einen gültigen Freigabelink",
+              shareLinkRequired: true,
+            });
+          }
+
+          // Password protected and not (or no longer) unlocked by the cookie
           return res.status(403).json({ error: "Galerie ist passwortgeschützt" });
         }
+        if (!access.canView) {
+          return res.status(403).json({
+            error: "Dieser Link erlaubt keine Ansicht der Galerie",
+            shareLinkRequired: true,
+          });
+        }
 
         console.log("Public gallery data:", { galleryId, gallery });
 
-        // Get photos with full data (likes, comments, ratings)
-        const photos = await storage.getPhotosWithData(galleryId);
+        // Get photos with full data, ratings and likes are the visitor's own
+        const visitor =
+          (await getOrCreateClientVisitor(req, galleryId)) ||
+          (await getVisitor(req, galleryId));
+        const photos = await withFinalPhotos(
+          withMediaUrls(
+            await withVisitorPicks(
+              await storage.getPhotosWithData(galleryId),
+              visitor,
+            ),
+            access.downloadMode === "original",
+          ),
+          gallery.id,
+          canDownloadFinals(gallery, access),
+        );
 
         res.json({
           gallery,
           photos,
+          visitor: visitor || null,
+          access: toPublicAccess(access),
         });
       } catch (error) {
         console.error("Get public gallery error:", error);
@@ -116,41 +178,153 @@ export async function registerPublicRoutes(app: Express): Promise<void> {
           return res.status(404).json({ error: "Galerie nicht gefunden" });
         }
 
-        // For sub-galleries, check parent gallery password
-        let effectivePassword = gallery.password;
-        if (gallery.parentId) {
-          const parentGallery = await storage.getGallery(gallery.parentId);
-          effectivePassword = parentGallery?.password || null;
+        // Drafts aren't shared yet, as if they didn't exist
+        if (await isDraftGallery(galleryId)) {
+          return res.status(404).json({ error: "Galerie nicht gefunden" });
+        }
+
+        const expiredGallery = await getExpiredRootGallery(galleryId);
+        if (expiredGallery) {
+          return res.status(410).json(toExpiredResponse(expiredGallery));
         }
 
-        // Check password if gallery is protected
-        if (effectivePassword) {
-          const isValidPassword = await bcrypt.compare(
-            password,
-            effectivePassword,
+        let access = await getGalleryAccess(req, galleryId);
+        if (!access) {
+          const rootGalleryId = await getRootGalleryId(galleryId);
+          if (await storage.hasShareLinks(rootGalleryId)) {
+            return res.status(403).json({
+              error: "Zugriff nur über einen gültigen Freigabelink",
+              shareLinkRequired: true,
+            });
+          }
+
+          const rateLimitKeys = [getClientKey(req), `gallery:${rootGalleryId}`];
+          const retryAfter = await beginAttempt(
+            "gallery_password",
+            rateLimitKeys,
           );
-          if (!isValidPassword) {
+          if (retryAfter > 0) {
+            return sendRateLimited(res, retryAfter);
+          }
+
+          // Sub-galleries are protected by the parent gallery password
+          const rootGallery =
+            gallery.id === rootGalleryId
+              ? gallery
+              : await storage.getGallery(rootGalleryId);
+          const isValidPassword =
+            !!rootGallery?.password &&
+            typeof password === "string" &&
+            (await bcrypt.compare(password, rootGallery.password));
+          if (!rootGallery || !isValidPassword) {
             return res.status(401).json({ error: "Falsches Passwort" });
           }
+
+          await recordSuccessfulAttempt("gallery_password", rateLimitKeys, [
+            `gallery:${rootGalleryId}`,
+          ]);
+
+          // From now on the cookie grants access, the client doesn't keep the password
+          setGalleryAccessCookie(res, rootGallery);
+          access = getDefaultAccess(gallery);
+        }
+        if (!access.canView) {
+          return res.status(403).json({
+            error: "Dieser Link erlaubt keine Ansicht der Galerie",
+            shareLinkRequired: true,
+          });
         }
 
         console.log("Public gallery data:", { galleryId, gallery });
 
-        // Get photos with full data (likes, comments, ratings)
-        const photos = await storage.getPhotosWithData(galleryId);
+        // Get photos with full data, ratings and likes are the visitor's own
+        const visitor =
+          (await getOrCreateClientVisitor(req, galleryId)) ||
+          (await getVisitor(req, galleryId));
+        const photos = await withFinalPhotos(
+          withMediaUrls(
+            await withVisitorPicks(
+              await storage.getPhotosWithData(galleryId),
+              visitor,
+            ),
+            access.downloadMode === "original",
+          ),
+          gallery.id,
+          canDownloadFinals(gallery, access),
+        );
 
         res.json({
           gallery,
           photos,
+          visitor: visitor || null,
+          access: toPublicAccess(access),
         });
       } catch (error) {
         console.error("Get public gallery with password error:", error);
         res.status(500).json({ error: "Fehler beim Laden der Galerie" });
       }
     })
+  app.get("/api/public/galleries/:galleryId/visitor", async (req, res) => {
+      try {
+        const visitor = await getVisitor(req, req.params.galleryId);
+        res.json({ visitor: visitor || null });
+      } catch (error) {
+        console.error("Get visitor error:", error);
+        res.status(500).json({ error: "Fehler beim Laden des Besuchers" });
+      }
+    })
+  app.post("/api/public/galleries/:galleryId/visitor", async (req, res) => {
+      try {
+        const { galleryId } = req.params;
+        const name = typeof req.body.name === "string" ? req.body.name.trim() : "";
+        const email =
+          typeof req.body.email === "string" && req.body.email.trim()
+            ? req.body.email.trim()
+            : null;
+
+        if (!name || name.length > 100) {
+          return res.status(400).json({ error: "Name ist erforderlich" });
+        }
+        if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+          return res.status(400).json({ error: "Ungültige E-Mail-Adresse" });
+        }
+
+        const gallery = await storage.getGallery(galleryId);
+        if (!gallery) {
+          return res.status(404).json({ error: "Galerie nicht gefunden" });
+        }
+
+        const access = await getGalleryAccess(req, galleryId);
+        if (!access?.canView) {
+          return res.status(403).json({ error: "Kein Zugriff auf diese Galerie" });
+        }
+
+        // Known visitors only update their name, picks stay attached
+        const existingVisitor =
+          (await getOrCreateClientVisitor(req, galleryId)) ||
+          (await getVisitor(req, galleryId));
+        const visitor = existingVisitor
+          ? await storage.updateGalleryVisitor(existingVisitor.id, { name, email })
+          : await storage.createGalleryVisitor({
+              galleryId: await getRootGalleryId(galleryId),
+              name,
+              email,
+            });
+
+        if (!visitor) {
+          return res.status(404).json({ error: "Besucher nicht gefunden" });
+        }
+
+        setVisitorCookie(res, visitor);
+        res.status(existingVisitor ? 200 : 201).json({ visitor });
+      } catch (error) {
+        console.error("Create visitor error:", error);
+        res.status(500).json({ error: "Fehler beim Speichern des Besuchers" });
+      }
+    })
   app.post("/api/public/photos/batch/rating", async (req, res) => {
       try {
-        const { photoIds, rating, userName } = req.body;
+        const { photoIds, rating } = req.body;
 
         if (!photoIds || !Array.isArray(photoIds) || photoIds.length === 0) {
           return res.status(400).json({ error: "Photo-IDs sind erforderlich" });
@@ -162,33 +336,54 @@ export async function registerPublicRoutes(app: Express): Promise<void> {
             .json({ error: "Rating muss zwischen 0 und 5 sein" });
         }
 
-        await storage.setPhotosRating(photoIds, rating);
+        const { visitor, photos: ratedPhotos } = await getVisitorForPhotos(
+          req,
+          photoIds,
+        );
+        if (!visitor) {
+          return res
+            .status(401)
+            .json({ error: "Bitte gib zuerst deinen Namen ein" });
+        }
+
+        const access = await getGalleryAccess(req, visitor.galleryId);
+        if (!access?.canRate) {
+          return res
+            .status(403)
+            .json({ error: "Bewerten ist über diesen Link nicht erlaubt" });
+        }
 
-        // Get updated photos data
-        const updatedPhotos = [];
-        for (const photoId of photoIds) {
-          const photo = await storage.getPhoto(photoId);
-          if (photo) {
-            updatedPhotos.push({
-              id: photo.id,
-              rating: photo.rating || 0,
-            });
-          }
+        const lockError = await getSelectionLockError(
+          visitor.id,
+          ratedPhotos.map((photo) => photo.galleryId),
+        );
+        if (lockError) {
+          return res.status(423).json({ error: lockError });
         }
 
+        const picks = await storage.setVisitorPicks(
+          visitor.id,
+          ratedPhotos.map((photo) => photo.id),
+          { rating },
+        );
+
+        // Get updated photos data
+        const updatedPhotos = picks.map((pick) => ({
+          id: pick.photoId,
+          rating: pick.rating,
+        }));
+
         // Create batch notification if multiple photos are rated
-        if (photoIds.length > 1) {
-          const firstPhoto = await storage.getPhoto(photoIds[0]);
-          const gallery = firstPhoto
-            ? await storage.getGallery(firstPhoto.galleryId)
-            : null;
+        if (ratedPhotos.length > 1) {
+          const firstPhoto = ratedPhotos[0];
+          const gallery = await storage.getGallery(firstPhoto.galleryId);
 
-          if (firstPhoto && gallery?.userId) {
+          if (gallery?.userId) {
             const firstPhotoName = firstPhoto.alt || firstPhoto.filename;
-            const otherCount = photoIds.length - 1;
+            const otherCount = ratedPhotos.length - 1;
             const starText = rating === 1 ? "Stern" : "Sterne";
-            const actorName = userName || "Anonymer Besucher";
-            const actorText = userName || "Jemand";
+            const actorName = visitor.name;
+            const actorText = visitor.name;
 
             const message = `${actorText} hat Bild "${firstPhotoName}" und ${otherCount} weitere mit ${rating} ${starText} bewertet`;
 
@@ -210,7 +405,7 @@ export async function registerPublicRoutes(app: Express): Promise<void> {
 
         res.json({
           success: true,
-          message: `${photoIds.length} Fotos bewertet`,
+          message: `${updatedPhotos.length} Fotos bewertet`,
           photos: updatedPhotos,
         });
       } catch (error) {
@@ -221,7 +416,7 @@ export async function registerPublicRoutes(app: Express): Promise<void> {
   app.post("/api/public/photos/:photoId/rating", async (req, res) => {
       try {
         const { photoId } = req.params;
-        const { rating, userName } = req.body;
+        const { rating } = req.body;
 
         if (typeof rating !== "number" || rating < 0 || rating > 5) {
           return res
@@ -229,23 +424,42 @@ export async function registerPublicRoutes(app: Express): Promise<void> {
             .json({ error: "Rating muss zwischen 0 und 5 sein" });
         }
 
-        const success = await storage.setPhotoRating(photoId, rating);
-        if (!success) {
-          return res.status(404).json({ error: "Foto nicht gefunden" });
-        }
-
-        // Get updated photo data
         const updatedPhoto = await storage.getPhoto(photoId);
         if (!updatedPhoto) {
           return res.status(404).json({ error: "Foto nicht gefunden" });
         }
 
+        const visitor = await getVisitor(req, updatedPhoto.galleryId);
+        if (!visitor) {
+          return res
+            .status(401)
+            .json({ error: "Bitte gib zuerst deinen Namen ein" });
+        }
+
+        const access = await getGalleryAccess(req, updatedPhoto.galleryId);
+        if (!access?.canRate) {
+          return res
+            .status(403)
+            .json({ error: "Bewerten ist über diesen Link nicht erlaubt" });
+        }
+
+        const lockError = await getSelectionLockError(visitor.id, [
+          updatedPhoto.galleryId,
+        ]);
+        if (lockError) {
+          return res.status(423).json({ error: lockError });
+        }
+
+        const [pick] = await storage.setVisitorPicks(visitor.id, [photoId], {
+          rating,
+        });
+
         // Create notification asynchronously
         const gallery = await storage.getGallery(updatedPhoto.galleryId);
 
         if (gallery?.userId) {
-          const actorName = userName || "Anonymer Besucher";
-          const actorText = userName || "Jemand";
+          const actorName = visitor.name;
+          const actorText = visitor.name;
           const message = `${actorText} hat Bild "${updatedPhoto.alt}" in Galerie "${gallery.name}" mit ${rating} Stern${rating !== 1 ? "en" : ""} bewertet`;
 
           storage
@@ -267,7 +481,7 @@ export async function registerPublicRoutes(app: Express): Promise<void> {
           success: true,
           photo: {
             id: updatedPhoto.id,
-            rating: updatedPhoto.rating || 0,
+            rating: pick.rating,
           },
         });
       } catch (error) {
@@ -277,29 +491,53 @@ export async function registerPublicRoutes(app: Express): Promise<void> {
     })
   app.post("/api/public/photos/:photoId/like", async (req, res) => {
       try {
-        const { isLiked, userName } = req.body;
+        const { isLiked } = req.body;
         const { photoId } = req.params;
 
         if (typeof isLiked !== "boolean") {
           return res.status(400).json({ error: "isLiked muss ein Boolean sein" });
         }
 
-        const like = await storage.togglePhotoLike(photoId, isLiked);
+        const photo = await storage.getPhoto(photoId);
+        if (!photo) {
+          return res.status(404).json({ error: "Foto nicht gefunden" });
+        }
+
+        const visitor = await getVisitor(req, photo.galleryId);
+        if (!visitor) {
+          return res
+            .status(401)
+            .json({ error: "Bitte gib zuerst deinen Namen ein" });
+        }
+
+        const access = await getGalleryAccess(req, photo.galleryId);
+        if (!access?.canRate) {
+          return res
+            .status(403)
+            .json({ error: "Bewerten ist über diesen Link nicht erlaubt" });
+        }
 
-        // Get updated like status
-        const allLikes = await storage.getAllPhotoLikes(photoId);
-        const likeCount = allLikes.filter((like) => like.isLiked).length;
-        const dislikeCount = allLikes.filter((like) => !like.isLiked).length;
-        const currentStatus = likeCount > dislikeCount;
+        const lockError = await getSelectionLockError(visitor.id, [
+          photo.galleryId,
+        ]);
+        if (lockError) {
+          return res.status(423).json({ error: lockError });
+        }
+
+        const [pick] = await storage.setVisitorPicks(visitor.id, [photoId], {
+          isLiked,
+        });
+
+        // Number of visitors who like the photo
+        const likeCount = await storage.getVisitorLikeCount(photoId);
 
         // Create notification asynchronously
-        const photo = await storage.getPhoto(photoId);
-        const gallery = photo ? await storage.getGallery(photo.galleryId) : null;
+        const gallery = await storage.getGallery(photo.galleryId);
 
-        if (photo && gallery?.userId) {
+        if (gallery?.userId) {
           const action = isLiked ? "geliked" : "entliked";
-          const actorName = userName || "Anonymer Besucher";
-          const actorText = userName || "Jemand";
+          const actorName = visitor.name;
+          const actorText = visitor.name;
           const message = `${actorText} hat Bild "${photo.alt}" in Galerie "${gallery.name}" ${action}`;
 
           storage
@@ -321,7 +559,7 @@ export async function registerPublicRoutes(app: Express): Promise<void> {
           success: true,
           photo: {
             id: photoId,
-            isLiked: currentStatus,
+            isLiked: pick.isLiked,
             likeCount: likeCount,
           },
         });
@@ -330,6 +568,56 @@ export async function registerPublicRoutes(app: Express): Promise<void> {
         res.status(500).json({ error: "Fehler beim Speichern des Likes" });
       }
     })
+  app.post("/api/public/photos/selection", async (req, res) => {
+      try {
+        const { photoIds, isSelected } = req.body;
+
+        if (!Array.isArray(photoIds) || photoIds.length === 0) {
+          return res.status(400).json({ error: "Photo-IDs sind erforderlich" });
+        }
+        if (typeof isSelected !== "boolean") {
+          return res
+            .status(400)
+            .json({ error: "isSelected muss ein Boolean sein" });
+        }
+
+        const { visitor, photos: selectedPhotos } = await getVisitorForPhotos(
+          req,
+          photoIds,
+        );
+        if (!visitor) {
+          return res
+            .status(401)
+            .json({ error: "Bitte gib zuerst deinen Namen ein" });
+        }
+
+        const access = await getGalleryAccess(req, visitor.galleryId);
+        if (!access?.canRate) {
+          return res
+            .status(403)
+            .json({ error: "Bewerten ist über diesen Link nicht erlaubt" });
+        }
+
+        const lockError = await getSelectionLockError(
+          visitor.id,
+          selectedPhotos.map((photo) => photo.galleryId),
+        );
+        if (lockError) {
+          return res.status(423).json({ error: lockError });
+        }
+
+        await storage.setVisitorPicks(
+          visitor.id,
+          selectedPhotos.map((photo) => photo.id),
+          { isSelected },
+        );
+
+        res.json({ success: true });
+      } catch (error) {
+        console.error("Public selection error:", error);
+        res.status(500).json({ error: "Fehler beim Speichern der Auswahl" });
+      }
+    })
   app.post("/api/public/photos/:photoId/comments", async (req, res) => {
       try {
         const { commenterName, text } = req.body;
@@ -341,16 +629,25 @@ export async function registerPublicRoutes(app: Express): Promise<void> {
             .json({ error: "Name und Text sind erforderlich" });
         }
 
+        const photo = await storage.getPhoto(photoId);
+        if (!photo) {
+          return res.status(404).json({ error: "Foto nicht gefunden" });
+        }
+
+        const access = await getGalleryAccess(req, photo.galleryId);
+        if (!access?.canComment) {
+          return res
+            .status(403)
+            .json({ error: "Kommentieren ist über diesen Link nicht erlaubt" });
+        }
+
         const commentId = await storage.addComment(photoId, commenterName, text);
 
         // Create comment notification for gallery owner
         try {
-          const photo = await storage.getPhoto(photoId);
-          const gallery = photo
-            ? await storage.getGallery(photo.galleryId)
-            : null;
+          const gallery = await storage.getGallery(photo.galleryId);
 
-          if (photo && gallery?.userId) {
+          if (gallery?.userId) {
             const message = `${commenterName} hat einen Kommentar zu Bild "${photo.alt}" in Galerie "${gallery.name}" hinterlassen`;
 
             const notification = await storage.createNotification({
@@ -376,4 +673,31 @@ export async function registerPublicRoutes(app: Express): Promise<void> {
         res.status(500).json({ error: "Fehler beim Erstellen des Kommentars" });
       }
     })
+  app.get("/api/public/photos/:photoId/metadata", async (req, res) => {
+      try {
+        const photo = await storage.getPhoto(req.params.photoId);
+        if (!photo) {
+          return res.status(404).json({ error: "Foto nicht gefunden" });
+        }
+
+        const access = await getGalleryAccess(req, photo.galleryId);
+        if (!access?.canView) {
+          return res.status(403).json({ error: "Kein Zugriff auf diese Galerie" });
+        }
+
+        // Only the fields released by an admin are visible to clients
+        const settings = await storage.getSystemSettings();
+        const visibleFields = settings?.publicMetadataFields || [];
+        const metadata = await storage.getPhotoMetadata(photo.id);
+
+        res.json(
+          metadata && visibleFields.length > 0
+            ? MetadataExtractor.toDisplayFields(metadata, visibleFields)
+            : {},
+        );
+      } catch (error) {
+        console.error("Get public photo metadata error:", error);
+        res.status(500).json({ error: "Fehler beim Laden der Metadaten" });
+      }
+    })
 }
@@ -0,0 +1,75 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import bcrypt from "bcrypt";
+import type { Express } from "express";
+import { registerPublicRoutes } from "./publicRoutes";
+import { createTestApp, createTestGallery, createTestUser } from "./testing";
+import type { Gallery } from "@shared/schema";
+
+describe("gallery password rate limit", () => {
+  let app: Express;
+  let owner: Awaited<ReturnType<typeof createTestUser>>;
+
+  beforeAll(async () => {
+    app = await createTestApp(registerPublicRoutes);
+    owner = await createTestUser("Creator");
+  });
+
+  const createProtectedGallery = async () =>
+    createTestGallery(owner.user, { password: await bcrypt.hash("geheim", 4) });
+
+  // Every test comes from an IP of its own, the app trusts the loopback proxy
+  const unlock = (gallery: Gallery, password: string, ip: string) =>
+    request(app)
+      .post(`/api/gallery/${gallery.id}/public`)
+      .set("X-Forwarded-For", ip)
+      .send({ password });
+
+  it("blocks after the free attempts", async () => {
+    const gallery = await createProtectedGallery();
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      expect((await unlock(gallery, "falsch", "10.0.0.1")).status).toBe(401);
+    }
+    const blocked = await unlock(gallery, "geheim", "10.0.0.1");
+
+    expect(blocked.status).toBe(429);
+    expect(Number(blocked.headers["retry-after"])).toBeGreaterThan(0);
+  });
+
+  it("blocks the gallery for other IPs as well", async () => {
+    const gallery = await createProtectedGallery();
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await unlock(gallery, "falsch", `10.0.1.${attempt}`);
+    }
+
+    expect((await unlock(gallery, "geheim", "10.0.1.99")).status).toBe(429);
+  });
+
+  it("counts parallel attempts before checking them", async () => {
+    const gallery = await createProtectedGallery();
+
+    const statuses = (
+      await Promise.all(
+        Array.from({ length: 10 }, () => unlock(gallery, "falsch", "10.0.2.1")),
+      )
+    ).map((res) => res.status);
+
+    expect(statuses.filter((status) => status === 401)).toHaveLength(5);
+    expect(statuses.filter((status) => status === 429)).toHaveLength(5);
+  });
+
+  it("forgets the failures of the gallery after the right password", async () => {
+    const gallery = await createProtectedGallery();
+
+    for (let attempt = 0; attempt < 4; attempt++) {
+      await unlock(gallery, "falsch", `10.0.3.${attempt}`);
+    }
+    expect((await unlock(gallery, "geheim", "10.0.3.99")).status).toBe(200);
+
+    for (let attempt = 0; attempt < 4; attempt++) {
+      expect((await unlock(gallery, "falsch", "10.0.3.100")).status).toBe(401);
+    }
+  });
+});
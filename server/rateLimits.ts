@@ -0,0 +1,124 @@
+import type { Request, Response } from "express";
+import { storage } from "./storage";
+import type { RateLimitScope } from "@shared/schema";
+
+// Attempts are counted per client IP and per target (account or gallery)
+// before they are checked, successful ones are handed back. After a few free
+// attempts every further one doubles the waiting time, reaching the lockout
+// threshold blocks the key for longer.
+
+interface RateLimitPolicy {
+  freeAttempts: number;
+  lockoutAfter: number;
+  lockoutDuration: number;
+  resetAfter: number; // Failures older than this are forgotten
+}
+
+const BASE_DELAY = 1000; // 1 Sekunde
+const MAX_DELAY = 5 * 60 * 1000; // 5 Minuten
+
+const RATE_LIMIT_POLICIES: Record<RateLimitScope, RateLimitPolicy> = {
+  login: {
+    freeAttempts: 5,
+    lockoutAfter: 10,
+    lockoutDuration: 15 * 60 * 1000, // 15 Minuten
+    resetAfter: 60 * 60 * 1000, // 1 Stunde
+  },
+  // Every request counts, each one may send an email
+  forgot_password: {
+    freeAttempts: 3,
+    lockoutAfter: 6,
+    lockoutDuration: 60 * 60 * 1000, // 1 Stunde
+    resetAfter: 60 * 60 * 1000, // 1 Stunde
+  },
+  gallery_password: {
+    freeAttempts: 5,
+    lockoutAfter: 10,
+    lockoutDuration: 15 * 60 * 1000, // 15 Minuten
+    resetAfter: 60 * 60 * 1000, // 1 Stunde
+  },
+  // Six digit codes, only a handful of guesses per password login
+  two_factor: {
+    freeAttempts: 3,
+    lockoutAfter: 6,
+    lockoutDuration: 30 * 60 * 1000, // 30 Minuten
+    resetAfter: 60 * 60 * 1000, // 1 Stunde
+  },
+};
+
+// How long lockouts stay visible for admins
+export const LOCKOUT_HISTORY = 24 * 60 * 60 * 1000; // 24 Stunden
+
+export function getClientKey(req: Request): string {
+  return `ip:${req.ip || req.socket.remoteAddress || "unknown"}`;
+}
+
+// Block after each attempt of the policy, see recordRateLimitAttempt
+const getBlockDelays = (policy: RateLimitPolicy) =>
+  Array.from({ length: policy.lockoutAfter }, (_, index) => {
+    const attempts = index + 1;
+    if (attempts >= policy.lockoutAfter) return policy.lockoutDuration;
+    if (attempts < policy.freeAttempts) return 0;
+    return Math.min(BASE_DELAY * 2 ** (attempts - policy.freeAttempts), MAX_DELAY);
+  });
+
+// Counts the attempt before it is checked, so parallel attempts can't slip
+// past a block. Returns the seconds to wait when the attempt is rejected, 0
+// if it may go ahead.
+export async function beginAttempt(
+  scope: RateLimitScope,
+  keys: string[],
+): Promise<number> {
+  const policy = RATE_LIMIT_POLICIES[scope];
+  const now = new Date();
+  const attemptPolicy = {
+    now,
+    resetBefore: new Date(now.getTime() - policy.resetAfter),
+    blockDelays: getBlockDelays(policy),
+    lockoutAfter: policy.lockoutAfter,
+  };
+
+  const countedKeys: string[] = [];
+  let blocked = false;
+  for (const key of keys) {
+    if (await storage.recordRateLimitAttempt(scope, key, attemptPolicy)) {
+      countedKeys.push(key);
+    } else {
+      blocked = true;
+    }
+  }
+  if (!blocked) return 0;
+
+  // A rejected attempt doesn't count for the keys that weren't blocked
+  await storage.refundRateLimitAttempts(scope, countedKeys);
+  const blockedUntil = (await storage.getRateLimits(scope, keys)).reduce(
+    (latest, entry) => Math.max(latest, entry.blockedUntil?.getTime() ?? 0),
+    0,
+  );
+  return Math.max(Math.ceil((blockedUntil - Date.now()) / 1000), 1);
+}
+
+// A successful attempt forgets the failures of its target (clearKeys) and
+// isn't counted for the other keys, like the client IP
+export async function recordSuccessfulAttempt(
+  scope: RateLimitScope,
+  keys: string[],
+  clearKeys: string[],
+): Promise<void> {
+  await storage.clearRateLimits(scope, clearKeys);
+  await storage.refundRateLimitAttempts(
+    scope,
+    keys.filter((key) => !clearKeys.includes(key)),
+  );
+}
+
+export function sendRateLimited(res: Response, retryAfter: number) {
+  res.setHeader("Retry-After", String(retryAfter));
+  return res.status(429).json({
+    error:
+      retryAfter > 60
+        ? `Zu viele Fehlversuche. Bitte versuche es in ${Math.ceil(retryAfter / 60)} Minuten erneut.`
+        : `Zu viele Fehlversuche. Bitte versuche es in ${retryAfter} Sekunden erneut.`,
+    retryAfter,
+  });
+}
@@ -0,0 +1,68 @@
+import type { Express } from "express";
+import { storage } from "./storage";
+import { authenticateJWT, requireAdmin } from "./auth";
+import { LOCKOUT_HISTORY } from "./rateLimits";
+import type { RateLimit } from "@shared/schema";
+
+// Lockouts of the last day for the admin settings. Clearing an entry resets
+// its counter, the client or account can try again right away.
+
+const toLockoutResponse = async (entry: RateLimit) => {
+  let label = entry.key.slice(entry.key.indexOf(":") + 1);
+  if (entry.key.startsWith("gallery:")) {
+    const gallery = await storage.getGallery(label);
+    label = gallery?.name || label;
+  } else if (entry.key.startsWith("share_link:")) {
+    const link = await storage.getShareLink(label);
+    label = link?.label || label;
+  } else if (entry.key.startsWith("user:")) {
+    const user = await storage.getUser(label);
+    label = user?.name || label;
+  }
+
+  return {
+    ...entry,
+    type: entry.key.slice(0, entry.key.indexOf(":")), // 'ip', 'account', 'user', 'gallery', 'share_link'
+    label,
+    isActive:
+      !!entry.blockedUntil && entry.blockedUntil.getTime() > Date.now(),
+  };
+};
+
+export async function registerRateLimitsRoutes(app: Express): Promise<void> {
+  app.get(
+    "/api/rate-limits/lockouts",
+    authenticateJWT,
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const lockouts = await storage.getRateLimitLockouts(
+          new Date(Date.now() - LOCKOUT_HISTORY),
+        );
+        res.json(await Promise.all(lockouts.map(toLockoutResponse)));
+      } catch (error) {
+        console.error("Get lockouts error:", error);
+        res.status(500).json({ error: "Fehler beim Laden der Sperren" });
+      }
+    },
+  );
+
+  app.delete(
+    "/api/rate-limits/:id",
+    authenticateJWT,
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const deleted = await storage.deleteRateLimit(req.params.id);
+        if (!deleted) {
+          return res.status(404).json({ error: "Sperre nicht gefunden" });
+        }
+
+        res.json({ success: true });
+      } catch (error) {
+        console.error("Clear lockout error:", error);
+        res.status(500).json({ error: "Fehler beim Aufheben der Sperre" });
+      }
+    },
+  );
+}
@@ -0,0 +1,41 @@
+import { restoreBackup } from "./backup";
+
+// Rebuilds an empty instance from a backup archive:
+//   npm run db:migrate
+//   npm run backup:restore -- backups/fotostube-backup-<date>.tar.gz
+
+async function main() {
+  const archivePath = process.argv[2];
+  if (!archivePath) {
+    console.error("Usage: npm run backup:restore -- <backup.tar.gz>");
+    process.exit(1);
+  }
+
+  console.log(`Restoring ${archivePath}...`);
+  const result = await restoreBackup(archivePath);
+
+  for (const [table, count] of Object.entries(result.tables)) {
+    console.log(`  ${table}: ${count} row(s)`);
+  }
+  console.log(`  files: ${result.files}`);
+
+  if (result.manifest.missingFiles.length > 0) {
+    console.warn(
+      `${result.manifest.missingFiles.length} file(s) were already missing when the backup was created`,
+    );
+  }
+  if (result.thumbnailJobs > 0) {
+    console.log(
+      `${result.thumbnailJobs} photo(s) queued for thumbnail generation, it runs once the server is started`,
+    );
+  }
+  console.log("Restore completed!");
+}
+
+main().then(
+  () => process.exit(0),
+  (error) => {
+    console.error("Restore failed:", error);
+    process.exit(1);
+  },
+);
@@ -1,30 +1,64 @@
 import type { Express } from "express";
-import express from "express";
 import { createServer, type Server } from "http";
-import path from "path";
 
 import { registerSetupRoutes } from "./setupRoutes";
 import { registerAuthRoutes } from "./authRoutes";
+import { registerOidcRoutes } from "./oidcRoutes";
+import { registerTwoFactorRoutes } from "./twoFactorRoutes";
+import { registerSessionsRoutes } from "./sessionsRoutes";
+import { registerApiTokensRoutes } from "./apiTokensRoutes";
 import { registerUsersRoutes } from "./usersRoutes";
+import { registerInvitationsRoutes } from "./invitationsRoutes";
 import { registerPublicRoutes } from "./publicRoutes";
+import { registerPortalRoutes } from "./portalRoutes";
 import { registerGalleriesRoutes } from "./galleriesRoutes";
+import { registerGalleryBundlesRoutes } from "./galleryBundlesRoutes";
+import { registerUploadsRoutes } from "./uploadsRoutes";
+import { registerProofingRoutes } from "./proofingRoutes";
+import { registerFinalsRoutes } from "./finalsRoutes";
+import { registerShareLinksRoutes } from "./shareLinksRoutes";
+import { registerMediaRoutes } from "./mediaRoutes";
 import { registerDownloadsRoutes } from "./downloadsRoutes";
 import { registerNotificationsRoutes } from "./notificationsRoutes";
+import { registerRateLimitsRoutes } from "./rateLimitsRoutes";
+import { registerAuditRoutes } from "./auditRoutes";
+import { registerBackupRoutes } from "./backupRoutes";
+import { registerTrashRoutes } from "./trashRoutes";
+import { registerGalleryExpiryRoutes } from "./galleryExpiryRoutes";
+import { registerGalleryStatusRoutes } from "./galleryStatusRoutes";
 
 // Register all application routes
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Serve uploaded files statically
-  app.use("/uploads", express.static(path.join(process.cwd(), "uploads")));
+  // Uploaded files are not served statically, only through the signed
+  // URLs of the media route
 
   // Route groups are registered in explicit, stable order so that
   // Express route matching behaves identically regardless of module layout.
   await registerSetupRoutes(app);
   await registerAuthRoutes(app);
+  await registerOidcRoutes(app);
+  await registerTwoFactorRoutes(app);
+  await registerSessionsRoutes(app);
+  await registerApiTokensRoutes(app);
   await registerUsersRoutes(app);
+  await registerInvitationsRoutes(app);
   await registerPublicRoutes(app);
+  await registerPortalRoutes(app);
   await registerGalleriesRoutes(app);
+  await registerGalleryBundlesRoutes(app);
+  await registerUploadsRoutes(app);
+  await registerProofingRoutes(app);
+  await registerFinalsRoutes(app);
+  await registerShareLinksRoutes(app);
+  await registerMediaRoutes(app);
   await registerDownloadsRoutes(app);
   await registerNotificationsRoutes(app);
+  await registerRateLimitsRoutes(app);
+  await registerAuditRoutes(app);
+  await registerBackupRoutes(app);
+  await registerTrashRoutes(app);
+  await registerGalleryExpiryRoutes(app);
+  await registerGalleryStatusRoutes(app);
 
   const httpServer = createServer(app);
 
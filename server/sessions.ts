@@ -0,0 +1,148 @@
+import type { Request, Response } from "express";
+import crypto from "crypto";
+import { storage } from "./storage";
+import type { Session } from "@shared/schema";
+
+// Server-side login sessions. The refresh token lives in an HTTP-only cookie
+// that is only sent to /api/auth, it rotates on every refresh and the session
+// expires after 30 days without activity.
+
+const REFRESH_COOKIE = "refreshToken";
+const REFRESH_COOKIE_PATH = "/api/auth";
+const SESSION_LIFETIME = 30 * 24 * 60 * 60 * 1000; // 30 Tage
+// Parallel refreshes (e.g. several tabs) may still present the previous token
+const ROTATION_GRACE = 60 * 1000;
+// lastSeenAt is only written every few minutes, not on every request
+const TOUCH_INTERVAL = 5 * 60 * 1000;
+
+const hashRefreshToken = (token: string) =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+const generateRefreshToken = () => crypto.randomBytes(32).toString("base64url");
+
+function setRefreshCookie(res: Response, token: string, expiresAt: Date) {
+  res.cookie(REFRESH_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "strict",
+    path: REFRESH_COOKIE_PATH,
+    expires: expiresAt,
+  });
+}
+
+export function clearRefreshCookie(res: Response) {
+  res.clearCookie(REFRESH_COOKIE, { path: REFRESH_COOKIE_PATH });
+}
+
+export const isSessionActive = (session: Session) =>
+  !session.revokedAt && session.expiresAt.getTime() > Date.now();
+
+export async function createSession(
+  req: Request,
+  res: Response,
+  userId: string,
+): Promise<Session> {
+  const refreshToken = generateRefreshToken();
+  const session = await storage.createSession({
+    userId,
+    refreshTokenHash: hashRefreshToken(refreshToken),
+    userAgent: req.get("user-agent")?.slice(0, 500) || null,
+    ipAddress: req.ip || null,
+    expiresAt: new Date(Date.now() + SESSION_LIFETIME),
+  });
+
+  setRefreshCookie(res, refreshToken, session.expiresAt);
+  return session;
+}
+
+// Resolves the session of an access token and keeps lastSeenAt up to date
+export async function getActiveSession(
+  sessionId: string,
+): Promise<Session | undefined> {
+  const session = await storage.getSession(sessionId);
+  if (!session || !isSessionActive(session)) return undefined;
+
+  const lastSeen = session.lastSeenAt?.getTime() ?? 0;
+  if (Date.now() - lastSeen > TOUCH_INTERVAL) {
+    storage.touchSession(session.id).catch((error) => {
+      console.error("Touch session error:", error);
+    });
+  }
+
+  return session;
+}
+
+// Session of the refresh cookie, without rotating it (e.g. for the logout)
+export async function getRefreshSession(
+  req: Request,
+): Promise<Session | undefined> {
+  const refreshToken = req.cookies?.[REFRESH_COOKIE];
+  if (!refreshToken) return undefined;
+
+  return storage.getSessionByRefreshToken(hashRefreshToken(refreshToken));
+}
+
+// Validates the refresh cookie and issues a new one. Presenting an already
+// rotated token after the grace period means it was copied - the session is
+// revoked in that case.
+export async function rotateSession(
+  req: Request,
+  res: Response,
+): Promise<Session | undefined> {
+  const refreshToken = req.cookies?.[REFRESH_COOKIE];
+  if (!refreshToken) return undefined;
+
+  const tokenHash = hashRefreshToken(refreshToken);
+  const session = await storage.getSessionByRefreshToken(tokenHash);
+  if (!session || !isSessionActive(session)) return undefined;
+
+  if (session.refreshTokenHash !== tokenHash) {
+    const rotatedAt = session.rotatedAt?.getTime() ?? 0;
+    if (Date.now() - rotatedAt > ROTATION_GRACE) {
+      await storage.revokeSession(session.id);
+      return undefined;
+    }
+    return session;
+  }
+
+  const newToken = generateRefreshToken();
+  const expiresAt = new Date(Date.now() + SESSION_LIFETIME);
+  const rotated = await storage.rotateSessionRefreshToken(
+    session.id,
+    tokenHash,
+    hashRefreshToken(newToken),
+    expiresAt,
+  );
+
+  // Lost the race against a parallel refresh, which already set the new cookie
+  if (rotated) {
+    setRefreshCookie(res, newToken, expiresAt);
+  }
+  return session;
+}
+
+// Rough device description for the session list, e.g. "Firefox unter Windows"
+export function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return "Unbekanntes Gerät";
+
+  const browser =
+    [
+      ["Edg/", "Edge"],
+      ["OPR/", "Opera"],
+      ["Firefox/", "Firefox"],
+      ["Chrome/", "Chrome"],
+      ["Safari/", "Safari"],
+    ].find(([token]) => userAgent.includes(token))?.[1] || "Browser";
+
+  const os =
+    [
+      ["iPhone", "iOS"],
+      ["iPad", "iPadOS"],
+      ["Android", "Android"],
+      ["Windows", "Windows"],
+      ["Mac OS X", "macOS"],
+      ["Linux", "Linux"],
+    ].find(([token]) => userAgent.includes(token))?.[1] || null;
+
+  return os ? `${browser} unter ${os}` : browser;
+}
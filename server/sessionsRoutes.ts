@@ -0,0 +1,117 @@
+import type { Express } from "express";
+import { storage } from "./storage";
+import { authenticateJWT, issueAccessToken } from "./auth";
+import {
+  clearRefreshCookie,
+  describeUserAgent,
+  rotateSession,
+} from "./sessions";
+import { recordAuditEvent } from "./audit";
+
+// Refresh of the short-lived access token and the list of active sessions
+// in the account settings, where single devices or all others can be
+// logged out.
+
+// Expired and revoked sessions are of no use anymore
+async function cleanupSessions() {
+  try {
+    const removed = await storage.deleteExpiredSessions(new Date());
+    if (removed > 0) {
+      console.log(`Removed ${removed} expired session(s)`);
+    }
+  } catch (error) {
+    console.error("Cleanup sessions error:", error);
+  }
+}
+
+export async function registerSessionsRoutes(app: Express): Promise<void> {
+  // Cleanup expired sessions every hour
+  cleanupSessions();
+  setInterval(cleanupSessions, 60 * 60 * 1000);
+
+  // Issues a new access token, the role is read again from the user
+  app.post("/api/auth/refresh", async (req, res) => {
+    try {
+      const session = await rotateSession(req, res);
+      const user = session ? await storage.getUser(session.userId) : undefined;
+      if (!session || !user) {
+        res.clearCookie("authToken");
+        clearRefreshCookie(res);
+        return res.status(401).json({ error: "Sitzung abgelaufen oder beendet" });
+      }
+
+      const token = issueAccessToken(res, user, session.id);
+      const { password: _, ...userWithoutPassword } = user;
+      res.json({ user: userWithoutPassword, token });
+    } catch (error) {
+      console.error("Refresh session error:", error);
+      res.status(500).json({ error: "Fehler beim Erneuern der Sitzung" });
+    }
+  });
+
+  app.get("/api/auth/sessions", authenticateJWT, async (req: any, res) => {
+    try {
+      const sessions = await storage.getActiveSessions(req.user.userId);
+      res.json(
+        sessions.map((session) => ({
+          id: session.id,
+          device: describeUserAgent(session.userAgent),
+          userAgent: session.userAgent,
+          ipAddress: session.ipAddress,
+          createdAt: session.createdAt,
+          lastSeenAt: session.lastSeenAt,
+          isCurrent: session.id === req.user.sessionId,
+        })),
+      );
+    } catch (error) {
+      console.error("Get sessions error:", error);
+      res.status(500).json({ error: "Fehler beim Laden der Sitzungen" });
+    }
+  });
+
+  // Logs out all other devices ("überall abmelden")
+  app.post(
+    "/api/auth/sessions/revoke-others",
+    authenticateJWT,
+    async (req: any, res) => {
+      try {
+        const revoked = await storage.revokeUserSessions(
+          req.user.userId,
+          req.user.sessionId,
+        );
+        await recordAuditEvent(req, {
+          action: "auth.sessions_revoke",
+          targetType: "user",
+          targetId: req.user.userId,
+          details: { revoked },
+        });
+        res.json({ success: true, revoked });
+      } catch (error) {
+        console.error("Revoke sessions error:", error);
+        res.status(500).json({ error: "Fehler beim Beenden der Sitzungen" });
+      }
+    },
+  );
+
+  app.delete("/api/auth/sessions/:id", authenticateJWT, async (req: any, res) => {
+    try {
+      const session = await storage.getSession(req.params.id);
+      if (!session || session.userId !== req.user.userId) {
+        return res.status(404).json({ error: "Sitzung nicht gefunden" });
+      }
+
+      await storage.revokeSession(session.id);
+      await recordAuditEvent(req, {
+        action: "auth.session_revoke",
+        targetType: "session",
+        targetId: session.id,
+        targetName: describeUserAgent(session.userAgent),
+        details: { ipAddress: session.ipAddress },
+      });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Revoke session error:", error);
+      res.status(500).json({ error: "Fehler beim Beenden der Sitzung" });
+    }
+  });
+}
@@ -9,6 +9,7 @@ import {
   insertPhotoLikeSchema,
   insertCommentSchema,
   insertNotificationSchema,
+  PHOTO_METADATA_FIELDS,
 } from "@shared/schema";
 import { z } from "zod";
 import multer from "multer";
@@ -35,6 +36,7 @@ import { sendPasswordResetEmail } from "./mailer";
 import crypto from "crypto";
 import { checkInitialSetup, createInitialAdmin, configureSmtp } from "./setup";
 import { upload, ensureUploadDirs } from "./upload";
+import { recordAuditEvent } from "./audit";
 
 export async function registerSetupRoutes(app: Express): Promise<void> {
   app.get("/api/setup/status", async (req, res) => {
@@ -67,6 +69,15 @@ export async function registerSetupRoutes(app: Express): Promise<void> {
         }
 
         const user = await createInitialAdmin({ name, email, password });
+        await recordAuditEvent(req, {
+          action: "user.create",
+          targetType: "user",
+          targetId: user.id,
+          targetName: user.name,
+          after: { name: user.name, email: user.email, role: user.role },
+          details: { initialSetup: true },
+          actor: { id: user.id, name: user.name },
+        });
         const { password: _, ...userWithoutPassword } = user;
 
         res.status(201).json({ user: userWithoutPassword });
@@ -110,13 +121,22 @@ export async function registerSetupRoutes(app: Express): Promise<void> {
             .json({ error: "Alle SMTP-Felder sind erforderlich" });
         }
 
-        await configureSmtp({
+        const before = await storage.getSystemSettings();
+        const smtpSettings = {
           smtpHost,
           smtpPort: parseInt(smtpPort),
           smtpUser,
           smtpPassword,
           smtpFrom,
           appUrl,
+        };
+        await configureSmtp(smtpSettings);
+        await recordAuditEvent(req, {
+          action: "settings.update",
+          targetType: "settings",
+          targetName: "SMTP",
+          before,
+          after: smtpSettings,
         });
 
         res.json({ success: true });
@@ -145,16 +165,155 @@ export async function registerSetupRoutes(app: Express): Promise<void> {
       requireAdmin,
       async (req: any, res) => {
         try {
-          const { smtpHost, smtpPort, smtpUser, smtpPassword, smtpFrom, appUrl } =
-            req.body;
+          const {
+            smtpHost,
+            smtpPort,
+            smtpUser,
+            smtpPassword,
+            smtpFrom,
+            appUrl,
+            publicMetadataFields,
+            requireTwoFactor,
+            oidcEnabled,
+            oidcProviderName,
+            oidcIssuer,
+            oidcClientId,
+            oidcClientSecret,
+            oidcScopes,
+            oidcRoleClaim,
+            oidcAdminRoleValue,
+            oidcCreatorRoleValue,
+            disablePasswordLogin,
+            auditRetentionDays,
+            backupIntervalHours,
+            backupKeepCount,
+            backupIncludeDerivatives,
+            trashRetentionDays,
+            expiryReminderDays,
+            archiveExpiredGalleries,
+          } = req.body;
+
+          if (
+            publicMetadataFields !== undefined &&
+            (!Array.isArray(publicMetadataFields) ||
+              publicMetadataFields.some(
+                (field: string) => !PHOTO_METADATA_FIELDS.includes(field as any),
+              ))
+          ) {
+            return res.status(400).json({ error: "Ungültige Metadaten-Felder" });
+          }
+
+          if (oidcEnabled && (!oidcIssuer || !oidcClientId)) {
+            return res
+              .status(400)
+              .json({ error: "Issuer und Client-ID sind für SSO erforderlich" });
+          }
 
-          await storage.updateSystemSettings({
+          if (oidcScopes !== undefined && !/\bopenid\b/.test(oidcScopes || "")) {
+            return res
+              .status(400)
+              .json({ error: "Die Scopes müssen \"openid\" enthalten" });
+          }
+
+          if (
+            auditRetentionDays !== undefined &&
+            (!Number.isInteger(auditRetentionDays) ||
+              auditRetentionDays < 0 ||
+              auditRetentionDays > 3650)
+          ) {
+            return res
+              .status(400)
+              .json({ error: "Ungültige Aufbewahrungsdauer für das Protokoll" });
+          }
+
+          if (
+            backupIntervalHours !== undefined &&
+            (!Number.isInteger(backupIntervalHours) ||
+              backupIntervalHours < 0 ||
+              backupIntervalHours > 8760)
+          ) {
+            return res.status(400).json({ error: "Ungültiges Backup-Intervall" });
+          }
+
+          if (
+            backupKeepCount !== undefined &&
+            (!Number.isInteger(backupKeepCount) ||
+              backupKeepCount < 0 ||
+              backupKeepCount > 1000)
+          ) {
+            return res
+              .status(400)
+              .json({ error: "Ungültige Anzahl aufzubewahrender Backups" });
+          }
+
+          if (
+            trashRetentionDays !== undefined &&
+            (!Number.isInteger(trashRetentionDays) ||
+              trashRetentionDays < 0 ||
+              trashRetentionDays > 3650)
+          ) {
+            return res
+              .status(400)
+              .json({ error: "Ungültige Aufbewahrungsdauer für den Papierkorb" });
+          }
+
+          if (
+            expiryReminderDays !== undefined &&
+            (!Number.isInteger(expiryReminderDays) ||
+              expiryReminderDays < 0 ||
+              expiryReminderDays > 365)
+          ) {
+            return res
+              .status(400)
+              .json({ error: "Ungültige Vorlaufzeit für die Ablauf-Erinnerung" });
+          }
+
+          const before = await storage.getSystemSettings();
+          const updates = {
             smtpHost,
             smtpPort,
             smtpUser,
             smtpPassword,
             smtpFrom,
             appUrl,
+            publicMetadataFields,
+            requireTwoFactor:
+              requireTwoFactor === undefined ? undefined : !!requireTwoFactor,
+            oidcEnabled: oidcEnabled === undefined ? undefined : !!oidcEnabled,
+            oidcProviderName,
+            oidcIssuer,
+            oidcClientId,
+            oidcClientSecret,
+            oidcScopes,
+            oidcRoleClaim,
+            oidcAdminRoleValue,
+            oidcCreatorRoleValue,
+            disablePasswordLogin:
+              disablePasswordLogin === undefined
+                ? undefined
+                : !!disablePasswordLogin,
+            auditRetentionDays,
+            backupIntervalHours,
+            backupKeepCount,
+            backupIncludeDerivatives:
+              backupIncludeDerivatives === undefined
+                ? undefined
+                : !!backupIncludeDerivatives,
+            trashRetentionDays,
+            expiryReminderDays,
+            archiveExpiredGalleries:
+              archiveExpiredGalleries === undefined
+                ? undefined
+                : !!archiveExpiredGalleries,
+          };
+          await storage.updateSystemSettings(updates);
+
+          await recordAuditEvent(req, {
+            action: "settings.update",
+            targetType: "settings",
+            targetName: "System",
+            before,
+            after: updates,
           });
 
           res.json({ success: true });
@@ -197,6 +356,14 @@ export async function registerSetupRoutes(app: Express): Promise<void> {
           await db.insert(brandingSettings).values({ companyName });
         }
 
+        await recordAuditEvent(req, {
+          action: "settings.update",
+          targetType: "settings",
+          targetName: "Branding",
+          before: existingSettings,
+          after: { companyName },
+        });
+
         res.json({ success: true, companyName });
       } catch (error) {
         console.error("Error updating branding settings:", error);
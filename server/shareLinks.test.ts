@@ -0,0 +1,117 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import { randomUUID } from "crypto";
+import { storage } from "./storage";
+import { registerPublicRoutes } from "./publicRoutes";
+import { registerShareLinksRoutes } from "./shareLinksRoutes";
+import { registerDownloadsRoutes } from "./downloadsRoutes";
+import {
+  createTestApp,
+  createTestGallery,
+  createTestPhoto,
+  createTestUser,
+} from "./testing";
+import type { Gallery } from "@shared/schema";
+
+describe("share links", () => {
+  let app: Express;
+  let owner: Awaited<ReturnType<typeof createTestUser>>;
+
+  beforeAll(async () => {
+    app = await createTestApp(
+      registerPublicRoutes,
+      registerShareLinksRoutes,
+      registerDownloadsRoutes,
+    );
+    owner = await createTestUser("Creator");
+  });
+
+  const createLink = async (gallery: Gallery, link: Record<string, unknown> = {}) => {
+    const res = await request(app)
+      .post(`/api/galleries/${gallery.id}/share-links`)
+      .set("Authorization", owner.auth)
+      .send({ label: "Kunde", ...link });
+    expect(res.status).toBe(201);
+    return res.body;
+  };
+
+  it("opens a password protected link only with its password", async () => {
+    const gallery = await createTestGallery(owner.user);
+    const link = await createLink(gallery, { password: "geheim" });
+    const visitor = request.agent(app);
+
+    const withoutPassword = await visitor.post(`/api/public/share/${link.token}`).send({});
+    const wrongPassword = await visitor
+      .post(`/api/public/share/${link.token}`)
+      .send({ password: "falsch" });
+    expect(withoutPassword.status).toBe(403);
+    expect(withoutPassword.body.passwordRequired).toBe(true);
+    expect(wrongPassword.status).toBe(401);
+    expect((await visitor.get(`/api/gallery/${gallery.id}/public`)).status).toBe(403);
+
+    const opened = await visitor
+      .post(`/api/public/share/${link.token}`)
+      .send({ password: "geheim" });
+    expect(opened.status).toBe(200);
+    expect(link.password).toBeUndefined();
+    expect((await visitor.get(`/api/gallery/${gallery.id}/public`)).status).toBe(200);
+  });
+
+  it("ends the access of a revoked link", async () => {
+    const gallery = await createTestGallery(owner.user);
+    const link = await createLink(gallery);
+    const visitor = request.agent(app);
+    await visitor.post(`/api/public/share/${link.token}`).send({});
+
+    const revoked = await request(app)
+      .post(`/api/share-links/${link.id}/revoke`)
+      .set("Authorization", owner.auth);
+
+    expect(revoked.status).toBe(200);
+    expect((await visitor.get(`/api/gallery/${gallery.id}/public`)).status).toBe(403);
+    expect((await visitor.post(`/api/public/share/${link.token}`).send({})).status).toBe(410);
+  });
+
+  it("keeps links without rating from changing the selection", async () => {
+    const gallery = await createTestGallery(owner.user);
+    const photo = await createTestPhoto(gallery.id);
+
+    const select = async (canRate: boolean) => {
+      const link = await createLink(gallery, { canRate });
+      const visitor = request.agent(app);
+      await visitor.post(`/api/public/share/${link.token}`).send({});
+      await visitor.post(`/api/public/galleries/${gallery.id}/visitor`).send({ name: "Anna" });
+      return visitor
+        .post("/api/public/photos/selection")
+        .send({ photoIds: [photo.id], isSelected: true });
+    };
+
+    expect((await select(false)).status).toBe(403);
+    expect((await select(true)).status).toBe(200);
+  });
+
+  it("only downloads photos whose own gallery allows downloads", async () => {
+    const gallery = await createTestGallery(owner.user, { name: randomUUID() });
+    const subGallery = await createTestGallery(owner.user, {
+      parentId: gallery.id,
+      allowDownload: false,
+    });
+    const photo = await createTestPhoto(gallery.id);
+    const subPhoto = await createTestPhoto(subGallery.id);
+
+    const denied = await request(app)
+      .post("/api/public/photos/prepare-download")
+      .send({ photoIds: [subPhoto.id] });
+    const allowed = await request(app)
+      .post("/api/public/photos/prepare-download")
+      .send({ photoIds: [photo.id, subPhoto.id] });
+
+    expect(denied.status).toBe(403);
+    expect(allowed.status).toBe(200);
+    const { events } = await storage.getAuditEvents({ search: gallery.name }, 10);
+    expect(events.map((event) => event.details)).toEqual([
+      { photoCount: 1, quality: "original" },
+    ]);
+  });
+});
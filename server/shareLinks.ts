@@ -0,0 +1,173 @@
+import type { Request, Response } from "express";
+import crypto from "crypto";
+import { storage } from "./storage";
+import { filterPhotosByRootGallery, getRootGalleryId } from "./visitors";
+import { hasGalleryPasswordAccess } from "./galleryPasswords";
+import { getAssignedClient } from "./clients";
+import { getExpiredRootGallery } from "./galleryExpiry";
+import { isDraftGallery } from "./galleryStatus";
+import type {
+  Gallery,
+  Photo,
+  ShareLink,
+  ShareLinkDownloadMode,
+} from "@shared/schema";
+
+const SHARE_COOKIE_PREFIX = "gallery_share_";
+const SHARE_COOKIE_MAX_AGE = 365 * 24 * 60 * 60 * 1000; // 1 Jahr
+
+// What the current visitor may do in a public gallery
+export interface GalleryAccess {
+  canView: boolean;
+  canRate: boolean;
+  canComment: boolean;
+  downloadMode: ShareLinkDownloadMode;
+  shareLink?: ShareLink;
+}
+
+export function generateShareToken(): string {
+  return crypto.randomBytes(24).toString("base64url");
+}
+
+export function isShareLinkExpired(link: ShareLink): boolean {
+  return !!link.expiresAt && link.expiresAt.getTime() < Date.now();
+}
+
+export function isShareLinkActive(link: ShareLink): boolean {
+  return !link.revokedAt && !isShareLinkExpired(link);
+}
+
+// The cookie lives as long as the link, revocation is checked on every request
+export function setShareLinkCookie(res: Response, link: ShareLink) {
+  res.cookie(SHARE_COOKIE_PREFIX + link.galleryId, link.token, {
+    httpOnly: true,
+    signed: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    maxAge: link.expiresAt
+      ? Math.max(link.expiresAt.getTime() - Date.now(), 0)
+      : SHARE_COOKIE_MAX_AGE,
+  });
+}
+
+// Full access for galleries opened by their ID (and password). Sub-galleries
+// have their own download setting.
+export function getDefaultAccess(gallery: Gallery): GalleryAccess {
+  return {
+    canView: true,
+    canRate: true,
+    canComment: true,
+    downloadMode: gallery.allowDownload === false ? "none" : "original",
+  };
+}
+
+// Resolves the access of the request to a gallery. Clients the gallery is
+// assigned to have full access without link or password. With a valid share
+// link cookie the link's permissions apply. Galleries without any share links are
+// still reachable by their ID with full access, password protected ones only
+// with a valid access cookie. Galleries with share links are only reachable
+// through one of them - null means no access at all, as for drafts and expired
+// galleries.
+export async function getGalleryAccess(
+  req: Request,
+  galleryId: string,
+): Promise<GalleryAccess | null> {
+  if ((await isDraftGallery(galleryId)) || (await getExpiredRootGallery(galleryId))) {
+    return null;
+  }
+
+  const rootGalleryId = await getRootGalleryId(galleryId);
+
+  if (await getAssignedClient(req, rootGalleryId)) {
+    const gallery = await storage.getGallery(galleryId);
+    return gallery ? getDefaultAccess(gallery) : null;
+  }
+
+  const token = req.signedCookies?.[SHARE_COOKIE_PREFIX + rootGalleryId];
+
+  if (token) {
+    const link = await storage.getShareLinkByToken(token);
+    if (link && link.galleryId === rootGalleryId && isShareLinkActive(link)) {
+      return {
+        canView: link.canView,
+        canRate: link.canRate,
+        canComment: link.canComment,
+        downloadMode: link.downloadMode as ShareLinkDownloadMode,
+        shareLink: link,
+      };
+    }
+  }
+
+  if (await storage.hasShareLinks(rootGalleryId)) {
+    return null;
+  }
+
+  const gallery = await storage.getGallery(galleryId);
+  if (!gallery) return null;
+
+  const rootGallery =
+    gallery.id === rootGalleryId
+      ? gallery
+      : await storage.getGallery(rootGalleryId);
+  if (!rootGallery || !hasGalleryPasswordAccess(req, rootGallery)) {
+    return null;
+  }
+
+  return getDefaultAccess(gallery);
+}
+
+// Permissions without the link itself, as sent to public clients
+export function toPublicAccess(access: GalleryAccess) {
+  return {
+    canView: access.canView,
+    canRate: access.canRate,
+    canComment: access.canComment,
+    downloadMode: access.downloadMode,
+  };
+}
+
+// Loads the photos a visitor may download together with the access to use.
+// Only photos from the top-level gallery of the first photo count, and each
+// of them needs view and download access to its own gallery - sub-galleries
+// have their own download setting. With mixed qualities the web version is
+// packed for all.
+export async function getDownloadAccessForPhotos(
+  req: Request,
+  photoIds: string[],
+): Promise<{ access: GalleryAccess | null; photos: Photo[] }> {
+  const photos = await storage.getPhotosByIds(photoIds);
+  if (photos.length === 0) {
+    return { access: null, photos };
+  }
+
+  const rootPhotos = await filterPhotosByRootGallery(
+    photos,
+    await getRootGalleryId(photos[0].galleryId),
+  );
+  const accessByGallery = new Map<string, GalleryAccess | null>();
+  for (const photo of rootPhotos) {
+    if (!accessByGallery.has(photo.galleryId)) {
+      accessByGallery.set(
+        photo.galleryId,
+        await getGalleryAccess(req, photo.galleryId),
+      );
+    }
+  }
+
+  const canDownload = (access: GalleryAccess | null | undefined) =>
+    !!access?.canView && access.downloadMode !== "none";
+  const downloadPhotos = rootPhotos.filter((photo) =>
+    canDownload(accessByGallery.get(photo.galleryId)),
+  );
+  const accesses = Array.from(accessByGallery.values()).filter(
+    (access): access is GalleryAccess => canDownload(access),
+  );
+  if (accesses.length === 0) {
+    return { access: null, photos: [] };
+  }
+
+  return {
+    access: accesses.find((access) => access.downloadMode === "web") || accesses[0],
+    photos: downloadPhotos,
+  };
+}
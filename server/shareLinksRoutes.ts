@@ -0,0 +1,239 @@
+import type { Express } from "express";
+import bcrypt from "bcrypt";
+import { storage } from "./storage";
+import { authenticateJWT, requireStaff } from "./auth";
+import { requireGalleryPermission } from "./galleryPermissions";
+import { getRootGalleryId } from "./visitors";
+import {
+  generateShareToken,
+  isShareLinkActive,
+  isShareLinkExpired,
+  setShareLinkCookie,
+} from "./shareLinks";
+import { recordAuditEvent } from "./audit";
+import {
+  beginAttempt,
+  getClientKey,
+  recordSuccessfulAttempt,
+  sendRateLimited,
+} from "./rateLimits";
+import { getExpiredRootGallery, toExpiredResponse } from "./galleryExpiry";
+import { advanceGalleryStatus, isDraftGallery } from "./galleryStatus";
+import { SHARE_LINK_DOWNLOAD_MODES, type ShareLink } from "@shared/schema";
+
+// Share links: every link of a top-level gallery has its own token, expiry,
+// password and permissions and can be revoked on its own. Opening a link
+// stores its token in a signed cookie that the public routes check.
+
+const toShareLinkResponse = (link: ShareLink) => {
+  const { password, ...rest } = link;
+  return {
+    ...rest,
+    hasPassword: !!password,
+    isExpired: isShareLinkExpired(link),
+    isActive: isShareLinkActive(link),
+  };
+};
+
+export async function registerShareLinksRoutes(app: Express): Promise<void> {
+  app.get(
+    "/api/galleries/:galleryId/share-links",
+    authenticateJWT,
+    requireStaff,
+    requireGalleryPermission("manage"),
+    async (req: any, res) => {
+      try {
+        const gallery = await storage.getGallery(req.params.galleryId);
+        if (!gallery) {
+          return res.status(404).json({ error: "Galerie nicht gefunden" });
+        }
+
+        const links = await storage.getShareLinks(
+          await getRootGalleryId(gallery.id),
+        );
+        res.json(links.map(toShareLinkResponse));
+      } catch (error) {
+        console.error("Get share links error:", error);
+        res.status(500).json({ error: "Fehler beim Laden der Freigabelinks" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/galleries/:galleryId/share-links",
+    authenticateJWT,
+    requireStaff,
+    requireGalleryPermission("manage"),
+    async (req: any, res) => {
+      try {
+        const {
+          label,
+          password,
+          expiresAt,
+          canView = true,
+          canRate = true,
+          canComment = true,
+          downloadMode = "none",
+        } = req.body;
+
+        if (typeof label !== "string" || !label.trim()) {
+          return res.status(400).json({ error: "Bezeichnung ist erforderlich" });
+        }
+
+        const expiresAtDate = expiresAt ? new Date(expiresAt) : null;
+        if (expiresAtDate && isNaN(expiresAtDate.getTime())) {
+          return res.status(400).json({ error: "Ungültiges Ablaufdatum" });
+        }
+
+        if (
+          typeof canView !== "boolean" ||
+          typeof canRate !== "boolean" ||
+          typeof canComment !== "boolean"
+        ) {
+          return res
+            .status(400)
+            .json({ error: "Berechtigungen müssen Booleans sein" });
+        }
+
+        if (!SHARE_LINK_DOWNLOAD_MODES.includes(downloadMode)) {
+          return res.status(400).json({ error: "Ungültiger Download-Modus" });
+        }
+
+        const gallery = await storage.getGallery(req.params.galleryId);
+        if (!gallery) {
+          return res.status(404).json({ error: "Galerie nicht gefunden" });
+        }
+
+        const hashedPassword =
+          typeof password === "string" && password.trim()
+            ? await bcrypt.hash(password.trim(), 10)
+            : null;
+
+        const link = await storage.createShareLink({
+          galleryId: await getRootGalleryId(gallery.id),
+          token: generateShareToken(),
+          label: label.trim(),
+          password: hashedPassword,
+          expiresAt: expiresAtDate,
+          canView,
+          canRate,
+          canComment,
+          downloadMode,
+          createdBy: req.user.userId,
+        });
+
+        await recordAuditEvent(req, {
+          action: "gallery.share_link_create",
+          targetType: "gallery",
+          targetId: link.galleryId,
+          targetName: gallery.name,
+          details: {
+            shareLinkId: link.id,
+            label: link.label,
+            hasPassword: !!hashedPassword,
+            expiresAt: link.expiresAt,
+            permissions: { canView, canRate, canComment, downloadMode },
+          },
+        });
+
+        // Creating a link shares a draft
+        await advanceGalleryStatus(link.galleryId, ["draft"], "shared", {
+          userId: req.user.userId,
+        });
+
+        res.status(201).json(toShareLinkResponse(link));
+      } catch (error) {
+        console.error("Create share link error:", error);
+        res.status(500).json({ error: "Fehler beim Erstellen des Freigabelinks" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/share-links/:id/revoke",
+    authenticateJWT,
+    requireStaff,
+    requireGalleryPermission(
+      "manage",
+      async (req) => (await storage.getShareLink(req.params.id))?.galleryId,
+    ),
+    async (req: any, res) => {
+      try {
+        const link = await storage.revokeShareLink(req.params.id);
+        if (!link) {
+          return res.status(404).json({ error: "Freigabelink nicht gefunden" });
+        }
+        const gallery = await storage.getGallery(link.galleryId);
+        await recordAuditEvent(req, {
+          action: "gallery.share_link_revoke",
+          targetType: "gallery",
+          targetId: link.galleryId,
+          targetName: gallery?.name,
+          details: { shareLinkId: link.id, label: link.label },
+        });
+        res.json(toShareLinkResponse(link));
+      } catch (error) {
+        console.error("Revoke share link error:", error);
+        res.status(500).json({ error: "Fehler beim Widerrufen des Freigabelinks" });
+      }
+    },
+  );
+
+  // Opens a share link: checks its password and stores the token in a cookie
+  app.post("/api/public/share/:token", async (req, res) => {
+    try {
+      const link = await storage.getShareLinkByToken(req.params.token);
+      if (!link) {
+        return res.status(404).json({ error: "Link nicht gefunden" });
+      }
+      if (link.revokedAt) {
+        return res.status(410).json({ error: "Dieser Link wurde widerrufen" });
+      }
+      if (isShareLinkExpired(link)) {
+        return res.status(410).json({ error: "Dieser Link ist abgelaufen" });
+      }
+      if (await isDraftGallery(link.galleryId)) {
+        return res
+          .status(403)
+          .json({ error: "Diese Galerie ist noch nicht freigegeben" });
+      }
+      const expiredGallery = await getExpiredRootGallery(link.galleryId);
+      if (expiredGallery) {
+        return res.status(410).json(toExpiredResponse(expiredGallery));
+      }
+
+      if (link.password) {
+        const { password } = req.body;
+        if (!password) {
+          const gallery = await storage.getGallery(link.galleryId);
+          return res.status(403).json({
+            error: "Link ist passwortgeschützt",
+            passwordRequired: true,
+            galleryName: gallery?.name,
+          });
+        }
+
+        const rateLimitKeys = [getClientKey(req), `share_link:${link.id}`];
+        const retryAfter = await beginAttempt("gallery_password", rateLimitKeys);
+        if (retryAfter > 0) {
+          return sendRateLimited(res, retryAfter);
+        }
+
+        if (!(await bcrypt.compare(password, link.password))) {
+          return res.status(401).json({ error: "Falsches Passwort" });
+        }
+
+        await recordSuccessfulAttempt("gallery_password", rateLimitKeys, [
+          `share_link:${link.id}`,
+        ]);
+      }
+
+      await storage.touchShareLink(link.id);
+      setShareLinkCookie(res, link);
+      res.json({ galleryId: link.galleryId });
+    } catch (error) {
+      console.error("Open share link error:", error);
+      res.status(500).json({ error: "Fehler beim Öffnen des Links" });
+    }
+  });
+}
@@ -13,6 +13,38 @@ import {
   type InsertComment,
   type Notification,
   type InsertNotification,
+  type PhotoMetadata,
+  type InsertPhotoMetadata,
+  type Job,
+  type InsertJob,
+  type UploadSession,
+  type InsertUploadSession,
+  type GalleryVisitor,
+  type InsertGalleryVisitor,
+  type VisitorPick,
+  type InsertVisitorPick,
+  type FinalPhoto,
+  type InsertFinalPhoto,
+  type ProofingRound,
+  type InsertProofingRound,
+  type ProofingSubmission,
+  type InsertProofingSubmission,
+  type ShareLink,
+  type InsertShareLink,
+  type RateLimit,
+  type RateLimitScope,
+  type UserTwoFactor,
+  type InsertUserTwoFactor,
+  type Session,
+  type InsertSession,
+  type ApiToken,
+  type InsertApiToken,
+  type UserInvitation,
+  type InsertUserInvitation,
+  type AuditEvent,
+  type InsertAuditEvent,
+  type GalleryPermission,
+  type GalleryStatus,
   users,
   galleries,
   photos,
@@ -22,11 +54,41 @@ import {
   galleryAssignments,
   brandingSettings,
   passwordResetTokens,
+  jobs,
+  uploadSessions,
+  photoMetadata,
+  galleryVisitors,
+  visitorPicks,
+  finalPhotos,
+  proofingRounds,
+  proofingSubmissions,
+  shareLinks,
+  rateLimits,
+  userTwoFactor,
+  sessions,
+  apiTokens,
+  userInvitations,
+  auditEvents,
 } from "@shared/schema";
 import pg from "pg";
 const { Pool } = pg;
 import { drizzle } from "drizzle-orm/node-postgres";
-import { eq, and, asc, desc, isNull, sql } from "drizzle-orm";
+import {
+  eq,
+  and,
+  or,
+  ne,
+  asc,
+  desc,
+  gt,
+  gte,
+  inArray,
+  ilike,
+  isNotNull,
+  isNull,
+  lt,
+  sql,
+} from "drizzle-orm";
 import * as schema from "@shared/schema";
 
 // Database connection
@@ -39,11 +101,27 @@ const db = drizzle(pool, { schema });
 // Export db for use in routes
 export { db };
 
+export interface AuditEventFilter {
+  category?: string; // Action prefix, see AUDIT_CATEGORIES
+  actorId?: string;
+  search?: string; // Actor, target or action
+  from?: Date;
+  to?: Date;
+}
+
+export interface RateLimitAttemptPolicy {
+  now: Date;
+  resetBefore: Date;
+  blockDelays: number[]; // Milliseconds blocked after attempt n at index n - 1, the last one repeats
+  lockoutAfter: number; // Attempts after which the block is a lockout
+}
+
 export interface IStorage {
   // User methods
   getUser(id: string): Promise<User | undefined>;
   getUserByName(name: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
+  getUserByOidcSubject(subject: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   updateUserPassword(userId: string, hashedPassword: string): Promise<boolean>;
   updateUserName(userId: string, newName: string): Promise<void>;
@@ -51,25 +129,103 @@ export interface IStorage {
   updateUser(userId: string, updates: Partial<User>): Promise<void>;
   deleteUser(userId: string): Promise<void>;
 
+  // Two-factor methods
+  getUserTwoFactor(userId: string): Promise<UserTwoFactor | undefined>;
+  setUserTwoFactorSecret(userId: string, secret: string): Promise<UserTwoFactor>;
+  updateUserTwoFactor(
+    userId: string,
+    updates: Partial<InsertUserTwoFactor>,
+  ): Promise<boolean>;
+  useTwoFactorStep(userId: string, step: number): Promise<boolean>;
+  useRecoveryCode(userId: string, codeHash: string): Promise<boolean>;
+  deleteUserTwoFactor(userId: string): Promise<boolean>;
+
+  // Session methods
+  createSession(session: InsertSession): Promise<Session>;
+  getSession(id: string): Promise<Session | undefined>;
+  getSessionByRefreshToken(tokenHash: string): Promise<Session | undefined>;
+  rotateSessionRefreshToken(
+    id: string,
+    currentHash: string,
+    newHash: string,
+    expiresAt: Date,
+  ): Promise<boolean>;
+  touchSession(id: string): Promise<boolean>;
+  getActiveSessions(userId: string): Promise<Session[]>;
+  revokeSession(id: string): Promise<boolean>;
+  revokeUserSessions(userId: string, exceptSessionId?: string): Promise<number>;
+  deleteExpiredSessions(expiredBefore: Date): Promise<number>;
+
+  // API token methods
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  getUserApiTokens(userId: string): Promise<ApiToken[]>;
+  touchApiToken(id: string, ipAddress: string | null): Promise<boolean>;
+  revokeApiToken(id: string, userId: string): Promise<boolean>;
+
+  // Invitation methods
+  createUserInvitation(invitation: InsertUserInvitation): Promise<UserInvitation>;
+  getUserInvitation(id: string): Promise<UserInvitation | undefined>;
+  getUserInvitationByHash(tokenHash: string): Promise<UserInvitation | undefined>;
+  getUserInvitationByEmail(email: string): Promise<UserInvitation | undefined>;
+  getUserInvitations(): Promise<UserInvitation[]>;
+  updateUserInvitation(
+    id: string,
+    updates: Partial<Pick<UserInvitation, "tokenHash" | "expiresAt" | "lastSentAt">>,
+  ): Promise<UserInvitation | undefined>;
+  deleteUserInvitation(id: string): Promise<boolean>;
+
+  // Audit methods
+  createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent>;
+  getAuditEvents(
+    filter: AuditEventFilter,
+    limit: number,
+    offset?: number,
+  ): Promise<{ events: AuditEvent[]; total: number }>;
+  deleteAuditEventsBefore(createdBefore: Date): Promise<number>;
+
   // Gallery methods
   getGalleriesByUserId(userId: string): Promise<Gallery[]>;
   getMainGalleriesByUserId(userId: string): Promise<Gallery[]>;
   getSubGalleriesByParentId(parentId: string): Promise<Gallery[]>;
-  getGallery(id: string): Promise<Gallery | undefined>;
+  getGallery(id: string, includeTrashed?: boolean): Promise<Gallery | undefined>;
   createGallery(gallery: InsertGallery): Promise<Gallery>;
   updateGallery(
     id: string,
     updates: Partial<InsertGallery>,
   ): Promise<Gallery | undefined>;
   deleteGallery(id: string): Promise<boolean>;
+  trashGallery(id: string, deletedAt: Date): Promise<Gallery[]>;
+  restoreGallery(id: string): Promise<Gallery[]>;
+  getTrashedGalleries(): Promise<Gallery[]>;
+  getGalleriesWithExpiry(): Promise<Gallery[]>;
+  updateGalleryExpiry(
+    id: string,
+    updates: Partial<Pick<Gallery, "expiresAt" | "expiryReminderSentAt" | "archivedAt">>,
+  ): Promise<Gallery | undefined>;
+  updateGalleryStatus(
+    id: string,
+    status: GalleryStatus,
+    fromStatuses?: GalleryStatus[],
+  ): Promise<Gallery | undefined>;
 
   // Photo methods
   getPhotosByGalleryId(galleryId: string): Promise<Photo[]>;
-  getPhoto(id: string): Promise<Photo | undefined>;
+  getPhotosByIds(photoIds: string[]): Promise<Photo[]>;
+  getPhoto(id: string, includeTrashed?: boolean): Promise<Photo | undefined>;
   createPhoto(photo: InsertPhoto): Promise<Photo>;
+  updatePhoto(id: string, updates: Partial<InsertPhoto>): Promise<Photo | undefined>;
   deletePhoto(id: string): Promise<boolean>;
   deletePhotos(photoIds: string[]): Promise<boolean>;
+  trashPhotos(photoIds: string[], deletedAt: Date): Promise<Photo[]>;
+  restorePhotos(photoIds: string[]): Promise<Photo[]>;
+  getTrashedPhotos(): Promise<Photo[]>;
   getPhotosWithData(galleryId: string): Promise<any[]>;
+  reorderPhotos(galleryId: string, photoIds: string[]): Promise<void>;
+
+  // Photo metadata methods
+  getPhotoMetadata(photoId: string): Promise<PhotoMetadata | undefined>;
+  upsertPhotoMetadata(metadata: InsertPhotoMetadata): Promise<PhotoMetadata>;
 
   // Rating methods
   setPhotoRating(photoId: string, rating: number): Promise<boolean>;
@@ -98,16 +254,121 @@ export interface IStorage {
 
   // Gallery Assignment methods
   getGalleryAssignments(galleryId: string): Promise<any[]>;
-  assignGalleryToUsers(galleryId: string, userIds: string[]): Promise<any[]>;
+  assignGalleryToUsers(
+    galleryId: string,
+    userIds: string[],
+    permission?: GalleryPermission,
+  ): Promise<any[]>;
+  updateGalleryAssignmentPermission(
+    galleryId: string,
+    userId: string,
+    permission: GalleryPermission,
+  ): Promise<boolean>;
+  getGalleryAssignmentPermission(
+    galleryId: string,
+    userId: string,
+  ): Promise<GalleryPermission | undefined>;
   removeGalleryAssignment(galleryId: string, userId: string): Promise<boolean>;
   getAllUsers(): Promise<User[]>;
   getUserAssignedGalleries(userId: string): Promise<Gallery[]>;
+  isGalleryAssignedToUser(galleryId: string, userId: string): Promise<boolean>;
   getAllGalleryAssignments(): Promise<any[]>;
 
   // Password Reset methods
   createPasswordResetToken(userId: string, token: string, expiresAt: Date): Promise<any>;
   getPasswordResetToken(token: string): Promise<any>;
   deletePasswordResetToken(token: string): Promise<boolean>;
+
+  // Resumable upload methods
+  createUploadSession(session: InsertUploadSession): Promise<UploadSession>;
+  getUploadSession(id: string): Promise<UploadSession | undefined>;
+  getUploadSessionByFingerprint(
+    galleryId: string,
+    userId: string,
+    fingerprint: string,
+  ): Promise<UploadSession | undefined>;
+  getUploadSessions(galleryId: string, userId: string): Promise<UploadSession[]>;
+  updateUploadSessionOffset(id: string, offset: number): Promise<boolean>;
+  claimUploadSession(id: string, staleBefore: Date): Promise<boolean>;
+  releaseUploadSession(id: string): Promise<void>;
+  deleteUploadSession(id: string): Promise<boolean>;
+  getStaleUploadSessions(updatedBefore: Date): Promise<UploadSession[]>;
+
+  // Gallery visitor methods
+  createGalleryVisitor(visitor: InsertGalleryVisitor): Promise<GalleryVisitor>;
+  getGalleryVisitor(id: string): Promise<GalleryVisitor | undefined>;
+  getGalleryVisitorByUserId(
+    galleryId: string,
+    userId: string,
+  ): Promise<GalleryVisitor | undefined>;
+  updateGalleryVisitor(
+    id: string,
+    updates: Partial<InsertGalleryVisitor>,
+  ): Promise<GalleryVisitor | undefined>;
+  getGalleryVisitors(galleryId: string): Promise<GalleryVisitor[]>;
+  getVisitorPicks(visitorId: string, photoIds: string[]): Promise<VisitorPick[]>;
+  getVisitorPicksByGalleryId(galleryId: string): Promise<VisitorPick[]>;
+  setVisitorPicks(
+    visitorId: string,
+    photoIds: string[],
+    updates: Partial<Pick<InsertVisitorPick, "rating" | "isLiked" | "isSelected">>,
+  ): Promise<VisitorPick[]>;
+  getVisitorLikeCount(photoId: string): Promise<number>;
+
+  // Final photo methods
+  getFinalPhotos(galleryId: string): Promise<FinalPhoto[]>;
+  getFinalPhoto(id: string): Promise<FinalPhoto | undefined>;
+  getFinalPhotoByProofId(proofId: string): Promise<FinalPhoto | undefined>;
+  createFinalPhoto(finalPhoto: InsertFinalPhoto): Promise<FinalPhoto>;
+  updateFinalPhoto(
+    id: string,
+    updates: Partial<InsertFinalPhoto>,
+  ): Promise<FinalPhoto | undefined>;
+  deleteFinalPhoto(id: string): Promise<boolean>;
+
+  // Proofing methods
+  createProofingRound(round: InsertProofingRound): Promise<ProofingRound>;
+  getProofingRound(id: string): Promise<ProofingRound | undefined>;
+  getProofingRounds(galleryId: string): Promise<ProofingRound[]>;
+  getOpenProofingRound(galleryId: string): Promise<ProofingRound | undefined>;
+  closeProofingRound(id: string): Promise<ProofingRound | undefined>;
+  createProofingSubmission(
+    submission: InsertProofingSubmission,
+  ): Promise<ProofingSubmission>;
+  getProofingSubmission(
+    roundId: string,
+    visitorId: string,
+  ): Promise<ProofingSubmission | undefined>;
+  getProofingSubmissions(roundId: string): Promise<ProofingSubmission[]>;
+
+  // Share link methods
+  createShareLink(link: InsertShareLink): Promise<ShareLink>;
+  getShareLink(id: string): Promise<ShareLink | undefined>;
+  getShareLinkByToken(token: string): Promise<ShareLink | undefined>;
+  getShareLinks(galleryId: string): Promise<ShareLink[]>;
+  hasShareLinks(galleryId: string): Promise<boolean>;
+  revokeShareLink(id: string): Promise<ShareLink | undefined>;
+  touchShareLink(id: string): Promise<boolean>;
+
+  // Rate limit methods
+  getRateLimits(scope: RateLimitScope, keys: string[]): Promise<RateLimit[]>;
+  recordRateLimitAttempt(
+    scope: RateLimitScope,
+    key: string,
+    policy: RateLimitAttemptPolicy,
+  ): Promise<RateLimit | undefined>;
+  refundRateLimitAttempts(scope: RateLimitScope, keys: string[]): Promise<void>;
+  clearRateLimits(scope: RateLimitScope, keys: string[]): Promise<void>;
+  getRateLimitLockouts(lockedSince: Date): Promise<RateLimit[]>;
+  deleteRateLimit(id: string): Promise<boolean>;
+
+  // Job queue methods
+  createJob(job: InsertJob): Promise<Job>;
+  claimNextJob(types: string[]): Promise<Job | undefined>;
+  completeJob(id: string): Promise<boolean>;
+  retryJob(id: string, error: string, runAt: Date): Promise<boolean>;
+  failJob(id: string, error: string): Promise<boolean>;
+  releaseStaleJobs(lockedBefore: Date): Promise<number>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -142,6 +403,15 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
+  async getUserByOidcSubject(subject: string): Promise<User | undefined> {
+    const result = await this.db
+      .select()
+      .from(users)
+      .where(eq(users.oidcSubject, subject))
+      .limit(1);
+    return result[0];
+  }
+
   async createUser(user: InsertUser): Promise<User> {
     const result = await this.db.insert(users).values(user).returning();
     return result[0];
@@ -181,34 +451,412 @@ export class DatabaseStorage implements IStorage {
     await this.db.delete(users).where(eq(users.id, userId));
   }
 
+  // Two-factor methods
+  async getUserTwoFactor(userId: string): Promise<UserTwoFactor | undefined> {
+    const result = await this.db
+      .select()
+      .from(userTwoFactor)
+      .where(eq(userTwoFactor.userId, userId))
+      .limit(1);
+    return result[0];
+  }
+
+  // Starts a new enrollment, a previous unconfirmed secret is replaced
+  async setUserTwoFactorSecret(
+    userId: string,
+    secret: string,
+  ): Promise<UserTwoFactor> {
+    const values = {
+      secret,
+      enabledAt: null,
+      recoveryCodes: [],
+      lastUsedStep: null,
+    };
+    const result = await this.db
+      .insert(userTwoFactor)
+      .values({ userId, ...values })
+      .onConflictDoUpdate({ target: userTwoFactor.userId, set: values })
+      .returning();
+    return result[0];
+  }
+
+  async updateUserTwoFactor(
+    userId: string,
+    updates: Partial<InsertUserTwoFactor>,
+  ): Promise<boolean> {
+    const result = await this.db
+      .update(userTwoFactor)
+      .set(updates)
+      .where(eq(userTwoFactor.userId, userId));
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
+  // Marks a TOTP time step as used. Fails if it (or a later one) was used
+  // already, so an intercepted code can't be replayed.
+  async useTwoFactorStep(userId: string, step: number): Promise<boolean> {
+    const result = await this.db
+      .update(userTwoFactor)
+      .set({ lastUsedStep: step })
+      .where(
+        and(
+          eq(userTwoFactor.userId, userId),
+          sql`(${userTwoFactor.lastUsedStep} IS NULL OR ${userTwoFactor.lastUsedStep} < ${step})`,
+        ),
+      );
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
+  // Removes a recovery code, each one works only once
+  async useRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const result = await this.db
+      .update(userTwoFactor)
+      .set({
+        recoveryCodes: sql`${userTwoFactor.recoveryCodes} - ${codeHash}::text`,
+      })
+      .where(
+        and(
+          eq(userTwoFactor.userId, userId),
+          sql`${userTwoFactor.recoveryCodes} @> ${JSON.stringify([codeHash])}::jsonb`,
+        ),
+      );
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
+  async deleteUserTwoFactor(userId: string): Promise<boolean> {
+    const result = await this.db
+      .delete(userTwoFactor)
+      .where(eq(userTwoFactor.userId, userId));
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
+  // Session methods
+  async createSession(session: InsertSession): Promise<Session> {
+    const result = await this.db.insert(sessions).values(session).returning();
+    return result[0];
+  }
+
+  async getSession(id: string): Promise<Session | undefined> {
+    const result = await this.db
+      .select()
+      .from(sessions)
+      .where(eq(sessions.id, id))
+      .limit(1);
+    return result[0];
+  }
+
+  // Matches the current and the previous refresh token of a session
+  async getSessionByRefreshToken(
+    tokenHash: string,
+  ): Promise<Session | undefined> {
+    const result = await this.db
+      .select()
+      .from(sessions)
+      .where(
+        or(
+          eq(sessions.refreshTokenHash, tokenHash),
+          eq(sessions.previousRefreshTokenHash, tokenHash),
+        ),
+      )
+      .limit(1);
+    return result[0];
+  }
+
+  // Only succeeds if the token wasn't rotated in the meantime, e.g. by a
+  // parallel request of another tab
+  async rotateSessionRefreshToken(
+    id: string,
+    currentHash: string,
+    newHash: string,
+    expiresAt: Date,
+  ): Promise<boolean> {
+    const now = new Date();
+    const result = await this.db
+      .update(sessions)
+      .set({
+        refreshTokenHash: newHash,
+        previousRefreshTokenHash: currentHash,
+        rotatedAt: now,
+        lastSeenAt: now,
+        expiresAt,
+      })
+      .where(
+        and(eq(sessions.id, id), eq(sessions.refreshTokenHash, currentHash)),
+      );
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
+  async touchSession(id: string): Promise<boolean> {
+    const result = await this.db
+      .update(sessions)
+      .set({ lastSeenAt: new Date() })
+      .where(eq(sessions.id, id));
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
+  async getActiveSessions(userId: string): Promise<Session[]> {
+    return await this.db
+      .select()
+      .from(sessions)
+      .where(
+        and(
+          eq(sessions.userId, userId),
+          isNull(sessions.revokedAt),
+          gt(sessions.expiresAt, new Date()),
+        ),
+      )
+      .orderBy(desc(sessions.lastSeenAt));
+  }
+
+  async revokeSession(id: string): Promise<boolean> {
+    const result = await this.db
+      .update(sessions)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(sessions.id, id), isNull(sessions.revokedAt)));
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
+  async revokeUserSessions(
+    userId: string,
+    exceptSessionId?: string,
+  ): Promise<number> {
+    const result = await this.db
+      .update(sessions)
+      .set({ revokedAt: new Date() })
+      .where(
+        and(
+          eq(sessions.userId, userId),
+          isNull(sessions.revokedAt),
+          exceptSessionId ? ne(sessions.id, exceptSessionId) : undefined,
+        ),
+      );
+    return result.rowCount ?? 0;
+  }
+
+  async deleteExpiredSessions(expiredBefore: Date): Promise<number> {
+    const result = await this.db
+      .delete(sessions)
+      .where(
+        or(
+          lt(sessions.expiresAt, expiredBefore),
+          lt(sessions.revokedAt, expiredBefore),
+        ),
+      );
+    return result.rowCount ?? 0;
+  }
+
+  // API token methods
+  async createApiToken(token: InsertApiToken): Promise<ApiToken> {
+    const result = await this.db.insert(apiTokens).values(token).returning();
+    return result[0];
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const result = await this.db
+      .select()
+      .from(apiTokens)
+      .where(eq(apiTokens.tokenHash, tokenHash))
+      .limit(1);
+    return result[0];
+  }
+
+  // Revoked tokens are hidden, expired ones stay visible
+  async getUserApiTokens(userId: string): Promise<ApiToken[]> {
+    return await this.db
+      .select()
+      .from(apiTokens)
+      .where(and(eq(apiTokens.userId, userId), isNull(apiTokens.revokedAt)))
+      .orderBy(desc(apiTokens.createdAt));
+  }
+
+  async touchApiToken(id: string, ipAddress: string | null): Promise<boolean> {
+    const result = await this.db
+      .update(apiTokens)
+      .set({ lastUsedAt: new Date(), lastUsedIp: ipAddress })
+      .where(eq(apiTokens.id, id));
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
+  async revokeApiToken(id: string, userId: string): Promise<boolean> {
+    const result = await this.db
+      .update(apiTokens)
+      .set({ revokedAt: new Date() })
+      .where(
+        and(
+          eq(apiTokens.id, id),
+          eq(apiTokens.userId, userId),
+          isNull(apiTokens.revokedAt),
+        ),
+      );
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
+  // Invitation methods
+  async createUserInvitation(
+    invitation: InsertUserInvitation,
+  ): Promise<UserInvitation> {
+    const result = await this.db
+      .insert(userInvitations)
+      .values(invitation)
+      .returning();
+    return result[0];
+  }
+
+  async getUserInvitation(id: string): Promise<UserInvitation | undefined> {
+    const result = await this.db
+      .select()
+      .from(userInvitations)
+      .where(eq(userInvitations.id, id))
+      .limit(1);
+    return result[0];
+  }
+
+  async getUserInvitationByHash(
+    tokenHash: string,
+  ): Promise<UserInvitation | undefined> {
+    const result = await this.db
+      .select()
+      .from(userInvitations)
+      .where(eq(userInvitations.tokenHash, tokenHash))
+      .limit(1);
+    return result[0];
+  }
+
+  async getUserInvitationByEmail(
+    email: string,
+  ): Promise<UserInvitation | undefined> {
+    const result = await this.db
+      .select()
+      .from(userInvitations)
+      .where(eq(userInvitations.email, email))
+      .limit(1);
+    return result[0];
+  }
+
+  async getUserInvitations(): Promise<UserInvitation[]> {
+    return await this.db
+      .select()
+      .from(userInvitations)
+      .orderBy(desc(userInvitations.createdAt));
+  }
+
+  async updateUserInvitation(
+    id: string,
+    updates: Partial<Pick<UserInvitation, "tokenHash" | "expiresAt" | "lastSentAt">>,
+  ): Promise<UserInvitation | undefined> {
+    const result = await this.db
+      .update(userInvitations)
+      .set(updates)
+      .where(eq(userInvitations.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteUserInvitation(id: string): Promise<boolean> {
+    const result = await this.db
+      .delete(userInvitations)
+      .where(eq(userInvitations.id, id));
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
+  // Audit methods
+  async createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent> {
+    const result = await this.db.insert(auditEvents).values(event).returning();
+    return result[0];
+  }
+
+  async getAuditEvents(
+    filter: AuditEventFilter,
+    limit: number,
+    offset = 0,
+  ): Promise<{ events: AuditEvent[]; total: number }> {
+    const conditions = [];
+    if (filter.category) {
+      conditions.push(ilike(auditEvents.action, `${filter.category}.%`));
+    }
+    if (filter.actorId) {
+      conditions.push(eq(auditEvents.actorId, filter.actorId));
+    }
+    if (filter.search) {
+      const pattern = `%${filter.search.replace(/[\\%_]/g, "\\$&")}%`;
+      conditions.push(
+        or(
+          ilike(auditEvents.actorName, pattern),
+          ilike(auditEvents.targetName, pattern),
+          ilike(auditEvents.action, pattern),
+          ilike(auditEvents.ipAddress, pattern),
+        ),
+      );
+    }
+    if (filter.from) {
+      conditions.push(gte(auditEvents.createdAt, filter.from));
+    }
+    if (filter.to) {
+      conditions.push(lt(auditEvents.createdAt, filter.to));
+    }
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [events, [{ count }]] = await Promise.all([
+      this.db
+        .select()
+        .from(auditEvents)
+        .where(where)
+        .orderBy(desc(auditEvents.createdAt))
+        .limit(limit)
+        .offset(offset),
+      this.db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(auditEvents)
+        .where(where),
+    ]);
+    return { events, total: count };
+  }
+
+  async deleteAuditEventsBefore(createdBefore: Date): Promise<number> {
+    const result = await this.db
+      .delete(auditEvents)
+      .where(lt(auditEvents.createdAt, createdBefore));
+    return result.rowCount ?? 0;
+  }
+
   // Gallery methods
   async getGalleriesByUserId(userId: string): Promise<Gallery[]> {
     return await this.db
       .select()
       .from(galleries)
-      .where(eq(galleries.userId, userId));
+      .where(and(eq(galleries.userId, userId), isNull(galleries.deletedAt)));
   }
 
   async getMainGalleriesByUserId(userId: string): Promise<Gallery[]> {
     return await this.db
       .select()
       .from(galleries)
-      .where(and(eq(galleries.userId, userId), isNull(galleries.parentId)));
+      .where(
+        and(
+          eq(galleries.userId, userId),
+          isNull(galleries.parentId),
+          isNull(galleries.deletedAt),
+        ),
+      );
   }
 
   async getSubGalleriesByParentId(parentId: string): Promise<Gallery[]> {
     return await this.db
       .select()
       .from(galleries)
-      .where(eq(galleries.parentId, parentId))
+      .where(and(eq(galleries.parentId, parentId), isNull(galleries.deletedAt)))
       .orderBy(asc(galleries.createdAt));
   }
 
-  async getGallery(id: string): Promise<Gallery | undefined> {
+  // Galleries in the trash are only returned on request
+  async getGallery(id: string, includeTrashed = false): Promise<Gallery | undefined> {
     const result = await this.db
       .select()
       .from(galleries)
-      .where(eq(galleries.id, id))
+      .where(
+        includeTrashed
+          ? eq(galleries.id, id)
+          : and(eq(galleries.id, id), isNull(galleries.deletedAt)),
+      )
       .limit(1);
     return result[0];
   }
@@ -279,50 +927,250 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  // Photo methods
-  async getPhotosByGalleryId(galleryId: string): Promise<Photo[]> {
+  // Gallery and its sub-galleries still active, deleted together with the
+  // same timestamp. Sub-galleries already in the trash keep their own.
+  async trashGallery(id: string, deletedAt: Date): Promise<Gallery[]> {
+    const trashed: Gallery[] = [];
+    let parentIds = [id];
+
+    for (let depth = 0; parentIds.length > 0 && depth < 10; depth++) {
+      const result = await this.db
+        .update(galleries)
+        .set({ deletedAt })
+        .where(
+          and(
+            depth === 0
+              ? eq(galleries.id, id)
+              : inArray(galleries.parentId, parentIds),
+            isNull(galleries.deletedAt),
+          ),
+        )
+        .returning();
+      trashed.push(...result);
+      parentIds = result.map((gallery) => gallery.id);
+    }
+
+    return trashed;
+  }
+
+  // Takes the gallery and everything deleted along with it out of the trash
+  async restoreGallery(id: string): Promise<Gallery[]> {
+    const gallery = await this.getGallery(id, true);
+    if (!gallery?.deletedAt) return [];
+
+    const restored: Gallery[] = [];
+    let parentIds = [id];
+
+    for (let depth = 0; parentIds.length > 0 && depth < 10; depth++) {
+      const result = await this.db
+        .update(galleries)
+        .set({ deletedAt: null })
+        .where(
+          and(
+            depth === 0
+              ? eq(galleries.id, id)
+              : inArray(galleries.parentId, parentIds),
+            eq(galleries.deletedAt, gallery.deletedAt),
+          ),
+        )
+        .returning();
+      restored.push(...result);
+      parentIds = result.map((row) => row.id);
+    }
+
+    return restored;
+  }
+
+  // Deleted galleries whose parent isn't in the trash by the same deletion
+  async getTrashedGalleries(): Promise<Gallery[]> {
+    const trashed = await this.db
+      .select()
+      .from(galleries)
+      .where(isNotNull(galleries.deletedAt))
+      .orderBy(desc(galleries.deletedAt));
+    const deletedAtById = new Map(
+      trashed.map((gallery) => [gallery.id, gallery.deletedAt!.getTime()]),
+    );
+
+    return trashed.filter(
+      (gallery) =>
+        !gallery.parentId ||
+        deletedAtById.get(gallery.parentId) !== gallery.deletedAt!.getTime(),
+    );
+  }
+
+  // Top-level galleries with an expiry date, trashed ones excluded
+  async getGalleriesWithExpiry(): Promise<Gallery[]> {
     return await this.db
       .select()
-      .from(photos)
-      .where(eq(photos.galleryId, galleryId))
-      .orderBy(asc(photos.createdAt));
+      .from(galleries)
+      .where(
+        and(
+          isNotNull(galleries.expiresAt),
+          isNull(galleries.parentId),
+          isNull(galleries.deletedAt),
+        ),
+      )
+      .orderBy(asc(galleries.expiresAt));
   }
 
-  async getPhoto(id: string): Promise<Photo | undefined> {
+  async updateGalleryExpiry(
+    id: string,
+    updates: Partial<Pick<Gallery, "expiresAt" | "expiryReminderSentAt" | "archivedAt">>,
+  ): Promise<Gallery | undefined> {
     const result = await this.db
-      .select()
-      .from(photos)
-      .where(eq(photos.id, id))
-      .limit(1);
+      .update(galleries)
+      .set(updates)
+      .where(eq(galleries.id, id))
+      .returning();
     return result[0];
   }
 
-  async createPhoto(photo: InsertPhoto): Promise<Photo> {
-    const result = await this.db.insert(photos).values(photo).returning();
+  // Only changed while the gallery has one of fromStatuses, if given
+  async updateGalleryStatus(
+    id: string,
+    status: GalleryStatus,
+    fromStatuses?: GalleryStatus[],
+  ): Promise<Gallery | undefined> {
+    const result = await this.db
+      .update(galleries)
+      .set({ status, statusChangedAt: new Date() })
+      .where(
+        and(
+          eq(galleries.id, id),
+          fromStatuses ? inArray(galleries.status, fromStatuses) : undefined,
+        ),
+      )
+      .returning();
     return result[0];
   }
 
-  async deletePhoto(id: string): Promise<boolean> {
-    // First delete all comments for this photo to avoid foreign key constraint
-    await this.db.delete(comments).where(eq(comments.photoId, id));
-
-    // Then delete all likes for this photo
-    await this.db.delete(photoLikes).where(eq(photoLikes.photoId, id));
+  // Photo methods
+  async getPhotosByGalleryId(galleryId: string): Promise<Photo[]> {
+    const orderBy = await this.getPhotoOrderBy(galleryId);
+    const result = await this.db
+      .select({ photo: photos })
+      .from(photos)
+      .leftJoin(photoMetadata, eq(photoMetadata.photoId, photos.id))
+      .where(and(eq(photos.galleryId, galleryId), isNull(photos.deletedAt)))
+      .orderBy(...orderBy);
+    return result.map((row) => row.photo);
+  }
 
-    // Delete all notifications for this photo
-    await this.db.delete(notifications).where(eq(notifications.photoId, id));
+  // Returns the photos in the order they have in their galleries
+  async getPhotosByIds(photoIds: string[]): Promise<Photo[]> {
+    if (photoIds.length === 0) return [];
 
-    // Finally delete the photo itself
-    const result = await this.db.delete(photos).where(eq(photos.id, id));
-    return result.rowCount !== null && result.rowCount > 0;
+    const requested = await this.db
+      .select({ galleryId: photos.galleryId })
+      .from(photos)
+      .innerJoin(galleries, eq(galleries.id, photos.galleryId))
+      .where(and(inArray(photos.id, photoIds), isNull(galleries.deletedAt)));
+    const galleryIds = Array.from(new Set(requested.map((p) => p.galleryId)));
+    const wanted = new Set(photoIds);
+
+    const ordered: Photo[] = [];
+    for (const galleryId of galleryIds) {
+      const galleryPhotos = await this.getPhotosByGalleryId(galleryId);
+      ordered.push(...galleryPhotos.filter((photo) => wanted.has(photo.id)));
+    }
+    return ordered;
   }
 
-  async deletePhotos(photoIds: string[]): Promise<boolean> {
-    if (photoIds.length === 0) return true;
+  // ORDER BY clause for the sort mode of a gallery, upload time breaks ties
+  private async getPhotoOrderBy(galleryId: string) {
+    const gallery = await this.db
+      .select({ sortMode: galleries.sortMode })
+      .from(galleries)
+      .where(eq(galleries.id, galleryId))
+      .limit(1);
 
-    try {
-      // Delete related data for all photos
-      for (const photoId of photoIds) {
+    switch (gallery[0]?.sortMode) {
+      case "capturedAt":
+        // Photos without capture time (no EXIF) go to the end
+        return [
+          sql`${photoMetadata.capturedAt} ASC NULLS LAST`,
+          asc(photos.createdAt),
+        ];
+      case "filename":
+        return [asc(photos.originalName), asc(photos.createdAt)];
+      case "manual":
+        return [asc(photos.sortOrder), asc(photos.createdAt)];
+      default:
+        return [asc(photos.createdAt)];
+    }
+  }
+
+  // Photos in the trash or in a deleted gallery are only returned on request
+  async getPhoto(id: string, includeTrashed = false): Promise<Photo | undefined> {
+    const result = await this.db
+      .select({ photo: photos })
+      .from(photos)
+      .innerJoin(galleries, eq(galleries.id, photos.galleryId))
+      .where(
+        includeTrashed
+          ? eq(photos.id, id)
+          : and(
+              eq(photos.id, id),
+              isNull(photos.deletedAt),
+              isNull(galleries.deletedAt),
+            ),
+      )
+      .limit(1);
+    return result[0]?.photo;
+  }
+
+  async createPhoto(photo: InsertPhoto): Promise<Photo> {
+    let sortOrder = photo.sortOrder;
+    if (sortOrder === undefined) {
+      // New photos are appended to the end of a manually sorted gallery
+      const last = await this.db
+        .select({ maxOrder: sql<number>`COALESCE(MAX(${photos.sortOrder}), -1)` })
+        .from(photos)
+        .where(eq(photos.galleryId, photo.galleryId));
+      sortOrder = Number(last[0]?.maxOrder ?? -1) + 1;
+    }
+
+    const result = await this.db
+      .insert(photos)
+      .values({ ...photo, sortOrder })
+      .returning();
+    return result[0];
+  }
+
+  async updatePhoto(
+    id: string,
+    updates: Partial<InsertPhoto>,
+  ): Promise<Photo | undefined> {
+    const result = await this.db
+      .update(photos)
+      .set(updates)
+      .where(eq(photos.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deletePhoto(id: string): Promise<boolean> {
+    // First delete all comments for this photo to avoid foreign key constraint
+    await this.db.delete(comments).where(eq(comments.photoId, id));
+
+    // Then delete all likes for this photo
+    await this.db.delete(photoLikes).where(eq(photoLikes.photoId, id));
+
+    // Delete all notifications for this photo
+    await this.db.delete(notifications).where(eq(notifications.photoId, id));
+
+    // Finally delete the photo itself
+    const result = await this.db.delete(photos).where(eq(photos.id, id));
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
+  async deletePhotos(photoIds: string[]): Promise<boolean> {
+    if (photoIds.length === 0) return true;
+
+    try {
+      // Delete related data for all photos
+      for (const photoId of photoIds) {
         await this.db.delete(comments).where(eq(comments.photoId, photoId));
         await this.db.delete(photoLikes).where(eq(photoLikes.photoId, photoId));
         await this.db.delete(photos).where(eq(photos.id, photoId));
@@ -335,13 +1183,38 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async getPhotosWithData(galleryId: string): Promise<any[]> {
-    // Get all photos for the gallery
-    const galleryPhotos = await this.db
-      .select()
+  async trashPhotos(photoIds: string[], deletedAt: Date): Promise<Photo[]> {
+    if (photoIds.length === 0) return [];
+    return await this.db
+      .update(photos)
+      .set({ deletedAt })
+      .where(and(inArray(photos.id, photoIds), isNull(photos.deletedAt)))
+      .returning();
+  }
+
+  async restorePhotos(photoIds: string[]): Promise<Photo[]> {
+    if (photoIds.length === 0) return [];
+    return await this.db
+      .update(photos)
+      .set({ deletedAt: null })
+      .where(and(inArray(photos.id, photoIds), isNotNull(photos.deletedAt)))
+      .returning();
+  }
+
+  // Deleted photos of galleries that are not in the trash themselves
+  async getTrashedPhotos(): Promise<Photo[]> {
+    const result = await this.db
+      .select({ photo: photos })
       .from(photos)
-      .where(eq(photos.galleryId, galleryId))
-      .orderBy(asc(photos.createdAt));
+      .innerJoin(galleries, eq(galleries.id, photos.galleryId))
+      .where(and(isNotNull(photos.deletedAt), isNull(galleries.deletedAt)))
+      .orderBy(desc(photos.deletedAt));
+    return result.map((row) => row.photo);
+  }
+
+  async getPhotosWithData(galleryId: string): Promise<any[]> {
+    // Get all photos for the gallery in the gallery's sort order
+    const galleryPhotos = await this.getPhotosByGalleryId(galleryId);
 
     if (galleryPhotos.length === 0) {
       return [];
@@ -433,6 +1306,7 @@ export class DatabaseStorage implements IStorage {
           : `/${photo.filePath}`,
         originalSrc: `/${photo.filePath}`,
         rating: photo.rating || 0,
+        processingStatus: photo.processingStatus,
         isLiked: currentLikeStatus,
         likeCount: likeCount,
         comments: photoComments.map((comment) => ({
@@ -449,6 +1323,55 @@ export class DatabaseStorage implements IStorage {
     return photosWithAllData;
   }
 
+  // Stores the given order and switches the gallery to manual sorting.
+  // Photos missing from photoIds keep their relative order behind them.
+  async reorderPhotos(galleryId: string, photoIds: string[]): Promise<void> {
+    const current = await this.getPhotosByGalleryId(galleryId);
+    const galleryPhotoIds = new Set(current.map((photo) => photo.id));
+    const requested = Array.from(new Set(photoIds)).filter((id) =>
+      galleryPhotoIds.has(id),
+    );
+    const requestedIds = new Set(requested);
+    const ordered = [
+      ...requested,
+      ...current.map((photo) => photo.id).filter((id) => !requestedIds.has(id)),
+    ];
+
+    await this.db.transaction(async (tx) => {
+      for (let i = 0; i < ordered.length; i++) {
+        await tx
+          .update(photos)
+          .set({ sortOrder: i })
+          .where(and(eq(photos.id, ordered[i]), eq(photos.galleryId, galleryId)));
+      }
+      await tx
+        .update(galleries)
+        .set({ sortMode: "manual" })
+        .where(eq(galleries.id, galleryId));
+    });
+  }
+
+  // Photo metadata methods
+  async getPhotoMetadata(photoId: string): Promise<PhotoMetadata | undefined> {
+    const result = await this.db
+      .select()
+      .from(photoMetadata)
+      .where(eq(photoMetadata.photoId, photoId))
+      .limit(1);
+    return result[0];
+  }
+
+  async upsertPhotoMetadata(
+    metadata: InsertPhotoMetadata,
+  ): Promise<PhotoMetadata> {
+    const result = await this.db
+      .insert(photoMetadata)
+      .values(metadata)
+      .onConflictDoUpdate({ target: photoMetadata.photoId, set: metadata })
+      .returning();
+    return result[0];
+  }
+
   // Rating methods
   async setPhotoRating(photoId: string, rating: number): Promise<boolean> {
     const result = await this.db
@@ -601,6 +1524,7 @@ export class DatabaseStorage implements IStorage {
         id: galleryAssignments.id,
         userId: galleryAssignments.userId,
         galleryId: galleryAssignments.galleryId,
+        permission: galleryAssignments.permission,
         userName: users.name,
         userEmail: users.email,
       })
@@ -617,13 +1541,18 @@ export class DatabaseStorage implements IStorage {
         id: galleryAssignments.id,
         userId: galleryAssignments.userId,
         galleryId: galleryAssignments.galleryId,
+        permission: galleryAssignments.permission,
       })
       .from(galleryAssignments);
 
     return assignments;
   }
 
-  async assignGalleryToUsers(galleryId: string, userIds: string[]) {
+  async assignGalleryToUsers(
+    galleryId: string,
+    userIds: string[],
+    permission?: GalleryPermission,
+  ) {
     const assignments = [];
     for (const userId of userIds) {
       // Check if assignment already exists
@@ -641,7 +1570,7 @@ export class DatabaseStorage implements IStorage {
       if (existing.length === 0) {
         const [assignment] = await this.db
           .insert(galleryAssignments)
-          .values({ galleryId, userId })
+          .values({ galleryId, userId, permission })
           .returning();
         assignments.push(assignment);
       }
@@ -649,6 +1578,40 @@ export class DatabaseStorage implements IStorage {
     return assignments;
   }
 
+  async updateGalleryAssignmentPermission(
+    galleryId: string,
+    userId: string,
+    permission: GalleryPermission,
+  ): Promise<boolean> {
+    const result = await this.db
+      .update(galleryAssignments)
+      .set({ permission })
+      .where(
+        and(
+          eq(galleryAssignments.galleryId, galleryId),
+          eq(galleryAssignments.userId, userId),
+        ),
+      );
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
+  async getGalleryAssignmentPermission(
+    galleryId: string,
+    userId: string,
+  ): Promise<GalleryPermission | undefined> {
+    const [assignment] = await this.db
+      .select({ permission: galleryAssignments.permission })
+      .from(galleryAssignments)
+      .where(
+        and(
+          eq(galleryAssignments.galleryId, galleryId),
+          eq(galleryAssignments.userId, userId),
+        ),
+      )
+      .limit(1);
+    return assignment?.permission as GalleryPermission | undefined;
+  }
+
   async removeGalleryAssignment(
     galleryId: string,
     userId: string,
@@ -676,11 +1639,30 @@ export class DatabaseStorage implements IStorage {
       })
       .from(galleryAssignments)
       .innerJoin(galleries, eq(galleryAssignments.galleryId, galleries.id))
-      .where(eq(galleryAssignments.userId, userId));
+      .where(
+        and(eq(galleryAssignments.userId, userId), isNull(galleries.deletedAt)),
+      );
 
     return assigned.map((a) => a.gallery);
   }
 
+  async isGalleryAssignedToUser(
+    galleryId: string,
+    userId: string,
+  ): Promise<boolean> {
+    const result = await this.db
+      .select({ id: galleryAssignments.id })
+      .from(galleryAssignments)
+      .where(
+        and(
+          eq(galleryAssignments.galleryId, galleryId),
+          eq(galleryAssignments.userId, userId),
+        ),
+      )
+      .limit(1);
+    return result.length > 0;
+  }
+
   // Password Reset methods
   async createPasswordResetToken(userId: string, token: string, expiresAt: Date) {
     const result = await this.db
@@ -706,6 +1688,593 @@ export class DatabaseStorage implements IStorage {
     return result.rowCount !== null && result.rowCount > 0;
   }
 
+  // Resumable upload methods
+  async createUploadSession(
+    session: InsertUploadSession,
+  ): Promise<UploadSession> {
+    const result = await this.db
+      .insert(uploadSessions)
+      .values(session)
+      .returning();
+    return result[0];
+  }
+
+  async getUploadSession(id: string): Promise<UploadSession | undefined> {
+    const result = await this.db
+      .select()
+      .from(uploadSessions)
+      .where(eq(uploadSessions.id, id))
+      .limit(1);
+    return result[0];
+  }
+
+  async getUploadSessionByFingerprint(
+    galleryId: string,
+    userId: string,
+    fingerprint: string,
+  ): Promise<UploadSession | undefined> {
+    const result = await this.db
+      .select()
+      .from(uploadSessions)
+      .where(
+        and(
+          eq(uploadSessions.galleryId, galleryId),
+          eq(uploadSessions.userId, userId),
+          eq(uploadSessions.fingerprint, fingerprint),
+        ),
+      )
+      .limit(1);
+    return result[0];
+  }
+
+  async getUploadSessions(
+    galleryId: string,
+    userId: string,
+  ): Promise<UploadSession[]> {
+    return await this.db
+      .select()
+      .from(uploadSessions)
+      .where(
+        and(
+          eq(uploadSessions.galleryId, galleryId),
+          eq(uploadSessions.userId, userId),
+        ),
+      )
+      .orderBy(asc(uploadSessions.createdAt));
+  }
+
+  async updateUploadSessionOffset(id: string, offset: number): Promise<boolean> {
+    const result = await this.db
+      .update(uploadSessions)
+      .set({ offset, updatedAt: new Date() })
+      .where(eq(uploadSessions.id, id));
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
+  // Marks the session as being written unless another request does so. A
+  // claim older than staleBefore is left over from a crashed instance.
+  async claimUploadSession(id: string, staleBefore: Date): Promise<boolean> {
+    const result = await this.db
+      .update(uploadSessions)
+      .set({ writingSince: new Date() })
+      .where(
+        and(
+          eq(uploadSessions.id, id),
+          or(
+            isNull(uploadSessions.writingSince),
+            lt(uploadSessions.writingSince, staleBefore),
+          ),
+        ),
+      );
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
+  async releaseUploadSession(id: string): Promise<void> {
+    await this.db
+      .update(uploadSessions)
+      .set({ writingSince: null })
+      .where(eq(uploadSessions.id, id));
+  }
+
+  async deleteUploadSession(id: string): Promise<boolean> {
+    const result = await this.db
+      .delete(uploadSessions)
+      .where(eq(uploadSessions.id, id));
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
+  async getStaleUploadSessions(updatedBefore: Date): Promise<UploadSession[]> {
+    return await this.db
+      .select()
+      .from(uploadSessions)
+      .where(lt(uploadSessions.updatedAt, updatedBefore));
+  }
+
+  // Gallery visitor methods
+  async createGalleryVisitor(
+    visitor: InsertGalleryVisitor,
+  ): Promise<GalleryVisitor> {
+    const result = await this.db
+      .insert(galleryVisitors)
+      .values(visitor)
+      .returning();
+    return result[0];
+  }
+
+  async getGalleryVisitor(id: string): Promise<GalleryVisitor | undefined> {
+    const result = await this.db
+      .select()
+      .from(galleryVisitors)
+      .where(eq(galleryVisitors.id, id))
+      .limit(1);
+    return result[0];
+  }
+
+  async getGalleryVisitorByUserId(
+    galleryId: string,
+    userId: string,
+  ): Promise<GalleryVisitor | undefined> {
+    const result = await this.db
+      .select()
+      .from(galleryVisitors)
+      .where(
+        and(
+          eq(galleryVisitors.galleryId, galleryId),
+          eq(galleryVisitors.userId, userId),
+        ),
+      )
+      .limit(1);
+    return result[0];
+  }
+
+  async updateGalleryVisitor(
+    id: string,
+    updates: Partial<InsertGalleryVisitor>,
+  ): Promise<GalleryVisitor | undefined> {
+    const result = await this.db
+      .update(galleryVisitors)
+      .set({ ...updates, lastSeenAt: new Date() })
+      .where(eq(galleryVisitors.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async getGalleryVisitors(galleryId: string): Promise<GalleryVisitor[]> {
+    return await this.db
+      .select()
+      .from(galleryVisitors)
+      .where(eq(galleryVisitors.galleryId, galleryId))
+      .orderBy(asc(galleryVisitors.createdAt));
+  }
+
+  async getVisitorPicks(
+    visitorId: string,
+    photoIds: string[],
+  ): Promise<VisitorPick[]> {
+    if (photoIds.length === 0) return [];
+
+    return await this.db
+      .select()
+      .from(visitorPicks)
+      .where(
+        and(
+          eq(visitorPicks.visitorId, visitorId),
+          inArray(visitorPicks.photoId, photoIds),
+        ),
+      );
+  }
+
+  // Picks of all visitors for the photos of one gallery
+  async getVisitorPicksByGalleryId(galleryId: string): Promise<VisitorPick[]> {
+    const result = await this.db
+      .select({ pick: visitorPicks })
+      .from(visitorPicks)
+      .innerJoin(photos, eq(photos.id, visitorPicks.photoId))
+      .where(and(eq(photos.galleryId, galleryId), isNull(photos.deletedAt)));
+    return result.map((row) => row.pick);
+  }
+
+  // Creates or updates the picks of a visitor, untouched fields keep their value
+  async setVisitorPicks(
+    visitorId: string,
+    photoIds: string[],
+    updates: Partial<Pick<InsertVisitorPick, "rating" | "isLiked" | "isSelected">>,
+  ): Promise<VisitorPick[]> {
+    if (photoIds.length === 0) return [];
+
+    return await this.db
+      .insert(visitorPicks)
+      .values(
+        Array.from(new Set(photoIds)).map((photoId) => ({
+          visitorId,
+          photoId,
+          ...updates,
+        })),
+      )
+      .onConflictDoUpdate({
+        target: [visitorPicks.visitorId, visitorPicks.photoId],
+        set: { ...updates, updatedAt: new Date() },
+      })
+      .returning();
+  }
+
+  // Final photo methods
+  async getFinalPhotos(galleryId: string): Promise<FinalPhoto[]> {
+    return await this.db
+      .select()
+      .from(finalPhotos)
+      .where(eq(finalPhotos.galleryId, galleryId))
+      .orderBy(asc(finalPhotos.originalName), asc(finalPhotos.createdAt));
+  }
+
+  async getFinalPhoto(id: string): Promise<FinalPhoto | undefined> {
+    const result = await this.db
+      .select()
+      .from(finalPhotos)
+      .where(eq(finalPhotos.id, id))
+      .limit(1);
+    return result[0];
+  }
+
+  async getFinalPhotoByProofId(proofId: string): Promise<FinalPhoto | undefined> {
+    const result = await this.db
+      .select()
+      .from(finalPhotos)
+      .where(eq(finalPhotos.proofId, proofId))
+      .limit(1);
+    return result[0];
+  }
+
+  async createFinalPhoto(finalPhoto: InsertFinalPhoto): Promise<FinalPhoto> {
+    const result = await this.db.insert(finalPhotos).values(finalPhoto).returning();
+    return result[0];
+  }
+
+  async updateFinalPhoto(
+    id: string,
+    updates: Partial<InsertFinalPhoto>,
+  ): Promise<FinalPhoto | undefined> {
+    const result = await this.db
+      .update(finalPhotos)
+      .set(updates)
+      .where(eq(finalPhotos.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteFinalPhoto(id: string): Promise<boolean> {
+    const result = await this.db
+      .delete(finalPhotos)
+      .where(eq(finalPhotos.id, id));
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
+  // Proofing methods
+  async createProofingRound(round: InsertProofingRound): Promise<ProofingRound> {
+    const result = await this.db.insert(proofingRounds).values(round).returning();
+    return result[0];
+  }
+
+  async getProofingRound(id: string): Promise<ProofingRound | undefined> {
+    const result = await this.db
+      .select()
+      .from(proofingRounds)
+      .where(eq(proofingRounds.id, id))
+      .limit(1);
+    return result[0];
+  }
+
+  async getProofingRounds(galleryId: string): Promise<ProofingRound[]> {
+    return await this.db
+      .select()
+      .from(proofingRounds)
+      .where(eq(proofingRounds.galleryId, galleryId))
+      .orderBy(desc(proofingRounds.createdAt));
+  }
+
+  async getOpenProofingRound(
+    galleryId: string,
+  ): Promise<ProofingRound | undefined> {
+    const result = await this.db
+      .select()
+      .from(proofingRounds)
+      .where(
+        and(
+          eq(proofingRounds.galleryId, galleryId),
+          eq(proofingRounds.status, "open"),
+        ),
+      )
+      .orderBy(desc(proofingRounds.createdAt))
+      .limit(1);
+    return result[0];
+  }
+
+  async closeProofingRound(id: string): Promise<ProofingRound | undefined> {
+    const result = await this.db
+      .update(proofingRounds)
+      .set({ status: "closed", closedAt: new Date() })
+      .where(eq(proofingRounds.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async createProofingSubmission(
+    submission: InsertProofingSubmission,
+  ): Promise<ProofingSubmission> {
+    const result = await this.db
+      .insert(proofingSubmissions)
+      .values(submission)
+      .returning();
+    return result[0];
+  }
+
+  async getProofingSubmission(
+    roundId: string,
+    visitorId: string,
+  ): Promise<ProofingSubmission | undefined> {
+    const result = await this.db
+      .select()
+      .from(proofingSubmissions)
+      .where(
+        and(
+          eq(proofingSubmissions.roundId, roundId),
+          eq(proofingSubmissions.visitorId, visitorId),
+        ),
+      )
+      .limit(1);
+    return result[0];
+  }
+
+  async getProofingSubmissions(roundId: string): Promise<ProofingSubmission[]> {
+    return await this.db
+      .select()
+      .from(proofingSubmissions)
+      .where(eq(proofingSubmissions.roundId, roundId))
+      .orderBy(asc(proofingSubmissions.submittedAt));
+  }
+
+  // Share link methods
+  async createShareLink(link: InsertShareLink): Promise<ShareLink> {
+    const result = await this.db.insert(shareLinks).values(link).returning();
+    return result[0];
+  }
+
+  async getShareLink(id: string): Promise<ShareLink | undefined> {
+    const result = await this.db
+      .select()
+      .from(shareLinks)
+      .where(eq(shareLinks.id, id))
+      .limit(1);
+    return result[0];
+  }
+
+  async getShareLinkByToken(token: string): Promise<ShareLink | undefined> {
+    const result = await this.db
+      .select()
+      .from(shareLinks)
+      .where(eq(shareLinks.token, token))
+      .limit(1);
+    return result[0];
+  }
+
+  async getShareLinks(galleryId: string): Promise<ShareLink[]> {
+    return await this.db
+      .select()
+      .from(shareLinks)
+      .where(eq(shareLinks.galleryId, galleryId))
+      .orderBy(desc(shareLinks.createdAt));
+  }
+
+  // Revoked links count as well, otherwise revoking the last link would
+  // open the gallery to anyone knowing its ID again
+  async hasShareLinks(galleryId: string): Promise<boolean> {
+    const result = await this.db
+      .select({ id: shareLinks.id })
+      .from(shareLinks)
+      .where(eq(shareLinks.galleryId, galleryId))
+      .limit(1);
+    return result.length > 0;
+  }
+
+  async revokeShareLink(id: string): Promise<ShareLink | undefined> {
+    const result = await this.db
+      .update(shareLinks)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(shareLinks.id, id), isNull(shareLinks.revokedAt)))
+      .returning();
+    return result[0];
+  }
+
+  async touchShareLink(id: string): Promise<boolean> {
+    const result = await this.db
+      .update(shareLinks)
+      .set({ lastUsedAt: new Date() })
+      .where(eq(shareLinks.id, id));
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
+  // Rate limit methods
+  async getRateLimits(
+    scope: RateLimitScope,
+    keys: string[],
+  ): Promise<RateLimit[]> {
+    if (keys.length === 0) return [];
+    return await this.db
+      .select()
+      .from(rateLimits)
+      .where(and(eq(rateLimits.scope, scope), inArray(rateLimits.key, keys)));
+  }
+
+  // Counts an attempt and blocks the key for the delay of the new count, all
+  // in one statement: parallel attempts can't pass before the block is set.
+  // Nothing is counted while the key is blocked, undefined is returned then.
+  // Failures older than resetBefore are forgotten, so occasional typos never
+  // add up to a lockout.
+  async recordRateLimitAttempt(
+    scope: RateLimitScope,
+    key: string,
+    { now, resetBefore, blockDelays, lockoutAfter }: RateLimitAttemptPolicy,
+  ): Promise<RateLimit | undefined> {
+    const nowValue = sql`${now.toISOString()}::timestamp`;
+    const failures = sql`(CASE WHEN ${rateLimits.lastFailureAt} < ${resetBefore.toISOString()}::timestamp THEN 1 ELSE ${rateLimits.failures} + 1 END)`;
+    const delay = sql`(${JSON.stringify(blockDelays)}::jsonb ->> (LEAST(${failures}, ${blockDelays.length}) - 1))::bigint`;
+    const firstDelay = blockDelays[0];
+
+    const result = await this.db
+      .insert(rateLimits)
+      .values({
+        scope,
+        key,
+        failures: 1,
+        blockedUntil: firstDelay > 0 ? new Date(now.getTime() + firstDelay) : null,
+        lockedAt: lockoutAfter <= 1 ? now : null,
+        lastFailureAt: now,
+      })
+      .onConflictDoUpdate({
+        target: [rateLimits.scope, rateLimits.key],
+        set: {
+          failures,
+          blockedUntil: sql`CASE WHEN ${delay} > 0 THEN ${nowValue} + ${delay} * interval '1 millisecond' END`,
+          lockedAt: sql`CASE WHEN ${failures} >= ${lockoutAfter} THEN ${nowValue} ELSE ${rateLimits.lockedAt} END`,
+          lastFailureAt: now,
+        },
+        setWhere: sql`${rateLimits.blockedUntil} IS NULL OR ${rateLimits.blockedUntil} <= ${nowValue}`,
+      })
+      .returning();
+    return result[0];
+  }
+
+  // Takes back attempts that succeeded, a running block stays
+  async refundRateLimitAttempts(
+    scope: RateLimitScope,
+    keys: string[],
+  ): Promise<void> {
+    if (keys.length === 0) return;
+    await this.db
+      .update(rateLimits)
+      .set({ failures: sql`GREATEST(${rateLimits.failures} - 1, 0)` })
+      .where(and(eq(rateLimits.scope, scope), inArray(rateLimits.key, keys)));
+  }
+
+  async clearRateLimits(scope: RateLimitScope, keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    await this.db
+      .delete(rateLimits)
+      .where(and(eq(rateLimits.scope, scope), inArray(rateLimits.key, keys)));
+  }
+
+  async getRateLimitLockouts(lockedSince: Date): Promise<RateLimit[]> {
+    return await this.db
+      .select()
+      .from(rateLimits)
+      .where(gte(rateLimits.lockedAt, lockedSince))
+      .orderBy(desc(rateLimits.lockedAt));
+  }
+
+  async deleteRateLimit(id: string): Promise<boolean> {
+    const result = await this.db
+      .delete(rateLimits)
+      .where(eq(rateLimits.id, id));
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
+  async getVisitorLikeCount(photoId: string): Promise<number> {
+    const result = await this.db
+      .select({ count: sql<number>`COUNT(*)` })
+      .from(visitorPicks)
+      .where(and(eq(visitorPicks.photoId, photoId), eq(visitorPicks.isLiked, true)));
+    return Number(result[0]?.count ?? 0);
+  }
+
+  // Job queue methods
+  async createJob(job: InsertJob): Promise<Job> {
+    const result = await this.db.insert(jobs).values(job).returning();
+    return result[0];
+  }
+
+  async claimNextJob(types: string[]): Promise<Job | undefined> {
+    if (types.length === 0) return undefined;
+
+    // SKIP LOCKED lets several workers (or server instances) poll the same
+    // table without ever picking up the same job twice
+    const result = await pool.query(
+      `
+      UPDATE jobs
+      SET status = 'running', locked_at = now(), attempts = attempts + 1, updated_at = now()
+      WHERE id = (
+        SELECT id FROM jobs
+        WHERE status = 'pending' AND run_at <= now() AND type = ANY($1)
+        ORDER BY run_at ASC, created_at ASC
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `,
+      [types],
+    );
+
+    const row = result.rows[0];
+    if (!row) return undefined;
+
+    return {
+      id: row.id,
+      type: row.type,
+      payload: row.payload,
+      status: row.status,
+      attempts: row.attempts,
+      maxAttempts: row.max_attempts,
+      lastError: row.last_error,
+      runAt: row.run_at,
+      lockedAt: row.locked_at,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  async completeJob(id: string): Promise<boolean> {
+    const result = await this.db
+      .update(jobs)
+      .set({ status: "completed", lockedAt: null, updatedAt: new Date() })
+      .where(eq(jobs.id, id));
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
+  async retryJob(id: string, error: string, runAt: Date): Promise<boolean> {
+    const result = await this.db
+      .update(jobs)
+      .set({
+        status: "pending",
+        lastError: error,
+        runAt,
+        lockedAt: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(jobs.id, id));
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
+  async failJob(id: string, error: string): Promise<boolean> {
+    const result = await this.db
+      .update(jobs)
+      .set({
+        status: "failed",
+        lastError: error,
+        lockedAt: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(jobs.id, id));
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
+  async releaseStaleJobs(lockedBefore: Date): Promise<number> {
+    // Jobs still marked as running after a crash or restart go back to the queue
+    const result = await this.db
+      .update(jobs)
+      .set({ status: "pending", lockedAt: null, updatedAt: new Date() })
+      .where(and(eq(jobs.status, "running"), lt(jobs.lockedAt, lockedBefore)));
+    return result.rowCount ?? 0;
+  }
+
   // System Settings methods
   async getSystemSettings() {
     const result = await this.db
@@ -0,0 +1,35 @@
+import { PGlite } from "@electric-sql/pglite";
+import { loadMigrations } from "./migrations";
+
+// In-memory Postgres for the tests, see testSetup.ts. Every test file gets a
+// database of its own with all migrations applied.
+
+type Client = Pick<PGlite, "query">;
+
+// pg reports changed rows as rowCount, which the storage relies on
+function withRowCount<T extends Client>(client: T): T {
+  const query = client.query.bind(client);
+  client.query = (async (...args: Parameters<PGlite["query"]>) => {
+    const result = await query(...args);
+    return Object.assign(result, { rowCount: result.affectedRows ?? 0 });
+  }) as PGlite["query"];
+  return client;
+}
+
+export const testDb = withRowCount(new PGlite());
+
+const transaction = testDb.transaction.bind(testDb);
+testDb.transaction = (callback) => transaction((tx) => callback(withRowCount(tx)));
+
+let migrated: Promise<void> | undefined;
+
+export function migrateTestDb(): Promise<void> {
+  migrated ??= (async () => {
+    for (const migration of loadMigrations()) {
+      for (const statement of migration.statements) {
+        await testDb.exec(statement);
+      }
+    }
+  })();
+  return migrated;
+}
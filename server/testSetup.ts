@@ -0,0 +1,18 @@
+import { beforeAll, vi } from "vitest";
+import type { DrizzleConfig } from "drizzle-orm";
+
+// The storage runs on the in-memory database of testDb.ts instead of the pg
+// pool, so request tests go through the real queries and migrations.
+vi.mock("drizzle-orm/node-postgres", async () => {
+  const { drizzle } = await import("drizzle-orm/pglite");
+  const { testDb } = await import("./testDb");
+  return {
+    drizzle: (_pool: unknown, config: DrizzleConfig<Record<string, unknown>>) =>
+      drizzle(testDb, config),
+  };
+});
+
+beforeAll(async () => {
+  const { migrateTestDb } = await import("./testDb");
+  await migrateTestDb();
+});
@@ -0,0 +1,68 @@
+import express, { type Express } from "express";
+import cookieParser from "cookie-parser";
+import { randomUUID } from "crypto";
+import { storage } from "./storage";
+import { COOKIE_SECRET, generateToken } from "./auth";
+import { insertGallerySchema, type InsertGallery, type User } from "@shared/schema";
+
+// Helpers for the request tests, the database comes from testSetup.ts
+
+// The middleware of index.ts with just the given route groups
+export async function createTestApp(
+  ...registerRoutes: ((app: Express) => Promise<void>)[]
+): Promise<Express> {
+  const app = express();
+  app.set("trust proxy", "loopback");
+  app.use(cookieParser(COOKIE_SECRET));
+  app.use(express.json());
+  for (const register of registerRoutes) {
+    await register(app);
+  }
+  return app;
+}
+
+// A user with a login session, auth is the Authorization header to send
+export async function createTestUser(
+  role: string,
+): Promise<{ user: User; auth: string }> {
+  const id = randomUUID();
+  const user = await storage.createUser({
+    name: `${role}-${id}`,
+    email: `${id}@example.com`,
+    password: "-",
+    role,
+  });
+  const session = await storage.createSession({
+    userId: user.id,
+    refreshTokenHash: id,
+    userAgent: null,
+    ipAddress: null,
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+  });
+  const token = generateToken({
+    userId: user.id,
+    email: user.email,
+    role: user.role,
+    sessionId: session.id,
+  });
+  return { user, auth: `Bearer ${token}` };
+}
+
+// A gallery that is shared already, drafts aren't public
+export async function createTestGallery(
+  owner: User,
+  gallery: Partial<InsertGallery> = {},
+) {
+  const created = await storage.createGallery(
+    insertGallerySchema.parse({ name: "Testgalerie", userId: owner.id, ...gallery }),
+  );
+  return (await storage.updateGalleryStatus(created.id, "shared"))!;
+}
+
+export const createTestPhoto = (galleryId: string, originalName = "IMG_0001.jpg") =>
+  storage.createPhoto({
+    filename: `${randomUUID()}.jpg`,
+    originalName,
+    alt: originalName,
+    galleryId,
+  });
@@ -0,0 +1,103 @@
+import { storage } from "./storage";
+import { JobQueue } from "./jobQueue";
+import { ThumbnailGenerator } from "./thumbnailGenerator";
+import { MetadataExtractor } from "./metadataExtractor";
+import { getFinalsDir } from "./finals";
+import type { FinalPhoto, InsertFinalPhoto, Photo } from "@shared/schema";
+
+export const THUMBNAIL_JOB = "thumbnails";
+export const FINAL_THUMBNAIL_JOB = "final-thumbnails";
+
+export function registerThumbnailJobs() {
+  JobQueue.registerHandler(THUMBNAIL_JOB, {
+    run: async ({ photoId }) => {
+      const photo = await storage.getPhoto(photoId);
+      if (!photo) {
+        // Photo was deleted while waiting in the queue - nothing to do
+        return;
+      }
+
+      const thumbnailPaths = await ThumbnailGenerator.generateThumbnails(
+        photo.filePath || `uploads/galleries/${photo.galleryId}/${photo.filename}`,
+        photo.filename,
+        photo.galleryId,
+      );
+
+      // Missing or broken metadata must not fail the whole job
+      try {
+        const metadata = await MetadataExtractor.extract(thumbnailPaths.original);
+        await storage.upsertPhotoMetadata({ ...metadata, photoId: photo.id });
+      } catch (error) {
+        console.error(`Metadata extraction failed for ${photo.filename}:`, error);
+      }
+
+      await storage.updatePhoto(photo.id, {
+        filePath: thumbnailPaths.original,
+        thumbnailPath: thumbnailPaths.thumbnail,
+        mediumPath: thumbnailPaths.medium,
+        processingStatus: "ready",
+      });
+    },
+    onFailed: async ({ photoId }) => {
+      await storage.updatePhoto(photoId, { processingStatus: "failed" });
+    },
+  });
+
+  // Finals are kept apart from the proofs in a finals/ directory of the
+  // gallery, they have no metadata of their own
+  JobQueue.registerHandler(FINAL_THUMBNAIL_JOB, {
+    run: async ({ finalId }) => {
+      const finalPhoto = await storage.getFinalPhoto(finalId);
+      if (!finalPhoto?.filePath) {
+        // Replaced or deleted while waiting in the queue
+        return;
+      }
+
+      const thumbnailPaths = await ThumbnailGenerator.generateThumbnails(
+        finalPhoto.filePath,
+        finalPhoto.filename,
+        getFinalsDir(finalPhoto.galleryId),
+      );
+
+      await storage.updateFinalPhoto(finalPhoto.id, {
+        filePath: thumbnailPaths.original,
+        thumbnailPath: thumbnailPaths.thumbnail,
+        mediumPath: thumbnailPaths.medium,
+        processingStatus: "ready",
+      });
+    },
+    onFailed: async ({ finalId }) => {
+      await storage.updateFinalPhoto(finalId, { processingStatus: "failed" });
+    },
+  });
+}
+
+// Creates the photo row right away and leaves the derivatives to the queue
+export async function createPhotoWithThumbnailJob(photoData: {
+  filename: string;
+  originalName: string;
+  alt: string;
+  galleryId: string;
+  filePath: string;
+}): Promise<Photo> {
+  const photo = await storage.createPhoto({
+    ...photoData,
+    processingStatus: "processing",
+  });
+  await JobQueue.enqueue(THUMBNAIL_JOB, { photoId: photo.id });
+  return photo;
+}
+
+export async function createFinalPhotoWithThumbnailJob(
+  finalData: Pick<
+    InsertFinalPhoto,
+    "galleryId" | "proofId" | "filename" | "originalName" | "filePath"
+  >,
+): Promise<FinalPhoto> {
+  const finalPhoto = await storage.createFinalPhoto({
+    ...finalData,
+    processingStatus: "processing",
+  });
+  await JobQueue.enqueue(FINAL_THUMBNAIL_JOB, { finalId: finalPhoto.id });
+  return finalPhoto;
+}
@@ -0,0 +1,127 @@
+import fs from "fs";
+import { inArray } from "drizzle-orm";
+import { galleries, photos, type Photo } from "@shared/schema";
+import { db, storage } from "./storage";
+import { ThumbnailGenerator } from "./thumbnailGenerator";
+import { JobQueue } from "./jobQueue";
+import { THUMBNAIL_JOB } from "./thumbnailJobs";
+import { getRootGalleryId } from "./visitors";
+import { getFinalsDir } from "./finals";
+
+// Deleted galleries and photos go to the trash first. Ratings, comments and
+// picks stay untouched until the retention of the system settings has
+// passed, only then are the rows and files removed for good.
+
+const DAY = 24 * 60 * 60 * 1000;
+// Guards against parent loops in broken data
+const MAX_GALLERY_DEPTH = 10;
+
+export async function getTrashRetentionDays(): Promise<number> {
+  const settings = await storage.getSystemSettings();
+  return settings?.trashRetentionDays ?? 30;
+}
+
+// When an item is purged automatically, null if the trash is kept (0 days)
+export const getPurgeDate = (deletedAt: Date, retentionDays: number) =>
+  retentionDays > 0 ? new Date(deletedAt.getTime() + retentionDays * DAY) : null;
+
+async function deletePhotoFiles(photo: Photo) {
+  const filePath =
+    photo.filePath || `uploads/galleries/${photo.galleryId}/${photo.filename}`;
+  await fs.promises.unlink(filePath).catch(() => {});
+  await ThumbnailGenerator.deleteThumbnails(photo.filename, photo.galleryId);
+}
+
+// Queues the derivatives of restored photos that have none, the thumbnail job
+// skips photos while they are in the trash. Archived galleries stay without
+// derivatives until they are extended.
+export async function queueMissingThumbnails(restored: Photo[]): Promise<void> {
+  const archived = new Map<string, boolean>();
+  for (const photo of restored) {
+    if (photo.thumbnailPath && photo.mediumPath) continue;
+    if (!archived.has(photo.galleryId)) {
+      const root = await storage.getGallery(await getRootGalleryId(photo.galleryId));
+      archived.set(photo.galleryId, !!root?.archivedAt);
+    }
+    if (archived.get(photo.galleryId)) continue;
+
+    await storage.updatePhoto(photo.id, { processingStatus: "processing" });
+    await JobQueue.enqueue(THUMBNAIL_JOB, { photoId: photo.id });
+  }
+}
+
+// Removes the photos with all their data and files
+export async function purgePhotos(trashed: Photo[]): Promise<number> {
+  let purged = 0;
+  for (const photo of trashed) {
+    if (await storage.deletePhoto(photo.id)) {
+      await deletePhotoFiles(photo);
+      purged++;
+    }
+  }
+  return purged;
+}
+
+// Removes the gallery with its sub-galleries, photos and files
+export async function purgeGallery(galleryId: string): Promise<boolean> {
+  const galleryIds = [galleryId];
+  let parentIds = [galleryId];
+  for (let depth = 0; parentIds.length > 0 && depth < MAX_GALLERY_DEPTH; depth++) {
+    const children = await db
+      .select({ id: galleries.id })
+      .from(galleries)
+      .where(inArray(galleries.parentId, parentIds));
+    parentIds = children.map((child) => child.id);
+    galleryIds.push(...parentIds);
+  }
+
+  // Read before the rows are gone, trashed photos included
+  const galleryPhotos = await db
+    .select()
+    .from(photos)
+    .where(inArray(photos.galleryId, galleryIds));
+
+  if (!(await storage.deleteGallery(galleryId))) {
+    return false;
+  }
+
+  for (const photo of galleryPhotos) {
+    await deletePhotoFiles(photo);
+  }
+  for (const id of galleryIds) {
+    // Finals are kept in a directory of their own, see getFinalsDir
+    await fs.promises.rm(`uploads/galleries/${getFinalsDir(id)}`, {
+      recursive: true,
+      force: true,
+    });
+    // Only removed when empty, files of other galleries are never touched
+    await fs.promises.rmdir(`uploads/galleries/${id}`).catch(() => {});
+    await fs.promises.rm(`uploads/galleries/thumbnails/${id}`, {
+      recursive: true,
+      force: true,
+    });
+  }
+
+  return true;
+}
+
+// Purges everything that has been in the trash longer than the retention
+export async function purgeExpiredTrash(): Promise<{ galleries: number; photos: number }> {
+  const retentionDays = await getTrashRetentionDays();
+  if (retentionDays <= 0) return { galleries: 0, photos: 0 }; // 0 = keep until emptied
+
+  const expiredBefore = Date.now() - retentionDays * DAY;
+  const isExpired = (item: { deletedAt: Date | null }) =>
+    item.deletedAt !== null && item.deletedAt.getTime() <= expiredBefore;
+
+  let purgedGalleries = 0;
+  for (const gallery of (await storage.getTrashedGalleries()).filter(isExpired)) {
+    if (await purgeGallery(gallery.id)) purgedGalleries++;
+  }
+
+  const purgedPhotos = await purgePhotos(
+    (await storage.getTrashedPhotos()).filter(isExpired),
+  );
+
+  return { galleries: purgedGalleries, photos: purgedPhotos };
+}
@@ -0,0 +1,264 @@
+import type { Express } from "express";
+import { storage } from "./storage";
+import { authenticateJWT, requireStaff, type JWTPayload } from "./auth";
+import { getGalleryPermission, hasGalleryPermission } from "./galleryPermissions";
+import { withMediaUrls } from "./media";
+import { recordAuditEvent } from "./audit";
+import {
+  getPurgeDate,
+  getTrashRetentionDays,
+  purgeExpiredTrash,
+  purgeGallery,
+  purgePhotos,
+  queueMissingThumbnails,
+} from "./trash";
+import type { Gallery, Photo } from "@shared/schema";
+
+// Trash of deleted galleries and photos. Everyone sees what they may
+// manage, restoring brings back ratings, comments and picks as they were.
+
+async function cleanupTrash() {
+  try {
+    const purged = await purgeExpiredTrash();
+    if (purged.galleries > 0 || purged.photos > 0) {
+      console.log(
+        `Purged ${purged.galleries} gallery(s) and ${purged.photos} photo(s) from the trash`,
+      );
+    }
+  } catch (error) {
+    console.error("Cleanup trash error:", error);
+  }
+}
+
+const canManage = async (user: JWTPayload, galleryId: string) =>
+  hasGalleryPermission(await getGalleryPermission(user, galleryId, true), "manage");
+
+async function getManagedTrash(user: JWTPayload) {
+  const galleries: Gallery[] = [];
+  for (const gallery of await storage.getTrashedGalleries()) {
+    if (await canManage(user, gallery.id)) galleries.push(gallery);
+  }
+
+  const photos: Photo[] = [];
+  for (const photo of await storage.getTrashedPhotos()) {
+    if (await canManage(user, photo.galleryId)) photos.push(photo);
+  }
+
+  return { galleries, photos };
+}
+
+// Trashed photos of the request the user may manage, unknown ids are skipped
+async function getRequestedTrashedPhotos(user: JWTPayload, photoIds: unknown[]) {
+  const photos: Photo[] = [];
+  for (const photoId of photoIds) {
+    if (typeof photoId !== "string") continue;
+    const photo = await storage.getPhoto(photoId, true);
+    if (photo?.deletedAt && (await canManage(user, photo.galleryId))) {
+      photos.push(photo);
+    }
+  }
+  return photos;
+}
+
+export async function registerTrashRoutes(app: Express): Promise<void> {
+  // Purge expired trash every hour
+  cleanupTrash();
+  setInterval(cleanupTrash, 60 * 60 * 1000);
+
+  app.get("/api/trash", authenticateJWT, requireStaff, async (req: any, res) => {
+    try {
+      const retentionDays = await getTrashRetentionDays();
+      const { galleries, photos } = await getManagedTrash(req.user);
+
+      const galleryNames = new Map<string, string>();
+      for (const galleryId of Array.from(new Set(photos.map((p) => p.galleryId)))) {
+        const gallery = await storage.getGallery(galleryId);
+        galleryNames.set(galleryId, gallery?.name || "");
+      }
+
+      res.json({
+        retentionDays,
+        galleries: await Promise.all(
+          galleries.map(async (gallery) => {
+            const parent = gallery.parentId
+              ? await storage.getGallery(gallery.parentId, true)
+              : undefined;
+            return {
+              id: gallery.id,
+              name: gallery.name,
+              parentId: gallery.parentId,
+              parentName: parent?.name ?? null,
+              // The parent is in the trash on its own, it has to be restored first
+              parentTrashed: !!parent?.deletedAt,
+              photoCount: (await storage.getPhotosByGalleryId(gallery.id)).length,
+              deletedAt: gallery.deletedAt,
+              purgeAt: getPurgeDate(gallery.deletedAt!, retentionDays),
+            };
+          }),
+        ),
+        photos: withMediaUrls(photos, false).map((photo) => ({
+          id: photo.id,
+          originalName: photo.originalName,
+          thumbnailUrl: photo.thumbnailUrl,
+          galleryId: photo.galleryId,
+          galleryName: galleryNames.get(photo.galleryId) || "",
+          deletedAt: photo.deletedAt,
+          purgeAt: getPurgeDate(photo.deletedAt!, retentionDays),
+        })),
+      });
+    } catch (error) {
+      console.error("Get trash error:", error);
+      res.status(500).json({ error: "Fehler beim Laden des Papierkorbs" });
+    }
+  });
+
+  app.post(
+    "/api/trash/galleries/:id/restore",
+    authenticateJWT,
+    requireStaff,
+    async (req: any, res) => {
+      try {
+        const gallery = await storage.getGallery(req.params.id, true);
+        if (!gallery?.deletedAt || !(await canManage(req.user, gallery.id))) {
+          return res.status(404).json({ error: "Galerie nicht im Papierkorb" });
+        }
+        if (gallery.parentId && !(await storage.getGallery(gallery.parentId))) {
+          return res.status(409).json({
+            error: "Die übergeordnete Galerie liegt im Papierkorb, stelle sie zuerst wieder her",
+          });
+        }
+
+        const restored = await storage.restoreGallery(gallery.id);
+        for (const restoredGallery of restored) {
+          await queueMissingThumbnails(
+            await storage.getPhotosByGalleryId(restoredGallery.id),
+          );
+        }
+
+        await recordAuditEvent(req, {
+          action: "gallery.restore",
+          targetType: "gallery",
+          targetId: gallery.id,
+          targetName: gallery.name,
+          details: { galleries: restored.length, parentId: gallery.parentId },
+        });
+
+        res.json({ success: true, galleries: restored.length });
+      } catch (error) {
+        console.error("Restore gallery error:", error);
+        res.status(500).json({ error: "Fehler beim Wiederherstellen der Galerie" });
+      }
+    },
+  );
+
+  app.delete(
+    "/api/trash/galleries/:id",
+    authenticateJWT,
+    requireStaff,
+    async (req: any, res) => {
+      try {
+        const gallery = await storage.getGallery(req.params.id, true);
+        if (!gallery?.deletedAt || !(await canManage(req.user, gallery.id))) {
+          return res.status(404).json({ error: "Galerie nicht im Papierkorb" });
+        }
+
+        if (!(await purgeGallery(gallery.id))) {
+          return res.status(404).json({ error: "Galerie nicht im Papierkorb" });
+        }
+
+        await recordAuditEvent(req, {
+          action: "gallery.purge",
+          targetType: "gallery",
+          targetId: gallery.id,
+          targetName: gallery.name,
+          details: { parentId: gallery.parentId },
+        });
+
+        res.json({ success: true });
+      } catch (error) {
+        console.error("Purge gallery error:", error);
+        res.status(500).json({ error: "Fehler beim endgültigen Löschen der Galerie" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/trash/photos/restore",
+    authenticateJWT,
+    requireStaff,
+    async (req: any, res) => {
+      try {
+        const { photoIds } = req.body;
+        if (!Array.isArray(photoIds) || photoIds.length === 0) {
+          return res.status(400).json({ error: "Foto-IDs sind erforderlich" });
+        }
+
+        const trashed = await getRequestedTrashedPhotos(req.user, photoIds);
+        const restored = await storage.restorePhotos(trashed.map((photo) => photo.id));
+        await queueMissingThumbnails(restored);
+
+        await recordAuditEvent(req, {
+          action: "gallery.photos_restore",
+          targetType: "photo",
+          details: { photoIds: restored.map((photo) => photo.id) },
+        });
+
+        res.json({ success: true, restored: restored.length });
+      } catch (error) {
+        console.error("Restore photos error:", error);
+        res.status(500).json({ error: "Fehler beim Wiederherstellen der Fotos" });
+      }
+    },
+  );
+
+  app.delete(
+    "/api/trash/photos",
+    authenticateJWT,
+    requireStaff,
+    async (req: any, res) => {
+      try {
+        const { photoIds } = req.body;
+        if (!Array.isArray(photoIds) || photoIds.length === 0) {
+          return res.status(400).json({ error: "Foto-IDs sind erforderlich" });
+        }
+
+        const trashed = await getRequestedTrashedPhotos(req.user, photoIds);
+        const purged = await purgePhotos(trashed);
+
+        await recordAuditEvent(req, {
+          action: "gallery.photos_purge",
+          targetType: "photo",
+          details: { photoIds: trashed.map((photo) => photo.id) },
+        });
+
+        res.json({ success: true, purged });
+      } catch (error) {
+        console.error("Purge photos error:", error);
+        res.status(500).json({ error: "Fehler beim endgültigen Löschen der Fotos" });
+      }
+    },
+  );
+
+  // Empties everything in the trash the user may manage
+  app.delete("/api/trash", authenticateJWT, requireStaff, async (req: any, res) => {
+    try {
+      const { galleries, photos } = await getManagedTrash(req.user);
+
+      let purgedGalleries = 0;
+      for (const gallery of galleries) {
+        if (await purgeGallery(gallery.id)) purgedGalleries++;
+      }
+      const purgedPhotos = await purgePhotos(photos);
+
+      await recordAuditEvent(req, {
+        action: "gallery.trash_empty",
+        details: { galleries: purgedGalleries, photos: purgedPhotos },
+      });
+
+      res.json({ success: true, galleries: purgedGalleries, photos: purgedPhotos });
+    } catch (error) {
+      console.error("Empty trash error:", error);
+      res.status(500).json({ error: "Fehler beim Leeren des Papierkorbs" });
+    }
+  });
+}
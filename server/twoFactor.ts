@@ -0,0 +1,143 @@
+import crypto from "crypto";
+import QRCode from "qrcode";
+import { storage } from "./storage";
+import { TWO_FACTOR_POLICY_ROLES, type User } from "@shared/schema";
+
+// TOTP as in RFC 6238: HMAC-SHA1, 6 digits, 30 second steps - what every
+// authenticator app expects by default
+
+const TOTP_STEP = 30; // Sekunden
+const TOTP_DIGITS = 6;
+const TOTP_WINDOW = 1; // Accepted steps before and after the current one, for clock drift
+const TOTP_ISSUER = "FotoStube";
+const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+function encodeBase32(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (let i = 0; i < buffer.length; i++) {
+    value = (value << 8) | buffer[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function decodeBase32(input: string): Buffer {
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of input.toUpperCase().replace(/=+$/, "")) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) continue;
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function generateHotp(secret: Buffer, counter: number): string {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeUInt32BE(Math.floor(counter / 2 ** 32), 0);
+  counterBuffer.writeUInt32BE(counter >>> 0, 4);
+
+  const hmac = crypto.createHmac("sha1", secret).update(counterBuffer).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, "0");
+}
+
+export function generateTotpSecret(): string {
+  return encodeBase32(crypto.randomBytes(20));
+}
+
+// Returns the time step the code belongs to, null if it doesn't match
+export function verifyTotp(secret: string, code: string): number | null {
+  const normalized = code.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  const key = decodeBase32(secret);
+  const currentStep = Math.floor(Date.now() / 1000 / TOTP_STEP);
+  for (let step = currentStep - TOTP_WINDOW; step <= currentStep + TOTP_WINDOW; step++) {
+    const expected = generateHotp(key, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+// otpauth URL and QR code for the enrollment in an authenticator app
+export async function getTotpEnrollment(secret: string, accountName: string) {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`);
+  const otpauthUrl = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(TOTP_ISSUER)}&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_STEP}`;
+  return {
+    secret,
+    otpauthUrl,
+    qrCode: await QRCode.toDataURL(otpauthUrl),
+  };
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function hashRecoveryCode(code: string): string {
+  return crypto
+    .createHash("sha256")
+    .update(normalizeRecoveryCode(code))
+    .digest("hex");
+}
+
+// Only the hashes are stored, the codes are shown to the user once
+export function generateRecoveryCodes() {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = crypto.randomBytes(5).toString("hex");
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+export async function isTwoFactorEnabled(userId: string): Promise<boolean> {
+  const twoFactor = await storage.getUserTwoFactor(userId);
+  return !!twoFactor?.enabledAt;
+}
+
+// The admin policy makes 2FA mandatory for Admin and Creator accounts
+export async function isTwoFactorRequired(user: Pick<User, "role">) {
+  if (!TWO_FACTOR_POLICY_ROLES.includes(user.role as any)) return false;
+  const settings = await storage.getSystemSettings();
+  return !!settings?.requireTwoFactor;
+}
+
+// Checks a TOTP code or, as fallback, one of the recovery codes. Both can
+// only be used once.
+export async function verifySecondFactor(
+  userId: string,
+  code: string,
+): Promise<boolean> {
+  const twoFactor = await storage.getUserTwoFactor(userId);
+  if (!twoFactor?.enabledAt || !code) return false;
+
+  const step = verifyTotp(twoFactor.secret, code);
+  if (step !== null) {
+    return storage.useTwoFactorStep(userId, step);
+  }
+
+  return storage.useRecoveryCode(userId, hashRecoveryCode(code));
+}
@@ -0,0 +1,300 @@
+import type { Express } from "express";
+import bcrypt from "bcrypt";
+import { storage } from "./storage";
+import {
+  authenticateChallengeOrJWT,
+  authenticateJWT,
+  sendLoginResponse,
+  verifyLoginChallenge,
+} from "./auth";
+import {
+  generateRecoveryCodes,
+  generateTotpSecret,
+  getTotpEnrollment,
+  isTwoFactorRequired,
+  verifySecondFactor,
+  verifyTotp,
+} from "./twoFactor";
+import {
+  beginAttempt,
+  getClientKey,
+  recordSuccessfulAttempt,
+  sendRateLimited,
+} from "./rateLimits";
+import { recordAuditEvent } from "./audit";
+
+// TOTP two-factor authentication. Enrollment runs in the account settings
+// or, if the policy requires 2FA, as part of the login with the challenge
+// token the login returned instead of a session.
+
+export async function registerTwoFactorRoutes(app: Express): Promise<void> {
+  // Second login step: TOTP or recovery code for the challenge
+  app.post("/api/auth/login/verify", async (req, res) => {
+    try {
+      const { challengeToken, code } = req.body;
+
+      const challenge = challengeToken
+        ? verifyLoginChallenge(challengeToken)
+        : null;
+      if (!challenge) {
+        return res
+          .status(401)
+          .json({ error: "Anmeldung abgelaufen - bitte erneut anmelden" });
+      }
+
+      const rateLimitKeys = [
+        getClientKey(req),
+        `user:${challenge.userId}`,
+      ];
+      const retryAfter = await beginAttempt("two_factor", rateLimitKeys);
+      if (retryAfter > 0) {
+        return sendRateLimited(res, retryAfter);
+      }
+
+      const user = await storage.getUser(challenge.userId);
+      if (!user) {
+        return res.status(401).json({ error: "Ungültige Anmeldedaten" });
+      }
+
+      if (!(await verifySecondFactor(user.id, String(code || "")))) {
+        await recordAuditEvent(req, {
+          action: "auth.login_failed",
+          targetType: "user",
+          targetId: user.id,
+          targetName: user.name,
+          details: { reason: "wrong_2fa_code" },
+          actor: null,
+        });
+        return res.status(401).json({ error: "Ungültiger Code" });
+      }
+
+      await recordSuccessfulAttempt("two_factor", rateLimitKeys, [
+        `user:${user.id}`,
+      ]);
+      await recordAuditEvent(req, {
+        action: "auth.login",
+        targetType: "user",
+        targetId: user.id,
+        targetName: user.name,
+        details: { method: "password+2fa" },
+        actor: { id: user.id, name: user.name },
+      });
+      await sendLoginResponse(req, res, user);
+    } catch (error) {
+      console.error("Verify 2FA login error:", error);
+      res.status(500).json({ error: "Anmeldefehler" });
+    }
+  });
+
+  app.get("/api/auth/2fa", authenticateJWT, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.userId);
+      if (!user) {
+        return res.status(404).json({ error: "Benutzer nicht gefunden" });
+      }
+
+      const twoFactor = await storage.getUserTwoFactor(user.id);
+      res.json({
+        enabled: !!twoFactor?.enabledAt,
+        enabledAt: twoFactor?.enabledAt || null,
+        recoveryCodesRemaining: twoFactor?.enabledAt
+          ? twoFactor.recoveryCodes.length
+          : 0,
+        required: await isTwoFactorRequired(user),
+      });
+    } catch (error) {
+      console.error("Get 2FA status error:", error);
+      res.status(500).json({ error: "Fehler beim Laden des 2FA-Status" });
+    }
+  });
+
+  // Creates a new secret, it only becomes active once a code was confirmed
+  app.post(
+    "/api/auth/2fa/setup",
+    authenticateChallengeOrJWT,
+    async (req: any, res) => {
+      try {
+        const user = await storage.getUser(req.user.userId);
+        if (!user) {
+          return res.status(404).json({ error: "Benutzer nicht gefunden" });
+        }
+
+        const twoFactor = await storage.getUserTwoFactor(user.id);
+        if (twoFactor?.enabledAt) {
+          return res.status(400).json({ error: "2FA ist bereits aktiviert" });
+        }
+
+        const secret = generateTotpSecret();
+        await storage.setUserTwoFactorSecret(user.id, secret);
+
+        res.json(await getTotpEnrollment(secret, user.email));
+      } catch (error) {
+        console.error("Setup 2FA error:", error);
+        res.status(500).json({ error: "Fehler beim Einrichten von 2FA" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/auth/2fa/enable",
+    authenticateChallengeOrJWT,
+    async (req: any, res) => {
+      try {
+        const { code } = req.body;
+
+        const user = await storage.getUser(req.user.userId);
+        if (!user) {
+          return res.status(404).json({ error: "Benutzer nicht gefunden" });
+        }
+
+        const twoFactor = await storage.getUserTwoFactor(user.id);
+        if (!twoFactor) {
+          return res
+            .status(400)
+            .json({ error: "2FA-Einrichtung wurde nicht gestartet" });
+        }
+        if (twoFactor.enabledAt) {
+          return res.status(400).json({ error: "2FA ist bereits aktiviert" });
+        }
+
+        const rateLimitKeys = [getClientKey(req), `user:${user.id}`];
+        const retryAfter = await beginAttempt("two_factor", rateLimitKeys);
+        if (retryAfter > 0) {
+          return sendRateLimited(res, retryAfter);
+        }
+
+        const step = verifyTotp(twoFactor.secret, String(code || ""));
+        if (step === null) {
+          return res.status(400).json({ error: "Ungültiger Code" });
+        }
+
+        const recoveryCodes = generateRecoveryCodes();
+        await storage.updateUserTwoFactor(user.id, {
+          enabledAt: new Date(),
+          recoveryCodes: recoveryCodes.hashes,
+          lastUsedStep: step,
+        });
+        await recordSuccessfulAttempt("two_factor", rateLimitKeys, [
+        `user:${user.id}`,
+      ]);
+
+        await recordAuditEvent(req, {
+          action: "auth.2fa_enable",
+          targetType: "user",
+          targetId: user.id,
+          targetName: user.name,
+        });
+
+        // Enrollment during the login finishes the login as well
+        if (req.loginChallenge) {
+          await recordAuditEvent(req, {
+            action: "auth.login",
+            targetType: "user",
+            targetId: user.id,
+            targetName: user.name,
+            details: { method: "password+2fa" },
+          });
+          return await sendLoginResponse(req, res, user, {
+            recoveryCodes: recoveryCodes.codes,
+          });
+        }
+
+        res.json({ recoveryCodes: recoveryCodes.codes });
+      } catch (error) {
+        console.error("Enable 2FA error:", error);
+        res.status(500).json({ error: "Fehler beim Aktivieren von 2FA" });
+      }
+    },
+  );
+
+  app.post("/api/auth/2fa/disable", authenticateJWT, async (req: any, res) => {
+    try {
+      const { password, code } = req.body;
+
+      const user = await storage.getUser(req.user.userId);
+      if (!user) {
+        return res.status(404).json({ error: "Benutzer nicht gefunden" });
+      }
+
+      if (await isTwoFactorRequired(user)) {
+        return res
+          .status(403)
+          .json({ error: "2FA ist für deine Rolle vorgeschrieben" });
+      }
+
+      const rateLimitKeys = [getClientKey(req), `user:${user.id}`];
+      const retryAfter = await beginAttempt("two_factor", rateLimitKeys);
+      if (retryAfter > 0) {
+        return sendRateLimited(res, retryAfter);
+      }
+
+      const isValidPassword =
+        !!password && (await bcrypt.compare(password, user.password));
+      if (
+        !isValidPassword ||
+        !(await verifySecondFactor(user.id, String(code || "")))
+      ) {
+        return res
+          .status(400)
+          .json({ error: "Passwort oder Code ist falsch" });
+      }
+
+      await recordSuccessfulAttempt("two_factor", rateLimitKeys, [
+        `user:${user.id}`,
+      ]);
+      await storage.deleteUserTwoFactor(user.id);
+      await recordAuditEvent(req, {
+        action: "auth.2fa_disable",
+        targetType: "user",
+        targetId: user.id,
+        targetName: user.name,
+      });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Disable 2FA error:", error);
+      res.status(500).json({ error: "Fehler beim Deaktivieren von 2FA" });
+    }
+  });
+
+  // Replaces all recovery codes, e.g. after some of them were used
+  app.post(
+    "/api/auth/2fa/recovery-codes",
+    authenticateJWT,
+    async (req: any, res) => {
+      try {
+        const { code } = req.body;
+        const userId = req.user.userId;
+
+        const rateLimitKeys = [getClientKey(req), `user:${userId}`];
+        const retryAfter = await beginAttempt("two_factor", rateLimitKeys);
+        if (retryAfter > 0) {
+          return sendRateLimited(res, retryAfter);
+        }
+
+        if (!(await verifySecondFactor(userId, String(code || "")))) {
+          return res.status(400).json({ error: "Ungültiger Code" });
+        }
+
+        await recordSuccessfulAttempt("two_factor", rateLimitKeys, [
+          `user:${userId}`,
+        ]);
+        const recoveryCodes = generateRecoveryCodes();
+        await storage.updateUserTwoFactor(userId, {
+          recoveryCodes: recoveryCodes.hashes,
+        });
+        await recordAuditEvent(req, {
+          action: "auth.2fa_recovery_codes",
+          targetType: "user",
+          targetId: userId,
+        });
+
+        res.json({ recoveryCodes: recoveryCodes.codes });
+      } catch (error) {
+        console.error("Regenerate recovery codes error:", error);
+        res
+          .status(500)
+          .json({ error: "Fehler beim Erzeugen der Wiederherstellungscodes" });
+      }
+    },
+  );
+}
@@ -4,7 +4,7 @@ import fs from "fs";
 import { randomUUID } from "crypto";
 
 export const ensureUploadDirs = () => {
-  const dirs = ["uploads", "uploads/photos", "uploads/galleries"];
+  const dirs = ["uploads", "uploads/photos", "uploads/galleries", "uploads/tmp"];
   dirs.forEach((dir) => {
     if (!fs.existsSync(dir)) {
       fs.mkdirSync(dir, { recursive: true });
@@ -32,16 +32,17 @@ const uploadStorage = multer.diskStorage({
   },
 });
 
+// Shared by multer and the resumable upload routes
+export const isAllowedImage = (filename: string, mimetype: string) => {
+  const allowedTypes = /jpeg|jpg|png|gif|webp/;
+  const extname = allowedTypes.test(path.extname(filename).toLowerCase());
+  return allowedTypes.test(mimetype) && extname;
+};
+
 export const upload = multer({
   storage: uploadStorage,
   fileFilter: (req, file, cb) => {
-    const allowedTypes = /jpeg|jpg|png|gif|webp/;
-    const extname = allowedTypes.test(
-      path.extname(file.originalname).toLowerCase(),
-    );
-    const mimetype = allowedTypes.test(file.mimetype);
-
-    if (mimetype && extname) {
+    if (isAllowedImage(file.originalname, file.mimetype)) {
       return cb(null, true);
     } else {
       cb(new Error("Nur Bilddateien sind erlaubt (JPEG, PNG, GIF, WebP)"));
@@ -0,0 +1,289 @@
+import type { Express } from "express";
+import express from "express";
+import { storage } from "./storage";
+import path from "path";
+import fs from "fs";
+import { randomUUID } from "crypto";
+import { authenticateJWT, requireStaff } from "./auth";
+import { requireGalleryPermission } from "./galleryPermissions";
+import { ensureUploadDirs, isAllowedImage } from "./upload";
+import { createPhotoWithThumbnailJob } from "./thumbnailJobs";
+import type { UploadSession } from "@shared/schema";
+
+// Resumable (chunked) uploads: the client creates an upload session, then
+// sends the file in chunks via PATCH with an Upload-Offset header. After an
+// interruption it asks for the current offset and continues from there.
+
+const UPLOAD_TMP_DIR = "uploads/tmp";
+const MAX_CHUNK_SIZE = "16mb";
+const MAX_FILE_SIZE = 500 * 1024 * 1024; // 500 MB
+const STALE_UPLOAD_AGE = 7 * 24 * 60 * 60 * 1000; // 7 Tage
+
+// A chunk is written under a claim on its session, a second chunk for the same
+// offset would otherwise pass the offset check and be appended twice. Claims
+// older than this are left over from a crashed instance.
+const WRITING_CLAIM_AGE = 5 * 60 * 1000; // 5 Minuten
+
+const getPartPath = (uploadId: string) =>
+  path.join(UPLOAD_TMP_DIR, `${uploadId}.part`);
+
+// The part file on disk is the source of truth for the received bytes
+const getReceivedBytes = (uploadId: string) => {
+  const partPath = getPartPath(uploadId);
+  return fs.existsSync(partPath) ? fs.statSync(partPath).size : 0;
+};
+
+const toUploadResponse = (session: UploadSession, offset: number) => ({
+  id: session.id,
+  fingerprint: session.fingerprint,
+  originalName: session.originalName,
+  alt: session.alt,
+  size: session.size,
+  offset,
+});
+
+async function cleanupStaleUploads() {
+  try {
+    const staleSessions = await storage.getStaleUploadSessions(
+      new Date(Date.now() - STALE_UPLOAD_AGE),
+    );
+    for (const session of staleSessions) {
+      const partPath = getPartPath(session.id);
+      if (fs.existsSync(partPath)) {
+        fs.unlinkSync(partPath);
+      }
+      await storage.deleteUploadSession(session.id);
+    }
+    if (staleSessions.length > 0) {
+      console.log(`Removed ${staleSessions.length} stale upload(s)`);
+    }
+  } catch (error) {
+    console.error("Cleanup stale uploads error:", error);
+  }
+}
+
+export async function registerUploadsRoutes(app: Express): Promise<void> {
+  ensureUploadDirs();
+
+  // Cleanup abandoned uploads every hour
+  cleanupStaleUploads();
+  setInterval(cleanupStaleUploads, 60 * 60 * 1000);
+
+  // Load an upload session and make sure it belongs to the current user
+  const getOwnSession = async (req: any, res: any) => {
+    const session = await storage.getUploadSession(req.params.uploadId);
+    if (
+      !session ||
+      session.galleryId !== req.params.galleryId ||
+      session.userId !== req.user.userId
+    ) {
+      res.status(404).json({ error: "Upload nicht gefunden" });
+      return undefined;
+    }
+    return session;
+  };
+
+  // List unfinished uploads of the current user (used to resume after a reload)
+  app.get(
+    "/api/galleries/:galleryId/uploads",
+    authenticateJWT,
+    requireStaff,
+    requireGalleryPermission("upload"),
+    async (req: any, res) => {
+      try {
+        const sessions = await storage.getUploadSessions(
+          req.params.galleryId,
+          req.user.userId,
+        );
+        res.json(
+          sessions.map((session) =>
+            toUploadResponse(session, getReceivedBytes(session.id)),
+          ),
+        );
+      } catch (error) {
+        console.error("Get uploads error:", error);
+        res.status(500).json({ error: "Fehler beim Laden der Uploads" });
+      }
+    },
+  );
+
+  // Create an upload session - or return the existing one for the same file
+  app.post(
+    "/api/galleries/:galleryId/uploads",
+    authenticateJWT,
+    requireStaff,
+    requireGalleryPermission("upload"),
+    async (req: any, res) => {
+      try {
+        const { fingerprint, filename, size, mimeType, alt } = req.body;
+
+        if (!fingerprint || !filename || !mimeType || !Number.isInteger(size) || size <= 0) {
+          return res.status(400).json({ error: "Ungültige Upload-Daten" });
+        }
+
+        if (!isAllowedImage(filename, mimeType)) {
+          return res
+            .status(400)
+            .json({ error: "Nur Bilddateien sind erlaubt (JPEG, PNG, GIF, WebP)" });
+        }
+
+        if (size > MAX_FILE_SIZE) {
+          return res.status(413).json({ error: "Datei ist zu groß" });
+        }
+
+        const gallery = await storage.getGallery(req.params.galleryId);
+        if (!gallery) {
+          return res.status(404).json({ error: "Galerie nicht gefunden" });
+        }
+
+        const existing = await storage.getUploadSessionByFingerprint(
+          req.params.galleryId,
+          req.user.userId,
+          fingerprint,
+        );
+        if (existing) {
+          return res.json(toUploadResponse(existing, getReceivedBytes(existing.id)));
+        }
+
+        const session = await storage.createUploadSession({
+          galleryId: req.params.galleryId,
+          userId: req.user.userId,
+          fingerprint,
+          originalName: filename,
+          alt: alt || filename,
+          mimeType,
+          size,
+        });
+
+        res.status(201).json(toUploadResponse(session, 0));
+      } catch (error) {
+        console.error("Create upload error:", error);
+        res.status(500).json({ error: "Fehler beim Starten des Uploads" });
+      }
+    },
+  );
+
+  app.get(
+    "/api/galleries/:galleryId/uploads/:uploadId",
+    authenticateJWT,
+    requireStaff,
+    requireGalleryPermission("upload"),
+    async (req: any, res) => {
+      try {
+        const session = await getOwnSession(req, res);
+        if (!session) return;
+
+        res.json(toUploadResponse(session, getReceivedBytes(session.id)));
+      } catch (error) {
+        console.error("Get upload error:", error);
+        res.status(500).json({ error: "Fehler beim Laden des Uploads" });
+      }
+    },
+  );
+
+  // Append a chunk. The client has to send the offset it thinks the server
+  // is at - on mismatch we answer 409 with the real offset.
+  app.patch(
+    "/api/galleries/:galleryId/uploads/:uploadId",
+    authenticateJWT,
+    requireStaff,
+    requireGalleryPermission("upload"),
+    express.raw({ type: "application/offset+octet-stream", limit: MAX_CHUNK_SIZE }),
+    async (req: any, res) => {
+      try {
+        const session = await getOwnSession(req, res);
+        if (!session) return;
+
+        const claimed = await storage.claimUploadSession(
+          session.id,
+          new Date(Date.now() - WRITING_CLAIM_AGE),
+        );
+        if (!claimed) {
+          return res.status(409).json({
+            error: "Für diesen Upload wird bereits ein Teil übertragen",
+            offset: getReceivedBytes(session.id),
+          });
+        }
+
+        try {
+          const clientOffset = parseInt(req.headers["upload-offset"], 10);
+          const offset = getReceivedBytes(session.id);
+
+          if (isNaN(clientOffset) || clientOffset !== offset) {
+            return res
+              .status(409)
+              .json({ error: "Upload-Offset stimmt nicht überein", offset });
+          }
+
+          if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+            return res.status(400).json({ error: "Keine Daten empfangen", offset });
+          }
+
+          if (offset + req.body.length > session.size) {
+            return res
+              .status(400)
+              .json({ error: "Daten überschreiten die Dateigröße", offset });
+          }
+
+          await fs.promises.appendFile(getPartPath(session.id), req.body);
+          const newOffset = offset + req.body.length;
+          await storage.updateUploadSessionOffset(session.id, newOffset);
+
+          if (newOffset < session.size) {
+            return res.json({ offset: newOffset, completed: false });
+          }
+
+          // Upload complete - move file into the gallery and hand over to the
+          // normal thumbnail pipeline
+          const galleryDir = `uploads/galleries/${session.galleryId}`;
+          if (!fs.existsSync(galleryDir)) {
+            fs.mkdirSync(galleryDir, { recursive: true });
+          }
+          const filename = `${randomUUID()}${path.extname(session.originalName)}`;
+          const filePath = path.join(galleryDir, filename);
+          fs.renameSync(getPartPath(session.id), filePath);
+
+          const photo = await createPhotoWithThumbnailJob({
+            filename,
+            originalName: session.originalName,
+            alt: session.alt,
+            galleryId: session.galleryId,
+            filePath,
+          });
+          await storage.deleteUploadSession(session.id);
+
+          res.status(201).json({ offset: newOffset, completed: true, photo });
+        } finally {
+          await storage.releaseUploadSession(session.id);
+        }
+      } catch (error) {
+        console.error("Upload chunk error:", error);
+        res.status(500).json({ error: "Fehler beim Hochladen des Fotos" });
+      }
+    },
+  );
+
+  app.delete(
+    "/api/galleries/:galleryId/uploads/:uploadId",
+    authenticateJWT,
+    requireStaff,
+    requireGalleryPermission("upload"),
+    async (req: any, res) => {
+      try {
+        const session = await getOwnSession(req, res);
+        if (!session) return;
+
+        const partPath = getPartPath(session.id);
+        if (fs.existsSync(partPath)) {
+          fs.unlinkSync(partPath);
+        }
+        await storage.deleteUploadSession(session.id);
+
+        res.status(204).send();
+      } catch (error) {
+        console.error("Delete upload error:", error);
+        res.status(500).json({ error: "Fehler beim Abbrechen des Uploads" });
+      }
+    },
+  );
+}
@@ -9,6 +9,7 @@ import {
   insertPhotoLikeSchema,
   insertCommentSchema,
   insertNotificationSchema,
+  USER_ROLES,
 } from "@shared/schema";
 import { z } from "zod";
 import multer from "multer";
@@ -29,12 +30,18 @@ import {
 } from "../shared/schema";
 import { eq, desc, and } from "drizzle-orm";
 import bcrypt from "bcrypt";
-import { authenticateJWT, requireAdmin, requireAdminOrCreator } from "./auth";
+import {
+  authenticateJWT,
+  requireAdmin,
+  requireAdminOrCreator,
+  requireStaff,
+} from "./auth";
 import { db } from "./storage";
 import { sendPasswordResetEmail } from "./mailer";
 import crypto from "crypto";
 import { checkInitialSetup, createInitialAdmin, configureSmtp } from "./setup";
 import { upload, ensureUploadDirs } from "./upload";
+import { recordAuditEvent } from "./audit";
 
 export async function registerUsersRoutes(app: Express): Promise<void> {
   app.get(
@@ -64,6 +71,10 @@ export async function registerUsersRoutes(app: Express): Promise<void> {
           .json({ error: "Name, E-Mail und Passwort sind erforderlich" });
       }
 
+      if (role && !USER_ROLES.includes(role)) {
+        return res.status(400).json({ error: "Ungültige Rolle" });
+      }
+
       const existingUser = await storage.getUserByName(name);
       if (existingUser) {
         return res.status(400).json({ error: "Name wird bereits verwendet" });
@@ -82,6 +93,14 @@ export async function registerUsersRoutes(app: Express): Promise<void> {
         role: role || "User",
       });
 
+      await recordAuditEvent(req, {
+        action: "user.create",
+        targetType: "user",
+        targetId: user.id,
+        targetName: user.name,
+        after: { name: user.name, email: user.email, role: user.role },
+      });
+
       // Omit password from response
       const { password: _, ...userWithoutPassword } = user;
       res.status(201).json(userWithoutPassword);
@@ -95,6 +114,10 @@ export async function registerUsersRoutes(app: Express): Promise<void> {
         return res.status(404).json({ error: "Benutzer nicht gefunden" });
       }
 
+      if (role && !USER_ROLES.includes(role)) {
+        return res.status(400).json({ error: "Ungültige Rolle" });
+      }
+
       // Trim all string fields
       const trimmedName = name?.trim();
       const trimmedEmail = email?.trim().toLowerCase();
@@ -134,6 +157,19 @@ export async function registerUsersRoutes(app: Express): Promise<void> {
       // Only update if there are actual changes
       if (Object.keys(updates).length > 0) {
         await storage.updateUser(id, updates);
+        await recordAuditEvent(req, {
+          action: "user.update",
+          targetType: "user",
+          targetId: id,
+          targetName: updates.name || user.name,
+          before: user,
+          after: updates,
+        });
+      }
+
+      // Nach einem neuen Passwort muss sich der Benutzer überall neu anmelden
+      if (updates.password) {
+        await storage.revokeUserSessions(id);
       }
 
       res.status(200).json({ message: "Benutzer erfolgreich aktualisiert" });
@@ -152,12 +188,20 @@ export async function registerUsersRoutes(app: Express): Promise<void> {
 
         // Delete user and all associated gallery assignments
         await storage.deleteUser(id);
+        await recordAuditEvent(req, {
+          action: "user.delete",
+          targetType: "user",
+          targetId: id,
+          targetName: user.name,
+          before: { name: user.name, email: user.email, role: user.role },
+        });
         res.json({ message: "Benutzer erfolgreich gelöscht" });
       },
     )
   app.get(
       "/api/users/:userId/assigned-galleries",
       authenticateJWT,
+      requireStaff,
       async (req: any, res) => {
         try {
           const { userId } = req.params;
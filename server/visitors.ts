@@ -0,0 +1,138 @@
+import type { Request, Response } from "express";
+import { storage } from "./storage";
+import { getAssignedClient } from "./clients";
+import { MAX_GALLERY_DEPTH } from "./galleryPermissions";
+import type { GalleryVisitor, VisitorPick } from "@shared/schema";
+
+const VISITOR_COOKIE_PREFIX = "gallery_visitor_";
+const VISITOR_COOKIE_MAX_AGE = 365 * 24 * 60 * 60 * 1000; // 1 Jahr
+
+// Visitors are shared between a gallery and all of its sub-galleries
+export async function getRootGalleryId(galleryId: string): Promise<string> {
+  let rootGalleryId = galleryId;
+  for (let depth = 0; depth < MAX_GALLERY_DEPTH; depth++) {
+    const gallery = await storage.getGallery(rootGalleryId);
+    if (!gallery?.parentId) break;
+    rootGalleryId = gallery.parentId;
+  }
+  return rootGalleryId;
+}
+
+// Resolves the visitor from the signed cookie of the (root) gallery. Assigned
+// clients are always their own visitor, on every device.
+export async function getVisitor(
+  req: Request,
+  galleryId: string,
+): Promise<GalleryVisitor | undefined> {
+  const rootGalleryId = await getRootGalleryId(galleryId);
+  const client = await getAssignedClient(req, rootGalleryId);
+  if (client) {
+    return storage.getGalleryVisitorByUserId(rootGalleryId, client.userId);
+  }
+
+  const visitorId = req.signedCookies?.[VISITOR_COOKIE_PREFIX + rootGalleryId];
+  if (!visitorId) return undefined;
+
+  const visitor = await storage.getGalleryVisitor(visitorId);
+  return visitor?.galleryId === rootGalleryId ? visitor : undefined;
+}
+
+// Visitor of an assigned client, created with the account's name on the
+// first visit so the client doesn't have to introduce themselves
+export async function getOrCreateClientVisitor(
+  req: Request,
+  galleryId: string,
+): Promise<GalleryVisitor | undefined> {
+  const rootGalleryId = await getRootGalleryId(galleryId);
+  const client = await getAssignedClient(req, rootGalleryId);
+  if (!client) return undefined;
+
+  const visitor = await storage.getGalleryVisitorByUserId(
+    rootGalleryId,
+    client.userId,
+  );
+  if (visitor) return visitor;
+
+  const user = await storage.getUser(client.userId);
+  if (!user) return undefined;
+
+  return storage.createGalleryVisitor({
+    galleryId: rootGalleryId,
+    name: user.name,
+    email: user.email,
+    userId: user.id,
+  });
+}
+
+export function setVisitorCookie(res: Response, visitor: GalleryVisitor) {
+  res.cookie(VISITOR_COOKIE_PREFIX + visitor.galleryId, visitor.id, {
+    httpOnly: true,
+    signed: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    maxAge: VISITOR_COOKIE_MAX_AGE,
+  });
+}
+
+// Replaces rating, like and selection of the photos with the visitor's own
+// picks - visitors never see each other's or the photographer's choices
+export async function withVisitorPicks<T extends { id: string }>(
+  photos: T[],
+  visitor: GalleryVisitor | undefined,
+): Promise<(T & { rating: number; isLiked: boolean; isSelected: boolean })[]> {
+  const picks = visitor
+    ? await storage.getVisitorPicks(
+        visitor.id,
+        photos.map((photo) => photo.id),
+      )
+    : [];
+  const picksByPhoto = new Map<string, VisitorPick>(
+    picks.map((pick) => [pick.photoId, pick]),
+  );
+
+  return photos.map((photo) => {
+    const pick = picksByPhoto.get(photo.id);
+    return {
+      ...photo,
+      rating: pick?.rating ?? 0,
+      isLiked: pick?.isLiked ?? false,
+      isSelected: pick?.isSelected ?? false,
+    };
+  });
+}
+
+// Keeps only the photos of the given top-level gallery and its sub-galleries
+export async function filterPhotosByRootGallery<T extends { galleryId: string }>(
+  photos: T[],
+  rootGalleryId: string,
+): Promise<T[]> {
+  const rootGalleryIds = new Map<string, string>();
+  for (const photo of photos) {
+    if (!rootGalleryIds.has(photo.galleryId)) {
+      rootGalleryIds.set(photo.galleryId, await getRootGalleryId(photo.galleryId));
+    }
+  }
+
+  return photos.filter(
+    (photo) => rootGalleryIds.get(photo.galleryId) === rootGalleryId,
+  );
+}
+
+// Loads the photos together with the visitor of their gallery. Photos from
+// galleries the visitor doesn't belong to are dropped.
+export async function getVisitorForPhotos(req: Request, photoIds: string[]) {
+  const photos = await storage.getPhotosByIds(photoIds);
+  if (photos.length === 0) {
+    return { visitor: undefined, photos };
+  }
+
+  const visitor = await getVisitor(req, photos[0].galleryId);
+  if (!visitor) {
+    return { visitor, photos };
+  }
+
+  return {
+    visitor,
+    photos: await filterPhotosByRootGallery(photos, visitor.galleryId),
+  };
+}
@@ -7,6 +7,9 @@ import {
   boolean,
   timestamp,
   uuid,
+  jsonb,
+  real,
+  unique,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -19,7 +22,84 @@ export const users = pgTable("users", {
   name: text("name").notNull().unique(),
   email: text("email").notNull().unique(),
   password: text("password").notNull(),
-  role: text("role").notNull().default("User"), // "Admin" or "User"
+  role: text("role").notNull().default("User"), // see USER_ROLES
+  oidcSubject: text("oidc_subject").unique(), // "sub" claim of the identity provider, linked on the first single sign-on
+});
+
+// TOTP second factor of a user. Kept out of the users table so the secret
+// never ends up in a user object sent to a client.
+export const userTwoFactor = pgTable("user_two_factor", {
+  userId: uuid("user_id")
+    .primaryKey()
+    .references(() => users.id, { onDelete: "cascade" }),
+  secret: text("secret").notNull(), // Base32, as entered into the authenticator app
+  enabledAt: timestamp("enabled_at"), // Null while the enrollment isn't confirmed
+  recoveryCodes: jsonb("recovery_codes").$type<string[]>().notNull().default([]), // SHA-256 hashes of the unused codes
+  lastUsedStep: integer("last_used_step"), // Codes of this time step or older are rejected
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Login session of a user. Access tokens are short-lived and name their
+// session, the refresh token (only its hash is stored) rotates on every use.
+export const sessions = pgTable("sessions", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: uuid("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  refreshTokenHash: text("refresh_token_hash").notNull().unique(),
+  previousRefreshTokenHash: text("previous_refresh_token_hash"), // Still accepted briefly after a rotation
+  rotatedAt: timestamp("rotated_at"),
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").defaultNow(),
+  lastSeenAt: timestamp("last_seen_at").defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+});
+
+// Personal access tokens for scripts, sent as "Authorization: Bearer fst_..."
+export const apiTokens = pgTable("api_tokens", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: uuid("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull().unique(), // SHA-256, the token itself is only shown once
+  tokenPrefix: text("token_prefix").notNull(), // Start of the token, to recognize it in the list
+  scopes: jsonb("scopes").$type<string[]>().notNull().default([]), // see API_TOKEN_SCOPES
+  expiresAt: timestamp("expires_at"), // Null = never expires
+  lastUsedAt: timestamp("last_used_at"),
+  lastUsedIp: text("last_used_ip"),
+  createdAt: timestamp("created_at").defaultNow(),
+  revokedAt: timestamp("revoked_at"),
+});
+
+// Pending invitations - the user is only created once the invitee has set a password
+export const userInvitations = pgTable("user_invitations", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  name: text("name").notNull(),
+  email: text("email").notNull().unique(),
+  role: text("role").notNull().default("User"), // see USER_ROLES
+  tokenHash: text("token_hash").notNull().unique(), // SHA-256, the token is only part of the email
+  invitedBy: uuid("invited_by").references(() => users.id, { onDelete: "set null" }),
+  expiresAt: timestamp("expires_at").notNull(),
+  lastSentAt: timestamp("last_sent_at").defaultNow(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Administrative and security-relevant actions, see server/audit.ts
+export const auditEvents = pgTable("audit_events", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  actorId: uuid("actor_id").references(() => users.id, { onDelete: "set null" }),
+  actorName: text("actor_name"), // Kept when the user is deleted, null for visitors and failed logins
+  action: text("action").notNull(), // "<area>.<verb>", e.g. "gallery.delete"
+  targetType: text("target_type"), // e.g. "user", "gallery", "settings"
+  targetId: text("target_id"),
+  targetName: text("target_name"),
+  ipAddress: text("ip_address"),
+  changes: jsonb("changes").$type<Record<string, { from: unknown; to: unknown }>>(), // Changed fields only, secrets masked
+  details: jsonb("details").$type<Record<string, unknown>>(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 export const galleries = pgTable("galleries", {
@@ -31,7 +111,15 @@ export const galleries = pgTable("galleries", {
   parentId: uuid("parent_id").references(() => galleries.id, { onDelete: "cascade" }),
   password: text("password"), // Optional password for public access
   allowDownload: boolean("allow_download").default(true), // Allow downloads for public galleries
+  sortMode: text("sort_mode").notNull().default("uploadedAt"), // 'capturedAt', 'filename', 'uploadedAt', 'manual'
   createdAt: timestamp("created_at").defaultNow(),
+  deletedAt: timestamp("deleted_at"), // In the trash, sub-galleries deleted along share the timestamp
+  expiresAt: timestamp("expires_at"), // Public access ends afterwards, set on top-level galleries only
+  expiryReminderSentAt: timestamp("expiry_reminder_sent_at"), // Reset when the expiry is changed
+  archivedAt: timestamp("archived_at"), // Expired and derivatives removed, regenerated when extended
+  status: text("status").notNull().default("draft"), // see GALLERY_STATUSES, set on top-level galleries only
+  statusChangedAt: timestamp("status_changed_at").defaultNow(),
+  finalsDownload: boolean("finals_download").notNull().default(true), // Finals downloadable where the access allows original downloads
 });
 
 export const photos = pgTable("photos", {
@@ -46,7 +134,31 @@ export const photos = pgTable("photos", {
     .references(() => galleries.id, { onDelete: "cascade" })
     .notNull(),
   rating: integer("rating").default(0), // Single rating 0-5 stars
+  processingStatus: text("processing_status").notNull().default("ready"), // 'processing', 'ready', 'failed'
+  sortOrder: integer("sort_order").notNull().default(0), // Position within the gallery for manual sorting
   createdAt: timestamp("created_at").defaultNow().notNull(),
+  deletedAt: timestamp("deleted_at"), // In the trash
+});
+
+export const photoMetadata = pgTable("photo_metadata", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  photoId: uuid("photo_id")
+    .notNull()
+    .unique()
+    .references(() => photos.id, { onDelete: "cascade" }),
+  cameraMake: text("camera_make"),
+  cameraModel: text("camera_model"),
+  lens: text("lens"),
+  focalLength: real("focal_length"), // mm
+  aperture: real("aperture"), // f-number
+  exposureTime: real("exposure_time"), // seconds
+  iso: integer("iso"),
+  capturedAt: timestamp("captured_at"),
+  artist: text("artist"),
+  copyright: text("copyright"),
+  width: integer("width"),
+  height: integer("height"),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const photoLikes = pgTable("photo_likes", {
@@ -75,7 +187,7 @@ export const notifications = pgTable("notifications", {
     .references(() => galleries.id, { onDelete: "cascade" }),
   photoId: uuid("photo_id")
     .references(() => photos.id, { onDelete: "cascade" }),
-  type: text("type").notNull(), // 'rating', 'like', 'download', 'comment'
+  type: text("type").notNull(), // 'rating', 'like', 'download', 'comment', 'proofing', 'status'
   message: text("message").notNull(),
   actorName: text("actor_name"), // Name of person who performed the action
   isRead: boolean("is_read").default(false),
@@ -90,6 +202,7 @@ export const galleryAssignments = pgTable("gallery_assignments", {
   userId: uuid("user_id")
     .notNull()
     .references(() => users.id, { onDelete: "cascade" }),
+  permission: text("permission").notNull().default("comment"), // see GALLERY_PERMISSIONS
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -107,6 +220,25 @@ export const systemSettings = pgTable("system_settings", {
   smtpPassword: text("smtp_password"),
   smtpFrom: text("smtp_from"),
   appUrl: text("app_url"),
+  publicMetadataFields: jsonb("public_metadata_fields").$type<string[]>().notNull().default([]), // Metadata fields shown in the public lightbox
+  requireTwoFactor: boolean("require_two_factor").notNull().default(false), // 2FA mandatory for Admin and Creator accounts
+  oidcEnabled: boolean("oidc_enabled").notNull().default(false),
+  oidcProviderName: text("oidc_provider_name"), // Shown on the login button
+  oidcIssuer: text("oidc_issuer"),
+  oidcClientId: text("oidc_client_id"),
+  oidcClientSecret: text("oidc_client_secret"), // Optional, public clients only use PKCE
+  oidcScopes: text("oidc_scopes").notNull().default("openid email profile"),
+  oidcRoleClaim: text("oidc_role_claim"), // e.g. "groups" - without it the role isn't synced
+  oidcAdminRoleValue: text("oidc_admin_role_value"), // Claim value mapped to Admin
+  oidcCreatorRoleValue: text("oidc_creator_role_value"), // Claim value mapped to Creator, everyone else is a User
+  disablePasswordLogin: boolean("disable_password_login").notNull().default(false), // Staff only logs in via OIDC
+  auditRetentionDays: integer("audit_retention_days").notNull().default(365), // Older audit events are purged
+  backupIntervalHours: integer("backup_interval_hours").notNull().default(0), // Scheduled backups, 0 = off
+  backupKeepCount: integer("backup_keep_count").notNull().default(7), // Older backups are deleted, 0 = keep all
+  backupIncludeDerivatives: boolean("backup_include_derivatives").notNull().default(false), // Thumbnails are regenerated otherwise
+  trashRetentionDays: integer("trash_retention_days").notNull().default(30), // Deleted galleries and photos are purged afterwards
+  expiryReminderDays: integer("expiry_reminder_days").notNull().default(14), // Reminder before a gallery expires, 0 = off
+  archiveExpiredGalleries: boolean("archive_expired_galleries").notNull().default(false), // Frees thumbnails of expired galleries
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
@@ -120,12 +252,188 @@ export const passwordResetTokens = pgTable("password_reset_tokens", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const uploadSessions = pgTable("upload_sessions", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  galleryId: uuid("gallery_id")
+    .notNull()
+    .references(() => galleries.id, { onDelete: "cascade" }),
+  userId: uuid("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  fingerprint: text("fingerprint").notNull(), // name-size-lastModified of the client file, used to resume
+  originalName: text("original_name").notNull(),
+  alt: text("alt").notNull(),
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(),
+  offset: integer("offset").notNull().default(0), // Bytes already received
+  writingSince: timestamp("writing_since"), // Set while a chunk is being written, see claimUploadSession
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Guests of a public gallery, identified by a signed cookie.
+// Always belong to the top-level gallery, sub-galleries share them.
+export const galleryVisitors = pgTable("gallery_visitors", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  galleryId: uuid("gallery_id")
+    .notNull()
+    .references(() => galleries.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  email: text("email"),
+  // Client account of the visitor, picks follow the login across devices
+  userId: uuid("user_id").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  lastSeenAt: timestamp("last_seen_at").defaultNow(),
+});
+
+// Rating, like and selection of a single visitor for a photo
+export const visitorPicks = pgTable(
+  "visitor_picks",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    visitorId: uuid("visitor_id")
+      .notNull()
+      .references(() => galleryVisitors.id, { onDelete: "cascade" }),
+    photoId: uuid("photo_id")
+      .notNull()
+      .references(() => photos.id, { onDelete: "cascade" }),
+    rating: integer("rating").notNull().default(0), // 0-5 stars
+    isLiked: boolean("is_liked").notNull().default(false),
+    isSelected: boolean("is_selected").notNull().default(false),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [unique().on(table.visitorId, table.photoId)],
+);
+
+// Edited image delivered for a proof of the same gallery. Matched by the
+// filename stem of the upload, without a match proofId stays empty.
+export const finalPhotos = pgTable("final_photos", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  galleryId: uuid("gallery_id")
+    .notNull()
+    .references(() => galleries.id, { onDelete: "cascade" }),
+  proofId: uuid("proof_id")
+    .unique()
+    .references(() => photos.id, { onDelete: "set null" }),
+  filename: text("filename").notNull(),
+  originalName: text("original_name").notNull(),
+  filePath: text("file_path"),
+  thumbnailPath: text("thumbnail_path"),
+  mediumPath: text("medium_path"),
+  processingStatus: text("processing_status").notNull().default("processing"), // 'processing', 'ready', 'failed'
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Selection round of a gallery, e.g. "first picks" or "album picks"
+export const proofingRounds = pgTable("proofing_rounds", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  galleryId: uuid("gallery_id")
+    .notNull()
+    .references(() => galleries.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  deadline: timestamp("deadline"), // No more changes after the deadline
+  photoLimit: integer("photo_limit"), // Max. number of photos a client may submit
+  status: text("status").notNull().default("open"), // 'open', 'closed'
+  createdAt: timestamp("created_at").defaultNow(),
+  closedAt: timestamp("closed_at"),
+});
+
+// Selection a visitor submitted in a round, kept as snapshot for the history
+export const proofingSubmissions = pgTable(
+  "proofing_submissions",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    roundId: uuid("round_id")
+      .notNull()
+      .references(() => proofingRounds.id, { onDelete: "cascade" }),
+    visitorId: uuid("visitor_id")
+      .notNull()
+      .references(() => galleryVisitors.id, { onDelete: "cascade" }),
+    photoIds: jsonb("photo_ids").$type<string[]>().notNull().default([]),
+    note: text("note"),
+    submittedAt: timestamp("submitted_at").defaultNow(),
+  },
+  (table) => [unique().on(table.roundId, table.visitorId)],
+);
+
+// Access link for a (top-level) gallery. Each link has its own token,
+// optional expiry and password and decides what its holder may do.
+export const shareLinks = pgTable("share_links", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  galleryId: uuid("gallery_id")
+    .notNull()
+    .references(() => galleries.id, { onDelete: "cascade" }),
+  token: text("token").notNull().unique(),
+  label: text("label").notNull(), // e.g. "Brautpaar", "Albumdesigner"
+  password: text("password"), // Optional own password (bcrypt hash)
+  expiresAt: timestamp("expires_at"),
+  canView: boolean("can_view").notNull().default(true),
+  canRate: boolean("can_rate").notNull().default(true), // Ratings, likes and proofing
+  canComment: boolean("can_comment").notNull().default(true),
+  downloadMode: text("download_mode").notNull().default("none"), // 'none', 'web', 'original'
+  createdBy: uuid("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+});
+
+// Failed attempts of a client IP or a target (account, gallery) at a login or
+// password form. Stored in the database so restarts don't reset the counters.
+export const rateLimits = pgTable(
+  "rate_limits",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    scope: text("scope").notNull(), // 'login', 'forgot_password', 'gallery_password', 'two_factor'
+    key: text("key").notNull(), // e.g. 'ip:203.0.113.7', 'account:anna', 'gallery:<id>', 'share_link:<id>'
+    failures: integer("failures").notNull().default(0),
+    blockedUntil: timestamp("blocked_until"), // No further attempts before this time
+    lockedAt: timestamp("locked_at"), // Set when the failures reached the lockout
+    lastFailureAt: timestamp("last_failure_at").defaultNow(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [unique().on(table.scope, table.key)],
+);
+
+export const jobs = pgTable("jobs", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  type: text("type").notNull(), // e.g. 'thumbnails'
+  payload: jsonb("payload").notNull().default({}),
+  status: text("status").notNull().default("pending"), // 'pending', 'running', 'completed', 'failed'
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  lastError: text("last_error"),
+  runAt: timestamp("run_at").defaultNow().notNull(), // Earliest time the job may be picked up
+  lockedAt: timestamp("locked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // ------------------ RELATIONS ------------------
 
 export const usersRelations = relations(users, ({ many }) => ({
   galleries: many(galleries),
 }));
 
+export const userTwoFactorRelations = relations(userTwoFactor, ({ one }) => ({
+  user: one(users, { fields: [userTwoFactor.userId], references: [users.id] }),
+}));
+
+export const sessionsRelations = relations(sessions, ({ one }) => ({
+  user: one(users, { fields: [sessions.userId], references: [users.id] }),
+}));
+
+export const apiTokensRelations = relations(apiTokens, ({ one }) => ({
+  user: one(users, { fields: [apiTokens.userId], references: [users.id] }),
+}));
+
+export const userInvitationsRelations = relations(userInvitations, ({ one }) => ({
+  inviter: one(users, { fields: [userInvitations.invitedBy], references: [users.id] }),
+}));
+
+export const auditEventsRelations = relations(auditEvents, ({ one }) => ({
+  actor: one(users, { fields: [auditEvents.actorId], references: [users.id] }),
+}));
+
 export const galleriesRelations = relations(galleries, ({ one, many }) => ({
   user: one(users, { fields: [galleries.userId], references: [users.id] }),
   photos: many(photos),
@@ -146,6 +454,42 @@ export const photosRelations = relations(photos, ({ one, many }) => ({
   }),
   likes: many(photoLikes),
   comments: many(comments),
+  metadata: one(photoMetadata),
+}));
+
+export const finalPhotosRelations = relations(finalPhotos, ({ one }) => ({
+  gallery: one(galleries, { fields: [finalPhotos.galleryId], references: [galleries.id] }),
+  proof: one(photos, { fields: [finalPhotos.proofId], references: [photos.id] }),
+}));
+
+export const photoMetadataRelations = relations(photoMetadata, ({ one }) => ({
+  photo: one(photos, { fields: [photoMetadata.photoId], references: [photos.id] }),
+}));
+
+export const galleryVisitorsRelations = relations(galleryVisitors, ({ one, many }) => ({
+  gallery: one(galleries, { fields: [galleryVisitors.galleryId], references: [galleries.id] }),
+  user: one(users, { fields: [galleryVisitors.userId], references: [users.id] }),
+  picks: many(visitorPicks),
+}));
+
+export const visitorPicksRelations = relations(visitorPicks, ({ one }) => ({
+  visitor: one(galleryVisitors, { fields: [visitorPicks.visitorId], references: [galleryVisitors.id] }),
+  photo: one(photos, { fields: [visitorPicks.photoId], references: [photos.id] }),
+}));
+
+export const proofingRoundsRelations = relations(proofingRounds, ({ one, many }) => ({
+  gallery: one(galleries, { fields: [proofingRounds.galleryId], references: [galleries.id] }),
+  submissions: many(proofingSubmissions),
+}));
+
+export const proofingSubmissionsRelations = relations(proofingSubmissions, ({ one }) => ({
+  round: one(proofingRounds, { fields: [proofingSubmissions.roundId], references: [proofingRounds.id] }),
+  visitor: one(galleryVisitors, { fields: [proofingSubmissions.visitorId], references: [galleryVisitors.id] }),
+}));
+
+export const shareLinksRelations = relations(shareLinks, ({ one }) => ({
+  gallery: one(galleries, { fields: [shareLinks.galleryId], references: [galleries.id] }),
+  creator: one(users, { fields: [shareLinks.createdBy], references: [users.id] }),
 }));
 
 export const photoLikesRelations = relations(photoLikes, ({ one }) => ({
@@ -179,14 +523,56 @@ export const passwordResetTokensRelations = relations(passwordResetTokens, ({ on
 
 export const insertUserSchema = createInsertSchema(users).omit({ id: true });
 
+export const insertUserTwoFactorSchema = createInsertSchema(userTwoFactor).omit({
+  createdAt: true,
+});
+
+export const insertSessionSchema = createInsertSchema(sessions).omit({
+  id: true,
+  createdAt: true,
+  lastSeenAt: true,
+  revokedAt: true,
+});
+
+export const insertApiTokenSchema = createInsertSchema(apiTokens).omit({
+  id: true,
+  lastUsedAt: true,
+  lastUsedIp: true,
+  createdAt: true,
+  revokedAt: true,
+});
+
+export const insertUserInvitationSchema = createInsertSchema(userInvitations).omit({
+  id: true,
+  lastSentAt: true,
+  createdAt: true,
+});
+
+export const insertAuditEventSchema = createInsertSchema(auditEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertGallerySchema = createInsertSchema(galleries).omit({
   id: true,
   createdAt: true,
+  deletedAt: true,
+  expiresAt: true,
+  expiryReminderSentAt: true,
+  archivedAt: true,
+  status: true,
+  statusChangedAt: true,
 });
 
 export const insertPhotoSchema = createInsertSchema(photos).omit({
   id: true,
   createdAt: true,
+  deletedAt: true,
+});
+
+export const insertPhotoMetadataSchema = createInsertSchema(photoMetadata).omit({
+  id: true,
+  createdAt: true,
 });
 
 export const insertPhotoLikeSchema = createInsertSchema(photoLikes).omit({
@@ -208,6 +594,57 @@ export const insertGalleryAssignmentSchema = createInsertSchema(galleryAssignmen
   createdAt: true,
 });
 
+export const insertUploadSessionSchema = createInsertSchema(uploadSessions).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertGalleryVisitorSchema = createInsertSchema(galleryVisitors).omit({
+  id: true,
+  createdAt: true,
+  lastSeenAt: true,
+});
+
+export const insertVisitorPickSchema = createInsertSchema(visitorPicks).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export const insertFinalPhotoSchema = createInsertSchema(finalPhotos).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertProofingRoundSchema = createInsertSchema(proofingRounds).omit({
+  id: true,
+  createdAt: true,
+  closedAt: true,
+});
+
+export const insertProofingSubmissionSchema = createInsertSchema(proofingSubmissions).omit({
+  id: true,
+  submittedAt: true,
+});
+
+export const insertShareLinkSchema = createInsertSchema(shareLinks).omit({
+  id: true,
+  createdAt: true,
+  lastUsedAt: true,
+  revokedAt: true,
+});
+
+export const insertRateLimitSchema = createInsertSchema(rateLimits).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertJobSchema = createInsertSchema(jobs).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertBrandingSettingsSchema = createInsertSchema(brandingSettings).omit({
   id: true,
   updatedAt: true,
@@ -218,12 +655,93 @@ export const insertBrandingSettingsSchema = createInsertSchema(brandingSettings)
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+// Clients only see the galleries assigned to them, in the client portal
+export const USER_ROLES = ["Admin", "Creator", "User", "Client"] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
+export type InsertUserTwoFactor = z.infer<typeof insertUserTwoFactorSchema>;
+export type UserTwoFactor = typeof userTwoFactor.$inferSelect;
+
+export type SystemSettings = typeof systemSettings.$inferSelect;
+
+// Roles the 2FA policy in the system settings applies to
+export const TWO_FACTOR_POLICY_ROLES = ["Admin", "Creator"] as const;
+
+export type InsertSession = z.infer<typeof insertSessionSchema>;
+export type Session = typeof sessions.$inferSelect;
+
+export type InsertApiToken = z.infer<typeof insertApiTokenSchema>;
+export type ApiToken = typeof apiTokens.$inferSelect;
+
+// "read": galleries, photos and downloads, "upload": photo uploads,
+// "manage": all other changes to galleries and photos
+export const API_TOKEN_SCOPES = ["read", "upload", "manage"] as const;
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
+
+export type InsertUserInvitation = z.infer<typeof insertUserInvitationSchema>;
+export type UserInvitation = typeof userInvitations.$inferSelect;
+
+export type InsertAuditEvent = z.infer<typeof insertAuditEventSchema>;
+export type AuditEvent = typeof auditEvents.$inferSelect;
+
+// Areas of audit actions, the part before the dot
+export const AUDIT_CATEGORIES = ["user", "gallery", "assignment", "settings", "auth", "download"] as const;
+export type AuditCategory = (typeof AUDIT_CATEGORIES)[number];
+
 export type InsertGallery = z.infer<typeof insertGallerySchema>;
 export type Gallery = typeof galleries.$inferSelect;
 
+// Default photo order of a gallery
+export const GALLERY_SORT_MODES = [
+  "capturedAt",
+  "filename",
+  "uploadedAt",
+  "manual",
+] as const;
+export type GallerySortMode = (typeof GALLERY_SORT_MODES)[number];
+
+// Where the job of a gallery stands. Drafts aren't reachable publicly.
+export const GALLERY_STATUSES = [
+  "draft",
+  "shared",
+  "selecting",
+  "editing",
+  "delivered",
+  "archived",
+] as const;
+export type GalleryStatus = (typeof GALLERY_STATUSES)[number];
+
+// Statuses a gallery can be moved to from its current one
+export const GALLERY_STATUS_TRANSITIONS: Record<GalleryStatus, GalleryStatus[]> = {
+  draft: ["shared", "archived"],
+  shared: ["draft", "selecting", "editing", "archived"],
+  selecting: ["shared", "editing", "archived"],
+  editing: ["selecting", "delivered", "archived"],
+  delivered: ["editing", "archived"],
+  archived: ["shared", "delivered"],
+};
+
 export type InsertPhoto = z.infer<typeof insertPhotoSchema>;
 export type Photo = typeof photos.$inferSelect;
 
+export type InsertPhotoMetadata = z.infer<typeof insertPhotoMetadataSchema>;
+export type PhotoMetadata = typeof photoMetadata.$inferSelect;
+
+// Metadata fields an admin can release for the public lightbox
+export const PHOTO_METADATA_FIELDS = [
+  "camera",
+  "lens",
+  "focalLength",
+  "aperture",
+  "exposureTime",
+  "iso",
+  "capturedAt",
+  "artist",
+  "copyright",
+  "dimensions",
+] as const;
+export type PhotoMetadataField = (typeof PHOTO_METADATA_FIELDS)[number];
+
 export type InsertPhotoLike = z.infer<typeof insertPhotoLikeSchema>;
 export type PhotoLike = typeof photoLikes.$inferSelect;
 
@@ -236,6 +754,50 @@ export type Notification = typeof notifications.$inferSelect;
 export type InsertGalleryAssignment = z.infer<typeof insertGalleryAssignmentSchema>;
 export type GalleryAssignment = typeof galleryAssignments.$inferSelect;
 
+// Permission levels of a gallery assignment, each one includes the previous
+export const GALLERY_PERMISSIONS = ["view", "comment", "upload", "manage"] as const;
+export type GalleryPermission = (typeof GALLERY_PERMISSIONS)[number];
+
+export type InsertUploadSession = z.infer<typeof insertUploadSessionSchema>;
+export type UploadSession = typeof uploadSessions.$inferSelect;
+
+export type InsertGalleryVisitor = z.infer<typeof insertGalleryVisitorSchema>;
+export type GalleryVisitor = typeof galleryVisitors.$inferSelect;
+
+export type InsertVisitorPick = z.infer<typeof insertVisitorPickSchema>;
+export type VisitorPick = typeof visitorPicks.$inferSelect;
+
+export type InsertFinalPhoto = z.infer<typeof insertFinalPhotoSchema>;
+export type FinalPhoto = typeof finalPhotos.$inferSelect;
+
+export type InsertProofingRound = z.infer<typeof insertProofingRoundSchema>;
+export type ProofingRound = typeof proofingRounds.$inferSelect;
+
+export type InsertProofingSubmission = z.infer<typeof insertProofingSubmissionSchema>;
+export type ProofingSubmission = typeof proofingSubmissions.$inferSelect;
+
+export type InsertShareLink = z.infer<typeof insertShareLinkSchema>;
+export type ShareLink = typeof shareLinks.$inferSelect;
+
+// Which files the holder of a share link may download
+export const SHARE_LINK_DOWNLOAD_MODES = ["none", "web", "original"] as const;
+export type ShareLinkDownloadMode = (typeof SHARE_LINK_DOWNLOAD_MODES)[number];
+
+export type InsertRateLimit = z.infer<typeof insertRateLimitSchema>;
+export type RateLimit = typeof rateLimits.$inferSelect;
+
+// Forms protected against brute force
+export const RATE_LIMIT_SCOPES = [
+  "login",
+  "forgot_password",
+  "gallery_password",
+  "two_factor",
+] as const;
+export type RateLimitScope = (typeof RATE_LIMIT_SCOPES)[number];
+
+export type InsertJob = z.infer<typeof insertJobSchema>;
+export type Job = typeof jobs.$inferSelect;
+
 export type InsertBrandingSettings = z.infer<typeof insertBrandingSettingsSchema>;
 export type BrandingSettings = typeof brandingSettings.$inferSelect;
 
@@ -0,0 +1,18 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(process.cwd(), "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts"],
+    setupFiles: ["server/testSetup.ts"],
+    environment: "node",
+    // Child processes instead of worker threads, tests may change the working
+    // directory that uploads are relative to
+    pool: "forks",
+  },
+});